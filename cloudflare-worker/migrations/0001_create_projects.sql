@@ -0,0 +1,19 @@
+-- Migration number: 0001
+-- Remodel projects and their headline budget figures (amounts in integer cents)
+
+CREATE TABLE projects (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  budget_cents INTEGER NOT NULL CHECK (budget_cents >= 0),
+  spent_cents INTEGER NOT NULL DEFAULT 0 CHECK (spent_cents >= 0),
+  status TEXT NOT NULL DEFAULT 'planning' CHECK (status IN ('planning', 'in_progress', 'complete')),
+  start_date TEXT,
+  target_date TEXT,
+  address TEXT,
+  room TEXT,
+  archived_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_projects_archived_at ON projects (archived_at);
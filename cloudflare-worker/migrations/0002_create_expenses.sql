@@ -0,0 +1,22 @@
+-- Migration number: 0002
+-- Line-item expense ledger. Project spend is now derived from the ledger, so the
+-- stored projects.spent_cents column is dropped.
+
+CREATE TABLE expenses (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+  expense_date TEXT NOT NULL,
+  vendor TEXT NOT NULL,
+  category TEXT NOT NULL,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  payment_method TEXT CHECK (payment_method IN ('cash', 'check', 'credit_card', 'debit_card', 'bank_transfer', 'financing', 'other')),
+  notes TEXT,
+  paid INTEGER NOT NULL DEFAULT 0 CHECK (paid IN (0, 1)),
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_expenses_project_date ON expenses (project_id, expense_date);
+CREATE INDEX idx_expenses_project_category ON expenses (project_id, category);
+
+ALTER TABLE projects DROP COLUMN spent_cents;
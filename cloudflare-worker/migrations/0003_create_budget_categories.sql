@@ -0,0 +1,43 @@
+-- Migration number: 0003
+-- Budget categories with per-category allocations (amounts in integer cents).
+-- Existing projects are backfilled with the default remodel template
+-- (see src/worker/category-template.ts); contingency absorbs rounding.
+
+CREATE TABLE budget_categories (
+  project_id TEXT NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  allocated_cents INTEGER NOT NULL DEFAULT 0 CHECK (allocated_cents >= 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (project_id, key)
+);
+
+INSERT INTO budget_categories (project_id, key, name, allocated_cents, sort_order, created_at, updated_at)
+WITH template (key, name, percent, sort_order) AS (
+  VALUES
+    ('demolition', 'Demolition', 8, 0),
+    ('electrical', 'Electrical', 12, 1),
+    ('plumbing', 'Plumbing', 12, 2),
+    ('cabinets', 'Cabinets', 28, 3),
+    ('finishes', 'Finishes', 22, 4),
+    ('permits', 'Permits', 3, 5),
+    ('contingency', 'Contingency', 15, 6)
+)
+SELECT p.id, t.key, t.name,
+       CASE WHEN t.key = 'contingency'
+            THEN p.budget_cents - (
+              SELECT SUM(p.budget_cents * o.percent / 100) FROM template o WHERE o.key <> 'contingency'
+            )
+            ELSE p.budget_cents * t.percent / 100
+       END,
+       t.sort_order, p.created_at, p.created_at
+FROM projects p
+CROSS JOIN template t;
+
+-- Expenses recorded before categories existed may use keys outside the template
+INSERT OR IGNORE INTO budget_categories (project_id, key, name, allocated_cents, sort_order, created_at, updated_at)
+SELECT e.project_id, e.category, e.category, 0, 100, MIN(e.created_at), MIN(e.created_at)
+FROM expenses e
+GROUP BY e.project_id, e.category;
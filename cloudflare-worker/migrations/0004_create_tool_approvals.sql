@@ -0,0 +1,18 @@
+-- Migration number: 0004
+-- Pending approvals for destructive agent tools (write_file, commit_changes, push_changes).
+-- The id doubles as the approval token and is only valid for its conversation.
+
+CREATE TABLE tool_approvals (
+  id TEXT PRIMARY KEY,
+  conversation_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  arguments TEXT NOT NULL,
+  description TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'expired')),
+  result TEXT,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  decided_at TEXT
+);
+
+CREATE INDEX idx_tool_approvals_conversation ON tool_approvals (conversation_id, status);
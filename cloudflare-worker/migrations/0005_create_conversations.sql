@@ -0,0 +1,23 @@
+-- Migration number: 0005
+-- Chat conversations stored server-side, scoped to the browser session that created them.
+-- Only user messages and final assistant answers are kept; tool traffic is not.
+
+CREATE TABLE conversations (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_conversations_session ON conversations (session_id, updated_at);
+
+CREATE TABLE conversation_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_conversation_messages_conversation ON conversation_messages (conversation_id, id);
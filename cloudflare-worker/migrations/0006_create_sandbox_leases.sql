@@ -0,0 +1,24 @@
+-- Migration number: 0006
+-- Sandbox workspaces, one per conversation. A lease means the conversation owns a running
+-- sandbox; the number of leases is capped at the container limit. Conversations that find
+-- every sandbox in use wait in sandbox_queue, first come first served.
+
+CREATE TABLE sandbox_leases (
+  conversation_id TEXT PRIMARY KEY,
+  sandbox_id TEXT NOT NULL UNIQUE,
+  acquired_at TEXT NOT NULL,
+  last_used_at TEXT NOT NULL,
+  -- Held while a git-mutating tool runs; expires so a crashed request cannot hold it forever
+  lock_token TEXT,
+  locked_until TEXT
+);
+
+CREATE INDEX idx_sandbox_leases_last_used ON sandbox_leases (last_used_at);
+
+CREATE TABLE sandbox_queue (
+  conversation_id TEXT PRIMARY KEY,
+  requested_at TEXT NOT NULL,
+  last_seen_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_sandbox_queue_requested ON sandbox_queue (requested_at);
@@ -0,0 +1,15 @@
+-- Migration number: 0007
+-- API keys for authentication. Only the SHA-256 hash of a key is stored; the key itself is
+-- shown once when it is created. Signing in with a key issues a signed session cookie.
+
+CREATE TABLE api_keys (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('viewer', 'editor', 'admin')),
+  key_hash TEXT NOT NULL UNIQUE,
+  -- First characters of the key, so users can tell their keys apart
+  key_prefix TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  last_used_at TEXT,
+  revoked_at TEXT
+);
@@ -0,0 +1,19 @@
+-- Migration number: 0008
+-- Model token usage, one row per chat turn. Rows are kept when their conversation is
+-- deleted, so daily budgets and cost reports stay accurate.
+
+CREATE TABLE ai_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  conversation_id TEXT NOT NULL,
+  -- API key of the caller (see api_keys; 'bootstrap-admin' for ADMIN_API_KEY)
+  key_id TEXT NOT NULL,
+  model TEXT NOT NULL,
+  model_calls INTEGER NOT NULL,
+  prompt_tokens INTEGER NOT NULL,
+  completion_tokens INTEGER NOT NULL,
+  total_tokens INTEGER NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_ai_usage_key ON ai_usage (key_id, created_at);
+CREATE INDEX idx_ai_usage_conversation ON ai_usage (conversation_id, created_at);
@@ -0,0 +1,19 @@
+-- Migration number: 0009
+-- Receipts, invoices and permit documents stored in R2 (binding ATTACHMENTS).
+-- Retention: deleting an expense keeps its files on the project, unlinked, because they
+-- are financial records; files are only removed by deleting the attachment or the project.
+
+CREATE TABLE attachments (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+  expense_id TEXT REFERENCES expenses (id) ON DELETE SET NULL,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL CHECK (content_type IN ('application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic')),
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  -- Object key in the R2 bucket
+  storage_key TEXT NOT NULL UNIQUE,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_attachments_project ON attachments (project_id, created_at);
+CREATE INDEX idx_attachments_expense ON attachments (expense_id);
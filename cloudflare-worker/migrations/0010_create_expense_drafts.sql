@@ -0,0 +1,20 @@
+-- Migration number: 0010
+-- Expenses the assistant extracted from an uploaded receipt or invoice. A draft is only
+-- written to the ledger when the user confirms it (possibly edited) in the chat.
+
+CREATE TABLE expense_drafts (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+  attachment_id TEXT NOT NULL REFERENCES attachments (id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'discarded')),
+  -- Extracted fields with their confidence, as JSON (see src/lib/receipts.ts)
+  extraction TEXT NOT NULL,
+  model TEXT NOT NULL,
+  -- Expense written when the draft was confirmed
+  expense_id TEXT REFERENCES expenses (id) ON DELETE SET NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_expense_drafts_project ON expense_drafts (project_id, created_at);
+CREATE INDEX idx_expense_drafts_attachment ON expense_drafts (attachment_id);
@@ -0,0 +1,63 @@
+-- Migration number: 0011
+-- Bank and credit-card statement imports. An uploaded statement becomes a pending batch
+-- that is previewed, row by row, before its accepted rows are written as expenses.
+-- expenses.import_ref identifies the statement transaction an expense came from, so
+-- importing the same statement again is recognised.
+
+ALTER TABLE expenses ADD COLUMN import_ref TEXT;
+
+CREATE INDEX idx_expenses_import_ref ON expenses (project_id, import_ref);
+
+-- Saved CSV column mappings, one per bank or card (columns are header names)
+CREATE TABLE import_mappings (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+  date_column TEXT NOT NULL,
+  description_column TEXT NOT NULL,
+  amount_column TEXT,
+  debit_column TEXT,
+  credit_column TEXT,
+  date_format TEXT NOT NULL CHECK (date_format IN ('YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY')),
+  expenses_are TEXT NOT NULL CHECK (expenses_are IN ('negative', 'positive')),
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  CHECK (amount_column IS NOT NULL OR debit_column IS NOT NULL)
+);
+
+CREATE TABLE import_batches (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('csv', 'ofx')),
+  mapping_id TEXT REFERENCES import_mappings (id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'committed')),
+  -- Incoming transactions (payments, refunds) that were left out
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  -- Lines that could not be read, as JSON [{ rowNumber, message }]
+  parse_errors TEXT NOT NULL DEFAULT '[]',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_import_batches_project ON import_batches (project_id, created_at);
+
+CREATE TABLE import_rows (
+  id TEXT PRIMARY KEY,
+  batch_id TEXT NOT NULL REFERENCES import_batches (id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  import_ref TEXT NOT NULL,
+  expense_date TEXT NOT NULL,
+  vendor TEXT NOT NULL,
+  description TEXT NOT NULL,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  category TEXT,
+  category_source TEXT CHECK (category_source IN ('vendor_rule', 'user')),
+  -- Ledger entry this transaction appears to be already recorded as
+  duplicate_of TEXT REFERENCES expenses (id) ON DELETE SET NULL,
+  duplicate_reason TEXT CHECK (duplicate_reason IN ('same_transaction', 'similar_expense')),
+  decision TEXT NOT NULL CHECK (decision IN ('accept', 'reject')),
+  -- Expense written when the batch was committed
+  expense_id TEXT REFERENCES expenses (id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_import_rows_batch ON import_rows (batch_id, row_number);
@@ -0,0 +1,54 @@
+-- Migration number: 0012
+-- Contractors and their quotes. Vendors are shared by every project. A bid prices one
+-- scope of work (for example "Kitchen cabinets") for one project with itemized lines,
+-- and accepting it commits its total against the budget category it belongs to.
+
+CREATE TABLE vendors (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+  trade TEXT,
+  contact_name TEXT,
+  email TEXT,
+  phone TEXT,
+  license_number TEXT,
+  insurance_expires_on TEXT,
+  notes TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE bids (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+  vendor_id TEXT NOT NULL REFERENCES vendors (id),
+  scope TEXT NOT NULL COLLATE NOCASE,
+  category TEXT NOT NULL,
+  valid_until TEXT,
+  -- What the quote says is and is not part of the price, as JSON string arrays
+  inclusions TEXT NOT NULL DEFAULT '[]',
+  exclusions TEXT NOT NULL DEFAULT '[]',
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+  decided_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_bids_project ON bids (project_id, scope, status);
+-- At most one accepted bid per scope, even when two acceptances race
+CREATE UNIQUE INDEX idx_bids_accepted_scope ON bids (project_id, scope) WHERE status = 'accepted';
+CREATE INDEX idx_bids_vendor ON bids (vendor_id);
+
+CREATE TABLE bid_line_items (
+  id TEXT PRIMARY KEY,
+  bid_id TEXT NOT NULL REFERENCES bids (id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  -- Slug that lines up the same work across competing bids ("haul_away")
+  item TEXT NOT NULL,
+  description TEXT NOT NULL,
+  quantity REAL,
+  unit TEXT,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0)
+);
+
+CREATE INDEX idx_bid_line_items_bid ON bid_line_items (bid_id, position);
@@ -0,0 +1,56 @@
+-- Migration number: 0013
+-- Signed contracts with their payment schedules, and change orders against them.
+-- A contract commits its amount against a budget category. Paying a scheduled payment
+-- records it as a paid expense, linked here. An approved change order adds its cost delta
+-- to the contract and moves the same amount of allocation out of the contingency category,
+-- recorded in contingency_draw_cents.
+
+CREATE TABLE contracts (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+  vendor_id TEXT NOT NULL REFERENCES vendors (id),
+  -- Accepted bid the contract was signed for; its commitment is replaced by the contract's
+  bid_id TEXT UNIQUE REFERENCES bids (id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  category TEXT NOT NULL,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  signed_on TEXT,
+  notes TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_contracts_project ON contracts (project_id, category);
+
+CREATE TABLE contract_payments (
+  id TEXT PRIMARY KEY,
+  contract_id TEXT NOT NULL REFERENCES contracts (id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  description TEXT NOT NULL,
+  due_date TEXT,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  -- The paid expense recorded for the payment, null while it is outstanding
+  expense_id TEXT UNIQUE REFERENCES expenses (id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_contract_payments_contract ON contract_payments (contract_id, position);
+
+CREATE TABLE change_orders (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+  contract_id TEXT NOT NULL REFERENCES contracts (id),
+  -- Numbered 1, 2, 3... per project
+  number INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  reason TEXT NOT NULL CHECK (reason IN ('owner_request', 'design_change', 'unforeseen_condition', 'code_requirement', 'scope_gap', 'other')),
+  cost_delta_cents INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'proposed' CHECK (status IN ('proposed', 'approved', 'rejected')),
+  contingency_draw_cents INTEGER,
+  decided_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  UNIQUE (project_id, number)
+);
+
+CREATE INDEX idx_change_orders_contract ON change_orders (contract_id, status);
@@ -0,0 +1,5 @@
+-- Migration number: 0014
+-- How far along the work in each budget category is, from 0 to 100 percent, for
+-- earned-value forecasting (see src/worker/forecast.ts). Null until someone estimates it.
+
+ALTER TABLE budget_categories ADD COLUMN percent_complete REAL CHECK (percent_complete BETWEEN 0 AND 100);
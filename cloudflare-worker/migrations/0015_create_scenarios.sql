@@ -0,0 +1,45 @@
+-- Migration number: 0015
+-- What-if scenarios: named overlays on a project that leave the real budget alone.
+-- A scenario stores only what it changes. Reading it applies the changes to the project
+-- as it is now, so later changes to the budget show through until the scenario overrides them.
+-- Promoting a scenario writes its changes into the real budget.
+
+CREATE TABLE scenarios (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+  name TEXT NOT NULL COLLATE NOCASE,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'promoted')),
+  promoted_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  UNIQUE (project_id, name)
+);
+
+-- Category changes by key: a new allocation or name, a removal, or a category the project
+-- does not have yet
+CREATE TABLE scenario_categories (
+  scenario_id TEXT NOT NULL REFERENCES scenarios (id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  name TEXT,
+  allocated_cents INTEGER CHECK (allocated_cents >= 0),
+  removed INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (scenario_id, key)
+);
+
+-- Line item changes. With expense_id, a new price for (or the removal of) that expense,
+-- otherwise a line item the scenario adds
+CREATE TABLE scenario_items (
+  id TEXT PRIMARY KEY,
+  scenario_id TEXT NOT NULL REFERENCES scenarios (id) ON DELETE CASCADE,
+  expense_id TEXT REFERENCES expenses (id) ON DELETE CASCADE,
+  expense_date TEXT,
+  vendor TEXT,
+  category TEXT,
+  amount_cents INTEGER CHECK (amount_cents >= 0),
+  notes TEXT,
+  removed INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  UNIQUE (scenario_id, expense_id)
+);
@@ -0,0 +1,10 @@
+-- Migration number: 0016
+-- Conversations belong to the API key that started them instead of an anonymous browser
+-- session, so Bearer-key clients can resume them and keys sharing a browser stay apart.
+-- Earlier conversations have no owner key and are no longer listed.
+
+DROP INDEX idx_conversations_session;
+ALTER TABLE conversations DROP COLUMN session_id;
+-- API key of the owner (see api_keys; 'bootstrap-admin' for ADMIN_API_KEY)
+ALTER TABLE conversations ADD COLUMN key_id TEXT;
+CREATE INDEX idx_conversations_key ON conversations (key_id, updated_at);
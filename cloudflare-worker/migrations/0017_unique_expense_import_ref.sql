@@ -0,0 +1,10 @@
+-- Migration number: 0017
+-- A statement transaction can be recorded as an expense only once per project, so two
+-- commits racing on the same lines cannot both write them. Expenses already written twice
+-- keep their amounts, but only the first of them stays linked to the transaction.
+
+UPDATE expenses SET import_ref = NULL
+WHERE import_ref IS NOT NULL
+  AND rowid NOT IN (SELECT MIN(rowid) FROM expenses WHERE import_ref IS NOT NULL GROUP BY project_id, import_ref);
+DROP INDEX idx_expenses_import_ref;
+CREATE UNIQUE INDEX idx_expenses_import_ref ON expenses (project_id, import_ref) WHERE import_ref IS NOT NULL;
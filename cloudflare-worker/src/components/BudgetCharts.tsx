@@ -0,0 +1,99 @@
+import React from 'react';
+import { formatCents, percentOf, spendingChart, type BudgetCategory, type DailySpend } from '@/lib/budget';
+import { cn } from '@/lib/utils';
+
+interface CategoryChartProps {
+  categories: BudgetCategory[];
+}
+
+/**
+ * One bar per category: the track is the allocation, the fill is the spend (red when over)
+ */
+export function CategoryChart({ categories }: CategoryChartProps) {
+  if (categories.length === 0) {
+    return <p className="text-sm text-muted-foreground">No categories yet.</p>;
+  }
+  // Bars share one scale so allocations can be compared with each other
+  const scale = Math.max(...categories.map((c) => Math.max(c.allocatedCents, c.spentCents)), 1);
+
+  return (
+    <ul className="space-y-3">
+      {categories.map((category) => (
+        <li key={category.key} className="text-sm">
+          <div className="mb-1 flex justify-between gap-2">
+            <span className="font-medium">{category.name}</span>
+            <span className={cn('text-muted-foreground', category.status === 'over' && 'text-red-500')}>
+              {formatCents(category.spentCents, { compact: true })} of {formatCents(category.allocatedCents, { compact: true })}
+            </span>
+          </div>
+          <div className="relative h-3 rounded-full bg-muted">
+            <div
+              className="absolute inset-y-0 left-0 rounded-full border border-primary/40"
+              style={{ width: `${percentOf(category.allocatedCents, scale)}%` }}
+            />
+            <div
+              className={cn(
+                'absolute inset-y-0 left-0 rounded-full',
+                category.status === 'over' ? 'bg-red-500' : category.status === 'at_limit' ? 'bg-amber-500' : 'bg-primary'
+              )}
+              style={{ width: `${percentOf(category.spentCents, scale)}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface SpendingChartProps {
+  daily: DailySpend[];
+  budgetCents: number;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+
+/**
+ * Cumulative spend over time against a dashed budget line
+ */
+export function SpendingChart({ daily, budgetCents }: SpendingChartProps) {
+  if (daily.length === 0) {
+    return <p className="text-sm text-muted-foreground">No expenses recorded yet.</p>;
+  }
+  const chart = spendingChart(daily, budgetCents, CHART_WIDTH, CHART_HEIGHT);
+  const line = chart.points.map((p) => `${p.x},${p.y}`).join(' ');
+  const area = `0,${CHART_HEIGHT} ${line} ${chart.points.at(-1)!.x},${CHART_HEIGHT}`;
+
+  return (
+    <figure>
+      <svg
+        viewBox={`-8 -8 ${CHART_WIDTH + 16} ${CHART_HEIGHT + 16}`}
+        className="h-56 w-full overflow-visible"
+        role="img"
+        aria-label={`Spending over time, ${formatCents(chart.points.at(-1)!.cumulativeCents)} of ${formatCents(budgetCents)}`}
+      >
+        <line
+          x1={0}
+          x2={CHART_WIDTH}
+          y1={chart.budgetY}
+          y2={chart.budgetY}
+          className="stroke-muted-foreground"
+          strokeDasharray="6 4"
+          strokeWidth={1}
+        />
+        <polygon points={area} className="fill-primary/10" />
+        <polyline points={line} fill="none" className="stroke-primary" strokeWidth={2} strokeLinejoin="round" />
+        {chart.points.map((p) => (
+          <circle key={p.date} cx={p.x} cy={p.y} r={3} className="fill-primary">
+            <title>{`${p.date}: ${formatCents(p.cumulativeCents)}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <figcaption className="mt-1 flex justify-between text-xs text-muted-foreground">
+        <span>{chart.firstDate}</span>
+        <span>Budget {formatCents(budgetCents, { compact: true })} (dashed)</span>
+        <span>{chart.lastDate}</span>
+      </figcaption>
+    </figure>
+  );
+}
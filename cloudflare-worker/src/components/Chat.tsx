@@ -2,32 +2,162 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from './ui/card';
 import { ScrollArea } from './ui/scroll-area';
-import { Send, Bot, User } from 'lucide-react';
+import { Send, Bot, User, Loader2, CheckCircle2, XCircle, ShieldAlert, MessageSquarePlus, Trash2, Clock } from 'lucide-react';
+import { DiffView } from './DiffView';
+import { ExpenseDraftCard } from './ExpenseDraftCard';
+import type { DiffFile } from '@/lib/diff';
+import type { ExpenseDraft } from '@/lib/receipts';
+import { parseSseStream } from '@/lib/sse';
+
+interface ToolActivity {
+  id: string;
+  name: string;
+  status: 'running' | 'done' | 'failed';
+  summary?: string;
+  diff?: DiffFile[];
+}
+
+// A write, commit or push the agent is waiting for the user to approve
+interface PendingApproval {
+  id: string;
+  toolName: string;
+  description: string;
+  status: 'pending' | 'approved' | 'rejected' | 'expired';
+  expiresAt: string;
+  deciding?: boolean;
+}
+
+// Every sandbox was in use, so repository tools could not run this turn
+interface QueueStatus {
+  queuePosition: number;
+  retryAfterSeconds: number;
+}
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  tools?: ToolActivity[];
+  approvals?: PendingApproval[];
+  // Expenses read from receipts, waiting to be saved or discarded
+  drafts?: ExpenseDraft[];
+  busy?: QueueStatus;
+}
+
+// A stored conversation as listed by /api/conversations
+interface ConversationSummary {
+  id: string;
+  title: string;
+  messageCount: number;
+  updatedAt: string;
 }
 
 interface ChatProps {
   apiEndpoint?: string;
+  conversationsEndpoint?: string;
+  /** Project the chat is docked next to; the assistant uses it as the default project */
+  projectId?: string;
+  /** Narrow layout for a side panel: no conversation list, full column height */
+  docked?: boolean;
 }
 
-export function Chat({ apiEndpoint = '/api/chat' }: ChatProps) {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      role: 'assistant',
-      content: 'Hello! I\'m your Home Remodel Budget assistant. I can help you manage your budget, update expense categories in your Google Apps Script project, and more. What would you like to do today?',
-      timestamp: new Date(),
-    },
-  ]);
+// The open conversation survives page refreshes
+const CURRENT_CONVERSATION_KEY = 'budget-assistant:conversation';
+
+// The API answers 401 until the user signs in
+function redirectToLogin() {
+  window.location.href = `/login?next=${encodeURIComponent(window.location.pathname)}`;
+}
+
+function greeting(): Message {
+  return {
+    id: 'greeting',
+    role: 'assistant',
+    content: 'Hello! I\'m your Home Remodel Budget assistant. I can help you manage your budget, update expense categories in your Google Apps Script project, and more. What would you like to do today?',
+    timestamp: new Date(),
+  };
+}
+
+export function Chat({
+  apiEndpoint = '/api/chat',
+  conversationsEndpoint = '/api/conversations',
+  projectId,
+  docked = false,
+}: ChatProps) {
+  const [messages, setMessages] = useState<Message[]>(() => [greeting()]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Id of the assistant message currently receiving streamed events
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  // History and approvals are stored under this id; a new chat gets a new one
+  const [conversationId, setConversationId] = useState<string>(() => crypto.randomUUID());
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
   const scrollRef = useRef<HTMLDivElement>(null);
 
+  const loadConversations = async () => {
+    try {
+      const response = await fetch(conversationsEndpoint);
+      if (response.status === 401) {
+        redirectToLogin();
+        return;
+      }
+      if (!response.ok) return;
+      const data = await response.json() as { conversations: ConversationSummary[] };
+      setConversations(data.conversations);
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    }
+  };
+
+  const openConversation = async (id: string) => {
+    try {
+      const response = await fetch(`${conversationsEndpoint}/${id}`);
+      if (!response.ok) {
+        localStorage.removeItem(CURRENT_CONVERSATION_KEY);
+        return;
+      }
+      const data = await response.json() as {
+        messages: { id: number; role: 'user' | 'assistant'; content: string; createdAt: string }[];
+      };
+      setConversationId(id);
+      localStorage.setItem(CURRENT_CONVERSATION_KEY, id);
+      setMessages([
+        greeting(),
+        ...data.messages.map(m => ({
+          id: String(m.id),
+          role: m.role,
+          content: m.content,
+          timestamp: new Date(m.createdAt),
+        })),
+      ]);
+    } catch (error) {
+      console.error('Failed to open conversation:', error);
+    }
+  };
+
+  const startConversation = () => {
+    setConversationId(crypto.randomUUID());
+    localStorage.removeItem(CURRENT_CONVERSATION_KEY);
+    setMessages([greeting()]);
+  };
+
+  const deleteConversation = async (id: string) => {
+    const response = await fetch(`${conversationsEndpoint}/${id}`, { method: 'DELETE' });
+    if (response.ok && id === conversationId) {
+      startConversation();
+    }
+    await loadConversations();
+  };
+
+  useEffect(() => {
+    void loadConversations();
+    const saved = localStorage.getItem(CURRENT_CONVERSATION_KEY);
+    if (saved) {
+      void openConversation(saved);
+    }
+  }, []);
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
@@ -54,29 +184,114 @@ export function Chat({ apiEndpoint = '/api/chat' }: ChatProps) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
         },
+        // Only the new message is sent; the server keeps the history
         body: JSON.stringify({
-          messages: [...messages, userMessage].map(m => ({
-            role: m.role,
-            content: m.content,
-          })),
+          stream: true,
+          conversationId,
+          message: userMessage.content,
+          projectId,
         }),
       });
+      localStorage.setItem(CURRENT_CONVERSATION_KEY, conversationId);
 
-      if (!response.ok) {
+      if (response.status === 401) {
+        redirectToLogin();
+        return;
+      }
+      // Rate limit or daily token budget reached; the server says when to try again
+      if (response.status === 429) {
+        const data = await response.json().catch(() => ({})) as { error?: string };
+        setMessages(prev => [
+          ...prev,
+          {
+            id: crypto.randomUUID(),
+            role: 'assistant',
+            content: data.error || 'Too many requests. Please wait a moment and try again.',
+            timestamp: new Date(),
+          },
+        ]);
+        return;
+      }
+      if (!response.ok || !response.body) {
         throw new Error('Failed to get response');
       }
 
-      const data = await response.json();
-      
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: data.message || data.content || 'I apologize, but I encountered an error processing your request.',
-        timestamp: new Date(),
+      const assistantId = crypto.randomUUID();
+      const updateAssistant = (update: (message: Message) => Message) => {
+        setMessages(prev => prev.map(m => (m.id === assistantId ? update(m) : m)));
       };
 
-      setMessages(prev => [...prev, assistantMessage]);
+      setMessages(prev => [
+        ...prev,
+        { id: assistantId, role: 'assistant', content: '', timestamp: new Date(), tools: [] },
+      ]);
+      setStreamingId(assistantId);
+
+      // Servers without streaming support answer with a single JSON body
+      if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        const data = await response.json() as {
+          message?: string;
+          content?: string;
+          approvals?: PendingApproval[];
+          drafts?: ExpenseDraft[];
+          busy?: QueueStatus | null;
+        };
+        updateAssistant(m => ({
+          ...m,
+          content: data.message || data.content || 'I apologize, but I encountered an error processing your request.',
+          approvals: data.approvals,
+          drafts: data.drafts,
+          busy: data.busy ?? undefined,
+        }));
+        return;
+      }
+
+      for await (const event of parseSseStream(response.body)) {
+        const data = JSON.parse(event.data);
+        switch (event.event) {
+          case 'delta':
+            updateAssistant(m => ({ ...m, content: m.content + data.text }));
+            break;
+          case 'tool_started':
+            updateAssistant(m => ({
+              ...m,
+              tools: [...(m.tools ?? []), { id: data.id, name: data.name, status: 'running' }],
+            }));
+            break;
+          case 'tool_finished':
+            updateAssistant(m => ({
+              ...m,
+              tools: (m.tools ?? []).map(t =>
+                t.id === data.id
+                  ? { ...t, status: data.ok ? 'done' : 'failed', summary: data.summary }
+                  : t
+              ),
+            }));
+            break;
+          case 'diff':
+            updateAssistant(m => ({
+              ...m,
+              tools: (m.tools ?? []).map(t => (t.id === data.id ? { ...t, diff: data.files } : t)),
+            }));
+            break;
+          case 'approval_required':
+            updateAssistant(m => ({ ...m, approvals: [...(m.approvals ?? []), data] }));
+            break;
+          case 'expense_draft':
+            updateAssistant(m => ({ ...m, drafts: [...(m.drafts ?? []), data] }));
+            break;
+          case 'busy':
+            updateAssistant(m => ({ ...m, busy: data }));
+            break;
+          case 'done':
+          case 'error':
+            // The final answer replaces any text streamed during tool steps
+            updateAssistant(m => ({ ...m, content: data.message, timestamp: new Date() }));
+            break;
+        }
+      }
     } catch (error) {
       console.error('Chat error:', error);
       const errorMessage: Message = {
@@ -88,11 +303,104 @@ export function Chat({ apiEndpoint = '/api/chat' }: ChatProps) {
       setMessages(prev => [...prev, errorMessage]);
     } finally {
       setIsLoading(false);
+      setStreamingId(null);
+      void loadConversations();
+    }
+  };
+
+  const updateApproval = (approvalId: string, update: Partial<PendingApproval>) => {
+    setMessages(prev => prev.map(m => ({
+      ...m,
+      approvals: m.approvals?.map(a => (a.id === approvalId ? { ...a, ...update } : a)),
+    })));
+  };
+
+  const handleDecision = async (approval: PendingApproval, decision: 'approve' | 'reject') => {
+    updateApproval(approval.id, { deciding: true });
+    let content: string;
+    try {
+      const response = await fetch(`${apiEndpoint}/approvals/${approval.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversationId, decision }),
+      });
+      const data = await response.json() as {
+        approval?: PendingApproval;
+        message?: string;
+        error?: string;
+      };
+      if (!response.ok) {
+        updateApproval(approval.id, { deciding: false, status: response.status === 410 ? 'expired' : approval.status });
+        content = data.error || 'That approval could not be recorded.';
+      } else {
+        updateApproval(approval.id, { deciding: false, status: data.approval?.status ?? approval.status });
+        content = data.message ?? `${decision === 'reject' ? 'Rejected' : 'Done'}: ${approval.description}`;
+      }
+    } catch (error) {
+      console.error('Approval error:', error);
+      updateApproval(approval.id, { deciding: false });
+      content = 'I apologize, but I could not reach the server. Please try again.';
     }
+    setMessages(prev => [
+      ...prev,
+      { id: crypto.randomUUID(), role: 'assistant', content, timestamp: new Date() },
+    ]);
+  };
+
+  const handleDraftResolved = (draft: ExpenseDraft, content: string) => {
+    setMessages(prev => [
+      ...prev.map(m => ({ ...m, drafts: m.drafts?.map(d => (d.id === draft.id ? draft : d)) })),
+      { id: crypto.randomUUID(), role: 'assistant', content, timestamp: new Date() },
+    ]);
   };
 
+  const streamingMessage = messages.find(m => m.id === streamingId);
+  const showTypingIndicator =
+    isLoading && !streamingMessage?.content && !streamingMessage?.tools?.length;
+
   return (
-    <Card className="flex flex-col h-[600px] max-w-2xl mx-auto">
+    <div className={`flex gap-4 ${docked ? 'h-[calc(100vh-8rem)] min-h-[480px]' : 'h-[600px]'}`}>
+      <aside className={`${docked ? 'hidden' : 'hidden md:flex'} w-56 shrink-0 flex-col rounded-lg border bg-card`}>
+        <div className="border-b p-2">
+          <Button variant="outline" size="sm" className="w-full justify-start gap-2" onClick={startConversation} disabled={isLoading}>
+            <MessageSquarePlus className="h-4 w-4" />
+            New chat
+          </Button>
+        </div>
+        <ScrollArea className="flex-1 p-2">
+          {conversations.length === 0 && (
+            <p className="px-2 py-1 text-xs text-muted-foreground">No saved conversations yet</p>
+          )}
+          <ul className="space-y-1">
+            {conversations.map((conversation) => (
+              <li key={conversation.id} className="group flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => openConversation(conversation.id)}
+                  disabled={isLoading}
+                  className={`min-w-0 flex-1 truncate rounded-md px-2 py-1.5 text-left text-sm hover:bg-accent ${
+                    conversation.id === conversationId ? 'bg-accent font-medium' : ''
+                  }`}
+                  title={conversation.title}
+                >
+                  {conversation.title}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteConversation(conversation.id)}
+                  disabled={isLoading}
+                  className="rounded-md p-1 text-muted-foreground opacity-0 hover:text-destructive group-hover:opacity-100"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                  <span className="sr-only">Delete conversation</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </aside>
+
+    <Card className="flex flex-col flex-1 min-w-0">
       <CardHeader className="border-b">
         <CardTitle className="flex items-center gap-2">
           <Bot className="h-6 w-6" />
@@ -103,7 +411,7 @@ export function Chat({ apiEndpoint = '/api/chat' }: ChatProps) {
       <CardContent className="flex-1 overflow-hidden p-0">
         <ScrollArea className="h-full p-4" ref={scrollRef}>
           <div className="space-y-4">
-            {messages.map((message) => (
+            {messages.filter(m => m.content || m.tools?.length || m.approvals?.length || m.drafts?.length).map((message) => (
               <div
                 key={message.id}
                 className={`flex gap-3 ${
@@ -122,7 +430,68 @@ export function Chat({ apiEndpoint = '/api/chat' }: ChatProps) {
                       : 'bg-muted'
                   }`}
                 >
-                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  {message.tools && message.tools.length > 0 && (
+                    <ul className="mb-2 space-y-1">
+                      {message.tools.map((tool) => (
+                        <li key={tool.id} className="text-xs text-muted-foreground">
+                          <div className="flex items-start gap-2">
+                            {tool.status === 'running' && <Loader2 className="h-3 w-3 mt-0.5 shrink-0 animate-spin" />}
+                            {tool.status === 'done' && <CheckCircle2 className="h-3 w-3 mt-0.5 shrink-0 text-green-500" />}
+                            {tool.status === 'failed' && <XCircle className="h-3 w-3 mt-0.5 shrink-0 text-destructive" />}
+                            <span className="min-w-0 break-words">
+                              <code>{tool.name}</code>
+                              {tool.summary && !tool.diff && <span className="opacity-75"> — {tool.summary}</span>}
+                            </span>
+                          </div>
+                          {tool.diff && <DiffView files={tool.diff} />}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {message.content && (
+                    <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  )}
+                  {message.busy && (
+                    <div className="mt-2 flex items-start gap-2 rounded-md border bg-background p-3 text-sm">
+                      <Clock className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />
+                      <span className="min-w-0 break-words">
+                        Queued: every sandbox is in use and you are number {message.busy.queuePosition} in line.
+                        Send your message again in about {message.busy.retryAfterSeconds} seconds.
+                      </span>
+                    </div>
+                  )}
+                  {message.approvals?.map((approval) => (
+                    <div key={approval.id} className="mt-2 rounded-md border bg-background p-3 text-sm">
+                      <div className="flex items-start gap-2">
+                        <ShieldAlert className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />
+                        <span className="min-w-0 break-words">{approval.description}</span>
+                      </div>
+                      {approval.status === 'pending' ? (
+                        <div className="mt-2 flex gap-2">
+                          <Button
+                            size="sm"
+                            disabled={approval.deciding}
+                            onClick={() => handleDecision(approval, 'approve')}
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={approval.deciding}
+                            onClick={() => handleDecision(approval, 'reject')}
+                          >
+                            Reject
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className="mt-1 block text-xs capitalize text-muted-foreground">{approval.status}</span>
+                      )}
+                    </div>
+                  ))}
+                  {message.drafts?.map((draft) => (
+                    <ExpenseDraftCard key={draft.id} draft={draft} onResolved={handleDraftResolved} />
+                  ))}
                   <span className="text-xs opacity-50 mt-1 block">
                     {message.timestamp.toLocaleTimeString()}
                   </span>
@@ -134,7 +503,7 @@ export function Chat({ apiEndpoint = '/api/chat' }: ChatProps) {
                 )}
               </div>
             ))}
-            {isLoading && (
+            {showTypingIndicator && (
               <div className="flex gap-3 justify-start">
                 <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary text-primary-foreground">
                   <Bot className="h-4 w-4" />
@@ -169,6 +538,7 @@ export function Chat({ apiEndpoint = '/api/chat' }: ChatProps) {
         </form>
       </CardFooter>
     </Card>
+    </div>
   );
 }
 
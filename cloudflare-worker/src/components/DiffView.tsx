@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, FileDiff } from 'lucide-react';
+import type { DiffFile, DiffLine } from '@/lib/diff';
+import { cn } from '@/lib/utils';
+
+interface DiffViewProps {
+  files: DiffFile[];
+}
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  add: 'bg-green-500/15 text-green-900 dark:text-green-200',
+  remove: 'bg-red-500/15 text-red-900 dark:text-red-200',
+  context: '',
+};
+
+const LINE_MARKERS: Record<DiffLine['type'], string> = {
+  add: '+',
+  remove: '-',
+  context: ' ',
+};
+
+function DiffFileView({ file }: { file: DiffFile }) {
+  const [open, setOpen] = useState(true);
+  const Chevron = open ? ChevronDown : ChevronRight;
+
+  return (
+    <div className="rounded-md border bg-background">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex w-full items-center gap-2 px-2 py-1.5 text-left text-xs font-medium"
+      >
+        <Chevron className="h-3 w-3 shrink-0" />
+        <span className="min-w-0 flex-1 truncate font-mono">
+          {file.status === 'renamed' ? `${file.oldPath} → ${file.path}` : file.path}
+        </span>
+        <span className="text-green-600">+{file.additions}</span>
+        <span className="text-red-600">-{file.deletions}</span>
+      </button>
+      {open && (
+        <div className="overflow-x-auto border-t font-mono text-xs">
+          {file.binary && <p className="px-2 py-1 text-muted-foreground">Binary file changed</p>}
+          {file.hunks.map((hunk) => (
+            <div key={hunk.header}>
+              <div className="bg-muted px-2 py-0.5 text-muted-foreground">{hunk.header}</div>
+              {hunk.lines.map((line, index) => (
+                <div key={index} className={cn('flex whitespace-pre', LINE_STYLES[line.type])}>
+                  <span className="w-8 shrink-0 select-none pr-1 text-right opacity-50">{line.oldNumber ?? ''}</span>
+                  <span className="w-8 shrink-0 select-none pr-1 text-right opacity-50">{line.newNumber ?? ''}</span>
+                  <span className="w-3 shrink-0 select-none">{LINE_MARKERS[line.type]}</span>
+                  <span>{line.content}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Renders show_diff output as colored, collapsible per-file blocks
+ */
+export function DiffView({ files }: DiffViewProps) {
+  const [open, setOpen] = useState(true);
+
+  if (files.length === 0) {
+    return <p className="text-xs text-muted-foreground">No changes</p>;
+  }
+
+  const additions = files.reduce((sum, f) => sum + f.additions, 0);
+  const deletions = files.reduce((sum, f) => sum + f.deletions, 0);
+
+  return (
+    <div className="mt-2 space-y-1">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex items-center gap-1 text-xs text-muted-foreground"
+      >
+        <FileDiff className="h-3 w-3" />
+        {files.length} file{files.length === 1 ? '' : 's'} changed, +{additions} -{deletions}
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+      </button>
+      {open && files.map((file) => <DiffFileView key={file.path} file={file} />)}
+    </div>
+  );
+}
+
+export default DiffView;
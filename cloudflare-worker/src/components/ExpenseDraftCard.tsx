@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle2, Receipt, XCircle } from 'lucide-react';
+import { Button } from './ui/button';
+import { isLowConfidence, type ExpenseDraft, type ExtractedField } from '@/lib/receipts';
+import { cn } from '@/lib/utils';
+
+interface ExpenseDraftCardProps {
+  draft: ExpenseDraft;
+  /** Called with a chat message once the draft is saved or discarded */
+  onResolved: (draft: ExpenseDraft, message: string) => void;
+}
+
+function formatDollars(cents: number | null): string {
+  return cents === null ? '' : (cents / 100).toFixed(2);
+}
+
+function parseDollars(value: string): number | null {
+  const amount = Number(value.replace(/[$,\s]/g, ''));
+  return value.trim() !== '' && Number.isFinite(amount) ? Math.round(amount * 100) : null;
+}
+
+interface DraftFieldProps {
+  label: string;
+  field: ExtractedField<unknown>;
+  error?: string;
+  children: React.ReactNode;
+}
+
+// Low-confidence fields are outlined so the user checks them before saving
+function DraftField({ label, field, error, children }: DraftFieldProps) {
+  const review = isLowConfidence(field);
+  return (
+    <label className="block text-xs">
+      <span className="flex items-center gap-1 text-muted-foreground">
+        {label}
+        {review && (
+          <span className="flex items-center gap-0.5 text-amber-600" title={`Confidence ${Math.round(field.confidence * 100)}%`}>
+            <AlertTriangle className="h-3 w-3" />
+            check
+          </span>
+        )}
+      </span>
+      <div className={cn('mt-0.5 rounded-md', review && 'ring-2 ring-amber-400')}>{children}</div>
+      {error && <span className="text-destructive">{error}</span>}
+    </label>
+  );
+}
+
+const INPUT_CLASS = 'w-full rounded-md border border-input bg-background px-2 py-1 text-sm';
+
+/**
+ * An expense read from a receipt by extract_receipt, editable before it is recorded
+ */
+export function ExpenseDraftCard({ draft, onResolved }: ExpenseDraftCardProps) {
+  const { extraction } = draft;
+  const [vendor, setVendor] = useState(extraction.vendor.value ?? '');
+  const [date, setDate] = useState(extraction.date.value ?? '');
+  const [category, setCategory] = useState(extraction.category.value ?? '');
+  const [amount, setAmount] = useState(formatDollars(extraction.totalCents.value));
+  const [paid, setPaid] = useState(false);
+  const [status, setStatus] = useState(draft.status);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const draftUrl = `/api/projects/${draft.projectId}/expense-drafts/${draft.id}`;
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    setErrors({});
+    try {
+      const response = await fetch(`${draftUrl}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ vendor, date, category, amountCents: parseDollars(amount), paid }),
+      });
+      const data = await response.json() as {
+        draft?: ExpenseDraft;
+        expense?: { vendor: string; amountCents: number; category: string };
+        error?: string;
+        fields?: Record<string, string>;
+      };
+      if (!response.ok) {
+        setErrors(data.fields ?? {});
+        setError(data.fields ? 'Please fix the highlighted fields.' : data.error ?? 'The expense could not be saved.');
+        return;
+      }
+      setStatus('confirmed');
+      onResolved(
+        data.draft ?? draft,
+        `Saved: $${formatDollars(data.expense!.amountCents)} to ${data.expense!.vendor} under ${data.expense!.category}, with the receipt attached.`
+      );
+    } catch (err) {
+      console.error('Draft save error:', err);
+      setError('Could not reach the server. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const discard = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`${draftUrl}/discard`, { method: 'POST' });
+      if (response.ok) {
+        setStatus('discarded');
+        onResolved({ ...draft, status: 'discarded' }, 'Discarded the draft expense; the receipt stays on the project.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 rounded-md border bg-background p-3 text-sm">
+      <div className="mb-2 flex items-center gap-2 font-medium">
+        <Receipt className="h-4 w-4 shrink-0" />
+        Draft expense from receipt
+      </div>
+
+      {status !== 'pending' ? (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          {status === 'confirmed'
+            ? <CheckCircle2 className="h-3 w-3 text-green-500" />
+            : <XCircle className="h-3 w-3" />}
+          <span className="capitalize">{status}</span>
+        </span>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <DraftField label="Vendor" field={extraction.vendor} error={errors.vendor}>
+              <input className={INPUT_CLASS} value={vendor} onChange={(e) => setVendor(e.target.value)} />
+            </DraftField>
+            <DraftField label="Date" field={extraction.date} error={errors.date}>
+              <input type="date" className={INPUT_CLASS} value={date} onChange={(e) => setDate(e.target.value)} />
+            </DraftField>
+            <DraftField label="Category" field={extraction.category} error={errors.category}>
+              <input className={INPUT_CLASS} value={category} onChange={(e) => setCategory(e.target.value)} />
+            </DraftField>
+            <DraftField label="Total ($)" field={extraction.totalCents} error={errors.amountCents}>
+              <input inputMode="decimal" className={INPUT_CLASS} value={amount} onChange={(e) => setAmount(e.target.value)} />
+            </DraftField>
+          </div>
+
+          {extraction.lineItems.length > 0 && (
+            <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+              {extraction.lineItems.map((item, index) => (
+                <li key={index} className={cn('flex justify-between gap-2', isLowConfidence(item) && 'text-amber-600')}>
+                  <span className="min-w-0 truncate">{item.description}</span>
+                  <span>{item.amountCents === null ? '?' : `$${formatDollars(item.amountCents)}`}</span>
+                </li>
+              ))}
+              {extraction.taxCents.value !== null && (
+                <li className={cn('flex justify-between gap-2', isLowConfidence(extraction.taxCents) && 'text-amber-600')}>
+                  <span>Tax</span>
+                  <span>${formatDollars(extraction.taxCents.value)}</span>
+                </li>
+              )}
+            </ul>
+          )}
+
+          <label className="mt-2 flex items-center gap-2 text-xs">
+            <input type="checkbox" checked={paid} onChange={(e) => setPaid(e.target.checked)} />
+            Already paid
+          </label>
+          {error && <p className="mt-1 text-xs text-destructive">{error}</p>}
+          <div className="mt-2 flex gap-2">
+            <Button size="sm" disabled={saving} onClick={save}>
+              Save expense
+            </Button>
+            <Button size="sm" variant="outline" disabled={saving} onClick={discard}>
+              Discard
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ExpenseDraftCard;
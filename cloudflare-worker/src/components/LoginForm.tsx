@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from './ui/card';
+import { KeyRound, Loader2 } from 'lucide-react';
+
+interface LoginFormProps {
+  loginEndpoint?: string;
+}
+
+/**
+ * Only same-origin paths are followed after signing in. Resolving the URL catches
+ * forms browsers treat as another host, such as //evil.example and /\evil.example
+ */
+function nextPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next');
+  if (!next) return '/';
+  const { origin } = window.location;
+  try {
+    const url = new URL(next, origin);
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : '/';
+  } catch {
+    return '/';
+  }
+}
+
+export function LoginForm({ loginEndpoint = '/api/auth/login' }: LoginFormProps) {
+  const [apiKey, setApiKey] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!apiKey.trim()) return;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(loginEndpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apiKey: apiKey.trim() }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({})) as { error?: string };
+        setError(data.error || 'Sign-in failed. Please try again.');
+        return;
+      }
+      window.location.href = nextPath();
+    } catch (error) {
+      console.error('Login error:', error);
+      setError('Could not reach the server. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-sm mx-auto">
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Sign in
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Enter the API key you were given. Your role decides what you can do: view budgets,
+            edit them, or let the assistant change the Apps Script code.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <label htmlFor="api-key" className="text-sm font-medium">API key</label>
+          <input
+            id="api-key"
+            type="password"
+            autoComplete="current-password"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            placeholder="hrb_…"
+            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            disabled={isLoading}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </CardContent>
+        <CardFooter>
+          <Button type="submit" className="w-full" disabled={isLoading || !apiKey.trim()}>
+            {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Sign in
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
+
+export default LoginForm;
@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Download, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { CategoryChart, SpendingChart } from './BudgetCharts';
+import {
+  budgetSegments,
+  fetchJson,
+  formatCents,
+  type CategoryBreakdown,
+  type ExpenseSummary,
+  type LedgerExpense,
+  type Project,
+} from '@/lib/budget';
+import { cn } from '@/lib/utils';
+
+interface ProjectDashboardProps {
+  projectId: string;
+}
+
+interface DashboardData {
+  project: Project;
+  breakdown: CategoryBreakdown;
+  summary: ExpenseSummary;
+  recent: LedgerExpense[];
+}
+
+const RECENT_EXPENSES = 8;
+
+async function loadDashboard(projectId: string): Promise<DashboardData> {
+  const base = `/api/projects/${projectId}`;
+  const [{ project }, breakdown, { summary }, { expenses }] = await Promise.all([
+    fetchJson<{ project: Project }>(base),
+    fetchJson<CategoryBreakdown>(`${base}/categories`),
+    fetchJson<{ summary: ExpenseSummary }>(`${base}/expenses/summary`),
+    fetchJson<{ expenses: LedgerExpense[] }>(`${base}/expenses?limit=${RECENT_EXPENSES}`),
+  ]);
+  return { project, breakdown, summary, recent: expenses };
+}
+
+interface StatProps {
+  label: string;
+  value: number;
+  hint: string;
+  tone?: 'danger';
+}
+
+function Stat({ label, value, hint, tone }: StatProps) {
+  return (
+    <Card>
+      <CardHeader className="p-4 pb-1">
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className={cn('text-2xl', tone === 'danger' && 'text-red-500')}>
+          {formatCents(value, { compact: true })}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 text-xs text-muted-foreground">{hint}</CardContent>
+    </Card>
+  );
+}
+
+/**
+ * A project's budget at a glance: headline figures, allocation by category, spend over time
+ * and the latest expenses. "Committed" is contracts and accepted bids; the forecast at
+ * completion is worked out per category by the categories API.
+ */
+export function ProjectDashboard({ projectId }: ProjectDashboardProps) {
+  const [data, setData] = useState<DashboardData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const refresh = useCallback(() => {
+    setRefreshing(true);
+    loadDashboard(projectId)
+      .then((loaded) => {
+        setData(loaded);
+        setError(null);
+      })
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setRefreshing(false));
+  }, [projectId]);
+
+  useEffect(refresh, [refresh]);
+
+  if (error && !data) {
+    return <p className="text-sm text-destructive">Could not load the project: {error}</p>;
+  }
+  if (!data) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading budget...
+      </p>
+    );
+  }
+
+  const { project, breakdown, summary, recent } = data;
+  const { totals } = breakdown;
+  const remainingCents = project.budgetCents - project.spentCents;
+  const segments = budgetSegments(project);
+  const categoryNames = new Map(breakdown.categories.map((c) => [c.key, c.name]));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <a href="/projects" className="text-sm text-muted-foreground hover:text-primary">← All projects</a>
+          <h1 className="text-3xl font-bold tracking-tight">{project.name}</h1>
+          <p className="text-sm text-muted-foreground">
+            {[project.room, project.address, project.targetDate && `Target ${project.targetDate}`].filter(Boolean).join(' · ')}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={refresh} disabled={refreshing} className="gap-1">
+            <RefreshCw className={cn('h-4 w-4', refreshing && 'animate-spin')} />
+            Refresh
+          </Button>
+          {(['csv', 'xlsx', 'pdf'] as const).map((format) => (
+            <Button key={format} variant="outline" size="sm" asChild>
+              <a href={`/api/projects/${project.id}/export?format=${format}`} className="gap-1">
+                <Download className="h-4 w-4" />
+                {format.toUpperCase()}
+              </a>
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-4">
+        <Stat
+          label="Budget"
+          value={project.budgetCents}
+          hint={remainingCents < 0 ? `Over budget by ${formatCents(-remainingCents, { compact: true })}` : `${formatCents(remainingCents, { compact: true })} not yet spent`}
+          tone={remainingCents < 0 ? 'danger' : undefined}
+        />
+        <Stat label="Committed" value={totals.committedCents} hint="Contracts and accepted bids" />
+        <Stat label="Paid" value={project.paidCents} hint={`${formatCents(summary.unpaidCents, { compact: true })} recorded but unpaid`} />
+        <Stat
+          label="Forecast at completion"
+          value={totals.forecastCents}
+          hint={
+            totals.pendingChangeOrderCents !== 0
+              ? `Includes ${formatCents(totals.pendingChangeOrderCents, { compact: true })} of proposed change orders`
+              : 'No change orders pending'
+          }
+          tone={totals.forecastCents > project.budgetCents ? 'danger' : undefined}
+        />
+      </div>
+
+      <div>
+        <div className="flex h-3 overflow-hidden rounded-full bg-muted">
+          <div className="bg-primary" style={{ width: `${segments.paid}%` }} title="Paid" />
+          <div className="bg-primary/50" style={{ width: `${segments.unpaid}%` }} title="Recorded, not yet paid" />
+        </div>
+        <div className="mt-1 flex gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-primary" />Paid</span>
+          <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-primary/50" />Recorded, not yet paid</span>
+          <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-muted" />Remaining</span>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">Refresh failed: {error}</p>}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Allocation by category</CardTitle>
+            <CardDescription>
+              {totals.unallocatedCents >= 0
+                ? `${formatCents(totals.unallocatedCents, { compact: true })} of the budget not allocated`
+                : `Allocations exceed the budget by ${formatCents(-totals.unallocatedCents, { compact: true })}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CategoryChart categories={breakdown.categories} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Spending over time</CardTitle>
+            <CardDescription>Recorded spend to date against the budget</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SpendingChart daily={summary.daily} budgetCents={project.budgetCents} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Recent expenses</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {recent.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No expenses recorded yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-muted-foreground">
+                <tr>
+                  <th className="pb-2 font-medium">Date</th>
+                  <th className="pb-2 font-medium">Vendor</th>
+                  <th className="pb-2 font-medium">Category</th>
+                  <th className="pb-2 text-right font-medium">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recent.map((expense) => (
+                  <tr key={expense.id} className="border-t">
+                    <td className="py-2 whitespace-nowrap">{expense.date}</td>
+                    <td className="py-2">{expense.vendor}</td>
+                    <td className="py-2 text-muted-foreground">{categoryNames.get(expense.category) ?? expense.category}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      {formatCents(expense.amountCents)}
+                      {!expense.paid && <span className="ml-1 text-xs text-muted-foreground">(unpaid)</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default ProjectDashboard;
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { FolderOpen, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { budgetSegments, fetchJson, formatCents, type Project } from '@/lib/budget';
+
+const STATUS_LABELS: Record<Project['status'], string> = {
+  planning: 'Planning',
+  in_progress: 'In progress',
+  complete: 'Complete',
+};
+
+/**
+ * Every active project as a card linking to its dashboard
+ */
+export function ProjectList() {
+  const [projects, setProjects] = useState<Project[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchJson<{ projects: Project[] }>('/api/projects')
+      .then((data) => setProjects(data.projects))
+      .catch((err: Error) => setError(err.message));
+  }, []);
+
+  if (error) {
+    return <p className="text-sm text-destructive">Could not load projects: {error}</p>;
+  }
+  if (!projects) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading projects...
+      </p>
+    );
+  }
+  if (projects.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No projects yet. Create one through the API (<code>POST /api/projects</code>) to see its budget here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      {projects.map((project) => {
+        const segments = budgetSegments(project);
+        return (
+          <a key={project.id} href={`/projects/${project.id}`} className="group">
+            <Card className="h-full transition-colors group-hover:border-primary">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <FolderOpen className="h-5 w-5 shrink-0" />
+                  <span className="truncate">{project.name}</span>
+                </CardTitle>
+                <CardDescription>
+                  {STATUS_LABELS[project.status]}
+                  {project.room && ` · ${project.room}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex h-2 overflow-hidden rounded-full bg-muted">
+                  <div className="bg-primary" style={{ width: `${segments.paid}%` }} />
+                  <div className="bg-primary/50" style={{ width: `${segments.unpaid}%` }} />
+                </div>
+                <p className="text-muted-foreground">
+                  {formatCents(project.spentCents, { compact: true })} of {formatCents(project.budgetCents, { compact: true })}
+                  {project.spentCents > project.budgetCents && <span className="text-red-500"> (over budget)</span>}
+                </p>
+              </CardContent>
+            </Card>
+          </a>
+        );
+      })}
+    </div>
+  );
+}
+
+export default ProjectList;
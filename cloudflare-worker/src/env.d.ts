@@ -13,13 +13,32 @@ interface ImportMeta {
 // The global Env interface is automatically generated by `wrangler types` and includes:
 // - ASSETS: Fetcher (for static assets)
 // - Sandbox: DurableObjectNamespace (for sandbox operations)
+// - RATE_LIMITER: DurableObjectNamespace (chat rate limit counters)
 // - AI: Ai (for Workers AI)
+// - DB: D1Database (projects and budget data)
+// - ATTACHMENTS: R2Bucket (receipts and invoices)
 // - GITHUB_TOKEN: string (secret)
 // - OPENAI_API_KEY: string (secret)
 // - ANTHROPIC_API_KEY: string (secret)
 // - CLOUDFLARE_API_TOKEN: string (secret)
-// - APPS_SCRIPT_ID: string (var)
+// - AUTH_SECRET: string (secret, signs session cookies)
+// - ADMIN_API_KEY: string (secret, optional bootstrap admin key)
+// - APPS_SCRIPT_ID: string (secret)
 // - REPO_URL: string (var)
+// - GIT_PUSH_MODE: "direct" | "pull_request" (var)
+// - GITHUB_API_URL: string (var)
+// - SANDBOX_MAX_INSTANCES / SANDBOX_IDLE_MINUTES: string (var)
+// - CORS_ALLOWED_ORIGINS: string (var, comma-separated)
+// - LLM_PROVIDER / LLM_FALLBACK_PROVIDER: "workers-ai" | "openai" | "anthropic" (var)
+// - OPENAI_MODEL / OPENAI_API_URL / ANTHROPIC_MODEL / ANTHROPIC_API_URL: string (var)
+// - CHAT_RATE_LIMIT_PER_USER / CHAT_RATE_LIMIT_PER_IP / CHAT_DAILY_TOKEN_BUDGET: string (var)
+// - ATTACHMENT_MAX_BYTES: string (var)
+
+// wrangler types only names a Durable Object's class when `main` exports it, and `main` is
+// the Astro bundle, so the Sandbox binding gets its class here
+interface Env {
+  Sandbox: DurableObjectNamespace<import('@cloudflare/sandbox').Sandbox>;
+}
 
 type Runtime = import('@astrojs/cloudflare').Runtime<Env>;
 
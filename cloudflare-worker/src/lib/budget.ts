@@ -0,0 +1,105 @@
+/**
+ * Budget figures as the dashboard shows them: the API's response types, money formatting and
+ * the geometry of the dashboard charts
+ */
+
+import type { BudgetCategory, CategoryBreakdown } from '../worker/categories';
+import type { DailySpend, ExpenseSummary, LedgerExpense } from '../worker/expenses';
+import type { Project } from '../worker/projects';
+
+export type { BudgetCategory, CategoryBreakdown, DailySpend, ExpenseSummary, LedgerExpense, Project };
+
+/** 123456 → "$1,234.56"; whole dollars drop the cents when `compact` is set */
+export function formatCents(cents: number, options: { compact?: boolean } = {}): string {
+  const dollars = Math.abs(cents) / 100;
+  const digits = options.compact && Number.isInteger(dollars) ? 0 : 2;
+  const amount = dollars.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  return `${cents < 0 ? '-' : ''}$${amount}`;
+}
+
+/**
+ * Share of `total` as a percentage clamped to 0-100, for bar widths
+ */
+export function percentOf(part: number, total: number): number {
+  if (total <= 0) return part > 0 ? 100 : 0;
+  return Math.min(100, Math.max(0, (part / total) * 100));
+}
+
+/**
+ * Splits the budget into the three segments of the headline bar: paid, recorded but not yet
+ * paid, and what is left. When spend exceeds the budget, the segments are scaled to the spend.
+ */
+export function budgetSegments(project: Pick<Project, 'budgetCents' | 'spentCents' | 'paidCents'>): {
+  paid: number;
+  unpaid: number;
+  remaining: number;
+} {
+  const scale = Math.max(project.budgetCents, project.spentCents);
+  return {
+    paid: percentOf(project.paidCents, scale),
+    unpaid: percentOf(project.spentCents - project.paidCents, scale),
+    remaining: percentOf(project.budgetCents - project.spentCents, scale),
+  };
+}
+
+export interface ChartPoint {
+  x: number;
+  y: number;
+  date: string;
+  cumulativeCents: number;
+}
+
+export interface SpendingChartGeometry {
+  points: ChartPoint[];
+  /** Height of the budget line */
+  budgetY: number;
+  /** Largest amount on the y axis */
+  maxCents: number;
+  firstDate: string | null;
+  lastDate: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Places cumulative spend on a width × height chart (origin top left), with x spaced by date
+ * and y scaled so both the spend and the budget line fit
+ */
+export function spendingChart(daily: DailySpend[], budgetCents: number, width: number, height: number): SpendingChartGeometry {
+  const maxCents = Math.max(budgetCents, daily.at(-1)?.cumulativeCents ?? 0, 1);
+  const y = (cents: number) => height - (cents / maxCents) * height;
+  if (daily.length === 0) {
+    return { points: [], budgetY: y(budgetCents), maxCents, firstDate: null, lastDate: null };
+  }
+
+  const first = Date.parse(daily[0].date);
+  const span = Math.max(Date.parse(daily[daily.length - 1].date) - first, DAY_MS);
+  return {
+    points: daily.map((day) => ({
+      x: daily.length === 1 ? width / 2 : ((Date.parse(day.date) - first) / span) * width,
+      y: y(day.cumulativeCents),
+      date: day.date,
+      cumulativeCents: day.cumulativeCents,
+    })),
+    budgetY: y(budgetCents),
+    maxCents,
+    firstDate: daily[0].date,
+    lastDate: daily[daily.length - 1].date,
+  };
+}
+
+/**
+ * GETs an API route as JSON; the API answers 401 until the user signs in, so that redirects
+ * to the login page and comes back here afterwards
+ */
+export async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  if (response.status === 401) {
+    window.location.href = `/login?next=${encodeURIComponent(window.location.pathname)}`;
+  }
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(data.error ?? `Request failed (${response.status})`);
+  }
+  return data;
+}
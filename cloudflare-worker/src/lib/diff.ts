@@ -0,0 +1,114 @@
+/**
+ * Unified diff parsing shared by the worker (show_diff tool) and the chat UI
+ */
+
+export type DiffLineType = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export type DiffFileStatus = 'modified' | 'added' | 'deleted' | 'renamed';
+
+export interface DiffFile {
+  path: string;
+  /** Path before the change; differs from `path` only for renames */
+  oldPath: string;
+  status: DiffFileStatus;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+const FILE_HEADER = /^diff --git a\/(.+) b\/(.+)$/;
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+function stripPrefix(path: string): string {
+  return path.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parses `git diff` output into files, hunks and numbered lines
+ */
+export function parseUnifiedDiff(text: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldNumber = 0;
+  let newNumber = 0;
+
+  for (const line of text.split('\n')) {
+    const fileMatch = FILE_HEADER.exec(line);
+    if (fileMatch) {
+      file = {
+        path: fileMatch[2],
+        oldPath: fileMatch[1],
+        status: 'modified',
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+      };
+      files.push(file);
+      hunk = null;
+      continue;
+    }
+    if (!file) continue;
+
+    const hunkMatch = HUNK_HEADER.exec(line);
+    if (hunkMatch) {
+      hunk = {
+        header: line,
+        oldStart: Number(hunkMatch[1]),
+        oldLines: hunkMatch[2] === undefined ? 1 : Number(hunkMatch[2]),
+        newStart: Number(hunkMatch[3]),
+        newLines: hunkMatch[4] === undefined ? 1 : Number(hunkMatch[4]),
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      oldNumber = hunk.oldStart;
+      newNumber = hunk.newStart;
+      continue;
+    }
+
+    if (!hunk) {
+      // Extended header lines between "diff --git" and the first hunk
+      if (line.startsWith('new file mode')) file.status = 'added';
+      else if (line.startsWith('deleted file mode')) file.status = 'deleted';
+      else if (line.startsWith('rename from ')) {
+        file.status = 'renamed';
+        file.oldPath = line.slice('rename from '.length);
+      } else if (line.startsWith('rename to ')) file.path = line.slice('rename to '.length);
+      else if (line.startsWith('Binary files ')) file.binary = true;
+      else if (line.startsWith('--- ') && line !== '--- /dev/null') file.oldPath = stripPrefix(line.slice(4));
+      else if (line.startsWith('+++ ') && line !== '+++ /dev/null') file.path = stripPrefix(line.slice(4));
+      continue;
+    }
+
+    if (line.startsWith('+')) {
+      hunk.lines.push({ type: 'add', content: line.slice(1), oldNumber: null, newNumber: newNumber++ });
+      file.additions++;
+    } else if (line.startsWith('-')) {
+      hunk.lines.push({ type: 'remove', content: line.slice(1), oldNumber: oldNumber++, newNumber: null });
+      file.deletions++;
+    } else if (line.startsWith(' ')) {
+      hunk.lines.push({ type: 'context', content: line.slice(1), oldNumber: oldNumber++, newNumber: newNumber++ });
+    }
+    // "\ No newline at end of file" and the trailing empty line carry no content
+  }
+
+  return files;
+}
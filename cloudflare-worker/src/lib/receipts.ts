@@ -0,0 +1,67 @@
+/**
+ * Receipt extraction results shared by the worker (extract_receipt tool) and the chat UI
+ */
+
+/** Fields the model is less sure of than this are highlighted for review */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/**
+ * A value read from the receipt; `confidence` runs from 0 (a guess) to 1 (clearly printed)
+ */
+export interface ExtractedField<T> {
+  value: T | null;
+  confidence: number;
+}
+
+export interface ReceiptLineItem {
+  description: string;
+  amountCents: number | null;
+  confidence: number;
+}
+
+export interface ReceiptExtraction {
+  vendor: ExtractedField<string>;
+  /** YYYY-MM-DD */
+  date: ExtractedField<string>;
+  lineItems: ReceiptLineItem[];
+  taxCents: ExtractedField<number>;
+  totalCents: ExtractedField<number>;
+  /** Suggested budget category key of the project */
+  category: ExtractedField<string>;
+}
+
+export type ExpenseDraftStatus = 'pending' | 'confirmed' | 'discarded';
+
+/**
+ * An expense proposed from an uploaded file, written to the ledger only once confirmed
+ */
+export interface ExpenseDraft {
+  id: string;
+  projectId: string;
+  attachmentId: string;
+  status: ExpenseDraftStatus;
+  extraction: ReceiptExtraction;
+  model: string;
+  /** The expense written when the draft was confirmed */
+  expenseId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function isLowConfidence(field: { confidence: number }): boolean {
+  return field.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Names of the expense fields that need the user's review
+ */
+export function lowConfidenceFields(extraction: ReceiptExtraction): string[] {
+  const fields: [string, { confidence: number }][] = [
+    ['vendor', extraction.vendor],
+    ['date', extraction.date],
+    ['category', extraction.category],
+    ['tax', extraction.taxCents],
+    ['total', extraction.totalCents],
+  ];
+  return fields.filter(([, field]) => isLowConfidence(field)).map(([name]) => name);
+}
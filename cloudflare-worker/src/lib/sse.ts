@@ -0,0 +1,64 @@
+/**
+ * Minimal Server-Sent Events helpers shared by the worker and the browser
+ */
+
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Serializes one event in text/event-stream format
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parses a text/event-stream body into events
+ * Events without an `event:` field are reported as "message"
+ */
+export async function* parseSseStream(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<SseEvent> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      buffer = buffer.replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseEventBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) yield event;
+        boundary = buffer.indexOf('\n\n');
+      }
+
+      if (done) {
+        const event = parseEventBlock(buffer);
+        if (event) yield event;
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEventBlock(block: string): SseEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
@@ -0,0 +1,327 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// agent.ts imports getSandbox at module load; the loop itself only needs a fake sandbox
+vi.mock('@cloudflare/sandbox', () => ({ getSandbox: vi.fn() }));
+
+import {
+  runAgentConversation,
+  type AgentEvents,
+  type ToolCall,
+  type ToolContext,
+  type WorkspaceBusy,
+} from '../worker/agent';
+import type { LlmProvider } from '../worker/llm';
+import { WorkspaceBusyError } from '../worker/workspaces';
+
+interface ScriptedStep {
+  response?: string;
+  tool_calls?: ToolCall[];
+}
+
+/**
+ * A fake env.AI that replays scripted model responses and records every request
+ */
+function scriptedAI(steps: ScriptedStep[]) {
+  const requests: { messages: { role: string; content: string; tool_call_id?: string }[]; tools?: unknown[] }[] = [];
+  const run = vi.fn(async (_model: string, input: (typeof requests)[number]) => {
+    requests.push(structuredClone(input));
+    const step = steps.shift();
+    if (!step) throw new Error('AI called more times than scripted');
+    return step;
+  });
+  return { AI: { run }, requests };
+}
+
+function toolCall(id: string, name: string, args: Record<string, unknown> = {}): ToolCall {
+  return { id, function: { name, arguments: JSON.stringify(args) } };
+}
+
+function fakeSandbox(files: Record<string, string> = {}) {
+  return {
+    gitCheckout: vi.fn(async () => ({ success: true })),
+    readFile: vi.fn(async (path: string) => {
+      const name = path.split('/').pop()!;
+      if (!(name in files)) throw new Error(`ENOENT: ${path}`);
+      return { content: files[name] };
+    }),
+    writeFile: vi.fn(async (path: string, content: string) => {
+      files[path.split('/').pop()!] = content;
+    }),
+    exec: vi.fn(async () => ({ stdout: ' M appsscript/src/Code.js\n', success: true, exitCode: 0 })),
+  };
+}
+
+function context(ai: ReturnType<typeof scriptedAI>, sandbox = fakeSandbox()): ToolContext {
+  return {
+    env: { AI: ai.AI } as unknown as Env,
+    sandbox: sandbox as unknown as ToolContext['sandbox'],
+    // Leases and locks are covered by workspaces.test.ts
+    workspace: { acquire: async () => {}, withLock: (run) => run() },
+    gitConfig: { repoUrl: 'https://github.com/example/repo', githubToken: 'token', appsScriptId: '', githubApiUrl: 'https://api.github.com', pushMode: 'direct' },
+    conversationId: 'test-conversation',
+    role: 'admin',
+    // The approval gate has its own tests (approvals.test.ts); these exercise the loop
+    preApproved: true,
+  };
+}
+
+const LIMITS = { maxSteps: 8, turnBudgetMs: 60_000 };
+
+describe('runAgentConversation', () => {
+  it('returns the answer directly when no tools are requested', async () => {
+    const ai = scriptedAI([{ response: 'Hi there!' }]);
+    const reply = await runAgentConversation(context(ai), [{ role: 'user', content: 'hello' }], LIMITS);
+    expect(reply).toBe('Hi there!');
+    expect(ai.AI.run).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps calling the model with tools until it produces a final answer', async () => {
+    const sandbox = fakeSandbox({ 'Code.js': 'function doGet() {}' });
+    const ai = scriptedAI([
+      { tool_calls: [toolCall('c1', 'clone_repository')] },
+      { tool_calls: [toolCall('c2', 'read_file', { fileName: 'Code.js' })] },
+      { tool_calls: [toolCall('c3', 'write_file', { fileName: 'Code.js', content: 'function doGet() { return 1; }' })] },
+      { tool_calls: [toolCall('c4', 'get_status')] },
+      { response: 'Done: I added a return value to doGet.' },
+    ]);
+
+    const reply = await runAgentConversation(context(ai, sandbox), [{ role: 'user', content: 'update doGet' }], LIMITS);
+
+    expect(reply).toBe('Done: I added a return value to doGet.');
+    expect(ai.AI.run).toHaveBeenCalledTimes(5);
+    // Every round offers the tools again
+    expect(ai.requests.every((r) => Array.isArray(r.tools) && r.tools.length > 0)).toBe(true);
+    // The read result is fed back to the model
+    const readResult = ai.requests[2].messages.find((m) => m.tool_call_id === 'c2');
+    expect(readResult?.content).toBe('function doGet() {}');
+    expect(sandbox.writeFile).toHaveBeenCalledWith('/workspace/repo/appsscript/src/Code.js', 'function doGet() { return 1; }');
+  });
+
+  it('executes every tool call from a single step and answers each by id', async () => {
+    const sandbox = fakeSandbox({ 'Code.js': 'code', 'index.html': '<html></html>' });
+    const ai = scriptedAI([
+      {
+        tool_calls: [
+          toolCall('a', 'read_file', { fileName: 'Code.js' }),
+          toolCall('b', 'read_file', { fileName: 'index.html' }),
+        ],
+      },
+      { response: 'Both files read.' },
+    ]);
+
+    await runAgentConversation(context(ai, sandbox), [{ role: 'user', content: 'read both' }], LIMITS);
+
+    const toolMessages = ai.requests[1].messages.filter((m) => m.role === 'tool');
+    expect(toolMessages).toEqual([
+      { role: 'tool', content: 'code', tool_call_id: 'a' },
+      { role: 'tool', content: '<html></html>', tool_call_id: 'b' },
+    ]);
+  });
+
+  it('feeds tool failures back so the model can recover', async () => {
+    const ai = scriptedAI([
+      {
+        tool_calls: [
+          toolCall('bad-file', 'read_file', { fileName: '../../etc/passwd' }),
+          toolCall('bad-args', 'write_file', { fileName: 'Code.js' }),
+          { id: 'bad-json', function: { name: 'read_file', arguments: '{not json' } },
+          toolCall('unknown', 'format_disk'),
+        ],
+      },
+      { response: 'Those calls failed; nothing was changed.' },
+    ]);
+
+    const reply = await runAgentConversation(context(ai), [{ role: 'user', content: 'try' }], LIMITS);
+
+    expect(reply).toBe('Those calls failed; nothing was changed.');
+    const results = Object.fromEntries(
+      ai.requests[1].messages.filter((m) => m.role === 'tool').map((m) => [m.tool_call_id, m.content])
+    );
+    expect(results['bad-file']).toMatch(/^Error executing read_file: Invalid file name/);
+    expect(results['bad-args']).toBe('Error: fileName and content must be strings');
+    expect(results['bad-json']).toBe('Error: Invalid arguments for tool read_file');
+    expect(results['unknown']).toBe('Unknown tool: format_disk');
+  });
+
+  it('assigns ids to tool calls the model left unnamed', async () => {
+    const ai = scriptedAI([
+      { tool_calls: [{ id: '', function: { name: 'get_status', arguments: '{}' } }] },
+      { response: 'Clean.' },
+    ]);
+    await runAgentConversation(context(ai), [{ role: 'user', content: 'status?' }], LIMITS);
+    const toolMessage = ai.requests[1].messages.find((m) => m.role === 'tool');
+    expect(toolMessage?.tool_call_id).toBe('call_0_0');
+  });
+
+  it('stops with a clear message at the step limit', async () => {
+    const ai = scriptedAI(Array.from({ length: 3 }, (_, i) => ({ tool_calls: [toolCall(`s${i}`, 'get_status')] })));
+
+    const reply = await runAgentConversation(context(ai), [{ role: 'user', content: 'loop' }], { maxSteps: 3, turnBudgetMs: 60_000 });
+
+    expect(ai.AI.run).toHaveBeenCalledTimes(3);
+    expect(reply).toBe(
+      'I stopped before finishing because I reached the limit of 3 steps for one turn. ' +
+      'Tools completed so far: get_status, get_status, get_status. Send "continue" and I will pick up where I left off.'
+    );
+  });
+
+  it('stops with a clear message when the turn runs out of time', async () => {
+    let clock = 0;
+    const ai = scriptedAI([
+      { tool_calls: [toolCall('slow', 'clone_repository')] },
+      { response: 'never reached' },
+    ]);
+    const sandbox = fakeSandbox();
+    sandbox.gitCheckout.mockImplementation(async () => {
+      clock += 45_000;
+      return { success: true };
+    });
+
+    const reply = await runAgentConversation(context(ai, sandbox), [{ role: 'user', content: 'clone' }], {
+      maxSteps: 8,
+      turnBudgetMs: 30_000,
+      now: () => clock,
+    });
+
+    expect(ai.AI.run).toHaveBeenCalledTimes(1);
+    expect(reply).toMatch(/^I stopped before finishing because I reached the 30s time limit for one turn\. Tools completed so far: clone_repository\./);
+  });
+
+  it('streams deltas and reports tool progress', async () => {
+    const encoder = new TextEncoder();
+    const modelStream = (...chunks: object[]) => new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    });
+    const run = vi.fn()
+      .mockResolvedValueOnce(modelStream(
+        { response: 'Checking ' },
+        { response: 'status…' },
+        { response: '', tool_calls: [{ name: 'get_status', arguments: {} }] },
+      ))
+      .mockResolvedValueOnce(modelStream({ response: 'All ' }, { response: 'clean.' }));
+
+    const log: string[] = [];
+    const events: AgentEvents = {
+      onDelta: (text) => log.push(`delta:${text}`),
+      onToolStarted: (tool) => log.push(`started:${tool.name}:${tool.id}`),
+      onToolFinished: (tool) => log.push(`finished:${tool.name}:${tool.ok}:${tool.summary}`),
+    };
+
+    const reply = await runAgentConversation(
+      { ...context(scriptedAI([])), env: { AI: { run } } as unknown as Env },
+      [{ role: 'user', content: 'status?' }],
+      LIMITS,
+      events
+    );
+
+    expect(reply).toBe('All clean.');
+    expect(run.mock.calls[0][1]).toMatchObject({ stream: true });
+    expect(log).toEqual([
+      'delta:Checking ',
+      'delta:status…',
+      'started:get_status:call_0_0',
+      'finished:get_status:true:M appsscript/src/Code.js',
+      'delta:All ',
+      'delta:clean.',
+    ]);
+  });
+
+  it('returns show_diff output as structured files and reports it for rendering', async () => {
+    const sandbox = fakeSandbox();
+    sandbox.exec.mockResolvedValueOnce({
+      stdout: [
+        'diff --git a/appsscript/src/Code.js b/appsscript/src/Code.js',
+        '--- a/appsscript/src/Code.js',
+        '+++ b/appsscript/src/Code.js',
+        '@@ -1 +1 @@',
+        '-var a = 1;',
+        '+var a = 2;',
+        '',
+      ].join('\n'),
+      success: true,
+      exitCode: 0,
+    });
+    const ai = scriptedAI([
+      { tool_calls: [toolCall('d1', 'show_diff', { range: 'unpushed' }), toolCall('d2', 'show_diff', { range: 'staged' })] },
+      { response: 'Here is the change.' },
+    ]);
+    const diffs: { id: string; files: unknown[] }[] = [];
+
+    await runAgentConversation(context(ai, sandbox), [{ role: 'user', content: 'diff?' }], LIMITS, {
+      onDiff: (diff) => diffs.push(diff),
+    });
+
+    expect(sandbox.exec).toHaveBeenCalledWith('git -C /workspace/repo diff --no-color origin/main HEAD -- appsscript/src appsscript/appsscript.json');
+    const results = ai.requests[1].messages.filter((m) => m.role === 'tool').map((m) => m.content);
+    expect(JSON.parse(results[0]).files[0]).toMatchObject({ path: 'appsscript/src/Code.js', additions: 1, deletions: 1 });
+    expect(results[1]).toBe('Error: range must be one of: uncommitted, unpushed');
+    expect(diffs).toHaveLength(1);
+    expect(diffs[0].id).toBe('d1');
+  });
+
+  it('only offers and runs the tools the caller\'s role allows', async () => {
+    const sandbox = fakeSandbox();
+    const ai = scriptedAI([
+      { tool_calls: [toolCall('c1', 'write_file', { fileName: 'Code.js', content: 'x' })] },
+      { response: 'You need admin access to change the code.' },
+    ]);
+
+    await runAgentConversation({ ...context(ai, sandbox), role: 'viewer' }, [{ role: 'user', content: 'edit' }], LIMITS);
+
+    const offered = (ai.requests[0].tools as { function: { name: string } }[]).map((tool) => tool.function.name);
+    expect(offered).toEqual(['list_projects', 'get_project_summary', 'forecast_budget', 'search_expenses', 'compare_scenario']);
+    expect(sandbox.writeFile).not.toHaveBeenCalled();
+    const result = ai.requests[1].messages.find((m) => m.tool_call_id === 'c1');
+    expect(result?.content).toBe('Error: write_file requires the admin role; the user is signed in as viewer');
+  });
+
+  it('tells the model and the client when every sandbox is in use', async () => {
+    const sandbox = fakeSandbox();
+    const ai = scriptedAI([
+      { tool_calls: [toolCall('c1', 'clone_repository')] },
+      { response: 'All sandboxes are busy; please send that again in a moment.' },
+    ]);
+    const ctx = context(ai, sandbox);
+    ctx.workspace = {
+      acquire: async () => { throw new WorkspaceBusyError(2, 5); },
+      withLock: (run) => run(),
+    };
+    const busy: WorkspaceBusy[] = [];
+
+    await runAgentConversation(ctx, [{ role: 'user', content: 'clone' }], LIMITS, {
+      onWorkspaceBusy: (status) => busy.push(status),
+    });
+
+    expect(sandbox.gitCheckout).not.toHaveBeenCalled();
+    const result = ai.requests[1].messages.find((m) => m.tool_call_id === 'c1');
+    expect(result?.content).toMatch(/^Error: All 5 sandboxes are in use\. This conversation is number 2 in the queue\./);
+    expect(busy).toEqual([{ queuePosition: 2, retryAfterSeconds: 30, message: expect.stringContaining('number 2') }]);
+  });
+
+  it('calls the provider from the loop options and reports each call\'s usage', async () => {
+    const ai = scriptedAI([]);
+    const complete = vi
+      .fn<Parameters<LlmProvider['complete']>, ReturnType<LlmProvider['complete']>>()
+      .mockResolvedValueOnce({
+        tool_calls: [toolCall('c1', 'get_status')],
+        usage: { promptTokens: 100, completionTokens: 10, totalTokens: 110 },
+        model: 'claude-test',
+      })
+      .mockResolvedValueOnce({ response: 'Clean.', usage: null, model: 'claude-test' });
+    const provider: LlmProvider = { name: 'anthropic', model: 'claude-test', complete };
+    const usage: [number, string][] = [];
+
+    const reply = await runAgentConversation(context(ai), [{ role: 'user', content: 'status?' }], { ...LIMITS, provider }, {
+      onModelUsage: (call, model) => usage.push([call.totalTokens, model]),
+    });
+
+    expect(reply).toBe('Clean.');
+    expect(ai.AI.run).not.toHaveBeenCalled();
+    expect(complete.mock.calls[1][0].messages.at(-1)).toMatchObject({ role: 'tool', tool_call_id: 'c1' });
+    expect(usage).toEqual([[110, 'claude-test'], [0, 'claude-test']]);
+  });
+});
@@ -0,0 +1,171 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const SOURCES: Record<string, string> = {
+  'Code.js': "function doGet(e) {\n  return HtmlService.createHtmlOutputFromFile('index');\n}\n",
+  'index.html': '<!DOCTYPE html>\n<html><body><h1>Budget</h1></body></html>\n',
+  'appsscript.json': '{"timeZone":"America/New_York","runtimeVersion":"V8"}',
+};
+
+const sandbox = {
+  readFile: vi.fn(async (path: string) => {
+    const name = path.split('/').pop()!;
+    if (!(name in SOURCES)) throw new Error(`ENOENT: ${path}`);
+    return { content: SOURCES[name] };
+  }),
+  writeFile: vi.fn(async () => undefined),
+  exec: vi.fn(async () => ({ stdout: '[main abc1234] Update doGet\n', success: true, exitCode: 0 })),
+};
+vi.mock('@cloudflare/sandbox', () => ({ getSandbox: vi.fn(() => sandbox) }));
+
+import { handleApprovalDecision, runAgentConversation, type ToolContext } from '../worker/agent';
+import type { Principal } from '../worker/auth';
+import { createApproval, decideApproval, getApproval, type ApprovalSummary } from '../worker/approvals';
+import { openConversation } from '../worker/conversations';
+import { ApiError } from '../worker/http';
+import { acquireWorkspaceLease, createWorkspace } from '../worker/workspaces';
+import { apiRequest, createTestDatabase, type TestDatabase } from './d1';
+
+let t: TestDatabase;
+
+beforeEach(async () => {
+  t = await createTestDatabase();
+  sandbox.writeFile.mockClear();
+  sandbox.exec.mockClear();
+});
+
+afterEach(async () => {
+  await t.dispose();
+});
+
+async function decisionStatus(promise: Promise<unknown>): Promise<number> {
+  try {
+    await promise;
+    return 200;
+  } catch (error) {
+    if (error instanceof ApiError) return error.status;
+    throw error;
+  }
+}
+
+describe('decideApproval', () => {
+  it('approves a pending call once', async () => {
+    const approval = await createApproval(t.db, 'conv-1', 'commit_changes', { message: 'Update doGet' });
+    expect(approval).toMatchObject({
+      status: 'pending',
+      description: 'Commit all workspace changes with message "Update doGet"',
+    });
+
+    const decided = await decideApproval(t.db, approval.id, 'conv-1', 'approve');
+    expect(decided.status).toBe('approved');
+    expect(decided.decidedAt).not.toBeNull();
+
+    expect(await decisionStatus(decideApproval(t.db, approval.id, 'conv-1', 'reject'))).toBe(409);
+  });
+
+  it('only accepts decisions from the conversation that requested the call', async () => {
+    const approval = await createApproval(t.db, 'conv-1', 'push_changes', {});
+    expect(await decisionStatus(decideApproval(t.db, approval.id, 'conv-2', 'approve'))).toBe(404);
+    expect((await getApproval(t.db, approval.id, 'conv-1')).status).toBe('pending');
+  });
+
+  it('rejects decisions after the approval expires', async () => {
+    const approval = await createApproval(t.db, 'conv-1', 'push_changes', {});
+    await t.db
+      .prepare('UPDATE tool_approvals SET expires_at = ? WHERE id = ?')
+      .bind('2000-01-01T00:00:00.000Z', approval.id)
+      .run();
+
+    expect(await decisionStatus(decideApproval(t.db, approval.id, 'conv-1', 'approve'))).toBe(410);
+    expect((await getApproval(t.db, approval.id, 'conv-1')).status).toBe('expired');
+  });
+});
+
+// getSandbox is mocked; the binding only has to be present
+function withSandbox(env: Env, vars: Record<string, string> = {}): Env {
+  return { ...env, Sandbox: {}, ...vars } as Env;
+}
+
+const ADMIN: Principal = { keyId: 'key-1', name: 'Owner', role: 'admin' };
+
+describe('approval gate', () => {
+  beforeEach(async () => {
+    await openConversation(t.db, ADMIN.keyId, 'conv-1', 'commit it');
+  });
+
+  it('holds gated tool calls until the user approves them', async () => {
+    const run = vi.fn()
+      .mockResolvedValueOnce({ tool_calls: [{ id: 'c1', function: { name: 'commit_changes', arguments: '{"message":"Update doGet"}' } }] })
+      .mockResolvedValueOnce({ response: 'The commit is waiting for your approval.' });
+    const context: ToolContext = {
+      env: { ...t.env, AI: { run } } as unknown as Env,
+      sandbox: sandbox as unknown as ToolContext['sandbox'],
+      workspace: createWorkspace(t.env, 'conv-1'),
+      gitConfig: { repoUrl: 'https://github.com/example/repo', githubToken: 'token', appsScriptId: '', githubApiUrl: 'https://api.github.com', pushMode: 'direct' },
+      conversationId: 'conv-1',
+      role: 'admin',
+    };
+
+    const pending: ApprovalSummary[] = [];
+    await runAgentConversation(context, [{ role: 'user', content: 'commit it' }], undefined, {
+      onApprovalRequired: (approval) => pending.push(approval),
+    });
+
+    expect(sandbox.exec).not.toHaveBeenCalledWith(expect.stringContaining(' commit '));
+    expect(pending).toHaveLength(1);
+    const toolResult = run.mock.calls[1][1].messages.find((m: { role: string }) => m.role === 'tool');
+    expect(toolResult.content).toMatch(/^Approval required: Commit all workspace changes/);
+
+    const [request] = apiRequest('POST', `/api/chat/approvals/${pending[0].id}`, {
+      conversationId: 'conv-1',
+      decision: 'approve',
+    });
+    const response = await handleApprovalDecision(request, withSandbox(t.env), pending[0].id, ADMIN);
+    const body = (await response.json()) as { approval: ApprovalSummary; ok: boolean; result: string; message: string };
+
+    expect(body.approval.status).toBe('approved');
+    expect(body.ok).toBe(true);
+    expect(body.message).toMatch(/^Done: Commit all workspace changes/);
+    expect(sandbox.exec).toHaveBeenCalledWith("git -C /workspace/repo commit -m 'Update doGet'");
+    expect((await getApproval(t.db, pending[0].id, 'conv-1')).result).toBe(body.result);
+  });
+
+  it('does not run rejected calls', async () => {
+    const approval = await createApproval(t.db, 'conv-1', 'write_file', { fileName: 'Code.js', content: 'x' });
+    const [request] = apiRequest('POST', `/api/chat/approvals/${approval.id}`, {
+      conversationId: 'conv-1',
+      decision: 'reject',
+    });
+    const response = await handleApprovalDecision(request, withSandbox(t.env), approval.id, ADMIN);
+    const body = (await response.json()) as { approval: ApprovalSummary };
+
+    expect(body.approval.status).toBe('rejected');
+    expect(sandbox.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('only accepts decisions from the API key that owns the conversation', async () => {
+    const approval = await createApproval(t.db, 'conv-1', 'push_changes', {});
+    const [request] = apiRequest('POST', `/api/chat/approvals/${approval.id}`, {
+      conversationId: 'conv-1',
+      decision: 'approve',
+    });
+
+    const otherAdmin: Principal = { keyId: 'key-2', name: 'Other admin', role: 'admin' };
+    expect(await decisionStatus(handleApprovalDecision(request, withSandbox(t.env), approval.id, otherAdmin))).toBe(404);
+    expect((await getApproval(t.db, approval.id, 'conv-1')).status).toBe('pending');
+  });
+
+  it('keeps the approval pending while every sandbox is in use', async () => {
+    await acquireWorkspaceLease(t.db, 'other-conversation', { maxSandboxes: 1, idleMs: 60_000 });
+    const approval = await createApproval(t.db, 'conv-1', 'push_changes', {});
+    const [request] = apiRequest('POST', `/api/chat/approvals/${approval.id}`, {
+      conversationId: 'conv-1',
+      decision: 'approve',
+    });
+
+    const env = withSandbox(t.env, { SANDBOX_MAX_INSTANCES: '1' });
+    expect(await decisionStatus(handleApprovalDecision(request, env, approval.id, ADMIN))).toBe(503);
+    expect((await getApproval(t.db, approval.id, 'conv-1')).status).toBe('pending');
+    expect(sandbox.exec).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@cloudflare/sandbox', () => ({ getSandbox: vi.fn() }));
+
+import { runAgentConversation, type ToolContext } from '../worker/agent';
+import {
+  checkCodeJs,
+  checkHtml,
+  checkManifest,
+  parseSyntaxCheckOutput,
+  validateAppsScriptSources,
+} from '../worker/appsscript-validation';
+
+const VALID_CODE = "function doGet(e) {\n  return HtmlService.createHtmlOutputFromFile('index');\n}\n";
+const VALID_HTML = `<!DOCTYPE html>
+<html>
+  <head>
+    <base target="_top">
+    <title>Home Remodel Budget</title>
+    <script>if (a < b && c > d) { document.write('</div>'); }</script>
+  </head>
+  <body>
+    <!-- <div> inside a comment -->
+    <h1 data-label="a > b">Budget</h1>
+    <img src="x.png"><br/>
+    <? for (var i = 0; i < 3; i++) { ?><p><?= i ?></p><? } ?>
+  </body>
+</html>
+`;
+const VALID_MANIFEST = JSON.stringify({
+  timeZone: 'America/New_York',
+  runtimeVersion: 'V8',
+  webapp: { access: 'ANYONE', executeAs: 'USER_DEPLOYING' },
+});
+
+describe('checkCodeJs', () => {
+  it('requires doGet to be defined outside comments', () => {
+    expect(checkCodeJs(VALID_CODE)).toEqual([]);
+    expect(checkCodeJs('const doGet = (e) => HtmlService.createHtmlOutput("hi");')).toEqual([]);
+    expect(checkCodeJs('// function doGet(e) {}\nfunction getData() {}')).toEqual([
+      { file: 'Code.js', message: 'doGet is not defined; the web app needs a doGet(e) function' },
+    ]);
+  });
+
+  it('reads the line and message from node --check output', () => {
+    const output = '/workspace/repo/appsscript/src/Code.js:3\n  return 1 +;\n            ^\n\nSyntaxError: Unexpected token \';\'\n    at wrapSafe (node:internal/modules/cjs/loader:1378:20)\n';
+    expect(parseSyntaxCheckOutput('Code.js', output)).toEqual({
+      file: 'Code.js',
+      line: 3,
+      message: "SyntaxError: Unexpected token ';'",
+    });
+  });
+});
+
+describe('checkHtml', () => {
+  it('accepts well-formed documents with void elements, raw text, comments and scriptlets', () => {
+    expect(checkHtml(VALID_HTML)).toEqual([]);
+  });
+
+  it('reports unclosed, mismatched and stray tags with their lines', () => {
+    const issues = checkHtml('<html>\n<body>\n<div>\n<p>Hi\n</div>\n</span>\n</body>\n');
+    expect(issues).toEqual([
+      { file: 'index.html', line: 4, message: '<p> is not closed before </div>' },
+      { file: 'index.html', line: 6, message: 'Unexpected closing tag </span>; expected </body>' },
+      { file: 'index.html', line: 1, message: '<html> is never closed' },
+    ]);
+  });
+
+  it('reports unterminated tags, comments and scriptlets', () => {
+    expect(checkHtml('<div class="a"')[0].message).toBe('Unterminated tag <div');
+    expect(checkHtml('<div></div><!-- note')[0].message).toBe('Unterminated comment');
+    expect(checkHtml('<p><?= name </p>')[0].message).toBe('Unterminated scriptlet (missing ?>)');
+  });
+});
+
+describe('checkManifest', () => {
+  it('accepts a valid manifest, with or without webapp settings', () => {
+    expect(checkManifest(VALID_MANIFEST)).toEqual([]);
+    expect(checkManifest('{"timeZone":"UTC","runtimeVersion":"V8","dependencies":{}}')).toEqual([]);
+  });
+
+  it('reports each invalid field', () => {
+    const issues = checkManifest(JSON.stringify({
+      timeZone: 'Mars/Olympus_Mons',
+      runtimeVersion: 'V9',
+      webapp: { access: 'EVERYONE' },
+    }));
+    expect(issues.map((i) => i.message)).toEqual([
+      'timeZone must be an IANA time zone such as "America/New_York"',
+      'runtimeVersion must be one of: V8, STABLE, DEPRECATED_ES5',
+      'webapp.access must be one of: MYSELF, DOMAIN, ANYONE, ANYONE_ANONYMOUS',
+      'webapp.executeAs must be one of: USER_ACCESSING, USER_DEPLOYING',
+    ]);
+  });
+
+  it('reports invalid JSON', () => {
+    expect(checkManifest('{"timeZone": ')[0].message).toMatch(/^Invalid JSON: /);
+    expect(checkManifest('[]')).toEqual([{ file: 'appsscript.json', message: 'The manifest must be a JSON object' }]);
+  });
+});
+
+function fakeSandbox(files: Record<string, string>, syntaxError?: string) {
+  return {
+    readFile: vi.fn(async (path: string) => {
+      const name = path.split('/').slice(-2).join('/');
+      if (!(name in files)) throw new Error(`ENOENT: ${path}`);
+      return { content: files[name] };
+    }),
+    exec: vi.fn(async (command: string) => {
+      if (command.startsWith('node --check')) {
+        return syntaxError
+          ? { stdout: '', stderr: syntaxError, success: false, exitCode: 1 }
+          : { stdout: '', stderr: '', success: true, exitCode: 0 };
+      }
+      return { stdout: '[main abc1234] Update\n', stderr: '', success: true, exitCode: 0 };
+    }),
+  };
+}
+
+describe('validateAppsScriptSources', () => {
+  it('passes the current sources', async () => {
+    const sandbox = fakeSandbox({ 'src/Code.js': VALID_CODE, 'src/index.html': VALID_HTML, 'appsscript/appsscript.json': VALID_MANIFEST });
+    expect(await validateAppsScriptSources(sandbox as never)).toEqual([]);
+    expect(sandbox.exec).toHaveBeenCalledWith('node --check /workspace/repo/appsscript/src/Code.js');
+  });
+
+  it('collects issues from every file', async () => {
+    const sandbox = fakeSandbox(
+      { 'src/Code.js': 'function getData( {', 'appsscript/appsscript.json': '{"timeZone":"UTC"}' },
+      '/workspace/repo/appsscript/src/Code.js:1\nfunction getData( {\n                  ^\n\nSyntaxError: Unexpected token \'{\'\n'
+    );
+    expect(await validateAppsScriptSources(sandbox as never)).toEqual([
+      { file: 'Code.js', line: 1, message: "SyntaxError: Unexpected token '{'" },
+      { file: 'Code.js', message: 'doGet is not defined; the web app needs a doGet(e) function' },
+      { file: 'index.html', message: 'index.html is missing; doGet serves it' },
+      { file: 'appsscript.json', message: 'runtimeVersion must be one of: V8, STABLE, DEPRECATED_ES5' },
+    ]);
+  });
+
+  it('requires the manifest the repository keeps beside the sources', async () => {
+    const sandbox = fakeSandbox({ 'src/Code.js': VALID_CODE, 'src/index.html': VALID_HTML, 'src/appsscript.json': VALID_MANIFEST });
+    expect(await validateAppsScriptSources(sandbox as never)).toEqual([
+      { file: 'appsscript.json', message: 'appsscript.json is missing; the project needs its manifest' },
+    ]);
+  });
+});
+
+describe('commit_changes', () => {
+  it('returns validation failures to the model instead of committing', async () => {
+    const sandbox = fakeSandbox({ 'src/Code.js': 'function getData() {}', 'src/index.html': VALID_HTML, 'appsscript/appsscript.json': VALID_MANIFEST });
+    const run = vi.fn()
+      .mockResolvedValueOnce({ tool_calls: [{ id: 'c1', function: { name: 'commit_changes', arguments: '{"message":"Update"}' } }] })
+      .mockResolvedValueOnce({ response: 'doGet was removed; I will restore it.' });
+    const context: ToolContext = {
+      env: { AI: { run } } as unknown as Env,
+      sandbox: sandbox as unknown as ToolContext['sandbox'],
+      workspace: { acquire: async () => {}, withLock: (run) => run() },
+      gitConfig: { repoUrl: 'https://github.com/example/repo', githubToken: 'token', appsScriptId: '', githubApiUrl: 'https://api.github.com', pushMode: 'direct' },
+      conversationId: 'conv-1',
+      role: 'admin',
+    };
+
+    await runAgentConversation(context, [{ role: 'user', content: 'commit' }], { maxSteps: 4, turnBudgetMs: 60_000 });
+
+    const toolResult = run.mock.calls[1][1].messages.find((m: { role: string }) => m.role === 'tool').content as string;
+    expect(toolResult).toMatch(/^Error: Apps Script validation failed, nothing was committed\./);
+    expect(JSON.parse(toolResult.slice(toolResult.indexOf('{')))).toEqual({
+      issues: [{ file: 'Code.js', message: 'doGet is not defined; the web app needs a doGet(e) function' }],
+    });
+    expect(sandbox.exec).toHaveBeenCalledTimes(1);
+  });
+});
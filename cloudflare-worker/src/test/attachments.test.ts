@@ -0,0 +1,143 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { apiRequest, createTestDatabase, type TestDatabase } from './d1';
+import { detectContentType, handleAttachmentsRequest, type Attachment } from '../worker/attachments';
+import { createExpense, handleExpensesRequest } from '../worker/expenses';
+import { archiveProject, createProject, handleProjectsRequest } from '../worker/projects';
+import { ApiError } from '../worker/http';
+
+const PDF = new TextEncoder().encode('%PDF-1.7\n1 0 obj << >> endobj\n%%EOF');
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+
+let t: TestDatabase;
+let projectId: string;
+let expenseId: string;
+
+beforeEach(async () => {
+  t = await createTestDatabase();
+  projectId = (await createProject(t.db, { name: 'Kitchen', budgetCents: 2_500_000 })).id;
+  expenseId = (
+    await createExpense(t.db, projectId, {
+      date: '2026-03-10',
+      vendor: 'Sparky Electric',
+      category: 'electrical',
+      amountCents: 95_000,
+    })
+  ).id;
+});
+
+afterEach(async () => {
+  await t.dispose();
+});
+
+async function upload(bytes: Uint8Array<ArrayBuffer>, fileName: string, fields: Record<string, string> = {}) {
+  const form = new FormData();
+  form.append('file', new File([bytes], fileName, { type: 'application/octet-stream' }));
+  for (const [key, value] of Object.entries(fields)) form.append(key, value);
+  const url = new URL(`/api/projects/${projectId}/attachments`, 'http://localhost');
+  return handleAttachmentsRequest(new Request(url, { method: 'POST', body: form }), t.env, url);
+}
+
+async function call(method: string, path: string, body?: unknown) {
+  const [request, url] = apiRequest(method, path, body);
+  const response =
+    (await handleAttachmentsRequest(request, t.env, url)) ??
+    (await handleExpensesRequest(request, t.env, url)) ??
+    (await handleProjectsRequest(request, t.env, url));
+  return response!;
+}
+
+async function storedKeys(): Promise<string[]> {
+  return (await t.env.ATTACHMENTS!.list()).objects.map((object) => object.key);
+}
+
+describe('Attachments', () => {
+  it('stores an upload in R2 and lists it per project and per expense', async () => {
+    const response = await upload(PDF, 'C:\\Users\\me\\invoice #42.pdf', { expenseId });
+    expect(response!.status).toBe(201);
+    const { attachment } = (await response!.json()) as { attachment: Attachment };
+    expect(attachment).toMatchObject({
+      projectId,
+      expenseId,
+      fileName: 'invoice #42.pdf',
+      contentType: 'application/pdf',
+      sizeBytes: PDF.byteLength,
+      downloadUrl: `/api/projects/${projectId}/attachments/${attachment.id}/download`,
+    });
+    expect(await storedKeys()).toEqual([`projects/${projectId}/attachments/${attachment.id}`]);
+
+    await upload(PNG, 'site-photo.png');
+    const all = (await (await call('GET', `/api/projects/${projectId}/attachments`)).json()) as {
+      attachments: Attachment[];
+    };
+    expect(all.attachments).toHaveLength(2);
+
+    const linked = (await (
+      await call('GET', `/api/projects/${projectId}/expenses/${expenseId}/attachments`)
+    ).json()) as { attachments: Attachment[] };
+    expect(linked.attachments.map((a) => a.id)).toEqual([attachment.id]);
+  });
+
+  it('serves the stored bytes for download', async () => {
+    const { attachment } = (await (await upload(PDF, 'invoice.pdf'))!.json()) as { attachment: Attachment };
+
+    const response = await call('GET', attachment.downloadUrl);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/pdf');
+    expect(response.headers.get('Content-Disposition')).toBe("attachment; filename*=UTF-8''invoice.pdf");
+    expect(response.headers.get('Cache-Control')).toBe('private, no-store');
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(PDF);
+  });
+
+  it('detects the type from the contents and enforces the size limit', async () => {
+    expect(detectContentType(new TextEncoder().encode('MZ\x90\x00'))).toBeNull();
+    await expect(upload(new TextEncoder().encode('#!/bin/sh\necho hi'), 'receipt.pdf')).rejects.toMatchObject({
+      status: 400,
+      fields: { file: expect.stringContaining('PDF') },
+    });
+
+    t.env = { ...t.env, ATTACHMENT_MAX_BYTES: '16' } as unknown as Env;
+    await expect(upload(PDF, 'invoice.pdf')).rejects.toMatchObject({ status: 413 });
+    expect(await storedKeys()).toEqual([]);
+  });
+
+  it('only links to expenses of the same project and refuses uploads to archived projects', async () => {
+    await expect(upload(PDF, 'invoice.pdf', { expenseId: 'missing' })).rejects.toMatchObject({ status: 404 });
+
+    await archiveProject(t.db, projectId);
+    const error = await upload(PDF, 'invoice.pdf').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 409 });
+  });
+
+  it('keeps files unlinked when their expense is deleted', async () => {
+    const { attachment } = (await (await upload(PDF, 'invoice.pdf', { expenseId }))!.json()) as {
+      attachment: Attachment;
+    };
+
+    expect((await call('DELETE', `/api/projects/${projectId}/expenses/${expenseId}`)).status).toBe(204);
+
+    const kept = (await (await call('GET', `/api/projects/${projectId}/attachments/${attachment.id}`)).json()) as {
+      attachment: Attachment;
+    };
+    expect(kept.attachment.expenseId).toBeNull();
+    expect(await storedKeys()).toHaveLength(1);
+  });
+
+  it('relinks, then deletes the file with the attachment and with the project', async () => {
+    const { attachment } = (await (await upload(PDF, 'invoice.pdf'))!.json()) as { attachment: Attachment };
+
+    const patched = (await (
+      await call('PATCH', `/api/projects/${projectId}/attachments/${attachment.id}`, { expenseId })
+    ).json()) as { attachment: Attachment };
+    expect(patched.attachment.expenseId).toBe(expenseId);
+
+    expect((await call('DELETE', `/api/projects/${projectId}/attachments/${attachment.id}`)).status).toBe(204);
+    expect(await storedKeys()).toEqual([]);
+
+    await upload(PNG, 'photo.png');
+    expect(await storedKeys()).toHaveLength(1);
+    expect((await call('DELETE', `/api/projects/${projectId}`)).status).toBe(204);
+    expect(await storedKeys()).toEqual([]);
+  });
+});
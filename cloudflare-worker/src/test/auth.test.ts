@@ -0,0 +1,139 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  AUTH_COOKIE,
+  authenticate,
+  authorize,
+  createApiKey,
+  handleAuthRequest,
+  requiredRole,
+  signSession,
+  verifySession,
+  type Principal,
+} from '../worker/auth';
+import { ApiError } from '../worker/http';
+import { apiRequest, createTestDatabase, type TestDatabase } from './d1';
+
+const SECRET = 'test-signing-secret';
+const ADMIN_KEY = 'hrb_bootstrap-admin-key';
+
+let t: TestDatabase;
+
+beforeEach(async () => {
+  t = await createTestDatabase();
+  t.env = { ...t.env, AUTH_SECRET: SECRET, ADMIN_API_KEY: ADMIN_KEY } as Env;
+});
+
+afterEach(async () => {
+  await t.dispose();
+});
+
+function bearer(key: string) {
+  return { Authorization: `Bearer ${key}` };
+}
+
+async function statusOf(run: () => unknown): Promise<number> {
+  try {
+    await run();
+    return 200;
+  } catch (error) {
+    if (error instanceof ApiError) return error.status;
+    throw error;
+  }
+}
+
+async function auth(method: string, path: string, body?: unknown, headers: Record<string, string> = {}) {
+  const [request, url] = apiRequest(method, path, body, headers);
+  const principal = await authenticate(request, t.env);
+  return (await handleAuthRequest(request, t.env, url, principal))!;
+}
+
+describe('requiredRole', () => {
+  it('maps routes to the least role that may use them', () => {
+    expect(requiredRole('GET', '/api/health')).toBeNull();
+    expect(requiredRole('POST', '/api/auth/login')).toBeNull();
+    expect(requiredRole('GET', '/api/projects')).toBe('viewer');
+    expect(requiredRole('POST', '/api/chat')).toBe('viewer');
+    expect(requiredRole('DELETE', '/api/conversations/abc')).toBe('viewer');
+    expect(requiredRole('POST', '/api/projects/p1/expenses')).toBe('editor');
+    expect(requiredRole('PATCH', '/api/projects/p1/categories/plumbing')).toBe('editor');
+    expect(requiredRole('POST', '/api/chat/approvals/a1')).toBe('admin');
+    expect(requiredRole('GET', '/api/auth/keys')).toBe('admin');
+  });
+
+  it('rejects missing callers with 401 and low roles with 403', async () => {
+    const viewer: Principal = { keyId: 'k', name: 'Viewer', role: 'viewer' };
+    expect(await statusOf(() => authorize(null, 'viewer'))).toBe(401);
+    expect(await statusOf(() => authorize(viewer, 'editor'))).toBe(403);
+    expect(await statusOf(() => authorize({ ...viewer, role: 'admin' }, 'editor'))).toBe(200);
+  });
+});
+
+describe('authenticate', () => {
+  it('accepts stored API keys as bearer tokens until they are revoked', async () => {
+    const { apiKey, key } = await createApiKey(t.db, { name: 'Contractor', role: 'editor' });
+    expect(key.startsWith(apiKey.keyPrefix)).toBe(true);
+
+    const [request] = apiRequest('GET', '/api/projects', undefined, bearer(key));
+    expect(await authenticate(request, t.env)).toEqual({ keyId: apiKey.id, name: 'Contractor', role: 'editor' });
+
+    const stored = await t.db.prepare('SELECT key_hash, last_used_at FROM api_keys').first<{ key_hash: string; last_used_at: string }>();
+    expect(stored?.key_hash).not.toContain(key);
+    expect(stored?.last_used_at).not.toBeNull();
+
+    await auth('DELETE', `/api/auth/keys/${apiKey.id}`, undefined, bearer(ADMIN_KEY));
+    expect(await authenticate(request, t.env)).toBeNull();
+  });
+
+  it('rejects unknown keys', async () => {
+    const [request] = apiRequest('GET', '/api/projects', undefined, bearer('hrb_not-a-key'));
+    expect(await authenticate(request, t.env)).toBeNull();
+  });
+});
+
+describe('session cookies', () => {
+  it('verifies the signature and expiry', async () => {
+    const now = Date.parse('2026-03-01T00:00:00.000Z');
+    const value = await signSession(SECRET, 'key-1', now);
+
+    expect(await verifySession(SECRET, value, now)).toBe('key-1');
+    expect(await verifySession('another-secret', value, now)).toBeNull();
+    expect(await verifySession(SECRET, value.replace('key-1', 'key-2'), now)).toBeNull();
+    expect(await verifySession(SECRET, value, now + 8 * 24 * 60 * 60 * 1000)).toBeNull();
+  });
+
+  it('signs in with an API key and signs out', async () => {
+    const { key } = await createApiKey(t.db, { name: 'Homeowner', role: 'viewer' });
+
+    expect((await statusOf(() => auth('POST', '/api/auth/login', { apiKey: 'hrb_wrong' })))).toBe(401);
+    const login = await auth('POST', '/api/auth/login', { apiKey: key });
+    expect(await login.json()).toEqual({ user: { name: 'Homeowner', role: 'viewer' } });
+    const cookie = (login.headers.get('Set-Cookie') ?? '').split(';')[0];
+    expect(cookie.startsWith(`${AUTH_COOKIE}=`)).toBe(true);
+
+    const me = await auth('GET', '/api/auth/me', undefined, { Cookie: cookie });
+    expect(await me.json()).toEqual({ user: { name: 'Homeowner', role: 'viewer' } });
+
+    const logout = await auth('POST', '/api/auth/logout', undefined, { Cookie: cookie });
+    expect(logout.status).toBe(204);
+    expect(logout.headers.get('Set-Cookie')).toContain('Max-Age=0');
+  });
+});
+
+describe('API key management', () => {
+  it('creates keys that are shown once and listed without their secret', async () => {
+    const created = await auth('POST', '/api/auth/keys', { name: 'Designer', role: 'editor' }, bearer(ADMIN_KEY));
+    expect(created.status).toBe(201);
+    const { apiKey, key } = (await created.json()) as { apiKey: { id: string }; key: string };
+
+    const listed = (await (await auth('GET', '/api/auth/keys', undefined, bearer(ADMIN_KEY))).json()) as {
+      keys: Record<string, unknown>[];
+    };
+    expect(listed.keys).toEqual([expect.objectContaining({ id: apiKey.id, name: 'Designer', role: 'editor', revokedAt: null })]);
+    expect(JSON.stringify(listed)).not.toContain(key);
+  });
+
+  it('validates the role', async () => {
+    expect(await statusOf(() => auth('POST', '/api/auth/keys', { name: 'Owner', role: 'owner' }, bearer(ADMIN_KEY)))).toBe(400);
+  });
+});
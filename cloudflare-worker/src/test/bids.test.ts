@@ -0,0 +1,219 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { apiRequest, createTestDatabase, type TestDatabase } from './d1';
+import { acceptBid, compareProjectBids, createBid, deleteBid, handleBidsRequest, updateBid } from '../worker/bids';
+import { deleteCategory, getCategory, listCategories } from '../worker/categories';
+import { createProject } from '../worker/projects';
+import { createVendor, deleteVendor, handleVendorsRequest, updateVendor } from '../worker/vendors';
+
+const TODAY = '2026-04-01';
+
+let t: TestDatabase;
+let projectId: string;
+
+beforeEach(async () => {
+  t = await createTestDatabase();
+  projectId = (await createProject(t.db, { name: 'Kitchen', budgetCents: 5_000_000 })).id;
+});
+
+afterEach(async () => {
+  await t.dispose();
+});
+
+async function vendor(name: string, details: Record<string, unknown> = {}) {
+  return createVendor(t.db, {
+    name,
+    trade: 'Cabinetry',
+    licenseNumber: 'CSLB 123456',
+    insuranceExpiresOn: '2027-01-01',
+    ...details,
+  });
+}
+
+async function cabinetBid(vendorId: string, lineItems: unknown[], details: Record<string, unknown> = {}) {
+  return createBid(t.db, projectId, { vendorId, scope: 'Kitchen cabinets', category: 'cabinets', lineItems, ...details });
+}
+
+describe('vendors', () => {
+  it('adds, filters and updates vendors with unique names', async () => {
+    const woodworks = await vendor('Oak & Sons Woodworks', { email: 'quotes@oakandsons.example' });
+    await vendor('Sparky Electric', { trade: 'Electrician' });
+
+    const [request, url] = apiRequest('GET', '/api/vendors?trade=cabinetry');
+    const { vendors } = (await (await handleVendorsRequest(request, t.env, url))!.json()) as { vendors: { name: string }[] };
+    expect(vendors.map((v) => v.name)).toEqual(['Oak & Sons Woodworks']);
+
+    expect(await updateVendor(t.db, woodworks.id, { phone: '408-555-0100', licenseNumber: null })).toMatchObject({
+      phone: '408-555-0100',
+      licenseNumber: null,
+      email: 'quotes@oakandsons.example',
+    });
+    await expect(vendor('oak & sons woodworks')).rejects.toMatchObject({ status: 409 });
+    await expect(createVendor(t.db, { name: 'Bad', email: 'not-an-email', insuranceExpiresOn: '2026-13-01' })).rejects.toMatchObject({
+      fields: { email: 'email must be an email address', insuranceExpiresOn: 'insuranceExpiresOn must be a date in YYYY-MM-DD format' },
+    });
+  });
+
+  it('keeps vendors that have bids', async () => {
+    const woodworks = await vendor('Oak & Sons Woodworks');
+    const bid = await cabinetBid(woodworks.id, [{ description: 'Base cabinets', amountCents: 100_000 }]);
+
+    await expect(deleteVendor(t.db, woodworks.id)).rejects.toMatchObject({ status: 409 });
+    await deleteBid(t.db, projectId, bid.id);
+    await deleteVendor(t.db, woodworks.id);
+  });
+});
+
+describe('bids', () => {
+  it('totals line items and validates each one', async () => {
+    const woodworks = await vendor('Oak & Sons Woodworks');
+    const bid = await cabinetBid(
+      woodworks.id,
+      [
+        { description: 'Base cabinets', quantity: 12, unit: 'lf', amountCents: 960_000 },
+        { item: 'Haul away', description: 'Debris removal', amountCents: 40_000 },
+      ],
+      { validUntil: '2026-05-01', inclusions: ['Installation'], exclusions: ['Countertops'] }
+    );
+
+    expect(bid).toMatchObject({
+      vendor: { id: woodworks.id, name: 'Oak & Sons Woodworks' },
+      scope: 'Kitchen cabinets',
+      status: 'pending',
+      totalCents: 1_000_000,
+      inclusions: ['Installation'],
+      exclusions: ['Countertops'],
+    });
+    expect(bid.lineItems.map((line) => line.item)).toEqual(['base_cabinets', 'haul_away']);
+
+    await expect(cabinetBid(woodworks.id, [{ description: 'Base cabinets', amountCents: 1.5 }, { amountCents: 10 }])).rejects.toMatchObject({
+      fields: {
+        'lineItems.0.amountCents': 'amountCents must be a whole, non-negative number of cents',
+        'lineItems.1.description': 'description is required',
+      },
+    });
+    await expect(
+      cabinetBid(woodworks.id, [{ description: 'Base cabinets', amountCents: 10 }, { description: 'Base  Cabinets', amountCents: 10 }])
+    ).rejects.toMatchObject({ fields: { 'lineItems.1.item': expect.stringContaining('appears more than once') } });
+    await expect(cabinetBid(woodworks.id, [{ description: 'Base cabinets', amountCents: 10 }], { category: 'hot_tub' })).rejects.toMatchObject({
+      fields: { category: expect.stringContaining('Unknown category "hot_tub"') },
+    });
+  });
+
+  it('normalizes bids to the same scope and highlights what each leaves out', async () => {
+    const oak = await vendor('Oak & Sons Woodworks');
+    const budget = await vendor('Budget Cabinets', { licenseNumber: null, insuranceExpiresOn: '2026-03-01' });
+    const craft = await vendor('Craft Kitchens');
+
+    const full = await cabinetBid(oak.id, [
+      { description: 'Cabinets', amountCents: 900_000 },
+      { description: 'Installation', amountCents: 200_000 },
+      { description: 'Haul away', amountCents: 50_000 },
+    ]);
+    const cheap = await cabinetBid(budget.id, [{ description: 'Cabinets', amountCents: 700_000 }], {
+      exclusions: ['Installation by others'],
+      validUntil: '2026-03-15',
+    });
+    const bundled = await cabinetBid(craft.id, [{ description: 'Cabinets', amountCents: 1_000_000 }, { description: 'Installation', amountCents: 100_000 }], {
+      inclusions: ['Haul-away of debris'],
+    });
+
+    const comparison = await compareProjectBids(t.db, projectId, 'kitchen cabinets', TODAY);
+    const byId = Object.fromEntries(comparison.bids.map((entry) => [entry.bidId, entry]));
+
+    expect(comparison.scope).toBe('Kitchen cabinets');
+    expect(comparison.items).toEqual([
+      { item: 'cabinets', description: 'Cabinets', lowCents: 700_000, highCents: 1_000_000, pricedBy: 3 },
+      { item: 'installation', description: 'Installation', lowCents: 100_000, highCents: 200_000, pricedBy: 2 },
+      { item: 'haul_away', description: 'Haul away', lowCents: 50_000, highCents: 50_000, pricedBy: 1 },
+    ]);
+    expect(byId[full.id]).toMatchObject({ totalCents: 1_150_000, gapCents: 0, normalizedTotalCents: 1_150_000, gaps: [], warnings: [] });
+    expect(byId[cheap.id]).toMatchObject({
+      totalCents: 700_000,
+      gapCents: 200_000,
+      normalizedTotalCents: 900_000,
+      gaps: ['installation', 'haul_away'],
+      warnings: ['Quote expired on 2026-03-15', 'Insurance expired on 2026-03-01', 'No license number on file'],
+    });
+    expect(byId[cheap.id].lines).toEqual([
+      { item: 'cabinets', status: 'priced', amountCents: 700_000, estimateCents: null },
+      { item: 'installation', status: 'excluded', amountCents: null, estimateCents: 150_000 },
+      { item: 'haul_away', status: 'missing', amountCents: null, estimateCents: 50_000 },
+    ]);
+    expect(byId[bundled.id]).toMatchObject({ normalizedTotalCents: 1_100_000, gaps: [] });
+    expect(byId[bundled.id].lines[2]).toMatchObject({ status: 'included', estimateCents: null });
+    expect(comparison.lowestBidId).toBe(cheap.id);
+
+    const [missing, missingUrl] = apiRequest('GET', `/api/projects/${projectId}/bids/compare`);
+    await expect(handleBidsRequest(missing, t.env, missingUrl)).rejects.toMatchObject({ fields: { scope: 'scope is required' } });
+  });
+
+  it('commits an accepted bid against its category and declines the rest', async () => {
+    const oak = await vendor('Oak & Sons Woodworks');
+    const craft = await vendor('Craft Kitchens');
+    const chosen = await cabinetBid(oak.id, [{ description: 'Cabinets', amountCents: 1_200_000 }]);
+    const rival = await cabinetBid(craft.id, [{ description: 'Cabinets', amountCents: 1_300_000 }]);
+
+    const result = await acceptBid(t.db, projectId, chosen.id, TODAY);
+    expect(result.bid).toMatchObject({ status: 'accepted', decidedAt: expect.any(String) });
+    expect(result.declined).toEqual([rival.id]);
+    expect(result.category).toMatchObject({ key: 'cabinets', committedCents: 1_200_000, spentCents: 0 });
+    expect((await listCategories(t.db, projectId)).totals.committedCents).toBe(1_200_000);
+
+    await expect(acceptBid(t.db, projectId, rival.id, TODAY)).rejects.toMatchObject({ status: 409 });
+    await expect(updateBid(t.db, projectId, chosen.id, { notes: 'Changed' })).rejects.toMatchObject({ status: 409 });
+    await expect(deleteBid(t.db, projectId, chosen.id)).rejects.toMatchObject({ status: 409 });
+    await expect(deleteCategory(t.db, projectId, 'cabinets')).rejects.toMatchObject({ status: 409 });
+
+    const late = await cabinetBid(craft.id, [{ description: 'Cabinets', amountCents: 1 }], { scope: 'Pantry', validUntil: '2026-03-31' });
+    await expect(acceptBid(t.db, projectId, late.id, TODAY)).rejects.toMatchObject({
+      status: 409,
+      message: expect.stringContaining('expired on 2026-03-31'),
+    });
+    expect((await getCategory(t.db, projectId, 'cabinets')).committedCents).toBe(1_200_000);
+  });
+
+  it('accepts one bid per scope when acceptances race', async () => {
+    const oak = await vendor('Oak & Sons Woodworks');
+    const craft = await vendor('Craft Kitchens');
+    const first = await cabinetBid(oak.id, [{ description: 'Cabinets', amountCents: 1_200_000 }]);
+    const second = await cabinetBid(craft.id, [{ description: 'Cabinets', amountCents: 1_300_000 }]);
+
+    const results = await Promise.allSettled([
+      acceptBid(t.db, projectId, first.id, TODAY),
+      acceptBid(t.db, projectId, second.id, TODAY),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find((r) => r.status === 'rejected')).toMatchObject({ reason: { status: 409 } });
+    expect([1_200_000, 1_300_000]).toContain((await getCategory(t.db, projectId, 'cabinets')).committedCents);
+  });
+
+  it('rejects a second accepted bid for a scope in the database', async () => {
+    const oak = await vendor('Oak & Sons Woodworks');
+    const craft = await vendor('Craft Kitchens');
+    const first = await cabinetBid(oak.id, [{ description: 'Cabinets', amountCents: 1_200_000 }]);
+    const second = await cabinetBid(craft.id, [{ description: 'Cabinets', amountCents: 1_300_000 }], { scope: 'KITCHEN CABINETS' });
+    await t.db.prepare("UPDATE bids SET status = 'accepted' WHERE id = ?").bind(first.id).run();
+
+    await expect(
+      t.db.prepare("UPDATE bids SET status = 'accepted' WHERE id = ?").bind(second.id).run()
+    ).rejects.toThrow(/UNIQUE/);
+  });
+
+  it('replaces the line items of an open bid', async () => {
+    const oak = await vendor('Oak & Sons Woodworks');
+    const bid = await cabinetBid(oak.id, [{ description: 'Cabinets', amountCents: 900_000 }]);
+
+    const [request, url] = apiRequest('PATCH', `/api/projects/${projectId}/bids/${bid.id}`, {
+      lineItems: [
+        { description: 'Cabinets', amountCents: 850_000 },
+        { description: 'Crown molding', amountCents: 30_000 },
+      ],
+      validUntil: '2026-06-30',
+    });
+    const { bid: updated } = (await (await handleBidsRequest(request, t.env, url))!.json()) as { bid: { totalCents: number; validUntil: string; lineItems: unknown[] } };
+    expect(updated).toMatchObject({ totalCents: 880_000, validUntil: '2026-06-30' });
+    expect(updated.lineItems).toHaveLength(2);
+  });
+});
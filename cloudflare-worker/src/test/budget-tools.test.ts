@@ -0,0 +1,71 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createTestDatabase, type TestDatabase } from './d1';
+import { createProject } from '../worker/projects';
+import {
+  addExpense,
+  formatValidationError,
+  getProjectSummary,
+  listProjectsForAgent,
+  searchExpenses,
+  updateCategoryAllocation,
+} from '../worker/budget-tools';
+import { getExpenseSummary } from '../worker/expenses';
+import { ValidationError } from '../worker/http';
+
+let testDb: TestDatabase;
+let projectId: string;
+
+beforeAll(async () => {
+  testDb = await createTestDatabase();
+  projectId = (await createProject(testDb.db, { name: 'Kitchen', budgetCents: 2_000_000 })).id;
+});
+
+afterAll(async () => {
+  await testDb.dispose();
+});
+
+describe('Budget agent tools', () => {
+  it('records expenses through the same validation as the REST route', async () => {
+    const result = JSON.parse(await addExpense(testDb.db, projectId, {
+      projectId,
+      date: '2026-05-01',
+      vendor: 'Tile Depot',
+      category: 'finishes',
+      amountCents: 48_200,
+    }));
+    expect(result.expense).toMatchObject({ vendor: 'Tile Depot', amountCents: 48_200 });
+
+    const summary = await getExpenseSummary(testDb.db, projectId);
+    expect(summary.spentCents).toBe(48_200);
+
+    const error = await addExpense(testDb.db, projectId, { date: '5/1', vendor: 'X', category: 'finishes', amountCents: '12' }).catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(formatValidationError(error)).toBe(
+      'Validation failed (date: date must be a date in YYYY-MM-DD format; amountCents: amountCents must be a whole number of cents)'
+    );
+  });
+
+  it('answers spend questions from the ledger', async () => {
+    const result = JSON.parse(await searchExpenses(testDb.db, projectId, { vendor: 'tile' }));
+    expect(result.total).toBe(1);
+    expect(result.totalAmountCents).toBe(48_200);
+  });
+
+  it('updates category allocations and reports them in the summary', async () => {
+    await updateCategoryAllocation(testDb.db, projectId, 'Finishes ', 500_000);
+    const summary = JSON.parse(await getProjectSummary(testDb.db, projectId));
+    const finishes = summary.categories.find((c: { key: string }) => c.key === 'finishes');
+    expect(finishes).toMatchObject({ allocatedCents: 500_000, spentCents: 48_200, remainingCents: 451_800 });
+    expect(summary.totals.unpaidCents).toBe(48_200);
+
+    await expect(updateCategoryAllocation(testDb.db, projectId, 'finishes', 'lots')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('lists projects with remaining budget', async () => {
+    const projects = JSON.parse(await listProjectsForAgent(testDb.db));
+    expect(projects).toEqual([
+      expect.objectContaining({ id: projectId, spentCents: 48_200, remainingCents: 1_951_800 }),
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { budgetSegments, formatCents, percentOf, spendingChart } from '../lib/budget';
+
+describe('formatCents', () => {
+  it('formats dollars with grouping, keeping cents unless compact', () => {
+    expect(formatCents(123456)).toBe('$1,234.56');
+    expect(formatCents(-5000)).toBe('-$50.00');
+    expect(formatCents(5000, { compact: true })).toBe('$50');
+    expect(formatCents(5050, { compact: true })).toBe('$50.50');
+  });
+});
+
+describe('budget bars', () => {
+  it('clamps percentages and scales the segments to an overspent budget', () => {
+    expect(percentOf(50, 200)).toBe(25);
+    expect(percentOf(300, 200)).toBe(100);
+    expect(percentOf(5, 0)).toBe(100);
+
+    expect(budgetSegments({ budgetCents: 1000, spentCents: 600, paidCents: 400 })).toEqual({
+      paid: 40,
+      unpaid: 20,
+      remaining: 40,
+    });
+    expect(budgetSegments({ budgetCents: 1000, spentCents: 2000, paidCents: 1000 })).toEqual({
+      paid: 50,
+      unpaid: 50,
+      remaining: 0,
+    });
+  });
+});
+
+describe('spendingChart', () => {
+  it('spaces points by date and fits both the spend and the budget line', () => {
+    const chart = spendingChart(
+      [
+        { date: '2026-03-01', amountCents: 500, cumulativeCents: 500 },
+        { date: '2026-03-03', amountCents: 500, cumulativeCents: 1000 },
+        { date: '2026-03-05', amountCents: 1000, cumulativeCents: 2000 },
+      ],
+      1000,
+      100,
+      50
+    );
+
+    expect(chart.maxCents).toBe(2000);
+    expect(chart.points.map((p) => [p.x, p.y])).toEqual([[0, 37.5], [50, 25], [100, 0]]);
+    expect(chart.budgetY).toBe(25);
+    expect([chart.firstDate, chart.lastDate]).toEqual(['2026-03-01', '2026-03-05']);
+  });
+
+  it('centres a single day and has no points without spend', () => {
+    const single = spendingChart([{ date: '2026-03-01', amountCents: 250, cumulativeCents: 250 }], 1000, 100, 50);
+    expect(single.points[0]).toMatchObject({ x: 50, y: 37.5 });
+
+    expect(spendingChart([], 1000, 100, 50)).toEqual({
+      points: [],
+      budgetY: 0,
+      maxCents: 1000,
+      firstDate: null,
+      lastDate: null,
+    });
+  });
+});
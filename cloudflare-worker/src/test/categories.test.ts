@@ -0,0 +1,120 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createTestDatabase, type TestDatabase } from './d1';
+import { createProject } from '../worker/projects';
+import { createExpense } from '../worker/expenses';
+import {
+  createCategory,
+  deleteCategory,
+  listCategories,
+  updateCategory,
+} from '../worker/categories';
+import { allocateTemplate } from '../worker/category-template';
+import { ValidationError } from '../worker/http';
+
+let testDb: TestDatabase;
+
+beforeAll(async () => {
+  testDb = await createTestDatabase();
+});
+
+afterAll(async () => {
+  await testDb.dispose();
+});
+
+describe('allocateTemplate', () => {
+  it('splits the budget exactly, with contingency absorbing rounding', () => {
+    const allocations = allocateTemplate(1_000_001);
+    expect(allocations.reduce((sum, a) => sum + a.allocatedCents, 0)).toBe(1_000_001);
+    expect(allocations.find((a) => a.key === 'cabinets')?.allocatedCents).toBe(280_000);
+    expect(allocations.find((a) => a.key === 'contingency')?.allocatedCents).toBe(150_001);
+  });
+});
+
+describe('Budget categories', () => {
+  it('applies the default template to new projects', async () => {
+    const project = await createProject(testDb.db, { name: 'Kitchen', budgetCents: 2_500_000 });
+    const { categories, totals } = await listCategories(testDb.db, project.id);
+
+    expect(categories.map((c) => c.key)).toEqual([
+      'demolition', 'electrical', 'plumbing', 'cabinets', 'finishes', 'permits', 'contingency',
+    ]);
+    expect(totals).toEqual({
+      budgetCents: 2_500_000,
+      allocatedCents: 2_500_000,
+      spentCents: 0,
+      committedCents: 0,
+      paidCents: 0,
+      pendingChangeOrderCents: 0,
+      forecastCents: 2_125_000,
+      remainingCents: 2_500_000,
+      unallocatedCents: 0,
+    });
+  });
+
+  it('can skip the template', async () => {
+    const project = await createProject(testDb.db, { name: 'Deck', budgetCents: 100, applyTemplate: false });
+    expect((await listCategories(testDb.db, project.id)).categories).toEqual([]);
+  });
+
+  it('reports remaining, percent consumed and over/under status', async () => {
+    const project = await createProject(testDb.db, { name: 'Bath', budgetCents: 1_000_000 });
+    await createExpense(testDb.db, project.id, { date: '2026-02-01', vendor: 'Demo Co', category: 'demolition', amountCents: 100_000 });
+    await createExpense(testDb.db, project.id, { date: '2026-02-03', vendor: 'City', category: 'permits', amountCents: 30_000 });
+    await createExpense(testDb.db, project.id, { date: '2026-02-05', vendor: 'Pipes R Us', category: 'plumbing', amountCents: 60_000 });
+
+    const { categories, totals } = await listCategories(testDb.db, project.id);
+    const byKey = Object.fromEntries(categories.map((c) => [c.key, c]));
+
+    expect(byKey.demolition).toEqual({
+      key: 'demolition',
+      name: 'Demolition',
+      allocatedCents: 80_000,
+      spentCents: 100_000,
+      committedCents: 0,
+      pendingChangeOrderCents: 0,
+      forecastCents: 100_000,
+      remainingCents: -20_000,
+      percentConsumed: 125,
+      percentComplete: null,
+      status: 'over',
+    });
+    expect(byKey.permits).toMatchObject({ remainingCents: 0, percentConsumed: 100, status: 'at_limit' });
+    expect(byKey.plumbing).toMatchObject({ remainingCents: 60_000, percentConsumed: 50, status: 'under' });
+    expect(totals.spentCents).toBe(190_000);
+  });
+
+  it('adds, reallocates and deletes categories', async () => {
+    const project = await createProject(testDb.db, { name: 'Laundry', budgetCents: 500_000 });
+
+    const created = await createCategory(testDb.db, project.id, { name: 'Appliances', allocatedCents: 90_000 });
+    expect(created).toMatchObject({ key: 'appliances', allocatedCents: 90_000, status: 'under' });
+
+    const { totals } = await listCategories(testDb.db, project.id);
+    expect(totals.unallocatedCents).toBe(-90_000);
+
+    const duplicate = await createCategory(testDb.db, project.id, { name: 'appliances', allocatedCents: 1 }).catch((e) => e);
+    expect(duplicate.fields).toEqual({ key: 'Category appliances already exists' });
+
+    const updated = await updateCategory(testDb.db, project.id, 'contingency', { allocatedCents: 0 });
+    expect(updated.allocatedCents).toBe(0);
+
+    await deleteCategory(testDb.db, project.id, 'appliances');
+    await expect(deleteCategory(testDb.db, project.id, 'appliances')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('refuses to delete a category that has expenses', async () => {
+    const project = await createProject(testDb.db, { name: 'Mudroom', budgetCents: 300_000 });
+    await createExpense(testDb.db, project.id, { date: '2026-02-01', vendor: 'Sparky', category: 'electrical', amountCents: 5_000 });
+    await expect(deleteCategory(testDb.db, project.id, 'electrical')).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('rejects expenses in unknown categories', async () => {
+    const project = await createProject(testDb.db, { name: 'Attic', budgetCents: 300_000 });
+    const error = await createExpense(testDb.db, project.id, {
+      date: '2026-02-01', vendor: 'Tile Depot', category: 'tile', amountCents: 5_000,
+    }).catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.fields.category).toMatch(/^Unknown category "tile"\. Available categories: demolition, electrical/);
+  });
+});
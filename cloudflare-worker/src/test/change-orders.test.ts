@@ -0,0 +1,128 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { apiRequest, createTestDatabase, type TestDatabase } from './d1';
+import { getCategory, listCategories } from '../worker/categories';
+import {
+  approveChangeOrder,
+  contingencyDraw,
+  createChangeOrder,
+  deleteChangeOrder,
+  handleChangeOrdersRequest,
+  rejectChangeOrder,
+  updateChangeOrder,
+} from '../worker/change-orders';
+import { createContract, getContract } from '../worker/contracts';
+import { createProject } from '../worker/projects';
+import { createVendor } from '../worker/vendors';
+
+let t: TestDatabase;
+let projectId: string;
+let contractId: string;
+
+// A 1,000,000 budget: cabinets get 280,000 and contingency 150,000
+beforeEach(async () => {
+  t = await createTestDatabase();
+  projectId = (await createProject(t.db, { name: 'Kitchen', budgetCents: 1_000_000 })).id;
+  const vendor = await createVendor(t.db, { name: 'Oak & Sons Woodworks' });
+  contractId = (await createContract(t.db, projectId, { vendorId: vendor.id, title: 'Cabinets', category: 'cabinets', amountCents: 280_000 })).id;
+});
+
+afterEach(async () => {
+  await t.dispose();
+});
+
+function propose(costDeltaCents: number, reason = 'unforeseen_condition') {
+  return createChangeOrder(t.db, projectId, { contractId, title: `Change of ${costDeltaCents}`, reason, costDeltaCents });
+}
+
+describe('change orders', () => {
+  it('numbers change orders and validates reason codes', async () => {
+    const [request, url] = apiRequest('POST', `/api/projects/${projectId}/change-orders`, {
+      contractId,
+      title: 'Rotten subfloor under the sink base',
+      reason: 'unforeseen_condition',
+      costDeltaCents: 45_000,
+    });
+    const response = (await handleChangeOrdersRequest(request, t.env, url))!;
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({
+      changeOrder: { number: 1, category: 'cabinets', status: 'proposed', costDeltaCents: 45_000, contingencyDrawCents: null },
+    });
+    expect((await propose(-5_000, 'owner_request')).number).toBe(2);
+
+    await expect(
+      createChangeOrder(t.db, projectId, { contractId: 'missing', title: 'X', reason: 'whim', costDeltaCents: 1.5 })
+    ).rejects.toMatchObject({
+      fields: {
+        reason: expect.stringContaining('must be one of: owner_request'),
+        costDeltaCents: 'costDeltaCents must be a whole number of cents',
+      },
+    });
+  });
+
+  it('draws on contingency when approved and counts proposed ones in the forecast', async () => {
+    const changeOrder = await propose(45_000);
+    const before = await listCategories(t.db, projectId);
+    expect(before.totals).toMatchObject({ committedCents: 280_000, pendingChangeOrderCents: 45_000, forecastCents: 895_000 });
+
+    const approval = await approveChangeOrder(t.db, projectId, changeOrder.id);
+    expect(approval.changeOrder).toMatchObject({ status: 'approved', contingencyDrawCents: 45_000 });
+    expect(approval.category).toMatchObject({ allocatedCents: 325_000, committedCents: 325_000, forecastCents: 325_000 });
+    expect(approval.contingency).toMatchObject({ allocatedCents: 105_000 });
+    expect(approval.shortfallCents).toBe(0);
+    expect((await getContract(t.db, projectId, contractId)).currentAmountCents).toBe(325_000);
+
+    // Approval moves the cost from pending to committed; the forecast stays the same
+    const after = await listCategories(t.db, projectId);
+    expect(after.totals).toMatchObject({ allocatedCents: 1_000_000, pendingChangeOrderCents: 0, forecastCents: 895_000 });
+
+    await expect(approveChangeOrder(t.db, projectId, changeOrder.id)).rejects.toMatchObject({ status: 409 });
+    await expect(updateChangeOrder(t.db, projectId, changeOrder.id, { costDeltaCents: 1 })).rejects.toMatchObject({ status: 409 });
+    await expect(deleteChangeOrder(t.db, projectId, changeOrder.id)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('reports the shortfall once contingency runs out and returns credits to it', async () => {
+    const large = await propose(200_000);
+    const { contingency, shortfallCents, changeOrder } = await approveChangeOrder(t.db, projectId, large.id);
+    expect(changeOrder.contingencyDrawCents).toBe(150_000);
+    expect(contingency).toMatchObject({ allocatedCents: 0 });
+    expect(shortfallCents).toBe(50_000);
+
+    const credit = await propose(-30_000, 'scope_gap');
+    expect((await approveChangeOrder(t.db, projectId, credit.id)).changeOrder.contingencyDrawCents).toBe(-30_000);
+    expect(await getCategory(t.db, projectId, 'contingency')).toMatchObject({ allocatedCents: 30_000 });
+    expect(await getCategory(t.db, projectId, 'cabinets')).toMatchObject({ allocatedCents: 400_000, committedCents: 450_000 });
+
+    const rejected = await rejectChangeOrder(t.db, projectId, (await propose(10_000)).id);
+    expect(rejected).toMatchObject({ status: 'rejected', contingencyDrawCents: null });
+    expect((await listCategories(t.db, projectId)).totals.pendingChangeOrderCents).toBe(0);
+    await deleteChangeOrder(t.db, projectId, rejected.id);
+  });
+
+  it('decides a change order once when requests race', async () => {
+    const changeOrder = await propose(45_000);
+
+    const results = await Promise.allSettled([
+      approveChangeOrder(t.db, projectId, changeOrder.id),
+      approveChangeOrder(t.db, projectId, changeOrder.id),
+      rejectChangeOrder(t.db, projectId, changeOrder.id),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    for (const result of results) {
+      if (result.status === 'rejected') expect(result.reason).toMatchObject({ status: 409 });
+    }
+    // Contingency was drawn at most once
+    const contingency = await getCategory(t.db, projectId, 'contingency');
+    expect([105_000, 150_000]).toContain(contingency.allocatedCents);
+    expect((await getCategory(t.db, projectId, 'cabinets')).allocatedCents + contingency.allocatedCents).toBe(430_000);
+  });
+
+  it('limits the draw to what contingency and the category have left', () => {
+    const contingency = { allocatedCents: 100, spentCents: 30, committedCents: 20 };
+    expect(contingencyDraw(80, { key: 'cabinets', allocatedCents: 500 }, contingency)).toBe(50);
+    expect(contingencyDraw(-80, { key: 'cabinets', allocatedCents: 60 }, contingency)).toBe(-60);
+    expect(contingencyDraw(80, { key: 'contingency', allocatedCents: 100 }, contingency)).toBe(0);
+    expect(contingencyDraw(80, { key: 'cabinets', allocatedCents: 500 }, null)).toBe(0);
+  });
+});
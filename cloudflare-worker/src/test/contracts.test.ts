@@ -0,0 +1,152 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { apiRequest, createTestDatabase, type TestDatabase } from './d1';
+import { acceptBid, createBid } from '../worker/bids';
+import { getCategory } from '../worker/categories';
+import {
+  addContractPayment,
+  createContract,
+  deleteContract,
+  getContract,
+  handleContractsRequest,
+  payContractPayment,
+  updateContractPayment,
+  type Contract,
+} from '../worker/contracts';
+import { deleteExpense, listExpenses } from '../worker/expenses';
+import { createProject } from '../worker/projects';
+import { createVendor, deleteVendor } from '../worker/vendors';
+
+let t: TestDatabase;
+let projectId: string;
+let vendorId: string;
+
+beforeEach(async () => {
+  t = await createTestDatabase();
+  projectId = (await createProject(t.db, { name: 'Kitchen', budgetCents: 5_000_000 })).id;
+  vendorId = (await createVendor(t.db, { name: 'Oak & Sons Woodworks' })).id;
+});
+
+afterEach(async () => {
+  await t.dispose();
+});
+
+const SCHEDULE = [
+  { description: 'Deposit', dueDate: '2026-04-01', amountCents: 300_000 },
+  { description: 'Cabinets delivered', dueDate: '2026-05-01', amountCents: 600_000 },
+];
+
+describe('contracts', () => {
+  it('signs a contract for an accepted bid, replacing the bid as the commitment', async () => {
+    const bid = await createBid(t.db, projectId, {
+      vendorId,
+      scope: 'Kitchen cabinets',
+      category: 'cabinets',
+      lineItems: [{ description: 'Cabinets', amountCents: 1_200_000 }],
+    });
+    await expect(createContract(t.db, projectId, { bidId: bid.id })).rejects.toMatchObject({ status: 409 });
+    await acceptBid(t.db, projectId, bid.id, '2026-03-01');
+
+    const [request, url] = apiRequest('POST', `/api/projects/${projectId}/contracts`, { bidId: bid.id, signedOn: '2026-03-02', payments: SCHEDULE });
+    const response = (await handleContractsRequest(request, t.env, url))!;
+    const { contract } = (await response.json()) as { contract: Contract };
+
+    expect(response.status).toBe(201);
+    expect(contract).toMatchObject({
+      vendor: { id: vendorId, name: 'Oak & Sons Woodworks' },
+      bidId: bid.id,
+      title: 'Kitchen cabinets',
+      category: 'cabinets',
+      amountCents: 1_200_000,
+      currentAmountCents: 1_200_000,
+      paidCents: 0,
+      balanceCents: 1_200_000,
+      unscheduledCents: 300_000,
+    });
+    expect(contract.payments.map((p) => p.description)).toEqual(['Deposit', 'Cabinets delivered']);
+    expect(await getCategory(t.db, projectId, 'cabinets')).toMatchObject({ committedCents: 1_200_000 });
+    await expect(createContract(t.db, projectId, { bidId: bid.id })).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('keeps the payment schedule within the contract amount', async () => {
+    await expect(
+      createContract(t.db, projectId, { vendorId, title: 'Cabinets', category: 'cabinets', amountCents: 800_000, payments: SCHEDULE })
+    ).rejects.toMatchObject({ fields: { payments: expect.stringContaining('exceed the contract amount') } });
+    await expect(
+      createContract(t.db, projectId, { vendorId, title: 'Cabinets', category: 'cabinets', amountCents: 1, payments: [{ amountCents: 0 }] })
+    ).rejects.toMatchObject({
+      fields: { 'payments.0.description': 'description is required', 'payments.0.amountCents': 'amountCents must be greater than 0' },
+    });
+
+    const contract = await createContract(t.db, projectId, {
+      vendorId, title: 'Cabinets', category: 'Cabinets', amountCents: 1_000_000, payments: SCHEDULE,
+    });
+    await expect(addContractPayment(t.db, projectId, contract.id, { description: 'Final', amountCents: 100_001 })).rejects.toMatchObject({
+      status: 400,
+    });
+    const withFinal = await addContractPayment(t.db, projectId, contract.id, { description: 'Final', amountCents: 100_000 });
+    expect(withFinal).toMatchObject({ unscheduledCents: 0 });
+    expect(withFinal.payments.at(-1)).toMatchObject({ description: 'Final', dueDate: null });
+
+    // Without a bid the contract is all that ties the vendor to the project
+    await expect(deleteVendor(t.db, vendorId)).rejects.toMatchObject({ status: 409 });
+    await deleteContract(t.db, projectId, contract.id);
+    await deleteVendor(t.db, vendorId);
+  });
+
+  it('records paid payments in the ledger without counting them twice', async () => {
+    const contract = await createContract(t.db, projectId, {
+      vendorId, title: 'Cabinets', category: 'cabinets', amountCents: 1_000_000, payments: SCHEDULE,
+    });
+    const [deposit] = contract.payments;
+
+    const { contract: paid, expense } = await payContractPayment(t.db, projectId, contract.id, deposit.id, {
+      date: '2026-04-02',
+      paymentMethod: 'check',
+    });
+    expect(expense).toMatchObject({
+      date: '2026-04-02',
+      vendor: 'Oak & Sons Woodworks',
+      category: 'cabinets',
+      amountCents: 300_000,
+      paid: true,
+      notes: 'Cabinets: Deposit',
+    });
+    expect(paid).toMatchObject({ paidCents: 300_000, balanceCents: 700_000 });
+    expect(paid.payments[0]).toMatchObject({ expenseId: expense.id, paidOn: '2026-04-02' });
+    // 1,000,000 committed already covers the 300,000 paid against it
+    expect(await getCategory(t.db, projectId, 'cabinets')).toMatchObject({
+      allocatedCents: 1_400_000,
+      spentCents: 300_000,
+      committedCents: 1_000_000,
+      forecastCents: 1_400_000,
+    });
+
+    await expect(payContractPayment(t.db, projectId, contract.id, deposit.id, {})).rejects.toMatchObject({ status: 409 });
+    await expect(updateContractPayment(t.db, projectId, contract.id, deposit.id, { amountCents: 1 })).rejects.toMatchObject({ status: 409 });
+    await expect(deleteContract(t.db, projectId, contract.id)).rejects.toMatchObject({ status: 409 });
+
+    // Deleting the expense reopens the payment
+    await deleteExpense(t.db, projectId, expense.id);
+    expect((await listExpenses(t.db, projectId)).total).toBe(0);
+    await deleteContract(t.db, projectId, contract.id);
+  });
+
+  it('records one expense when the same payment is paid twice at once', async () => {
+    const contract = await createContract(t.db, projectId, {
+      vendorId, title: 'Cabinets', category: 'cabinets', amountCents: 1_000_000, payments: SCHEDULE,
+    });
+    const [deposit] = contract.payments;
+
+    const results = await Promise.allSettled([
+      payContractPayment(t.db, projectId, contract.id, deposit.id, { date: '2026-04-02' }),
+      payContractPayment(t.db, projectId, contract.id, deposit.id, { date: '2026-04-02' }),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find((r) => r.status === 'rejected')).toMatchObject({ reason: { status: 409 } });
+    const { expenses, total } = await listExpenses(t.db, projectId);
+    expect(total).toBe(1);
+    expect((await getContract(t.db, projectId, contract.id)).payments[0].expenseId).toBe(expenses[0].id);
+  });
+});
@@ -0,0 +1,151 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('@cloudflare/sandbox', () => ({ getSandbox: vi.fn(() => ({})) }));
+
+import { handleChat } from '../worker/agent';
+import type { Principal } from '../worker/auth';
+import { buildConversationContext, handleConversationsRequest } from '../worker/conversations';
+import { createProject } from '../worker/projects';
+import { apiRequest, createTestDatabase, type TestDatabase } from './d1';
+
+let t: TestDatabase;
+let run: ReturnType<typeof vi.fn>;
+
+beforeEach(async () => {
+  t = await createTestDatabase();
+  run = vi.fn();
+  t.env = { ...t.env, AI: { run }, Sandbox: {} } as unknown as Env;
+});
+
+afterEach(async () => {
+  await t.dispose();
+});
+
+const OWNER: Principal = { keyId: 'key-1', name: 'Owner', role: 'viewer' };
+const OTHER: Principal = { keyId: 'key-2', name: 'Other', role: 'viewer' };
+
+async function chat(body: Record<string, unknown>, principal = OWNER) {
+  const [request] = apiRequest('POST', '/api/chat', body);
+  return handleChat(request, t.env, principal, {} as ExecutionContext);
+}
+
+async function conversations(method: string, path: string, principal = OWNER) {
+  const [request, url] = apiRequest(method, path);
+  return (await handleConversationsRequest(request, t.env, url, principal))!;
+}
+
+describe('chat history', () => {
+  it('stores each turn and sends the stored history with the next message', async () => {
+    run.mockResolvedValueOnce({ response: 'Your budget is $40,000.' });
+    const first = await chat({ message: 'What is my budget?' });
+    const { conversationId } = (await first.json()) as { conversationId: string };
+
+    run.mockResolvedValueOnce({ response: 'You have spent $12,500.' });
+    await chat({ message: 'And spent?', conversationId });
+
+    const sent = run.mock.calls[1][1].messages.map((m: { role: string; content: string }) => [m.role, m.content]);
+    expect(sent.slice(1)).toEqual([
+      ['user', 'What is my budget?'],
+      ['assistant', 'Your budget is $40,000.'],
+      ['user', 'And spent?'],
+    ]);
+
+    const list = (await (await conversations('GET', '/api/conversations')).json()) as {
+      conversations: { id: string; title: string; messageCount: number }[];
+    };
+    expect(list.conversations).toEqual([
+      expect.objectContaining({ id: conversationId, title: 'What is my budget?', messageCount: 4 }),
+    ]);
+
+    const detail = (await (await conversations('GET', `/api/conversations/${conversationId}`)).json()) as {
+      messages: { role: string; content: string }[];
+    };
+    expect(detail.messages.map((m) => m.content)).toEqual([
+      'What is my budget?',
+      'Your budget is $40,000.',
+      'And spent?',
+      'You have spent $12,500.',
+    ]);
+  });
+
+  it('keeps a streamed turn alive with waitUntil until the answer is stored', async () => {
+    run.mockResolvedValueOnce({ response: 'Your budget is $40,000.' });
+    const pending: Promise<unknown>[] = [];
+    const ctx = { waitUntil: vi.fn((promise: Promise<unknown>) => pending.push(promise)) };
+    const [request] = apiRequest('POST', '/api/chat', { message: 'What is my budget?', conversationId: 'streamed' }, {
+      Accept: 'text/event-stream',
+    });
+
+    const response = await handleChat(request, t.env, OWNER, ctx as unknown as ExecutionContext);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(ctx.waitUntil).toHaveBeenCalledTimes(1);
+    const body = response.text();
+    await Promise.all(pending);
+
+    expect(await body).toContain('event: done');
+    const detail = (await (await conversations('GET', '/api/conversations/streamed')).json()) as {
+      messages: { content: string }[];
+    };
+    expect(detail.messages.map((m) => m.content)).toEqual(['What is my budget?', 'Your budget is $40,000.']);
+  });
+
+  it('tells the model which project the dashboard is showing', async () => {
+    const project = await createProject(t.db, { name: 'Kitchen', budgetCents: 4_000_000 });
+    run.mockResolvedValueOnce({ response: 'You have $40,000 left.' });
+    await chat({ message: 'How much is left?', projectId: project.id });
+
+    const [system] = run.mock.calls[0][1].messages as { role: string; content: string }[];
+    expect(system.role).toBe('system');
+    expect(system.content).toContain(`"Kitchen" (projectId ${project.id})`);
+
+    await expect(chat({ message: 'Hi', projectId: 'missing' })).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('keeps conversations private to their API key', async () => {
+    run.mockResolvedValueOnce({ response: 'Hi!' });
+    const first = await chat({ message: 'hello' });
+    const { conversationId } = (await first.json()) as { conversationId: string };
+
+    const list = (await (await conversations('GET', '/api/conversations', OTHER)).json()) as { conversations: unknown[] };
+    expect(list.conversations).toEqual([]);
+    await expect(conversations('GET', `/api/conversations/${conversationId}`, OTHER)).rejects.toMatchObject({ status: 404 });
+    await expect(chat({ message: 'hijack', conversationId }, OTHER)).rejects.toMatchObject({ status: 404 });
+
+    expect((await conversations('DELETE', `/api/conversations/${conversationId}`)).status).toBe(204);
+    await expect(conversations('GET', `/api/conversations/${conversationId}`)).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('accepts the last user message from clients that still send the whole history', async () => {
+    run.mockResolvedValueOnce({ response: 'Noted.' });
+    await chat({ messages: [{ role: 'assistant', content: 'Hello!' }, { role: 'user', content: 'Track tile' }] });
+    const sent = run.mock.calls[0][1].messages.map((m: { role: string; content: string }) => [m.role, m.content]);
+    expect(sent.slice(1)).toEqual([['user', 'Track tile']]);
+
+    await expect(chat({ messages: [] })).rejects.toMatchObject({ status: 400, fields: { message: 'message is required' } });
+  });
+});
+
+describe('buildConversationContext', () => {
+  const turn = (role: 'user' | 'assistant', chars: number) => ({ role, content: 'x'.repeat(chars) });
+
+  it('keeps the newest messages that fit the token budget and notes what was left out', () => {
+    const messages = [turn('user', 400), turn('assistant', 400), turn('user', 200), turn('assistant', 200)];
+
+    const context = buildConversationContext(messages, 120);
+
+    expect(context.map((m) => [m.role, m.content.length])).toEqual([
+      ['system', expect.any(Number)],
+      ['user', 200],
+      ['assistant', 200],
+    ]);
+    expect(context[0].content).toMatch(/^2 earlier messages were left out/);
+  });
+
+  it('always keeps the newest message and counts history that was never loaded', () => {
+    const context = buildConversationContext([turn('user', 10_000)], 100, 5);
+    expect(context.map((m) => m.role)).toEqual(['system', 'user']);
+    expect(context[0].content).toMatch(/^4 earlier messages were left out/);
+    expect(buildConversationContext([turn('user', 8)], 100)).toEqual([{ role: 'user', content: 'xxxxxxxx' }]);
+  });
+});
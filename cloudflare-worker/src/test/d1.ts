@@ -0,0 +1,69 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { Miniflare } from 'miniflare';
+
+// Helpers for running worker modules against a local Miniflare D1 database and R2 bucket.
+// Test files that use them must run in the node environment:
+//   // @vitest-environment node
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../migrations');
+
+/**
+ * Splits a migration file into statements, dropping comments
+ */
+function readStatements(file: string): string[] {
+  return readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8')
+    .split('\n')
+    .filter((line) => !line.trim().startsWith('--'))
+    .join('\n')
+    .split(';')
+    .map((statement) => statement.trim())
+    .filter(Boolean);
+}
+
+export interface TestDatabase {
+  db: D1Database;
+  env: Env;
+  dispose: () => Promise<void>;
+}
+
+/**
+ * Starts Miniflare with an empty D1 database and attachments bucket, and applies every migration
+ */
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default { fetch() { return new Response(null, { status: 404 }); } }',
+    d1Databases: ['DB'],
+    r2Buckets: ['ATTACHMENTS'],
+  });
+  const db = (await mf.getD1Database('DB')) as unknown as D1Database;
+  const bucket = (await mf.getR2Bucket('ATTACHMENTS')) as unknown as R2Bucket;
+
+  const files = readdirSync(MIGRATIONS_DIR).filter((file) => file.endsWith('.sql')).sort();
+  for (const file of files) {
+    const statements = readStatements(file);
+    await db.batch(statements.map((statement) => db.prepare(statement)));
+  }
+
+  return {
+    db,
+    env: { DB: db, ATTACHMENTS: bucket } as Env,
+    dispose: () => mf.dispose(),
+  };
+}
+
+export function apiRequest(
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): [Request, URL] {
+  const url = new URL(path, 'http://localhost');
+  const request = new Request(url, {
+    method,
+    headers: body === undefined ? headers : { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return [request, url];
+}
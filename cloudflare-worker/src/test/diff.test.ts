@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { parseUnifiedDiff } from '../lib/diff';
+
+const MODIFIED = `diff --git a/appsscript/src/Code.js b/appsscript/src/Code.js
+index 3b18e51..a2c4f0d 100644
+--- a/appsscript/src/Code.js
++++ b/appsscript/src/Code.js
+@@ -1,4 +1,5 @@
+ function doGet() {
+-  return HtmlService.createHtmlOutputFromFile('index');
++  return HtmlService.createHtmlOutputFromFile('index')
++    .setTitle('Budget');
+ }
+ 
+@@ -10,2 +11,2 @@ function getCategories() {
+-  return ['Plumbing'];
++  return ['Plumbing', 'Electrical'];
+ }
+\\ No newline at end of file
+`;
+
+describe('parseUnifiedDiff', () => {
+  it('numbers added, removed and context lines within each hunk', () => {
+    const [file] = parseUnifiedDiff(MODIFIED);
+
+    expect(file).toMatchObject({
+      path: 'appsscript/src/Code.js',
+      oldPath: 'appsscript/src/Code.js',
+      status: 'modified',
+      binary: false,
+      additions: 3,
+      deletions: 2,
+    });
+    expect(file.hunks).toHaveLength(2);
+    expect(file.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 4, newStart: 1, newLines: 5 });
+    expect(file.hunks[0].lines).toEqual([
+      { type: 'context', content: 'function doGet() {', oldNumber: 1, newNumber: 1 },
+      { type: 'remove', content: "  return HtmlService.createHtmlOutputFromFile('index');", oldNumber: 2, newNumber: null },
+      { type: 'add', content: "  return HtmlService.createHtmlOutputFromFile('index')", oldNumber: null, newNumber: 2 },
+      { type: 'add', content: "    .setTitle('Budget');", oldNumber: null, newNumber: 3 },
+      { type: 'context', content: '}', oldNumber: 3, newNumber: 4 },
+      { type: 'context', content: '', oldNumber: 4, newNumber: 5 },
+    ]);
+    expect(file.hunks[1].header).toBe('@@ -10,2 +11,2 @@ function getCategories() {');
+    expect(file.hunks[1].lines.map((l) => [l.type, l.oldNumber, l.newNumber])).toEqual([
+      ['remove', 10, null],
+      ['add', null, 11],
+      ['context', 11, 12],
+    ]);
+  });
+
+  it('detects added, deleted, renamed and binary files', () => {
+    const files = parseUnifiedDiff(`diff --git a/appsscript/src/new.html b/appsscript/src/new.html
+new file mode 100644
+index 0000000..e69de29
+--- /dev/null
++++ b/appsscript/src/new.html
+@@ -0,0 +1 @@
++<p>hi</p>
+diff --git a/appsscript/src/old.js b/appsscript/src/old.js
+deleted file mode 100644
+index e69de29..0000000
+--- a/appsscript/src/old.js
++++ /dev/null
+@@ -1 +0,0 @@
+-var x = 1;
+diff --git a/appsscript/src/a.js b/appsscript/src/b.js
+similarity index 100%
+rename from appsscript/src/a.js
+rename to appsscript/src/b.js
+diff --git a/appsscript/src/logo.png b/appsscript/src/logo.png
+index 1111111..2222222 100644
+Binary files a/appsscript/src/logo.png and b/appsscript/src/logo.png differ
+`);
+
+    expect(files.map((f) => [f.path, f.status, f.additions, f.deletions])).toEqual([
+      ['appsscript/src/new.html', 'added', 1, 0],
+      ['appsscript/src/old.js', 'deleted', 0, 1],
+      ['appsscript/src/b.js', 'renamed', 0, 0],
+      ['appsscript/src/logo.png', 'modified', 0, 0],
+    ]);
+    expect(files[0].hunks[0]).toMatchObject({ oldStart: 0, oldLines: 0, newStart: 1, newLines: 1 });
+    expect(files[2].oldPath).toBe('appsscript/src/a.js');
+    expect(files[3].binary).toBe(true);
+  });
+
+  it('returns no files for empty output', () => {
+    expect(parseUnifiedDiff('')).toEqual([]);
+  });
+});
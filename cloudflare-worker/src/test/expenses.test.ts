@@ -0,0 +1,156 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createTestDatabase, type TestDatabase } from './d1';
+import { createProject, getProject, archiveProject } from '../worker/projects';
+import {
+  createExpense,
+  deleteExpense,
+  getExpenseSummary,
+  listExpenses,
+  parseExpenseQuery,
+  updateExpense,
+} from '../worker/expenses';
+import { ValidationError } from '../worker/http';
+
+let testDb: TestDatabase;
+let projectId: string;
+
+beforeAll(async () => {
+  testDb = await createTestDatabase();
+  const project = await createProject(testDb.db, { name: 'Kitchen', budgetCents: 2_500_000 });
+  projectId = project.id;
+
+  const ledger = [
+    { date: '2026-03-02', vendor: 'Demo Crew LLC', category: 'demolition', amountCents: 180_000, paid: true },
+    { date: '2026-03-10', vendor: 'Sparky Electric', category: 'electrical', amountCents: 95_000, paid: true },
+    { date: '2026-03-15', vendor: 'Tile Depot', category: 'Finishes', amountCents: 42_550 },
+    { date: '2026-04-01', vendor: 'Tile Depot', category: 'finishes', amountCents: 12_000, paymentMethod: 'credit_card' },
+  ];
+  for (const expense of ledger) {
+    await createExpense(testDb.db, projectId, expense);
+  }
+});
+
+afterAll(async () => {
+  await testDb.dispose();
+});
+
+describe('Expense ledger', () => {
+  it('derives project spend from the ledger', async () => {
+    const project = await getProject(testDb.db, projectId);
+    expect(project.spentCents).toBe(329_550);
+    expect(project.paidCents).toBe(275_000);
+  });
+
+  it('computes per-category subtotals', async () => {
+    const summary = await getExpenseSummary(testDb.db, projectId);
+    expect(summary).toEqual({
+      spentCents: 329_550,
+      paidCents: 275_000,
+      unpaidCents: 54_550,
+      count: 4,
+      categories: [
+        { category: 'demolition', amountCents: 180_000, count: 1 },
+        { category: 'electrical', amountCents: 95_000, count: 1 },
+        { category: 'finishes', amountCents: 54_550, count: 2 },
+      ],
+      daily: [
+        { date: '2026-03-02', amountCents: 180_000, cumulativeCents: 180_000 },
+        { date: '2026-03-10', amountCents: 95_000, cumulativeCents: 275_000 },
+        { date: '2026-03-15', amountCents: 42_550, cumulativeCents: 317_550 },
+        { date: '2026-04-01', amountCents: 12_000, cumulativeCents: 329_550 },
+      ],
+    });
+  });
+
+  it('lists newest first with running totals in date order', async () => {
+    const { expenses, total, totalAmountCents } = await listExpenses(testDb.db, projectId);
+    expect(total).toBe(4);
+    expect(totalAmountCents).toBe(329_550);
+    expect(expenses.map((e) => [e.date, e.runningTotalCents])).toEqual([
+      ['2026-04-01', 329_550],
+      ['2026-03-15', 317_550],
+      ['2026-03-10', 275_000],
+      ['2026-03-02', 180_000],
+    ]);
+  });
+
+  it('filters by date range, category and vendor', async () => {
+    const march = await listExpenses(testDb.db, projectId, { from: '2026-03-05', to: '2026-03-31' });
+    expect(march.expenses.map((e) => e.vendor)).toEqual(['Tile Depot', 'Sparky Electric']);
+
+    const finishes = await listExpenses(testDb.db, projectId, { category: 'finishes' });
+    expect(finishes.total).toBe(2);
+    expect(finishes.expenses[0].runningTotalCents).toBe(54_550);
+
+    const tile = await listExpenses(testDb.db, projectId, { vendor: 'tile' });
+    expect(tile.total).toBe(2);
+
+    const wildcard = await listExpenses(testDb.db, projectId, { vendor: '%' });
+    expect(wildcard.total).toBe(0);
+  });
+
+  it('paginates', async () => {
+    const page = await listExpenses(testDb.db, projectId, {}, { limit: 2, offset: 2 });
+    expect(page.total).toBe(4);
+    expect(page.expenses.map((e) => e.date)).toEqual(['2026-03-10', '2026-03-02']);
+  });
+
+  it('parses and validates query parameters', () => {
+    expect(parseExpenseQuery(new URLSearchParams('category=Finishes&paid=false&limit=10'))).toEqual({
+      filter: { category: 'finishes', paid: false },
+      limit: 10,
+      offset: 0,
+    });
+
+    const error = (() => {
+      try {
+        parseExpenseQuery(new URLSearchParams('from=2026-04-01&to=2026-03-01&limit=500'));
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).fields).toEqual({
+      to: 'to cannot be before from',
+      limit: 'limit must be between 1 and 200',
+    });
+  });
+
+  it('validates expense fields', async () => {
+    const error = await createExpense(testDb.db, projectId, {
+      date: 'yesterday',
+      vendor: 'Tile Depot',
+      category: 'finishes',
+      amountCents: -5,
+      paymentMethod: 'bitcoin',
+    }).catch((e) => e);
+    expect(error.fields).toEqual({
+      date: 'date must be a date in YYYY-MM-DD format',
+      amountCents: 'amountCents cannot be negative',
+      paymentMethod: 'paymentMethod must be one of: cash, check, credit_card, debit_card, bank_transfer, financing, other',
+    });
+  });
+
+  it('updates and deletes expenses', async () => {
+    const expense = await createExpense(testDb.db, projectId, {
+      date: '2026-04-05',
+      vendor: 'City of Springfield',
+      category: 'permits',
+      amountCents: 35_000,
+    });
+    const updated = await updateExpense(testDb.db, projectId, expense.id, { paid: true, notes: 'Permit #42' });
+    expect(updated).toMatchObject({ paid: true, notes: 'Permit #42', amountCents: 35_000 });
+
+    await deleteExpense(testDb.db, projectId, expense.id);
+    await expect(deleteExpense(testDb.db, projectId, expense.id)).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('rejects new expenses on archived projects', async () => {
+    const project = await createProject(testDb.db, { name: 'Old bath', budgetCents: 100 });
+    await archiveProject(testDb.db, project.id);
+    await expect(
+      createExpense(testDb.db, project.id, { date: '2026-01-01', vendor: 'X', category: 'misc', amountCents: 1 })
+    ).rejects.toMatchObject({ status: 409 });
+  });
+});
@@ -0,0 +1,137 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { apiRequest, createTestDatabase, type TestDatabase } from './d1';
+import { createExpense } from '../worker/expenses';
+import { buildBudgetReport, handleExportRequest, renderCsv, renderPdf, renderXlsx } from '../worker/export';
+import { createProject } from '../worker/projects';
+import { crc32 } from '../worker/xlsx';
+
+const REPORT_DATE = '2026-04-01';
+
+let t: TestDatabase;
+let projectId: string;
+
+beforeEach(async () => {
+  t = await createTestDatabase();
+  projectId = (await createProject(t.db, { name: 'Kitchen (2026)', budgetCents: 1_000_000 })).id;
+  await createExpense(t.db, projectId, {
+    date: '2026-03-05', vendor: 'Sparky Electric, Inc.', category: 'electrical', amountCents: 45_000,
+    notes: '=HYPERLINK("x")',
+  });
+  await createExpense(t.db, projectId, {
+    date: '2026-03-01', vendor: 'Demo Crew', category: 'demolition', amountCents: 90_000, paid: true,
+  });
+  await createExpense(t.db, projectId, {
+    date: '2026-03-02', vendor: 'Tile Depot', category: 'finishes', amountCents: 12_345, paid: true,
+    paymentMethod: 'credit_card',
+  });
+});
+
+afterEach(async () => {
+  await t.dispose();
+});
+
+function latin1(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+}
+
+describe('budget export', () => {
+  it('writes the summary, allocation table and ledger as CSV', async () => {
+    const csv = renderCsv(await buildBudgetReport(t.db, projectId, REPORT_DATE));
+
+    expect(csv).toBe(
+      '\ufeff' +
+        [
+          'Budget report,Kitchen (2026)',
+          'Report date,2026-04-01',
+          'Budget,10000.00',
+          'Spent,1473.45',
+          'Paid,1023.45',
+          'Remaining,8526.55',
+          'Contingency left,1500.00',
+          '',
+          'Category,Allocated,Spent,Remaining,Variance,Variance %,Status',
+          'Demolition,800.00,900.00,-100.00,100.00,12.5,over',
+          'Electrical,1200.00,450.00,750.00,-750.00,-62.5,under',
+          'Plumbing,1200.00,0.00,1200.00,-1200.00,-100.0,under',
+          'Cabinets,2800.00,0.00,2800.00,-2800.00,-100.0,under',
+          'Finishes,2200.00,123.45,2076.55,-2076.55,-94.4,under',
+          'Permits,300.00,0.00,300.00,-300.00,-100.0,under',
+          'Contingency,1500.00,0.00,1500.00,-1500.00,-100.0,under',
+          'Total,10000.00,1473.45,8526.55,-8526.55,-85.3,',
+          '',
+          'Date,Vendor,Category,Amount,Paid,Payment method,Notes,Running total',
+          '2026-03-01,Demo Crew,Demolition,900.00,yes,,,900.00',
+          '2026-03-02,Tile Depot,Finishes,123.45,yes,credit_card,,1023.45',
+          '2026-03-05,"Sparky Electric, Inc.",Electrical,450.00,no,,"\'=HYPERLINK(""x"")",1473.45',
+        ].join('\r\n') +
+        '\r\n'
+    );
+  });
+
+  it('writes a workbook with a sheet per part and the same bytes every time', async () => {
+    const report = await buildBudgetReport(t.db, projectId, REPORT_DATE);
+    const xlsx = renderXlsx(report);
+
+    expect(renderXlsx(report)).toEqual(xlsx);
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+
+    const text = latin1(xlsx);
+    expect(text.startsWith('PK\x03\x04')).toBe(true);
+    expect(text.slice(30, 49)).toBe('[Content_Types].xml');
+    // End of central directory: 8 entries (5 package parts and 3 sheets)
+    const end = new DataView(xlsx.buffer, xlsx.length - 22);
+    expect(end.getUint32(0, true)).toBe(0x06054b50);
+    expect(end.getUint16(10, true)).toBe(8);
+    expect(text).toContain('<sheet name="Summary" sheetId="1" r:id="rId1"/><sheet name="Categories" sheetId="2" r:id="rId2"/>');
+    expect(text).toContain('<c r="B3" s="2"><v>10000</v></c>');
+    expect(text).toContain('<c r="F2" s="3"><v>12.5</v></c>');
+    expect(text).toContain('<c r="B4" t="inlineStr"><is><t xml:space="preserve">Sparky Electric, Inc.</t></is></c>');
+    expect(text).toContain('<c r="D4" s="2"><v>450</v></c>');
+  });
+
+  it('writes a printable PDF with a valid cross-reference table', async () => {
+    const pdf = latin1(renderPdf(await buildBudgetReport(t.db, projectId, REPORT_DATE)));
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf).toContain('(Budget report: Kitchen \\(2026\\)) Tj');
+    expect(pdf).toContain('($10,000.00) Tj');
+    expect(pdf).toContain('(-$100.00) Tj');
+    expect(pdf).toContain('(Page 1 of 1) Tj');
+
+    const xrefOffset = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+    const offsets = [...pdf.slice(xrefOffset).matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    offsets.forEach((offset, i) => expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+  });
+
+  it('continues a long ledger on new pages', async () => {
+    await t.db.batch(
+      Array.from({ length: 80 }, (_, i) =>
+        t.db
+          .prepare(
+            `INSERT INTO expenses (id, project_id, expense_date, vendor, category, amount_cents, created_at, updated_at)
+             VALUES (?, ?, '2026-01-15', ?, 'finishes', 100, ?, ?)`
+          )
+          .bind(`bulk-${i}`, projectId, `Supplier ${i}`, REPORT_DATE, REPORT_DATE)
+      )
+    );
+    const pdf = latin1(renderPdf(await buildBudgetReport(t.db, projectId, REPORT_DATE)));
+    const pages = Number(/\/Count (\d+)/.exec(pdf)![1]);
+
+    expect(pages).toBeGreaterThan(1);
+    expect(pdf).toContain(`(Page ${pages} of ${pages}) Tj`);
+    expect(pdf.match(/\(Running total\) Tj/g)).toHaveLength(pages);
+  });
+
+  it('serves each format as a download and rejects unknown formats', async () => {
+    const [request, url] = apiRequest('GET', `/api/projects/${projectId}/export?format=xlsx`);
+    const response = (await handleExportRequest(request, t.env, url))!;
+
+    expect(response.headers.get('Content-Type')).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename="kitchen-2026-budget-\d{4}-\d{2}-\d{2}\.xlsx"$/);
+
+    const [bad, badUrl] = apiRequest('GET', `/api/projects/${projectId}/export?format=docx`);
+    await expect(handleExportRequest(bad, t.env, badUrl)).rejects.toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,122 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createTestDatabase, type TestDatabase } from './d1';
+import { updateCategory } from '../worker/categories';
+import { createChangeOrder } from '../worker/change-orders';
+import { createContract, payContractPayment } from '../worker/contracts';
+import { createExpense } from '../worker/expenses';
+import { forecastProject } from '../worker/forecast';
+import { createProject } from '../worker/projects';
+import { createVendor } from '../worker/vendors';
+
+const TODAY = '2026-03-30';
+
+let t: TestDatabase;
+let projectId: string;
+
+// A 1,000,000 budget over 120 days; on TODAY 30 days have passed and 90 remain
+beforeEach(async () => {
+  t = await createTestDatabase();
+  projectId = (
+    await createProject(t.db, { name: 'Kitchen', budgetCents: 1_000_000, startDate: '2026-03-01', targetDate: '2026-06-28' })
+  ).id;
+});
+
+afterEach(async () => {
+  await t.dispose();
+});
+
+function spend(date: string, category: string, amountCents: number) {
+  return createExpense(t.db, projectId, { date, vendor: 'Vendor', category, amountCents });
+}
+
+describe('budget forecast', () => {
+  it('projects spend at the burn rate and by earned value', async () => {
+    await spend('2026-03-02', 'demolition', 80_000);
+    await spend('2026-03-20', 'demolition', 40_000);
+    await spend('2026-03-10', 'plumbing', 30_000);
+    await updateCategory(t.db, projectId, 'demolition', { percentComplete: 100 });
+    await updateCategory(t.db, projectId, 'plumbing', { percentComplete: 20 });
+    await expect(updateCategory(t.db, projectId, 'plumbing', { percentComplete: 120 })).rejects.toMatchObject({
+      fields: { percentComplete: 'percentComplete must be a number from 0 to 100' },
+    });
+
+    const forecast = await forecastProject(t.db, projectId, TODAY);
+    expect(forecast).toMatchObject({
+      elapsedDays: 30,
+      remainingDays: 90,
+      spentCents: 150_000,
+      burnRateCentsPerDay: 5_000,
+      linear: { basis: 'burn_rate', estimateAtCompletionCents: 600_000, varianceAtCompletionCents: 400_000, projectedOverrunDate: null },
+      // Demolition and plumbing by earned value, the rest at their allocation
+      earnedValue: {
+        basis: 'earned_value',
+        estimateAtCompletionCents: 920_000,
+        varianceAtCompletionCents: 80_000,
+        earnedValueCents: 104_000,
+        cpi: 0.69,
+      },
+      warnings: [],
+    });
+
+    const byKey = Object.fromEntries(forecast.categories.map((c) => [c.key, c]));
+    // Demolition is finished and went over on the day spend passed its allocation
+    expect(byKey.demolition.earnedValue).toEqual({
+      basis: 'earned_value',
+      estimateAtCompletionCents: 120_000,
+      varianceAtCompletionCents: -40_000,
+      projectedOverrunDate: '2026-03-20',
+      earnedValueCents: 80_000,
+      cpi: 0.67,
+    });
+    expect(byKey.plumbing.earnedValue).toMatchObject({ estimateAtCompletionCents: 150_000, varianceAtCompletionCents: -30_000, cpi: 0.8 });
+    expect(byKey.electrical.earnedValue).toMatchObject({ basis: 'commitments', estimateAtCompletionCents: 120_000, cpi: null });
+  });
+
+  it('never forecasts below commitments and dates the overrun by the target date at the latest', async () => {
+    const vendor = await createVendor(t.db, { name: 'Oak & Sons Woodworks' });
+    const contract = await createContract(t.db, projectId, {
+      vendorId: vendor.id,
+      title: 'Cabinets',
+      category: 'cabinets',
+      amountCents: 900_000,
+      payments: [{ description: 'Deposit', amountCents: 100_000 }],
+    });
+    await payContractPayment(t.db, projectId, contract.id, contract.payments[0].id, { date: '2026-03-10' });
+    await createChangeOrder(t.db, projectId, { contractId: contract.id, title: 'Pantry', reason: 'owner_request', costDeltaCents: 150_000 });
+
+    const forecast = await forecastProject(t.db, projectId, TODAY);
+    expect(forecast).toMatchObject({
+      exposureCents: 900_000,
+      pendingChangeOrderCents: 150_000,
+      linear: { estimateAtCompletionCents: 1_050_000, varianceAtCompletionCents: -50_000, projectedOverrunDate: '2026-06-28' },
+    });
+    // At 3,333.33 a day the remaining 180,000 of the cabinet allocation lasts 54 days
+    expect(forecast.categories.find((c) => c.key === 'cabinets')!.linear).toEqual({
+      basis: 'burn_rate',
+      estimateAtCompletionCents: 1_050_000,
+      varianceAtCompletionCents: -770_000,
+      projectedOverrunDate: '2026-05-23',
+    });
+  });
+
+  it('falls back to commitments and explains what is missing', async () => {
+    const undated = await createProject(t.db, { name: 'Bath', budgetCents: 1_000_000 });
+    const forecast = await forecastProject(t.db, undated.id, TODAY);
+
+    expect(forecast).toMatchObject({
+      startDate: null,
+      elapsedDays: 0,
+      remainingDays: null,
+      burnRateCentsPerDay: 0,
+      // Every category but contingency at its allocation
+      linear: { basis: 'commitments', estimateAtCompletionCents: 850_000, projectedOverrunDate: null },
+      earnedValue: { basis: 'commitments', estimateAtCompletionCents: 850_000, cpi: null },
+    });
+    expect(forecast.warnings).toEqual([
+      'The project has no target date, so spend cannot be projected at the burn rate',
+      'No expenses are recorded yet, so there is no burn rate or cost performance',
+      'No category has a percent complete, so earned value falls back to commitments',
+    ]);
+  });
+});
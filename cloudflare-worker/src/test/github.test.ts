@@ -0,0 +1,333 @@
+// @vitest-environment node
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GitHubApiError, createPullRequest, parseRepoUrl } from '../worker/github';
+import { validateAppsScriptSources } from '../worker/appsscript-validation';
+import {
+  commitChanges,
+  gitToolsForMode,
+  openPullRequest,
+  showDiff,
+  writeAppsScriptFile,
+  type GitToolsConfig,
+} from '../worker/tools';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown> | null;
+}
+
+type Route = (request: RecordedRequest) => { status: number; body: unknown };
+
+/**
+ * A local stand-in for the GitHub REST API that records requests and answers from `route`
+ */
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let route: Route;
+
+beforeEach(async () => {
+  requests = [];
+  route = () => ({ status: 404, body: { message: 'Not Found' } });
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const recorded = { method: req.method!, url: req.url!, headers: req.headers, body: raw ? JSON.parse(raw) : null };
+      requests.push(recorded);
+      const { status, body } = route(recorded);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const repo = { owner: 'example', repo: 'budget' };
+const input = { title: 'Add Electrical category', body: 'Details', head: 'agent/conv-1', base: 'main' };
+
+describe('parseRepoUrl', () => {
+  it('reads owner and repository from clone URLs', () => {
+    expect(parseRepoUrl('https://github.com/jmbish04/home_remodel_budget')).toEqual({ owner: 'jmbish04', repo: 'home_remodel_budget' });
+    expect(parseRepoUrl('https://github.com/example/budget.git/')).toEqual({ owner: 'example', repo: 'budget' });
+    expect(() => parseRepoUrl('https://github.com/example')).toThrow(/Cannot determine/);
+  });
+});
+
+describe('createPullRequest', () => {
+  it('posts the pull request with the token and API version headers', async () => {
+    route = () => ({ status: 201, body: { number: 7, html_url: 'https://github.com/example/budget/pull/7' } });
+
+    const pr = await createPullRequest({ token: 'secret', baseUrl: `${baseUrl}/` }, repo, input);
+
+    expect(pr).toEqual({ number: 7, url: 'https://github.com/example/budget/pull/7', existing: false });
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({ method: 'POST', url: '/repos/example/budget/pulls', body: input });
+    expect(requests[0].headers).toMatchObject({
+      authorization: 'Bearer secret',
+      accept: 'application/vnd.github+json',
+      'x-github-api-version': '2022-11-28',
+    });
+  });
+
+  it('returns the open pull request when the branch already has one', async () => {
+    route = (request) => request.method === 'POST'
+      ? { status: 422, body: { message: 'Validation Failed' } }
+      : { status: 200, body: [{ number: 3, html_url: 'https://github.com/example/budget/pull/3' }] };
+
+    const pr = await createPullRequest({ token: 'secret', baseUrl }, repo, input);
+
+    expect(pr).toEqual({ number: 3, url: 'https://github.com/example/budget/pull/3', existing: true });
+    expect(requests[1]).toMatchObject({ method: 'GET', url: '/repos/example/budget/pulls?head=example%3Aagent%2Fconv-1&state=open' });
+  });
+
+  it('reports API failures with their status', async () => {
+    route = () => ({ status: 401, body: { message: 'Bad credentials' } });
+
+    const error = await createPullRequest({ token: 'wrong', baseUrl }, repo, input).catch((e) => e);
+
+    expect(error).toBeInstanceOf(GitHubApiError);
+    expect(error.status).toBe(401);
+    expect(error.message).toMatch(/Bad credentials/);
+  });
+});
+
+describe('openPullRequest', () => {
+  function fakeSandbox(log: string) {
+    return {
+      exec: vi.fn(async (command: string) => {
+        if (command.includes(' log ')) return { stdout: log, stderr: '', success: true, exitCode: 0 };
+        if (command.includes('--stat')) return { stdout: ' appsscript/src/Code.js | 2 +-\n', stderr: '', success: true, exitCode: 0 };
+        return { stdout: '', stderr: '', success: true, exitCode: 0 };
+      }),
+    };
+  }
+
+  function config(): GitToolsConfig {
+    return {
+      repoUrl: 'https://github.com/example/budget',
+      githubToken: 'secret',
+      appsScriptId: '',
+      githubApiUrl: baseUrl,
+      pushMode: 'pull_request',
+    };
+  }
+
+  it('pushes a branch named after the conversation and opens a pull request', async () => {
+    route = () => ({ status: 201, body: { number: 12, html_url: 'https://github.com/example/budget/pull/12' } });
+    const sandbox = fakeSandbox('Add Electrical category\nFix doGet title\n');
+
+    const result = await openPullRequest(sandbox as never, config(), 'conv-1');
+
+    expect(result).toBe('Pushed to agent/conv-1 and opened pull request #12: https://github.com/example/budget/pull/12');
+    expect(sandbox.exec).toHaveBeenCalledWith(
+      "git -C /workspace/repo push 'https://secret@github.com/example/budget' HEAD:refs/heads/agent/conv-1"
+    );
+    const body = requests[0].body!;
+    expect(body).toMatchObject({ title: 'Add Electrical category (+1 more commit)', head: 'agent/conv-1', base: 'main' });
+    expect(body.body).toContain('- Fix doGet title');
+    expect(body.body).toContain('appsscript/src/Code.js | 2 +-');
+  });
+
+  it('keeps the token out of push errors', async () => {
+    const sandbox = fakeSandbox('Add Electrical category\n');
+    const succeed = sandbox.exec.getMockImplementation()!;
+    sandbox.exec.mockImplementation(async (command: string) =>
+      command.includes(' push ')
+        ? {
+            stdout: '',
+            stderr: "fatal: unable to access 'https://secret@github.com/example/budget/': The requested URL returned error: 403\n",
+            success: false,
+            exitCode: 128,
+          }
+        : succeed(command)
+    );
+
+    const error = await openPullRequest(sandbox as never, config(), 'conv-1').catch((e: Error) => e);
+    expect((error as Error).message).toBe("fatal: unable to access 'https://***@github.com/example/budget/': The requested URL returned error: 403");
+    expect(requests).toHaveLength(0);
+  });
+
+  it('refuses when there is nothing committed', async () => {
+    const sandbox = fakeSandbox('');
+    await expect(openPullRequest(sandbox as never, config(), 'conv-1')).rejects.toThrow(/no commits/);
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('commit, show_diff and open_pull_request', () => {
+  type Tree = Record<string, string>;
+
+  function lines(content: string): string[] {
+    return content.replace(/\n$/, '').split('\n');
+  }
+
+  /** One hunk per changed file, covering the lines between the common prefix and suffix */
+  function unifiedDiff(from: Tree, to: Tree): string {
+    const out: string[] = [];
+    for (const path of Object.keys(to).sort()) {
+      if (from[path] === to[path]) continue;
+      const before = lines(from[path]);
+      const after = lines(to[path]);
+      let prefix = 0;
+      while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+      let suffix = 0;
+      while (
+        suffix < before.length - prefix &&
+        suffix < after.length - prefix &&
+        before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+      ) suffix++;
+      const removed = before.slice(prefix, before.length - suffix);
+      const added = after.slice(prefix, after.length - suffix);
+      out.push(
+        `diff --git a/${path} b/${path}`,
+        `--- a/${path}`,
+        `+++ b/${path}`,
+        `@@ -${prefix + 1},${removed.length} +${prefix + 1},${added.length} @@`,
+        ...removed.map((line) => `-${line}`),
+        ...added.map((line) => `+${line}`)
+      );
+    }
+    return out.length > 0 ? `${out.join('\n')}\n` : '';
+  }
+
+  /**
+   * A sandbox that simulates just enough of git for the publishing tools and, like the
+   * real SDK, only accepts exec(command: string, options?: ExecOptions)
+   */
+  function strictGitSandbox(initial: Tree) {
+    const worktree: Tree = { ...initial };
+    const origin: Tree = { ...initial };
+    const commits: { message: string; tree: Tree }[] = [];
+    const pushed: Record<string, Tree> = {};
+    let staged: Tree = { ...initial };
+    const head = () => commits.at(-1)?.tree ?? origin;
+    const ok = (stdout = '') => ({ stdout, stderr: '', success: true, exitCode: 0 });
+    const fail = (output: { stdout?: string; stderr?: string }, exitCode = 1) =>
+      ({ stdout: output.stdout ?? '', stderr: output.stderr ?? '', success: false, exitCode });
+    const repoPath = (path: string) => {
+      if (!path.startsWith('/workspace/repo/')) throw new Error(`ENOENT: ${path}`);
+      return path.slice('/workspace/repo/'.length);
+    };
+    const git = 'git -C /workspace/repo';
+    const sources = '-- appsscript/src appsscript/appsscript.json';
+
+    const exec = vi.fn(async (command: unknown, options?: unknown) => {
+      if (typeof command !== 'string') {
+        throw new TypeError('exec(command, options): command must be a string');
+      }
+      if (options !== undefined && (typeof options !== 'object' || options === null || Array.isArray(options))) {
+        throw new TypeError('exec(command, options): options must be an ExecOptions object');
+      }
+      if (command === 'node --check /workspace/repo/appsscript/src/Code.js') return ok();
+      if (command === `${git} add .`) {
+        staged = { ...worktree };
+        return ok();
+      }
+      const commit = command.match(/^git -C \/workspace\/repo commit -m '(.*)'$/s);
+      if (commit) {
+        if (JSON.stringify(staged) === JSON.stringify(head())) {
+          return fail({ stdout: 'On branch main\nnothing to commit, working tree clean\n' });
+        }
+        const message = commit[1].replace(/'\\''/g, "'");
+        commits.push({ message, tree: { ...staged } });
+        return ok(`[main ${commits.length.toString().padStart(7, '0')}] ${message}\n`);
+      }
+      if (command === `${git} log --format=%s origin/main..HEAD`) {
+        return ok(commits.map((c) => `${c.message}\n`).reverse().join(''));
+      }
+      if (command === `${git} diff --no-color HEAD ${sources}`) return ok(unifiedDiff(head(), worktree));
+      if (command === `${git} diff --no-color origin/main HEAD ${sources}`) return ok(unifiedDiff(origin, head()));
+      if (command === `${git} diff --stat origin/main HEAD`) {
+        const changed = Object.keys(head()).filter((path) => head()[path] !== origin[path]);
+        return ok(changed.map((path) => ` ${path} | 2 +-\n`).join(''));
+      }
+      const push = command.match(/^git -C \/workspace\/repo push '[^']+' HEAD:refs\/heads\/(\S+)$/);
+      if (push) {
+        pushed[push[1]] = { ...head() };
+        return ok();
+      }
+      return fail({ stderr: `unexpected command: ${command}\n` }, 127);
+    });
+
+    return {
+      exec,
+      pushed,
+      readFile: vi.fn(async (path: string) => {
+        const content = worktree[repoPath(path)];
+        if (content === undefined) throw new Error(`ENOENT: ${path}`);
+        return { content };
+      }),
+      writeFile: vi.fn(async (path: string, content: string) => {
+        worktree[repoPath(path)] = content;
+      }),
+    };
+  }
+
+  const INITIAL: Tree = {
+    'appsscript/src/Code.js': "function doGet(e) {\n  return HtmlService.createHtmlOutputFromFile('index');\n}\n",
+    'appsscript/src/index.html': '<!DOCTYPE html>\n<html><body><h1>Budget</h1></body></html>\n',
+    'appsscript/appsscript.json': '{"timeZone":"America/New_York","runtimeVersion":"V8"}',
+  };
+
+  it('commits, shows the unpushed change and opens a pull request for it', async () => {
+    route = () => ({ status: 201, body: { number: 5, html_url: 'https://github.com/example/budget/pull/5' } });
+    const sandbox = strictGitSandbox(INITIAL);
+    const config: GitToolsConfig = {
+      repoUrl: 'https://github.com/example/budget',
+      githubToken: 'secret',
+      appsScriptId: '',
+      githubApiUrl: baseUrl,
+      pushMode: 'pull_request',
+    };
+
+    await writeAppsScriptFile(
+      sandbox as never,
+      'index.html',
+      '<!DOCTYPE html>\n<html><body><h1>Remodel budget</h1></body></html>\n'
+    );
+    expect(await validateAppsScriptSources(sandbox as never)).toEqual([]);
+    expect(await showDiff(sandbox as never, 'uncommitted')).toHaveLength(1);
+
+    expect(await commitChanges(sandbox as never, "Rename the page to 'Remodel budget'")).toBe(
+      "[main 0000001] Rename the page to 'Remodel budget'\n"
+    );
+    expect(await showDiff(sandbox as never, 'uncommitted')).toEqual([]);
+    const [file, ...others] = await showDiff(sandbox as never, 'unpushed');
+    expect(others).toEqual([]);
+    expect(file).toMatchObject({ path: 'appsscript/src/index.html', status: 'modified', additions: 1, deletions: 1 });
+    expect(file.hunks[0].lines.map((line) => [line.type, line.content])).toEqual([
+      ['remove', '<html><body><h1>Budget</h1></body></html>'],
+      ['add', '<html><body><h1>Remodel budget</h1></body></html>'],
+    ]);
+    await expect(commitChanges(sandbox as never, 'Again')).rejects.toThrow(/nothing to commit/);
+
+    const result = await openPullRequest(sandbox as never, config, 'conv-1');
+
+    expect(result).toBe('Pushed to agent/conv-1 and opened pull request #5: https://github.com/example/budget/pull/5');
+    expect(sandbox.pushed['agent/conv-1']['appsscript/src/index.html']).toContain('Remodel budget');
+    expect(requests[0].body).toMatchObject({ title: "Rename the page to 'Remodel budget'", head: 'agent/conv-1', base: 'main' });
+    expect(requests[0].body!.body).toContain('appsscript/src/index.html | 2 +-');
+    // Every command went through the SDK's exec(command) signature
+    expect(sandbox.exec.mock.calls.every((call) => call.length === 1 && typeof call[0] === 'string')).toBe(true);
+  });
+});
+
+describe('gitToolsForMode', () => {
+  it('offers exactly one way to publish changes', () => {
+    const names = (mode: 'direct' | 'pull_request') => gitToolsForMode(mode).map((t) => t.function.name);
+    expect(names('direct')).toContain('push_changes');
+    expect(names('direct')).not.toContain('open_pull_request');
+    expect(names('pull_request')).toContain('open_pull_request');
+    expect(names('pull_request')).not.toContain('push_changes');
+  });
+});
@@ -0,0 +1,160 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { apiRequest, createTestDatabase, type TestDatabase } from './d1';
+import { createExpense, listExpenses } from '../worker/expenses';
+import { createImport, handleImportsRequest, vendorKey, type ImportBatch, type ImportRow } from '../worker/imports';
+import { createProject } from '../worker/projects';
+
+const STATEMENT = [
+  'Date,Description,Amount',
+  '03/12/2026,HOME DEPOT #1234 SAN JOSE CA,-412.87',
+  '03/14/2026,SQ *SPARKY ELECTRIC,-1800.00',
+  '03/15/2026,CITY OF SAN JOSE PERMITS,-350.00',
+  '03/16/2026,PAYMENT THANK YOU,2000.00',
+].join('\n');
+
+let t: TestDatabase;
+let projectId: string;
+
+beforeEach(async () => {
+  t = await createTestDatabase();
+  projectId = (await createProject(t.db, { name: 'Kitchen', budgetCents: 5_000_000 })).id;
+});
+
+afterEach(async () => {
+  await t.dispose();
+});
+
+async function call(method: string, path: string, body?: unknown) {
+  const [request, url] = apiRequest(method, path, body);
+  return (await handleImportsRequest(request, t.env, url))!;
+}
+
+async function upload(text: string, fileName = 'statement.csv', fields: Record<string, string> = {}) {
+  const form = new FormData();
+  form.set('file', new File([text], fileName));
+  for (const [key, value] of Object.entries(fields)) form.set(key, value);
+  const url = new URL(`/api/projects/${projectId}/imports`, 'http://localhost');
+  const response = (await handleImportsRequest(new Request(url, { method: 'POST', body: form }), t.env, url))!;
+  return response.json() as Promise<{ import: ImportBatch; rows: ImportRow[] }>;
+}
+
+describe('vendorKey', () => {
+  it('strips processor prefixes, store numbers and punctuation', () => {
+    expect(vendorKey('SQ *TILE DEPOT #0423')).toBe('tile depot');
+    expect(vendorKey('Sparky Electric, LLC')).toBe('sparky electric');
+  });
+});
+
+describe('statement imports', () => {
+  it('previews transactions with duplicates rejected and categories from vendor rules', async () => {
+    await createExpense(t.db, projectId, {
+      date: '2026-02-01', vendor: 'Sparky Electric', category: 'electrical', amountCents: 50_000,
+    });
+    const existing = await createExpense(t.db, projectId, {
+      date: '2026-03-10', vendor: 'Home Depot', category: 'cabinets', amountCents: 41_287,
+    });
+
+    const response = await upload(STATEMENT);
+
+    expect(response.import).toMatchObject({
+      format: 'csv',
+      status: 'pending',
+      skipped: 1,
+      counts: { rows: 3, accepted: 2, rejected: 1, duplicates: 1, uncategorized: 1 },
+    });
+    const [homeDepot, sparky, permits] = response.rows;
+    expect(homeDepot).toMatchObject({
+      vendor: 'Home Depot',
+      category: 'cabinets',
+      decision: 'reject',
+      duplicateReason: 'similar_expense',
+      duplicateOf: { expenseId: existing.id, date: '2026-03-10', amountCents: 41_287 },
+    });
+    expect(sparky).toMatchObject({
+      vendor: 'Sparky Electric',
+      description: 'SQ *SPARKY ELECTRIC',
+      amountCents: 180_000,
+      category: 'electrical',
+      categorySource: 'vendor_rule',
+      decision: 'accept',
+      duplicateOf: null,
+    });
+    expect(permits).toMatchObject({ vendor: 'CITY OF SAN JOSE PERMITS', category: null, decision: 'accept' });
+  });
+
+  it('requires a category for accepted rows, commits them and recognises a re-import', async () => {
+    const { import: batch, rows } = await upload(STATEMENT);
+    const base = `/api/projects/${projectId}/imports/${batch.id}`;
+
+    await expect(call('POST', `${base}/commit`, {})).rejects.toMatchObject({
+      status: 400,
+      fields: { 'rows.1.category': expect.any(String), 'rows.2.category': expect.any(String) },
+    });
+    await expect(call('PATCH', `${base}/rows/${rows[0].id}`, { category: 'landscaping' })).rejects.toMatchObject({
+      status: 400,
+    });
+
+    await call('PATCH', `${base}/rows/${rows[0].id}`, { category: 'Cabinets', vendor: 'Home Depot' });
+    await call('PATCH', `${base}/rows/${rows[1].id}`, { category: 'electrical' });
+    const rejected = await call('PATCH', `${base}/rows/${rows[2].id}`, { decision: 'reject' });
+    expect(((await rejected.json()) as { row: ImportRow }).row.decision).toBe('reject');
+
+    // A double-clicked commit writes the rows once
+    const outcomes = await Promise.allSettled([
+      call('POST', `${base}/commit`, { paymentMethod: 'credit_card' }),
+      call('POST', `${base}/commit`, { paymentMethod: 'credit_card' }),
+    ]);
+    const winner = outcomes.find((outcome) => outcome.status === 'fulfilled') as PromiseFulfilledResult<Response>;
+    const loser = outcomes.find((outcome) => outcome.status === 'rejected') as PromiseRejectedResult;
+    expect(loser.reason).toMatchObject({ status: 409 });
+    const committed = (await winner.value.json()) as { import: ImportBatch; created: number };
+    expect(committed).toMatchObject({ created: 2, import: { status: 'committed' } });
+
+    const { expenses } = await listExpenses(t.db, projectId, {});
+    expect(expenses.map((e) => [e.vendor, e.category, e.amountCents, e.paid, e.paymentMethod])).toEqual(
+      expect.arrayContaining([
+        ['Home Depot', 'cabinets', 41_287, true, 'credit_card'],
+        ['SQ *SPARKY ELECTRIC', 'electrical', 180_000, true, 'credit_card'],
+      ])
+    );
+    await expect(call('POST', `${base}/commit`, {})).rejects.toMatchObject({ status: 409 });
+
+    const again = await upload(STATEMENT);
+    expect(again.rows.map((row) => [row.duplicateReason, row.decision])).toEqual([
+      ['same_transaction', 'reject'],
+      ['same_transaction', 'reject'],
+      [null, 'accept'],
+    ]);
+  });
+
+  it('reads CSVs through a saved mapping and asks for one when the columns are unknown', async () => {
+    const text = 'Booked,Merchant,Out,In\n12.03.2026,Tile Depot,99.95,\n13.03.2026,Refund,,10.00';
+
+    await expect(createImport(t.db, projectId, { fileName: 'bank.csv', text })).rejects.toMatchObject({
+      status: 400,
+      fields: { mappingId: expect.stringContaining('Booked, Merchant, Out, In') },
+    });
+
+    const created = await call('POST', '/api/import-mappings', {
+      name: 'Credit Union', dateColumn: 'Booked', descriptionColumn: 'Merchant',
+      debitColumn: 'Out', creditColumn: 'In', dateFormat: 'DD/MM/YYYY',
+    });
+    expect(created.status).toBe(201);
+    const { mapping } = (await created.json()) as { mapping: { id: string } };
+    await expect(
+      call('POST', '/api/import-mappings', { name: 'credit union', dateColumn: 'a', descriptionColumn: 'b', amountColumn: 'c' })
+    ).rejects.toMatchObject({ status: 409 });
+
+    const { import: batch, rows } = await upload(text, 'bank.csv', { mappingId: mapping.id });
+    expect(batch).toMatchObject({ mappingId: mapping.id, skipped: 1 });
+    expect(rows).toEqual([expect.objectContaining({ date: '2026-03-12', vendor: 'Tile Depot', amountCents: 9_995 })]);
+  });
+
+  it('discards a pending import', async () => {
+    const { import: batch } = await upload(STATEMENT);
+    const response = await call('DELETE', `/api/projects/${projectId}/imports/${batch.id}`);
+    expect(response.status).toBe(204);
+    await expect(call('GET', `/api/projects/${projectId}/imports/${batch.id}`)).rejects.toMatchObject({ status: 404 });
+  });
+});
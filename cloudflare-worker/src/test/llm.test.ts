@@ -0,0 +1,357 @@
+// @vitest-environment node
+import { readFileSync } from 'node:fs';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ChatMessage } from '../worker/agent';
+import { ApiError } from '../worker/http';
+import {
+  LlmProviderError,
+  createAnthropicProvider,
+  createFallbackProvider,
+  createOpenAiProvider,
+  createWorkersAiProvider,
+  resolveLlmProvider,
+  type LlmProvider,
+  type ModelRequest,
+} from '../worker/llm';
+
+const FIXTURES_DIR = path.resolve(__dirname, 'fixtures/llm');
+
+function fixture(name: string): string {
+  return readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+}
+
+interface RecordedRequest {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+/**
+ * A local stand-in for the vendor APIs that answers with recorded responses
+ */
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let replies: { status: number; fixture: string }[];
+
+beforeEach(async () => {
+  requests = [];
+  replies = [];
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      requests.push({ url: req.url!, headers: req.headers, body: JSON.parse(raw) });
+      const reply = replies.shift() ?? { status: 500, fixture: 'openai-error.json' };
+      res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      res.end(fixture(reply.fixture));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const TOOLS: ModelRequest['tools'] = [
+  {
+    type: 'function',
+    function: {
+      name: 'get_project_summary',
+      description: 'Summarize a project',
+      parameters: { type: 'object', properties: { projectId: { type: 'string', description: 'Project id' } }, required: ['projectId'] },
+    },
+  },
+];
+
+// A turn that has already run one tool
+const CONVERSATION: ChatMessage[] = [
+  { role: 'system', content: 'You are a budget assistant.' },
+  { role: 'user', content: 'How is the kitchen going?' },
+  {
+    role: 'assistant',
+    content: '',
+    tool_calls: [{ id: 'call_1', function: { name: 'get_project_summary', arguments: '{"projectId":"kitchen"}' } }],
+  },
+  { role: 'tool', content: '{"spentCents":1250000}', tool_call_id: 'call_1' },
+];
+
+const SUMMARY_CALL = {
+  function: { name: 'get_project_summary', arguments: '{"projectId":"kitchen"}' },
+};
+
+describe('OpenAI adapter', () => {
+  const provider = () => createOpenAiProvider({ apiKey: 'sk-test', model: 'gpt-4o-mini', baseUrl });
+
+  it('sends tool calls and results in the Chat Completions format', async () => {
+    replies.push({ status: 200, fixture: 'openai-answer.json' });
+    const deltas: string[] = [];
+
+    const result = await provider().complete({ messages: CONVERSATION, tools: TOOLS, maxTokens: 512, onDelta: (text) => deltas.push(text) });
+
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBe('Bearer sk-test');
+    expect(requests[0].body).toEqual({
+      model: 'gpt-4o-mini',
+      max_tokens: 512,
+      tools: TOOLS,
+      messages: [
+        { role: 'system', content: 'You are a budget assistant.' },
+        { role: 'user', content: 'How is the kitchen going?' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_project_summary', arguments: '{"projectId":"kitchen"}' } }],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"spentCents":1250000}' },
+      ],
+    });
+    expect(result).toEqual({
+      response: 'The kitchen project has spent $12,500 of its $40,000 budget.',
+      tool_calls: [],
+      usage: { promptTokens: 901, completionTokens: 18, totalTokens: 919 },
+      model: 'gpt-4o-mini-2024-07-18',
+    });
+    expect(deltas).toEqual([result.response]);
+  });
+
+  it('reads tool calls from the response', async () => {
+    replies.push({ status: 200, fixture: 'openai-tool-call.json' });
+    const result = await provider().complete({ messages: CONVERSATION.slice(0, 2), tools: TOOLS, maxTokens: 512 });
+    expect(result.tool_calls).toEqual([{ id: 'call_Qf3nV8kLx2', ...SUMMARY_CALL }]);
+    expect(result.usage).toEqual({ promptTokens: 812, completionTokens: 21, totalTokens: 833 });
+  });
+
+  it('reports API errors with the vendor message', async () => {
+    replies.push({ status: 401, fixture: 'openai-error.json' });
+    const error = await provider().complete({ messages: CONVERSATION, tools: [], maxTokens: 512 }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(LlmProviderError);
+    expect(error).toMatchObject({ provider: 'openai', status: 401 });
+    expect((error as Error).message).toContain('Incorrect API key provided');
+    expect(requests[0].body).not.toHaveProperty('tools');
+  });
+});
+
+describe('Anthropic adapter', () => {
+  const provider = () => createAnthropicProvider({ apiKey: 'sk-ant-test', model: 'claude-3-5-haiku-latest', baseUrl });
+
+  it('sends the system prompt separately and tool results as user turns', async () => {
+    replies.push({ status: 200, fixture: 'anthropic-answer.json' });
+
+    const result = await provider().complete({
+      messages: [...CONVERSATION, { role: 'system', content: 'Amounts are in cents.' }],
+      tools: TOOLS,
+      maxTokens: 512,
+    });
+
+    expect(requests[0].url).toBe('/v1/messages');
+    expect(requests[0].headers['x-api-key']).toBe('sk-ant-test');
+    expect(requests[0].headers['anthropic-version']).toBe('2023-06-01');
+    expect(requests[0].body).toEqual({
+      model: 'claude-3-5-haiku-latest',
+      max_tokens: 512,
+      system: 'You are a budget assistant.\n\nAmounts are in cents.',
+      tools: [
+        { name: 'get_project_summary', description: 'Summarize a project', input_schema: TOOLS[0].function.parameters },
+      ],
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: 'How is the kitchen going?' }] },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'get_project_summary', input: { projectId: 'kitchen' } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: '{"spentCents":1250000}' }] },
+      ],
+    });
+    expect(result).toEqual({
+      response: 'The kitchen project has spent $12,500 of its $40,000 budget.',
+      tool_calls: [],
+      usage: { promptTokens: 1131, completionTokens: 19, totalTokens: 1150 },
+      model: 'claude-3-5-haiku-20241022',
+    });
+  });
+
+  it('merges consecutive tool results into one user turn', async () => {
+    replies.push({ status: 200, fixture: 'anthropic-answer.json' });
+    await provider().complete({
+      messages: [
+        { role: 'user', content: 'Compare both' },
+        {
+          role: 'assistant',
+          content: 'Checking both.',
+          tool_calls: [
+            { id: 'a', function: { name: 'get_project_summary', arguments: '{"projectId":"kitchen"}' } },
+            { id: 'b', function: { name: 'get_project_summary', arguments: 'not json' } },
+          ],
+        },
+        { role: 'tool', content: 'kitchen', tool_call_id: 'a' },
+        { role: 'tool', content: 'bath', tool_call_id: 'b' },
+      ],
+      tools: [],
+      maxTokens: 512,
+    });
+
+    const messages = requests[0].body.messages as { role: string; content: unknown[] }[];
+    expect(messages.map((m) => m.role)).toEqual(['user', 'assistant', 'user']);
+    expect(messages[1].content).toEqual([
+      { type: 'text', text: 'Checking both.' },
+      { type: 'tool_use', id: 'a', name: 'get_project_summary', input: { projectId: 'kitchen' } },
+      { type: 'tool_use', id: 'b', name: 'get_project_summary', input: {} },
+    ]);
+    expect(messages[2].content).toHaveLength(2);
+    expect(requests[0].body).not.toHaveProperty('tools');
+    expect(requests[0].body).not.toHaveProperty('system');
+  });
+
+  it('starts the conversation with a user turn when truncated history begins with an answer', async () => {
+    replies.push({ status: 200, fixture: 'anthropic-answer.json' });
+    await provider().complete({
+      messages: [
+        { role: 'system', content: '2 earlier messages were left out to fit the context window.' },
+        { role: 'assistant', content: 'Your budget is $40,000.' },
+        { role: 'user', content: 'And spent?' },
+      ],
+      tools: [],
+      maxTokens: 512,
+    });
+
+    expect(requests[0].body.messages).toEqual([{ role: 'user', content: [{ type: 'text', text: 'And spent?' }] }]);
+  });
+
+  it('reads tool_use blocks as tool calls', async () => {
+    replies.push({ status: 200, fixture: 'anthropic-tool-use.json' });
+    const result = await provider().complete({ messages: CONVERSATION.slice(0, 2), tools: TOOLS, maxTokens: 512 });
+    expect(result.response).toBe('Let me look up the kitchen project.');
+    expect(result.tool_calls).toEqual([{ id: 'toolu_01QmZ2x8Nf', ...SUMMARY_CALL }]);
+    expect(result.usage).toEqual({ promptTokens: 1024, completionTokens: 58, totalTokens: 1082 });
+  });
+
+  it('reports API errors with the vendor message', async () => {
+    replies.push({ status: 529, fixture: 'anthropic-error.json' });
+    const error = await provider().complete({ messages: CONVERSATION, tools: [], maxTokens: 512 }).catch((e: unknown) => e);
+    expect(error).toMatchObject({ provider: 'anthropic', status: 529, message: 'anthropic request failed (529): Overloaded' });
+  });
+});
+
+describe('Workers AI adapter', () => {
+  it('reads the flat tool call shape and usage', async () => {
+    const run = vi.fn(async () => JSON.parse(fixture('workers-ai-tool-call.json')));
+    const result = await createWorkersAiProvider({ run } as unknown as Ai).complete({ messages: CONVERSATION, tools: TOOLS, maxTokens: 512 });
+
+    expect(run).toHaveBeenCalledWith('@cf/meta/llama-3.3-70b-instruct-fp8-fast', { messages: CONVERSATION, tools: TOOLS, max_tokens: 512 });
+    expect(result).toMatchObject({
+      tool_calls: [{ id: '', ...SUMMARY_CALL }],
+      usage: { promptTokens: 948, completionTokens: 24, totalTokens: 972 },
+    });
+  });
+
+  it('streams text deltas and takes usage from the last chunk', async () => {
+    const stream = new Response(fixture('workers-ai-stream.txt')).body!;
+    const run = vi.fn(async () => stream);
+    const deltas: string[] = [];
+
+    const result = await createWorkersAiProvider({ run } as unknown as Ai).complete({
+      messages: CONVERSATION,
+      tools: TOOLS,
+      maxTokens: 512,
+      onDelta: (text) => deltas.push(text),
+    });
+
+    expect(deltas).toEqual(['The kitchen project', ' has spent $12,500.']);
+    expect(result).toMatchObject({
+      response: 'The kitchen project has spent $12,500.',
+      tool_calls: [],
+      usage: { promptTokens: 1002, completionTokens: 11, totalTokens: 1013 },
+    });
+  });
+});
+
+describe('provider selection', () => {
+  function fakeProvider(name: LlmProvider['name'], fail = false): LlmProvider {
+    return {
+      name,
+      model: `${name}-model`,
+      complete: vi.fn(async () => {
+        if (fail) throw new Error(`${name} is down`);
+        return { response: `from ${name}`, tool_calls: [], usage: null, model: `${name}-model` };
+      }),
+    };
+  }
+
+  const request: ModelRequest = { messages: CONVERSATION, tools: [], maxTokens: 512 };
+
+  it('falls back to the next provider when one fails', async () => {
+    const primary = fakeProvider('workers-ai', true);
+    const result = await createFallbackProvider([primary, fakeProvider('openai')]).complete(request);
+    expect(result.response).toBe('from openai');
+    expect(primary.complete).toHaveBeenCalledOnce();
+
+    const allDown = createFallbackProvider([fakeProvider('workers-ai', true), fakeProvider('anthropic', true)]);
+    await expect(allDown.complete(request)).rejects.toThrow('anthropic is down');
+  });
+
+  it('does not fall back once the answer has started streaming', async () => {
+    const primary: LlmProvider = {
+      ...fakeProvider('workers-ai'),
+      complete: vi.fn(async ({ onDelta }: ModelRequest) => {
+        onDelta?.('The kitchen');
+        throw new Error('workers-ai is down');
+      }),
+    };
+    const fallback = fakeProvider('openai');
+    const deltas: string[] = [];
+
+    await expect(
+      createFallbackProvider([primary, fallback]).complete({ ...request, onDelta: (text) => deltas.push(text) })
+    ).rejects.toThrow('workers-ai is down');
+    expect(deltas).toEqual(['The kitchen']);
+    expect(fallback.complete).not.toHaveBeenCalled();
+  });
+
+  it('uses the requested provider, then LLM_PROVIDER, then Workers AI', () => {
+    const env = { AI: { run: vi.fn() }, OPENAI_API_KEY: 'sk-test', ANTHROPIC_API_KEY: 'sk-ant-test' } as unknown as Env;
+    expect(resolveLlmProvider(env)).toMatchObject({ name: 'workers-ai', model: '@cf/meta/llama-3.3-70b-instruct-fp8-fast' });
+    expect(resolveLlmProvider({ ...env, LLM_PROVIDER: 'anthropic' } as unknown as Env)).toMatchObject({
+      name: 'anthropic',
+      model: 'claude-3-5-haiku-latest',
+    });
+    expect(resolveLlmProvider({ ...env, OPENAI_MODEL: 'gpt-4.1' } as unknown as Env, 'openai')).toMatchObject({
+      name: 'openai',
+      model: 'gpt-4.1',
+    });
+  });
+
+  it('rejects unknown or unconfigured providers', () => {
+    const env = { AI: { run: vi.fn() } } as unknown as Env;
+    const status = (run: () => unknown) => {
+      try {
+        run();
+        return 200;
+      } catch (error) {
+        return error instanceof ApiError ? error.status : 0;
+      }
+    };
+    expect(status(() => resolveLlmProvider(env, 'gemini'))).toBe(400);
+    expect(status(() => resolveLlmProvider(env, 'openai'))).toBe(400);
+    expect(status(() => resolveLlmProvider({ ...env, LLM_PROVIDER: 'anthropic' } as unknown as Env))).toBe(503);
+  });
+
+  it('falls back to LLM_FALLBACK_PROVIDER when it is configured', async () => {
+    replies.push({ status: 200, fixture: 'openai-answer.json' });
+    const env = {
+      AI: { run: vi.fn(async () => { throw new Error('3040: Capacity temporarily exceeded'); }) },
+      OPENAI_API_KEY: 'sk-test',
+      OPENAI_API_URL: baseUrl,
+      LLM_FALLBACK_PROVIDER: 'openai',
+    } as unknown as Env;
+
+    const result = await resolveLlmProvider(env).complete(request);
+    expect(result).toMatchObject({ response: 'The kitchen project has spent $12,500 of its $40,000 budget.', model: 'gpt-4o-mini-2024-07-18' });
+
+    // Without its key the fallback is skipped
+    const primaryOnly = resolveLlmProvider({ ...env, OPENAI_API_KEY: undefined } as unknown as Env);
+    await expect(primaryOnly.complete(request)).rejects.toThrow('Capacity temporarily exceeded');
+  });
+});
@@ -0,0 +1,93 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@cloudflare/sandbox', () => ({ getSandbox: vi.fn(), Sandbox: class {} }));
+
+import worker from '../worker/index';
+import { getAllowedOrigins } from '../worker/middleware';
+
+const APP_ORIGIN = 'https://budget.example.com';
+
+const env = {
+  CORS_ALLOWED_ORIGINS: `${APP_ORIGIN}, http://localhost:4321/`,
+  ASSETS: {
+    fetch: async () => new Response('<!doctype html><title>Budget</title>', { headers: { 'Content-Type': 'text/html' } }),
+  },
+} as unknown as Env;
+
+const ctx = {} as ExecutionContext;
+
+function send(method: string, path: string, headers: Record<string, string> = {}) {
+  return worker.fetch(new Request(`https://worker.example.com${path}`, { method, headers }), env, ctx);
+}
+
+function preflight(path: string, origin: string, method: string) {
+  return send('OPTIONS', path, { Origin: origin, 'Access-Control-Request-Method': method });
+}
+
+describe('getAllowedOrigins', () => {
+  it('parses the comma-separated list', () => {
+    expect(getAllowedOrigins(env)).toEqual([APP_ORIGIN, 'http://localhost:4321']);
+    expect(getAllowedOrigins({} as Env)).toEqual([]);
+  });
+});
+
+describe('CORS', () => {
+  it('reflects allowed origins', async () => {
+    const response = await send('GET', '/api/health', { Origin: APP_ORIGIN });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe(APP_ORIGIN);
+    expect(response.headers.get('Access-Control-Allow-Credentials')).toBe('true');
+    expect(response.headers.get('Vary')).toBe('Origin');
+  });
+
+  it('leaves out CORS headers for other origins', async () => {
+    const response = await send('GET', '/api/health', { Origin: 'https://evil.example.com' });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+  });
+
+  it('answers preflights with the methods of the matched route', async () => {
+    const response = await preflight('/api/projects/p1/expenses/e1', APP_ORIGIN, 'PATCH');
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe(APP_ORIGIN);
+    expect(response.headers.get('Access-Control-Allow-Methods')).toBe('GET, PATCH, DELETE, OPTIONS');
+    expect(response.headers.get('Access-Control-Allow-Headers')).toContain('Authorization');
+
+    // A malformed id is reported by the request itself, not the preflight
+    expect((await preflight('/api/projects/%E0%A4%A', APP_ORIGIN, 'GET')).status).toBe(204);
+  });
+
+  it('rejects preflights for other origins, methods and unknown routes', async () => {
+    const disallowed = await preflight('/api/projects', 'https://evil.example.com', 'POST');
+    expect(disallowed.status).toBe(403);
+    expect(disallowed.headers.get('Access-Control-Allow-Origin')).toBeNull();
+
+    const method = await preflight('/api/projects', APP_ORIGIN, 'DELETE');
+    expect(method.status).toBe(405);
+    expect(method.headers.get('Allow')).toBe('GET, POST, OPTIONS');
+
+    expect((await preflight('/api/nothing-here', APP_ORIGIN, 'GET')).status).toBe(404);
+  });
+});
+
+describe('security headers', () => {
+  it('are added to API responses, including errors', async () => {
+    const response = await send('GET', '/api/projects', { Origin: APP_ORIGIN });
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Sign in required' });
+    expect(response.headers.get('Content-Type')).toContain('application/json');
+    expect(response.headers.get('Content-Security-Policy')).toBe("default-src 'none'; frame-ancestors 'none'");
+    expect(response.headers.get('Strict-Transport-Security')).toContain('max-age=');
+    expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe(APP_ORIGIN);
+  });
+
+  it('are added to asset responses', async () => {
+    const response = await send('GET', '/');
+    expect(await response.text()).toContain('<title>Budget</title>');
+    expect(response.headers.get('Content-Security-Policy')).toContain("default-src 'self'");
+    expect(response.headers.get('Strict-Transport-Security')).toContain('max-age=');
+    expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+  });
+});
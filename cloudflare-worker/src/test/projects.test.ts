@@ -0,0 +1,145 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createTestDatabase, apiRequest, type TestDatabase } from './d1';
+import { handleProjectsRequest } from '../worker/projects';
+import { ApiError, ValidationError } from '../worker/http';
+
+let testDb: TestDatabase;
+
+beforeAll(async () => {
+  testDb = await createTestDatabase();
+});
+
+afterAll(async () => {
+  await testDb.dispose();
+});
+
+async function call(method: string, path: string, body?: unknown) {
+  const [request, url] = apiRequest(method, path, body);
+  const response = await handleProjectsRequest(request, testDb.env, url);
+  if (!response) throw new Error(`No route for ${method} ${path}`);
+  return response;
+}
+
+async function createKitchen(overrides: Record<string, unknown> = {}) {
+  const response = await call('POST', '/api/projects', {
+    name: 'Kitchen Renovation',
+    budgetCents: 2_500_000,
+    startDate: '2026-03-01',
+    targetDate: '2026-06-30',
+    room: 'Kitchen',
+    ...overrides,
+  });
+  expect(response.status).toBe(201);
+  const { project } = await response.json() as { project: Record<string, unknown> };
+  return project;
+}
+
+describe('Projects API', () => {
+  it('creates a project with defaults', async () => {
+    const project = await createKitchen();
+    expect(project).toMatchObject({
+      name: 'Kitchen Renovation',
+      budgetCents: 2_500_000,
+      spentCents: 0,
+      status: 'planning',
+      room: 'Kitchen',
+      address: null,
+      archivedAt: null,
+    });
+    expect(typeof project.id).toBe('string');
+  });
+
+  it('gets a project by id and 404s for unknown ids', async () => {
+    const project = await createKitchen();
+    const response = await call('GET', `/api/projects/${project.id}`);
+    expect(await response.json()).toEqual({ project });
+
+    await expect(call('GET', '/api/projects/missing')).rejects.toMatchObject({ status: 404 });
+    await expect(call('GET', '/api/projects/%E0%A4%A')).rejects.toMatchObject({
+      status: 400,
+      fields: { id: 'id is not a valid URL path segment' },
+    });
+  });
+
+  it('reports field-level validation errors', async () => {
+    const error = await call('POST', '/api/projects', {
+      name: '',
+      budgetCents: 12.5,
+      startDate: '2026-13-01',
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.fields).toEqual({
+      name: 'name cannot be empty',
+      budgetCents: 'budgetCents must be a whole number of cents',
+      startDate: 'startDate must be a date in YYYY-MM-DD format',
+    });
+
+    const completed = await call('POST', '/api/projects', { name: 'Bath', budgetCents: 100, status: 'complete' }).catch((e) => e);
+    expect(completed.fields).toEqual({ status: 'New projects start in planning; advance the status once they are created' });
+
+    const project = await createKitchen();
+    const renamed = await call('PATCH', `/api/projects/${project.id}`, { name: '  ' }).catch((e) => e);
+    expect(renamed.fields).toEqual({ name: 'name cannot be empty' });
+  });
+
+  it('rejects a target date before the start date', async () => {
+    const project = await createKitchen();
+    const error = await call('PATCH', `/api/projects/${project.id}`, {
+      targetDate: '2026-01-01',
+    }).catch((e) => e);
+    expect(error.fields).toEqual({ targetDate: 'targetDate cannot be before startDate' });
+  });
+
+  it('updates fields and advances status one step at a time', async () => {
+    const project = await createKitchen();
+
+    const skip = await call('PATCH', `/api/projects/${project.id}`, { status: 'complete' }).catch((e) => e);
+    expect(skip.fields).toEqual({ status: 'Cannot change status from planning to complete' });
+
+    let response = await call('PATCH', `/api/projects/${project.id}`, {
+      status: 'in_progress',
+      budgetCents: 2_750_000,
+      address: null,
+    });
+    let body = await response.json() as { project: Record<string, unknown> };
+    expect(body.project).toMatchObject({ status: 'in_progress', budgetCents: 2_750_000 });
+
+    response = await call('PATCH', `/api/projects/${project.id}`, { status: 'complete' });
+    body = await response.json() as { project: Record<string, unknown> };
+    expect(body.project.status).toBe('complete');
+
+    const back = await call('PATCH', `/api/projects/${project.id}`, { status: 'planning' }).catch((e) => e);
+    expect(back).toBeInstanceOf(ValidationError);
+  });
+
+  it('archives projects and hides them from the default list', async () => {
+    const project = await createKitchen({ name: 'Bathroom Remodel' });
+    const response = await call('POST', `/api/projects/${project.id}/archive`);
+    const { project: archived } = await response.json() as { project: Record<string, unknown> };
+    expect(archived.archivedAt).toEqual(expect.any(String));
+
+    const active = await (await call('GET', '/api/projects')).json() as { projects: { id: string }[] };
+    expect(active.projects.map((p) => p.id)).not.toContain(project.id);
+
+    const all = await (await call('GET', '/api/projects?includeArchived=true')).json() as { projects: { id: string }[] };
+    expect(all.projects.map((p) => p.id)).toContain(project.id);
+
+    const edit = await call('PATCH', `/api/projects/${project.id}`, { name: 'Renamed' }).catch((e) => e);
+    expect(edit).toBeInstanceOf(ApiError);
+    expect(edit.status).toBe(409);
+  });
+
+  it('deletes a project', async () => {
+    const project = await createKitchen();
+    const response = await call('DELETE', `/api/projects/${project.id}`);
+    expect(response.status).toBe(204);
+    await expect(call('DELETE', `/api/projects/${project.id}`)).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('returns null for routes it does not own', async () => {
+    const [request, url] = apiRequest('PUT', '/api/projects');
+    expect(await handleProjectsRequest(request, testDb.env, url)).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { apiErrorResponse } from '../worker/http';
+import {
+  RateLimitedError,
+  RateLimiter,
+  consumeRateLimit,
+  enforceChatRateLimits,
+  type RateLimitWindow,
+} from '../worker/rate-limit';
+
+const NOW = Date.parse('2026-03-01T12:00:00.000Z');
+
+/**
+ * Namespace whose stubs are in-memory RateLimiter instances, one per name
+ */
+function fakeRateLimiterNamespace() {
+  const instances = new Map<string, RateLimiter>();
+  return {
+    idFromName: (name: string) => name,
+    get: (name: string) => {
+      if (!instances.has(name)) {
+        const stored = new Map<string, unknown>();
+        const state = {
+          storage: {
+            get: async (key: string) => stored.get(key),
+            put: async (key: string, value: unknown) => { stored.set(key, value); },
+          },
+        };
+        instances.set(name, new RateLimiter(state as unknown as DurableObjectState, {} as Env));
+      }
+      const instance = instances.get(name)!;
+      return { fetch: (url: string, init: RequestInit) => instance.fetch(new Request(url, init)) };
+    },
+  };
+}
+
+function chatRequest(ip: string) {
+  return new Request('https://worker.example.com/api/chat', { method: 'POST', headers: { 'CF-Connecting-IP': ip } });
+}
+
+async function rejection(run: () => Promise<void>): Promise<RateLimitedError | null> {
+  try {
+    await run();
+    return null;
+  } catch (error) {
+    if (error instanceof RateLimitedError) return error;
+    throw error;
+  }
+}
+
+describe('consumeRateLimit', () => {
+  it('allows up to the limit per window, then reports when the window resets', () => {
+    let window: RateLimitWindow | undefined;
+    for (let i = 0; i < 3; i++) {
+      const hit = consumeRateLimit(window, 3, 60_000, NOW + i * 1000);
+      expect(hit.result).toEqual({ allowed: true, remaining: 2 - i, retryAfterSeconds: 0 });
+      window = hit.window;
+    }
+
+    const rejected = consumeRateLimit(window, 3, 60_000, NOW + 20_000);
+    expect(rejected.result).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 40 });
+    // Rejected requests do not count
+    expect(rejected.window.count).toBe(3);
+
+    expect(consumeRateLimit(rejected.window, 3, 60_000, NOW + 60_000).result.allowed).toBe(true);
+  });
+});
+
+describe('enforceChatRateLimits', () => {
+  const principal = { keyId: 'key-1', name: 'Owner', role: 'viewer' as const };
+
+  it('limits each API key and each IP address', async () => {
+    const env = {
+      RATE_LIMITER: fakeRateLimiterNamespace(),
+      CHAT_RATE_LIMIT_PER_USER: '2',
+      CHAT_RATE_LIMIT_PER_IP: '3',
+    } as unknown as Env;
+
+    await enforceChatRateLimits(chatRequest('203.0.113.1'), env, principal);
+    await enforceChatRateLimits(chatRequest('203.0.113.2'), env, principal);
+    const perUser = await rejection(() => enforceChatRateLimits(chatRequest('203.0.113.3'), env, principal));
+    expect(perUser).toMatchObject({ status: 429, details: { scope: 'user' } });
+    expect(perUser!.retryAfterSeconds).toBeGreaterThan(0);
+
+    // Other keys share the IP address limit
+    const other = (keyId: string) => ({ ...principal, keyId });
+    await enforceChatRateLimits(chatRequest('203.0.113.1'), env, other('key-2'));
+    await enforceChatRateLimits(chatRequest('203.0.113.1'), env, other('key-3'));
+    const perIp = await rejection(() => enforceChatRateLimits(chatRequest('203.0.113.1'), env, other('key-4')));
+    expect(perIp).toMatchObject({ status: 429, details: { scope: 'ip' } });
+
+    // Requests the IP limit rejects do not count against the key
+    await rejection(() => enforceChatRateLimits(chatRequest('203.0.113.1'), env, other('key-4')));
+    await enforceChatRateLimits(chatRequest('203.0.113.4'), env, other('key-4'));
+    await enforceChatRateLimits(chatRequest('203.0.113.4'), env, other('key-4'));
+  });
+
+  it('answers 429 with a Retry-After header', async () => {
+    const response = apiErrorResponse(new RateLimitedError('user', 10, 42));
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('42');
+    expect(await response.json()).toEqual({
+      error: 'Too many chat requests: the limit is 10 per minute per API key',
+      scope: 'user',
+      retryAfterSeconds: 42,
+    });
+  });
+});
@@ -0,0 +1,176 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiRequest, createTestDatabase, type TestDatabase } from './d1';
+import { createAttachment, getAttachment } from '../worker/attachments';
+import { createExpense, listExpenses } from '../worker/expenses';
+import { createProject } from '../worker/projects';
+import {
+  RECEIPT_VISION_MODEL,
+  createExpenseDraft,
+  handleExpenseDraftsRequest,
+  parseReceiptExtraction,
+} from '../worker/receipts';
+import { lowConfidenceFields } from '../lib/receipts';
+
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 16, 0x4a, 0x46, 0x49, 0x46]);
+const PDF = new TextEncoder().encode('%PDF-1.7\n%%EOF');
+const CATEGORIES = ['demolition', 'electrical', 'plumbing', 'finishes'];
+
+const RECEIPT_ANSWER = `Here is the receipt:
+{
+  "vendor": { "value": "Tile Depot", "confidence": 0.95 },
+  "date": { "value": "2026-03-15", "confidence": 0.9 },
+  "lineItems": [
+    { "description": "Porcelain tile 12x24", "amount": 380.00, "confidence": 0.9 },
+    { "description": "Thinset mortar", "amount": "$22.50", "confidence": 0.4 }
+  ],
+  "tax": { "value": 23.00, "confidence": 0.8 },
+  "total": { "value": 425.50, "confidence": 0.9 },
+  "category": { "value": "Finishes", "confidence": 0.7 }
+}`;
+
+let t: TestDatabase;
+let projectId: string;
+let run: ReturnType<typeof vi.fn>;
+let toMarkdown: ReturnType<typeof vi.fn>;
+
+beforeEach(async () => {
+  t = await createTestDatabase();
+  run = vi.fn();
+  toMarkdown = vi.fn();
+  t.env = { ...t.env, AI: { run, toMarkdown } } as unknown as Env;
+  projectId = (await createProject(t.db, { name: 'Bathroom', budgetCents: 1_500_000 })).id;
+});
+
+afterEach(async () => {
+  await t.dispose();
+});
+
+async function uploadReceipt(bytes: Uint8Array<ArrayBuffer>, fileName: string) {
+  return createAttachment(t.env, projectId, { file: new File([bytes], fileName), expenseId: null });
+}
+
+async function call(method: string, path: string, body?: unknown) {
+  const [request, url] = apiRequest(method, path, body);
+  return (await handleExpenseDraftsRequest(request, t.env, url))!;
+}
+
+describe('parseReceiptExtraction', () => {
+  it('reads fields with their confidence and converts dollars to cents', () => {
+    const extraction = parseReceiptExtraction(RECEIPT_ANSWER, CATEGORIES);
+    expect(extraction).toEqual({
+      vendor: { value: 'Tile Depot', confidence: 0.95 },
+      date: { value: '2026-03-15', confidence: 0.9 },
+      lineItems: [
+        { description: 'Porcelain tile 12x24', amountCents: 38_000, confidence: 0.9 },
+        { description: 'Thinset mortar', amountCents: 2_250, confidence: 0.4 },
+      ],
+      taxCents: { value: 2_300, confidence: 0.8 },
+      totalCents: { value: 42_550, confidence: 0.9 },
+      category: { value: 'finishes', confidence: 0.7 },
+    });
+    expect(lowConfidenceFields(extraction)).toEqual([]);
+  });
+
+  it('flags totals that do not add up and drops values that do not fit', () => {
+    const extraction = parseReceiptExtraction(
+      JSON.stringify({
+        vendor: { value: 'Sparky Electric', confidence: 3 },
+        date: { value: '03/15/2026', confidence: 0.9 },
+        lineItems: [{ description: 'Panel upgrade', amount: 1800, confidence: 0.9 }],
+        total: { value: 2000, confidence: 0.95 },
+        category: { value: 'landscaping', confidence: 0.9 },
+      }),
+      CATEGORIES
+    );
+    expect(extraction.vendor.confidence).toBe(1);
+    expect(extraction.date).toEqual({ value: null, confidence: 0 });
+    expect(extraction.totalCents).toEqual({ value: 200_000, confidence: 0.5 });
+    expect(extraction.category).toEqual({ value: null, confidence: 0 });
+    expect(lowConfidenceFields(extraction)).toEqual(['date', 'category', 'tax', 'total']);
+  });
+
+  it('leaves every field empty when the answer is not JSON', () => {
+    const extraction = parseReceiptExtraction('I cannot read this image.', CATEGORIES);
+    expect(extraction.vendor).toEqual({ value: null, confidence: 0 });
+    expect(extraction.lineItems).toEqual([]);
+  });
+});
+
+describe('expense drafts', () => {
+  it('reads a photo with the vision model and suggests the category used for the vendor before', async () => {
+    await createExpense(t.db, projectId, {
+      date: '2026-03-01', vendor: 'tile depot', category: 'cabinets', amountCents: 10_000,
+    });
+    const attachment = await uploadReceipt(JPEG, 'receipt.jpg');
+    run.mockResolvedValueOnce({ response: RECEIPT_ANSWER, usage: { prompt_tokens: 900, completion_tokens: 120 } });
+    const onUsage = vi.fn();
+
+    const draft = await createExpenseDraft(t.env, projectId, undefined, onUsage);
+
+    expect(run).toHaveBeenCalledWith(RECEIPT_VISION_MODEL, expect.objectContaining({ image: Array.from(JPEG) }));
+    expect(onUsage).toHaveBeenCalledWith({ promptTokens: 900, completionTokens: 120, totalTokens: 1020 }, RECEIPT_VISION_MODEL);
+    expect(draft).toMatchObject({ attachmentId: attachment.id, status: 'pending', expenseId: null });
+    expect(draft.extraction.category).toEqual({ value: 'cabinets', confidence: 0.9 });
+  });
+
+  it('converts PDFs to text before extraction', async () => {
+    const attachment = await uploadReceipt(PDF, 'invoice.pdf');
+    toMarkdown.mockResolvedValueOnce({ name: 'invoice.pdf', format: 'markdown', data: 'INVOICE Tile Depot ...' });
+    run.mockResolvedValueOnce({ response: RECEIPT_ANSWER });
+
+    const draft = await createExpenseDraft(t.env, projectId, attachment.id);
+
+    const [, input] = run.mock.calls[0] as [string, { messages: { content: string }[] }];
+    expect(input.messages[1].content).toBe('INVOICE Tile Depot ...');
+    expect(draft.extraction.totalCents.value).toBe(42_550);
+  });
+
+  it('records the edited expense, links the receipt and cannot be confirmed twice', async () => {
+    const attachment = await uploadReceipt(JPEG, 'receipt.jpg');
+    run.mockResolvedValueOnce({ response: RECEIPT_ANSWER });
+    const draft = await createExpenseDraft(t.env, projectId, attachment.id);
+    const path = `/api/projects/${projectId}/expense-drafts/${draft.id}`;
+
+    // A double-clicked confirm records one expense
+    const outcomes = await Promise.allSettled([
+      call('POST', `${path}/confirm`, { amountCents: 40_000, paid: true }),
+      call('POST', `${path}/confirm`, { amountCents: 40_000, paid: true }),
+    ]);
+    const response = (outcomes.find((outcome) => outcome.status === 'fulfilled') as PromiseFulfilledResult<Response>).value;
+    expect((outcomes.find((outcome) => outcome.status === 'rejected') as PromiseRejectedResult).reason).toMatchObject({ status: 409 });
+    expect(response.status).toBe(201);
+    const { expense, draft: confirmed } = (await response.json()) as {
+      expense: Record<string, unknown>;
+      draft: Record<string, unknown>;
+    };
+    expect(expense).toMatchObject({
+      vendor: 'Tile Depot',
+      date: '2026-03-15',
+      category: 'finishes',
+      amountCents: 40_000,
+      paid: true,
+      notes: 'Porcelain tile 12x24, Thinset mortar',
+    });
+    expect(confirmed).toMatchObject({ status: 'confirmed', expenseId: expense.id });
+    expect((await getAttachment(t.db, projectId, attachment.id)).expenseId).toBe(expense.id);
+
+    expect((await listExpenses(t.db, projectId)).expenses).toHaveLength(1);
+
+    await expect(call('POST', `${path}/confirm`, {})).rejects.toMatchObject({ status: 409 });
+    await expect(call('POST', `${path}/discard`)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('reports missing fields when a draft is confirmed without them', async () => {
+    const attachment = await uploadReceipt(JPEG, 'blurry.jpg');
+    run.mockResolvedValueOnce({ response: 'Sorry, too blurry.' });
+    const draft = await createExpenseDraft(t.env, projectId, attachment.id);
+
+    await expect(
+      call('POST', `/api/projects/${projectId}/expense-drafts/${draft.id}/confirm`, { vendor: 'Tile Depot' })
+    ).rejects.toMatchObject({ status: 400, fields: { date: expect.any(String), amountCents: expect.any(String) } });
+
+    const discarded = await call('POST', `/api/projects/${projectId}/expense-drafts/${draft.id}/discard`);
+    expect(((await discarded.json()) as { draft: { status: string } }).draft.status).toBe('discarded');
+  });
+});
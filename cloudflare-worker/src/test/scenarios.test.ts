@@ -0,0 +1,161 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { apiRequest, createTestDatabase, type TestDatabase } from './d1';
+import { getCategory, listCategories } from '../worker/categories';
+import { createExpense, listExpenses, type Expense } from '../worker/expenses';
+import { createProject } from '../worker/projects';
+import {
+  addScenarioItem,
+  compareScenario,
+  createScenario,
+  getScenario,
+  handleScenariosRequest,
+  promoteScenario,
+  setScenarioCategory,
+  type Scenario,
+} from '../worker/scenarios';
+
+const TODAY = '2026-04-01';
+
+let t: TestDatabase;
+let projectId: string;
+let laminate: Expense;
+
+// A 1,000,000 budget: finishes get 220,000 and contingency 150,000
+beforeEach(async () => {
+  t = await createTestDatabase();
+  projectId = (await createProject(t.db, { name: 'Kitchen', budgetCents: 1_000_000 })).id;
+  laminate = await createExpense(t.db, projectId, { date: '2026-03-05', vendor: 'Counter Co', category: 'finishes', amountCents: 40_000 });
+});
+
+afterEach(async () => {
+  await t.dispose();
+});
+
+describe('scenarios', () => {
+  it('models a change as an overlay and compares it with the budget', async () => {
+    const [request, url] = apiRequest('POST', `/api/projects/${projectId}/scenarios`, {
+      name: 'Quartz counters',
+      items: [{ expenseId: laminate.id, amountCents: 95_000 }],
+      categories: [
+        { key: 'finishes', allocatedCents: 275_000 },
+        { key: 'contingency', allocatedCents: 95_000 },
+      ],
+    });
+    const response = (await handleScenariosRequest(request, t.env, url))!;
+    const { scenario } = (await response.json()) as { scenario: Scenario };
+    expect(response.status).toBe(201);
+    expect(scenario).toMatchObject({ status: 'draft', categories: [{ key: 'finishes', allocatedCents: 275_000, removed: false }, { key: 'contingency' }] });
+    expect(scenario.items).toEqual([
+      expect.objectContaining({ expenseId: laminate.id, vendor: 'Counter Co', category: 'finishes', amountCents: 95_000, baselineAmountCents: 40_000 }),
+    ]);
+
+    // The real budget is untouched, and later changes to it show through the scenario
+    expect(await getCategory(t.db, projectId, 'finishes')).toMatchObject({ allocatedCents: 220_000, spentCents: 40_000 });
+    await createExpense(t.db, projectId, { date: '2026-03-06', vendor: 'Pipes R Us', category: 'plumbing', amountCents: 30_000 });
+
+    const diff = await compareScenario(t.db, projectId, scenario.id);
+    expect(diff.baseline).toMatchObject({ spentCents: 70_000, forecastCents: 850_000, varianceCents: 150_000, contingencyLeftCents: 150_000 });
+    expect(diff.scenario).toMatchObject({ spentCents: 125_000, forecastCents: 905_000, varianceCents: 95_000, contingencyLeftCents: 95_000 });
+    expect(diff.delta).toEqual({
+      allocatedCents: 0,
+      spentCents: 55_000,
+      forecastCents: 55_000,
+      unallocatedCents: 0,
+      varianceCents: -55_000,
+      contingencyLeftCents: -55_000,
+    });
+    const byKey = Object.fromEntries(diff.categories.map((c) => [c.key, c]));
+    expect(byKey.finishes).toMatchObject({ change: 'changed', allocatedDeltaCents: 55_000, spentDeltaCents: 55_000, forecastDeltaCents: 55_000 });
+    expect(byKey.plumbing).toMatchObject({ change: 'unchanged', scenario: { spentCents: 30_000 } });
+    expect(diff.conflicts).toEqual([]);
+
+    await expect(createScenario(t.db, projectId, { name: 'quartz COUNTERS' })).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('validates changes against the budget the scenario builds on', async () => {
+    const scenario = await createScenario(t.db, projectId, { name: 'New window' });
+
+    await expect(setScenarioCategory(t.db, projectId, scenario.id, { key: 'windows', allocatedCents: 180_000 })).rejects.toMatchObject({
+      fields: { name: 'name is required for a new category' },
+    });
+    await expect(addScenarioItem(t.db, projectId, scenario.id, { vendor: 'Pella', category: 'windows', amountCents: 180_000 })).rejects.toMatchObject({
+      fields: { category: expect.stringContaining('Unknown category "windows"') },
+    });
+    await expect(addScenarioItem(t.db, projectId, scenario.id, { expenseId: laminate.id, vendor: 'Other' })).rejects.toMatchObject({
+      fields: {
+        vendor: 'vendor cannot change for an existing expense; give amountCents or removed',
+        amountCents: 'amountCents or removed is required for an existing expense',
+      },
+    });
+
+    await setScenarioCategory(t.db, projectId, scenario.id, { name: 'Windows', allocatedCents: 180_000 });
+    const updated = await addScenarioItem(t.db, projectId, scenario.id, { vendor: 'Pella', category: 'windows', amountCents: 180_000 });
+    expect(updated.items).toEqual([expect.objectContaining({ expenseId: null, vendor: 'Pella', date: null, amountCents: 180_000 })]);
+    expect((await compareScenario(t.db, projectId, scenario.id)).categories.at(-1)).toMatchObject({
+      key: 'windows',
+      change: 'added',
+      baseline: null,
+      scenario: { name: 'Windows', allocatedCents: 180_000, spentCents: 180_000, forecastCents: 180_000 },
+    });
+  });
+
+  it('promotes a scenario into the real budget once nothing conflicts', async () => {
+    const scenario = await createScenario(t.db, projectId, {
+      name: 'Skip the finishes',
+      categories: [{ key: 'finishes', removed: true }, { key: 'windows', name: 'Windows', allocatedCents: 180_000 }],
+      items: [{ vendor: 'Pella', category: 'windows', amountCents: 180_000, notes: 'Bay window' }],
+    });
+    expect((await compareScenario(t.db, projectId, scenario.id)).conflicts).toEqual([
+      'Category finishes still has expenses in the scenario, so it cannot be removed',
+    ]);
+    await expect(promoteScenario(t.db, projectId, scenario.id, TODAY)).rejects.toMatchObject({ status: 409 });
+
+    await addScenarioItem(t.db, projectId, scenario.id, { expenseId: laminate.id, removed: true });
+    const { scenario: promoted, diff } = await promoteScenario(t.db, projectId, scenario.id, TODAY);
+    expect(promoted.status).toBe('promoted');
+    expect(diff.delta).toMatchObject({ allocatedCents: -40_000, spentCents: 140_000 });
+
+    const { categories } = await listCategories(t.db, projectId);
+    expect(categories.map((c) => c.key)).not.toContain('finishes');
+    expect(categories.find((c) => c.key === 'windows')).toMatchObject({ allocatedCents: 180_000, spentCents: 180_000 });
+    expect((await listExpenses(t.db, projectId)).expenses).toEqual([
+      expect.objectContaining({ date: TODAY, vendor: 'Pella', category: 'windows', amountCents: 180_000, paid: false, notes: 'Bay window' }),
+    ]);
+
+    await expect(addScenarioItem(t.db, projectId, scenario.id, { vendor: 'X', category: 'windows', amountCents: 1 })).rejects.toMatchObject({
+      status: 409,
+    });
+  });
+
+  it('promotes a scenario once when requests race', async () => {
+    const scenario = await createScenario(t.db, projectId, {
+      name: 'Windows',
+      items: [{ vendor: 'Pella', category: 'finishes', amountCents: 18_000, notes: 'Bay window' }],
+    });
+
+    const results = await Promise.allSettled([
+      promoteScenario(t.db, projectId, scenario.id, TODAY),
+      promoteScenario(t.db, projectId, scenario.id, TODAY),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find((r) => r.status === 'rejected')).toMatchObject({ reason: { status: 409 } });
+    expect((await listExpenses(t.db, projectId)).total).toBe(2);
+  });
+
+  it('leaves the scenario in draft when applying it fails', async () => {
+    const scenario = await createScenario(t.db, projectId, {
+      name: 'Windows',
+      items: [{ vendor: 'Pella', category: 'finishes', amountCents: 18_000 }],
+    });
+    await t.db
+      .prepare("CREATE TRIGGER fail_expense_insert BEFORE INSERT ON expenses BEGIN SELECT RAISE(ABORT, 'disk full'); END")
+      .run();
+
+    await expect(promoteScenario(t.db, projectId, scenario.id, TODAY)).rejects.toThrow(/disk full/);
+
+    expect(await getScenario(t.db, projectId, scenario.id)).toMatchObject({ status: 'draft', promotedAt: null });
+    expect((await listExpenses(t.db, projectId)).total).toBe(1);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { formatSseEvent, parseSseStream } from '../lib/sse';
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function collect(stream: ReadableStream<Uint8Array>) {
+  const events = [];
+  for await (const event of parseSseStream(stream)) events.push(event);
+  return events;
+}
+
+describe('Server-Sent Events', () => {
+  it('formats named events with JSON data', () => {
+    expect(formatSseEvent('delta', { text: 'Hi' })).toBe('event: delta\ndata: {"text":"Hi"}\n\n');
+  });
+
+  it('parses events split across chunks', async () => {
+    const events = await collect(streamOf('event: tool_sta', 'rted\ndata: {"name":"clone_repository"}\n', '\ndata: {"response":"x"}\n\n'));
+    expect(events).toEqual([
+      { event: 'tool_started', data: '{"name":"clone_repository"}' },
+      { event: 'message', data: '{"response":"x"}' },
+    ]);
+  });
+
+  it('handles CRLF line endings, multi-line data and a trailing event without a blank line', async () => {
+    const events = await collect(streamOf('data: one\r\ndata: two\r\n\r\n', 'event: done\ndata: [DONE]'));
+    expect(events).toEqual([
+      { event: 'message', data: 'one\ntwo' },
+      { event: 'done', data: '[DONE]' },
+    ]);
+  });
+
+  it('round-trips formatted events', async () => {
+    const events = await collect(streamOf(formatSseEvent('done', { message: 'a\nb' })));
+    expect(JSON.parse(events[0].data)).toEqual({ message: 'a\nb' });
+  });
+});
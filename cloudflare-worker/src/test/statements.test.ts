@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectStatementFormat,
+  guessCsvMapping,
+  parseAmount,
+  parseCsv,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseStatementDate,
+} from '../worker/statements';
+
+const OFX = `OFXHEADER:100
+DATA:OFXSGML
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260312120000[-8:PST]<TRNAMT>-412.87<FITID>2026031201<NAME>HOME DEPOT #1234<MEMO>SAN JOSE CA
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260314<TRNAMT>1500.00<FITID>2026031402<NAME>PAYROLL
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>2026031<TRNAMT>-10.00<FITID>2026031403<NAME>BROKEN
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+describe('parseCsv', () => {
+  it('handles quoted commas, doubled quotes, newlines and blank lines', () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi"""\n\n"two\nlines",z')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"'],
+      ['two\nlines', 'z'],
+    ]);
+  });
+});
+
+describe('parseAmount and parseStatementDate', () => {
+  it('reads the amount styles banks export', () => {
+    expect(parseAmount('$1,234.56')).toBe(123_456);
+    expect(parseAmount('-12.5')).toBe(-1_250);
+    expect(parseAmount('(40.00)')).toBe(-4_000);
+    expect(parseAmount('40.00-')).toBe(-4_000);
+    expect(parseAmount('n/a')).toBeNull();
+  });
+
+  it('reads dates in the mapped format', () => {
+    expect(parseStatementDate('3/7/26', 'MM/DD/YYYY')).toBe('2026-03-07');
+    expect(parseStatementDate('07/03/2026', 'DD/MM/YYYY')).toBe('2026-03-07');
+    expect(parseStatementDate('2026-03-07T00:00:00', 'YYYY-MM-DD')).toBe('2026-03-07');
+    expect(parseStatementDate('02/30/2026', 'MM/DD/YYYY')).toBeNull();
+  });
+});
+
+describe('parseCsvStatement', () => {
+  it('returns spending only and reports unreadable rows', () => {
+    const text = [
+      'Posted Date,Description,Amount',
+      '03/12/2026,"HOME DEPOT #1234, SAN JOSE",-412.87',
+      '03/14/2026,PAYMENT THANK YOU,500.00',
+      'someday,TILE DEPOT,-20.00',
+    ].join('\n');
+    const mapping = guessCsvMapping(parseCsv(text)[0])!;
+
+    expect(mapping).toMatchObject({ dateColumn: 'Posted Date', descriptionColumn: 'Description', amountColumn: 'Amount' });
+    expect(parseCsvStatement(text, mapping)).toEqual({
+      transactions: [
+        { rowNumber: 1, date: '2026-03-12', description: 'HOME DEPOT #1234, SAN JOSE', amountCents: 41_287, bankId: null },
+      ],
+      skipped: 1,
+      errors: [{ rowNumber: 3, message: 'Unreadable date "someday"' }],
+    });
+  });
+
+  it('reads separate debit and credit columns and reports missing columns', () => {
+    const text = 'Date,Payee,Withdrawal,Deposit\n2026-03-12,Sparky Electric,250.00,\n2026-03-13,Refund,,20.00';
+    const mapping = { ...guessCsvMapping(['Date', 'Payee', 'Withdrawal', 'Deposit'])!, dateFormat: 'YYYY-MM-DD' as const };
+
+    const parsed = parseCsvStatement(text, mapping);
+    expect(parsed.transactions).toEqual([
+      { rowNumber: 1, date: '2026-03-12', description: 'Sparky Electric', amountCents: 25_000, bankId: null },
+    ]);
+    expect(parsed.skipped).toBe(1);
+
+    expect(parseCsvStatement('Date,Memo\n2026-03-12,x', mapping).errors).toEqual([
+      { rowNumber: 0, message: 'Missing column(s): Payee, Withdrawal' },
+    ]);
+  });
+});
+
+describe('parseOfxStatement', () => {
+  it('reads SGML transactions with their bank ids', () => {
+    expect(detectStatementFormat('download.qfx', '')).toBe('ofx');
+    expect(detectStatementFormat('statement.txt', OFX)).toBe('ofx');
+    expect(parseOfxStatement(OFX)).toEqual({
+      transactions: [
+        { rowNumber: 1, date: '2026-03-12', description: 'HOME DEPOT #1234 SAN JOSE CA', amountCents: 41_287, bankId: '2026031201' },
+      ],
+      skipped: 1,
+      errors: [{ rowNumber: 3, message: 'Unreadable date "2026031"' }],
+    });
+  });
+});
@@ -0,0 +1,120 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('@cloudflare/sandbox', () => ({ getSandbox: vi.fn(() => ({})) }));
+
+import { handleChat } from '../worker/agent';
+import type { Principal } from '../worker/auth';
+import { ApiError } from '../worker/http';
+import { getTokensUsedToday, handleUsageRequest, recordUsage } from '../worker/usage';
+import { apiRequest, createTestDatabase, type TestDatabase } from './d1';
+
+const OWNER: Principal = { keyId: 'key-1', name: 'Owner', role: 'viewer' };
+const ADMIN: Principal = { keyId: 'key-admin', name: 'Admin', role: 'admin' };
+
+let t: TestDatabase;
+let run: ReturnType<typeof vi.fn>;
+
+beforeEach(async () => {
+  t = await createTestDatabase();
+  run = vi.fn();
+  t.env = { ...t.env, AI: { run }, Sandbox: {}, CHAT_DAILY_TOKEN_BUDGET: '1000' } as unknown as Env;
+});
+
+afterEach(async () => {
+  await t.dispose();
+});
+
+async function chat(body: Record<string, unknown>, principal = OWNER) {
+  const [request] = apiRequest('POST', '/api/chat', body);
+  return handleChat(request, t.env, principal, {} as ExecutionContext);
+}
+
+async function usage(principal: Principal) {
+  const [request, url] = apiRequest('GET', '/api/usage');
+  return (await (await handleUsageRequest(request, t.env, url, principal))!.json()) as {
+    dailyTokenBudget: number;
+    tokensUsedToday: number;
+    tokensRemainingToday: number;
+    conversations: Record<string, unknown>[];
+  };
+}
+
+describe('token usage', () => {
+  it('records the usage the model reports for each turn', async () => {
+    run
+      .mockResolvedValueOnce({
+        response: '',
+        tool_calls: [{ id: 'c1', name: 'list_projects', arguments: {} }],
+        usage: { prompt_tokens: 300, completion_tokens: 20, total_tokens: 320 },
+      })
+      .mockResolvedValueOnce({
+        response: 'You have no projects yet.',
+        usage: { prompt_tokens: 350, completion_tokens: 30, total_tokens: 380 },
+      });
+
+    const response = await chat({ message: 'Which projects do I have?', conversationId: 'conv-1' });
+    expect(response.status).toBe(200);
+
+    expect(await usage(OWNER)).toEqual({
+      date: expect.any(String),
+      dailyTokenBudget: 1000,
+      tokensUsedToday: 700,
+      tokensRemainingToday: 300,
+      conversations: [
+        {
+          conversationId: 'conv-1',
+          title: 'Which projects do I have?',
+          keyId: 'key-1',
+          turns: 1,
+          modelCalls: 2,
+          promptTokens: 650,
+          completionTokens: 50,
+          totalTokens: 700,
+          lastUsedAt: expect.any(String),
+        },
+      ],
+    });
+  });
+
+  it('refuses new turns once the daily budget is used, with a retry after midnight UTC', async () => {
+    await recordUsage(t.db, {
+      conversationId: 'conv-1',
+      keyId: 'key-1',
+      model: 'test-model',
+      modelCalls: 3,
+      usage: { promptTokens: 900, completionTokens: 150, totalTokens: 1050 },
+    });
+
+    const error = await chat({ message: 'One more question' }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 429, details: { dailyTokenBudget: 1000, tokensUsedToday: 1050 } });
+    expect((error as { retryAfterSeconds: number }).retryAfterSeconds).toBeLessThanOrEqual(24 * 60 * 60);
+    expect(run).not.toHaveBeenCalled();
+
+    // Other keys have their own budget
+    run.mockResolvedValueOnce({ response: 'Hello!' });
+    expect((await chat({ message: 'Hi' }, { ...OWNER, keyId: 'key-2' })).status).toBe(200);
+  });
+
+  it('counts only today towards the budget', async () => {
+    const now = Date.parse('2026-03-02T08:00:00.000Z');
+    await t.db
+      .prepare(
+        `INSERT INTO ai_usage (conversation_id, key_id, model, model_calls, prompt_tokens, completion_tokens, total_tokens, created_at)
+         VALUES ('conv-1', 'key-1', 'm', 1, 400, 100, 500, '2026-03-01T23:59:00.000Z'),
+                ('conv-1', 'key-1', 'm', 1, 100, 20, 120, '2026-03-02T00:01:00.000Z')`
+      )
+      .run();
+    expect(await getTokensUsedToday(t.db, 'key-1', now)).toBe(120);
+  });
+
+  it('shows admins every key\'s conversations', async () => {
+    const turn = { model: 'test-model', modelCalls: 1, usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } };
+    await recordUsage(t.db, { ...turn, conversationId: 'conv-1', keyId: 'key-1' });
+    await recordUsage(t.db, { ...turn, conversationId: 'conv-2', keyId: 'key-2' });
+
+    expect((await usage(OWNER)).conversations.map((c) => c.conversationId)).toEqual(['conv-1']);
+    expect((await usage(ADMIN)).conversations.map((c) => c.conversationId).sort()).toEqual(['conv-1', 'conv-2']);
+  });
+});
@@ -0,0 +1,161 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const destroyed: string[] = [];
+vi.mock('@cloudflare/sandbox', () => ({
+  getSandbox: vi.fn((_ns: unknown, id: string) => ({
+    destroy: vi.fn(async () => {
+      destroyed.push(id);
+    }),
+  })),
+}));
+
+import { ApiError } from '../worker/http';
+import {
+  WorkspaceBusyError,
+  acquireWorkspaceLease,
+  createWorkspace,
+  lockWorkspace,
+  reclaimIdleWorkspaces,
+  unlockWorkspace,
+} from '../worker/workspaces';
+import { createTestDatabase, type TestDatabase } from './d1';
+
+const LIMITS = { maxSandboxes: 2, idleMs: 15 * 60_000 };
+const NOW = Date.parse('2026-03-01T12:00:00.000Z');
+
+let t: TestDatabase;
+
+beforeEach(async () => {
+  t = await createTestDatabase();
+  t.env = { ...t.env, Sandbox: {}, SANDBOX_MAX_INSTANCES: '2' } as unknown as Env;
+  destroyed.length = 0;
+});
+
+afterEach(async () => {
+  await t.dispose();
+});
+
+async function queuePosition(promise: Promise<void>): Promise<number | null> {
+  try {
+    await promise;
+    return null;
+  } catch (error) {
+    if (error instanceof WorkspaceBusyError) return error.queuePosition;
+    throw error;
+  }
+}
+
+async function leases(): Promise<string[]> {
+  const { results } = await t.db
+    .prepare('SELECT conversation_id FROM sandbox_leases ORDER BY conversation_id')
+    .all<{ conversation_id: string }>();
+  return results.map((row) => row.conversation_id);
+}
+
+describe('acquireWorkspaceLease', () => {
+  it('gives each conversation its own sandbox up to the limit, then queues', async () => {
+    await acquireWorkspaceLease(t.db, 'conv-a', LIMITS, NOW);
+    await acquireWorkspaceLease(t.db, 'conv-b', LIMITS, NOW);
+    // Renewing a held lease does not take another slot
+    await acquireWorkspaceLease(t.db, 'conv-a', LIMITS, NOW + 1000);
+
+    expect(await queuePosition(acquireWorkspaceLease(t.db, 'conv-c', LIMITS, NOW + 2000))).toBe(1);
+    expect(await queuePosition(acquireWorkspaceLease(t.db, 'conv-d', LIMITS, NOW + 3000))).toBe(2);
+    // Retrying keeps the original place in the queue
+    expect(await queuePosition(acquireWorkspaceLease(t.db, 'conv-c', LIMITS, NOW + 4000))).toBe(1);
+    expect(await leases()).toEqual(['conv-a', 'conv-b']);
+  });
+
+  it('gives a freed sandbox to the front of the queue', async () => {
+    await acquireWorkspaceLease(t.db, 'conv-a', LIMITS, NOW);
+    await acquireWorkspaceLease(t.db, 'conv-b', LIMITS, NOW);
+    await queuePosition(acquireWorkspaceLease(t.db, 'conv-c', LIMITS, NOW + 1000));
+    await queuePosition(acquireWorkspaceLease(t.db, 'conv-d', LIMITS, NOW + 2000));
+    await t.db.prepare("DELETE FROM sandbox_leases WHERE conversation_id = 'conv-a'").run();
+
+    // conv-d is second in line and may not take the only free sandbox
+    expect(await queuePosition(acquireWorkspaceLease(t.db, 'conv-d', LIMITS, NOW + 3000))).toBe(2);
+    await acquireWorkspaceLease(t.db, 'conv-c', LIMITS, NOW + 4000);
+    expect(await leases()).toEqual(['conv-b', 'conv-c']);
+    expect(await queuePosition(acquireWorkspaceLease(t.db, 'conv-d', LIMITS, NOW + 5000))).toBe(1);
+  });
+
+  it('drops queued conversations that stopped retrying', async () => {
+    await acquireWorkspaceLease(t.db, 'conv-a', LIMITS, NOW);
+    await acquireWorkspaceLease(t.db, 'conv-b', LIMITS, NOW);
+    await queuePosition(acquireWorkspaceLease(t.db, 'conv-c', LIMITS, NOW));
+
+    expect(await queuePosition(acquireWorkspaceLease(t.db, 'conv-d', LIMITS, NOW + 10 * 60_000))).toBe(1);
+  });
+});
+
+describe('workspace lock', () => {
+  it('is held by one caller at a time until released or expired', async () => {
+    await acquireWorkspaceLease(t.db, 'conv-a', LIMITS, NOW);
+
+    const token = await lockWorkspace(t.db, 'conv-a', NOW);
+    expect(token).not.toBeNull();
+    expect(await lockWorkspace(t.db, 'conv-a', NOW + 1000)).toBeNull();
+
+    // Only the holder's token releases it
+    await unlockWorkspace(t.db, 'conv-a', 'someone-else', NOW + 2000);
+    expect(await lockWorkspace(t.db, 'conv-a', NOW + 3000)).toBeNull();
+    await unlockWorkspace(t.db, 'conv-a', token!, NOW + 4000);
+    const second = await lockWorkspace(t.db, 'conv-a', NOW + 5000);
+    expect(second).not.toBeNull();
+
+    // A lock left behind by a crashed request expires
+    expect(await lockWorkspace(t.db, 'conv-a', NOW + 5000 + 6 * 60_000)).not.toBeNull();
+  });
+
+  it('runs the operation and releases the lock', async () => {
+    const workspace = createWorkspace(t.env, 'conv-a');
+    await workspace.acquire();
+
+    const result = await workspace.withLock(async () => {
+      expect(await lockWorkspace(t.db, 'conv-a')).toBeNull();
+      return 'committed';
+    });
+
+    expect(result).toBe('committed');
+    expect(await lockWorkspace(t.db, 'conv-a')).not.toBeNull();
+  });
+});
+
+describe('reclaimIdleWorkspaces', () => {
+  it('destroys idle sandboxes and frees their leases, leaving locked ones alone', async () => {
+    await acquireWorkspaceLease(t.db, 'conv-idle', LIMITS, NOW);
+    await acquireWorkspaceLease(t.db, 'conv-busy', LIMITS, NOW);
+    await lockWorkspace(t.db, 'conv-busy', NOW);
+
+    expect(await reclaimIdleWorkspaces(t.env, t.db, LIMITS, NOW + 60_000)).toEqual([]);
+    // With an idle limit shorter than the lock, a long-running operation keeps its sandbox
+    const shortIdle = { ...LIMITS, idleMs: 60_000 };
+    expect(await reclaimIdleWorkspaces(t.env, t.db, shortIdle, NOW + 2 * 60_000)).toEqual([
+      'conversation-conv-idle',
+    ]);
+    expect(destroyed).toEqual(['conversation-conv-idle']);
+    expect(await leases()).toEqual(['conv-busy']);
+  });
+
+  it('makes room for a waiting conversation by reclaiming an idle sandbox', async () => {
+    const old = Date.now() - 60 * 60_000;
+    await acquireWorkspaceLease(t.db, 'conv-a', LIMITS, old);
+    await acquireWorkspaceLease(t.db, 'conv-b', LIMITS, Date.now());
+
+    await createWorkspace(t.env, 'conv-c').acquire();
+
+    expect(destroyed).toEqual(['conversation-conv-a']);
+    expect(await leases()).toEqual(['conv-b', 'conv-c']);
+  });
+
+  it('reports a busy workspace as a 503 with a retry hint', async () => {
+    await acquireWorkspaceLease(t.db, 'conv-a', LIMITS, Date.now());
+    await acquireWorkspaceLease(t.db, 'conv-b', LIMITS, Date.now());
+
+    const error = await createWorkspace(t.env, 'conv-c').acquire().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 503, queuePosition: 1, retryAfterSeconds: 30 });
+  });
+});
@@ -3,7 +3,6 @@
  * Manages the conversation and tool execution for the Home Remodel Budget Agent
  */
 
-import { getSandbox } from '@cloudflare/sandbox';
 import type { Sandbox } from '@cloudflare/sandbox';
 import {
   cloneRepository,
@@ -13,25 +12,100 @@ import {
   commitChanges,
   pushChanges,
   getGitStatus,
-  agentTools,
+  showDiff,
+  gitToolsForMode,
+  openPullRequest,
+  validateFileName,
+  PUSH_MODES,
+  DIFF_RANGES,
+  type DiffRange,
   type GitToolsConfig,
+  type PushMode,
 } from './tools';
+import { DEFAULT_GITHUB_API_URL } from './github';
+import {
+  addExpense,
+  budgetAgentTools,
+  compareScenarioForAgent,
+  createScenarioForAgent,
+  extractReceipt,
+  formatValidationError,
+  getBudgetForecast,
+  getProjectSummary,
+  listProjectsForAgent,
+  searchExpenses,
+  updateCategoryAllocation,
+} from './budget-tools';
+import {
+  createApproval,
+  decideApproval,
+  recordApprovalResult,
+  requiresApproval,
+  summarizeApproval,
+  type ApprovalSummary,
+} from './approvals';
+import { formatSourceIssues, validateAppsScriptSources } from './appsscript-validation';
+import { hasRole, type Principal, type Role } from './auth';
+import {
+  appendMessage,
+  getConversation,
+  getConversationTokenBudget,
+  loadConversationContext,
+  openConversation,
+} from './conversations';
+import { getDatabase, nowIso } from './db';
+import { ValidationError, jsonResponse, readJsonBody } from './http';
+import { resolveLlmProvider, type LlmProvider } from './llm';
+import { getProject } from './projects';
+import {
+  assertWithinDailyTokenBudget,
+  createUsageMeter,
+  type TokenUsage,
+  type UsageMeter,
+} from './usage';
+import {
+  WorkspaceBusyError,
+  createWorkspace,
+  getSandboxById,
+  sandboxIdFor,
+  type Workspace,
+} from './workspaces';
+import type { DiffFile } from '../lib/diff';
+import type { ExpenseDraft } from '../lib/receipts';
+import { formatSseEvent } from '../lib/sse';
 
 // Use the generated Env type from worker-configuration.d.ts
 // The global Env interface is defined in worker-configuration.d.ts
 
-// AI Model configuration - extracted to constants for maintainability
-const AI_MODEL = '@cf/meta/llama-3.3-70b-instruct-fp8-fast' as const;
+// Model call configuration; the provider and model come from llm.ts
 const DEFAULT_MAX_TOKENS = 2048;
-
-interface ChatMessage {
+const DEFAULT_MAX_STEPS = 8;
+const DEFAULT_TURN_BUDGET_MS = 120_000;
+// Length of the tool result excerpt sent with tool_finished events
+const TOOL_SUMMARY_LENGTH = 200;
+// Client-supplied conversation ids (approval tokens are bound to them)
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_MESSAGE_LENGTH = 8000;
+// Tools that run in the conversation's sandbox
+const SANDBOX_TOOLS = new Set([
+  'clone_repository', 'read_file', 'write_file', 'list_files', 'commit_changes',
+  'push_changes', 'open_pull_request', 'get_status', 'show_diff',
+]);
+// Tools that change the workspace's git state; they run one at a time per workspace
+const LOCKED_TOOLS = new Set([
+  'clone_repository', 'write_file', 'commit_changes', 'push_changes', 'open_pull_request',
+]);
+// Budget tools that change data; the remaining budget tools only read
+const EDITOR_TOOLS = new Set(['add_expense', 'extract_receipt', 'update_category_allocation', 'create_scenario']);
+
+export interface ChatMessage {
   role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
   tool_call_id?: string;
   tool_calls?: ToolCall[];
 }
 
-interface ToolCall {
+export interface ToolCall {
   id: string;
   function: {
     name: string;
@@ -39,6 +113,21 @@ interface ToolCall {
   };
 }
 
+export interface ToolContext {
+  env: Env;
+  sandbox: DurableObjectStub<Sandbox>;
+  /** Lease and lock on the conversation's sandbox */
+  workspace: Workspace;
+  gitConfig: GitToolsConfig;
+  conversationId: string;
+  /** Role of the signed-in caller; tools above it are neither offered nor run */
+  role: Role;
+  /** Set only when running a tool call the user has explicitly approved */
+  preApproved?: boolean;
+  /** The project the user is chatting from (a project dashboard), if any */
+  project?: { id: string; name: string };
+}
+
 const SYSTEM_PROMPT = `You are a helpful assistant for the Home Remodel Budget application. You help users manage their home renovation budget by:
 
 1. Answering questions about budget tracking and expense management
@@ -46,19 +135,45 @@ const SYSTEM_PROMPT = `You are a helpful assistant for the Home Remodel Budget a
 3. Managing expense categories and features in the codebase
 
 You have access to tools that allow you to:
+- List projects, summarize a project's budget by category, and search its expenses
+- Forecast whether a project will finish on budget (forecast_budget)
+- Model what-if changes in scenarios that leave the real budget alone, and compare them with it
+  (create_scenario, compare_scenario)
+- Record expenses and change category allocations
+- Read an uploaded receipt or invoice into a draft expense (extract_receipt)
 - Clone the repository
 - Read and modify Apps Script files (Code.js and index.html)
-- Commit and push changes to trigger automatic deployment
+- Commit changes, then publish them: push_changes deploys straight to production, while
+  open_pull_request pushes a branch and opens a pull request for review (only one is available)
 
 When users ask you to make changes to the Apps Script project:
 1. First clone the repository
 2. Read the current file contents
 3. Make the requested modifications
-4. Show the user what changes you made
-5. Ask for confirmation before committing and pushing
+4. Call show_diff so the user can review exactly what changed (use range "unpushed" before a push)
+5. commit_changes first validates the sources; if it reports issues, fix them with write_file and try again
+6. Writing files, committing and pushing require the user's approval. When a tool result says
+   "Approval required", stop and tell the user what is waiting for them to approve in the chat.
+   Do not call the tool again; it runs as soon as they approve it.
+7. If a tool reports that all sandboxes are in use, stop using repository tools for this turn and
+   tell the user their request is queued and to send it again shortly.
+
+Budget amounts in tool arguments and results are integer cents (12550 means $125.50). Always present them to the user in dollars.
+When a question is about budget numbers, answer from the budget tools rather than guessing.
+For questions about going over budget, use forecast_budget and explain both methods' estimates, the variance and the projected overrun date, and any warnings about missing data.
+Scenarios never change the real budget; after create_scenario, summarize the difference from the budget, including contingency left, and mention any conflicts. The user promotes a scenario when they decide to go ahead.
+After extract_receipt, summarize the draft and point out the fields that need review; the user saves or edits it from the card shown in the chat.
 
 Be helpful, clear, and always explain what you're doing. If you make code changes, explain what the changes do.`;
 
+/**
+ * Tells the model which project "this project" and "the budget" refer to
+ */
+function projectContext(project: { id: string; name: string }): string {
+  return `The user is viewing the dashboard of the project ${JSON.stringify(project.name)} (projectId ${project.id}). ` +
+    'Use this projectId with the budget tools unless the user names a different project.';
+}
+
 /**
  * Validates that a message object has the required structure
  */
@@ -73,48 +188,139 @@ function isValidMessage(msg: unknown): msg is ChatMessage {
 }
 
 /**
- * Validates the request body structure
+ * Whether the client asked for a Server-Sent Events response
+ * (`"stream": true` in the body or `Accept: text/event-stream`)
  */
-function validateRequestBody(body: unknown): ChatMessage[] {
-  if (typeof body !== 'object' || body === null) {
-    throw new Error('Invalid request body');
+function wantsEventStream(request: Request, body: unknown): boolean {
+  const accept = request.headers.get('Accept') || '';
+  if (accept.includes('text/event-stream')) return true;
+  return typeof body === 'object' && body !== null && (body as Record<string, unknown>).stream === true;
+}
+
+/**
+ * Creates the conversation's sandbox and the git config the tools run against
+ * Each conversation has its own sandbox, so concurrent chats never share a working tree.
+ */
+function createToolContext(env: Env, conversationId: string, role: Role): ToolContext {
+  const sandbox = getSandboxById(env, sandboxIdFor(conversationId));
+
+  // Prepare config for git tools
+  const gitConfig: GitToolsConfig = {
+    repoUrl: env.REPO_URL || 'https://github.com/jmbish04/home_remodel_budget',
+    githubToken: env.GITHUB_TOKEN || '',
+    appsScriptId: env.APPS_SCRIPT_ID || '',
+    githubApiUrl: env.GITHUB_API_URL || DEFAULT_GITHUB_API_URL,
+    pushMode: getPushMode(env),
+  };
+
+  return { env, sandbox, workspace: createWorkspace(env, conversationId), gitConfig, conversationId, role };
+}
+
+/**
+ * Uses the client's conversation id when it is well formed, otherwise starts a new conversation
+ */
+function readConversationId(body: unknown): string {
+  const value = typeof body === 'object' && body !== null
+    ? (body as Record<string, unknown>).conversationId
+    : undefined;
+  return typeof value === 'string' && CONVERSATION_ID_PATTERN.test(value)
+    ? value
+    : crypto.randomUUID();
+}
+
+/**
+ * Reads the new user message from the request body
+ * Clients send `message`; older clients that still send the whole `messages`
+ * history have their last user message used, since the stored history is authoritative.
+ */
+function readChatMessage(body: Record<string, unknown>): string {
+  let message: unknown = body.message;
+  if (message === undefined && Array.isArray(body.messages)) {
+    const last = body.messages[body.messages.length - 1];
+    message = isValidMessage(last) && last.role === 'user' ? last.content : undefined;
+  }
+  if (typeof message !== 'string' || message.trim() === '') {
+    throw new ValidationError({ message: 'message is required' });
   }
-  const b = body as Record<string, unknown>;
-  if (!Array.isArray(b.messages)) {
-    return [];
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    throw new ValidationError({ message: `message must be at most ${MAX_MESSAGE_LENGTH} characters` });
+  }
+  return message.trim();
+}
+
+/**
+ * Reads the optional `projectId` a project dashboard sends with each message
+ */
+async function readChatProject(db: D1Database, body: Record<string, unknown>): Promise<ToolContext['project']> {
+  if (body.projectId === undefined || body.projectId === null) return undefined;
+  if (typeof body.projectId !== 'string') {
+    throw new ValidationError({ projectId: 'projectId must be a string' });
   }
-  // Filter and validate each message
-  return b.messages.filter(isValidMessage);
+  const project = await getProject(db, body.projectId);
+  return { id: project.id, name: project.name };
 }
 
 export async function handleChat(
   request: Request,
-  env: Env
+  env: Env,
+  principal: Principal,
+  ctx: ExecutionContext
 ): Promise<Response> {
-  try {
-    const body = await request.json();
-    
-    // Validate the request body structure
-    const messages = validateRequestBody(body);
-
-    // Create sandbox instance
-    const sandbox = getSandbox(env.Sandbox, 'budget-agent');
-
-    // Prepare config for git tools
-    const gitConfig: GitToolsConfig = {
-      repoUrl: env.REPO_URL || 'https://github.com/jmbish04/home_remodel_budget',
-      githubToken: env.GITHUB_TOKEN || '',
-      appsScriptId: env.APPS_SCRIPT_ID || '',
-    };
+  const body = await readJsonBody(request);
+  const message = readChatMessage(body);
+  const options: AgentLoopOptions = { ...getAgentLoopOptions(env), provider: resolveLlmProvider(env, body.provider) };
+  const db = getDatabase(env);
+  await assertWithinDailyTokenBudget(db, env, principal.keyId);
+  const project = await readChatProject(db, body);
+
+  // Store the new message and load the history the model will see
+  const conversationId = readConversationId(body);
+  await openConversation(db, principal.keyId, conversationId, message);
+  await appendMessage(db, conversationId, 'user', message);
+  const messages = await loadConversationContext(db, conversationId, getConversationTokenBudget(env));
+  const saveAnswer = (answer: string) => appendMessage(db, conversationId, 'assistant', answer);
+
+  const usage = createUsageMeter(db, { conversationId, keyId: principal.keyId });
+
+  const context: ToolContext = { ...createToolContext(env, conversationId, principal.role), project };
+  return wantsEventStream(request, body)
+    ? streamChatResponse(context, messages, options, saveAnswer, usage, ctx)
+    : runChatTurn(context, messages, options, saveAnswer, usage);
+}
 
+/**
+ * Runs one turn and answers with a single JSON body
+ */
+async function runChatTurn(
+  context: ToolContext,
+  messages: ChatMessage[],
+  options: AgentLoopOptions,
+  saveAnswer: (answer: string) => Promise<void>,
+  usage: UsageMeter
+): Promise<Response> {
+  try {
     // Use Workers AI for chat completion with tools
-    const response = await runAgentConversation(env, sandbox, messages, gitConfig);
-
-    return new Response(JSON.stringify({ message: response }), {
-      headers: {
-        'Content-Type': 'application/json',
-      },
+    const approvals: ApprovalSummary[] = [];
+    const diffs: { id: string; files: DiffFile[] }[] = [];
+    const drafts: ExpenseDraft[] = [];
+    let busy: WorkspaceBusy | null = null;
+    const response = await runAgentConversation(context, messages, options, {
+      onApprovalRequired: (approval) => approvals.push(approval),
+      onDiff: (diff) => diffs.push(diff),
+      onExpenseDraft: (draft) => drafts.push(draft),
+      onWorkspaceBusy: (status) => { busy = status; },
+      onModelUsage: (call, model) => usage.add(call, model),
     });
+    await saveAnswer(response);
+
+    return new Response(
+      JSON.stringify({ message: response, conversationId: context.conversationId, approvals, diffs, drafts, busy }),
+      {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
   } catch (error) {
     console.error('Chat handler error:', error);
     return new Response(
@@ -129,70 +335,271 @@ export async function handleChat(
         },
       }
     );
+  } finally {
+    await usage.save();
   }
 }
 
-async function runAgentConversation(
-  env: Env,
-  sandbox: Sandbox,
+/**
+ * Runs the conversation and streams its progress as Server-Sent Events:
+ * - delta:         { text }                       model output as it is generated
+ * - tool_started:  { id, name }
+ * - tool_finished: { id, name, ok, summary }      summary is a short excerpt of the result
+ * - approval_required: { id, toolName, description, status, expiresAt }
+ * - diff:          { id, files }                  structured output of show_diff
+ * - expense_draft: ExpenseDraft                   a receipt read by extract_receipt, awaiting confirmation
+ * - busy:          { queuePosition, retryAfterSeconds, message }  every sandbox is in use
+ * - done:          { message, conversationId }    the final answer
+ * - error:         { message, error }
+ */
+function streamChatResponse(
+  context: ToolContext,
   messages: ChatMessage[],
-  gitConfig: GitToolsConfig
+  options: AgentLoopOptions,
+  saveAnswer: (answer: string) => Promise<void>,
+  usage: UsageMeter,
+  ctx: ExecutionContext
+): Response {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  // Writes are queued in order; a client that disconnects must not fail the turn
+  const send = (event: string, data: unknown) => {
+    writer.write(encoder.encode(formatSseEvent(event, data))).catch(() => {});
+  };
+
+  const run = async () => {
+    try {
+      const message = await runAgentConversation(context, messages, options, {
+        onDelta: (text) => send('delta', { text }),
+        onToolStarted: (tool) => send('tool_started', tool),
+        onToolFinished: (tool) => send('tool_finished', tool),
+        onApprovalRequired: (approval) => send('approval_required', approval),
+        onDiff: (diff) => send('diff', diff),
+        onExpenseDraft: (draft) => send('expense_draft', draft),
+        onWorkspaceBusy: (status) => send('busy', status),
+        onModelUsage: (call, model) => usage.add(call, model),
+      });
+      await saveAnswer(message);
+      send('done', { message, conversationId: context.conversationId });
+    } catch (error) {
+      console.error('Chat stream error:', error);
+      send('error', {
+        message: 'I apologize, but I encountered an error processing your request. Please try again.',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      await usage.save();
+      await writer.close().catch(() => {});
+    }
+  };
+  // The turn outlives the returned response, so the runtime must wait for it
+  ctx.waitUntil(run());
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+/**
+ * Callbacks for observing a turn while it runs
+ */
+export interface AgentEvents {
+  /** Model output text as it arrives; when set, model calls are streamed */
+  onDelta?: (text: string) => void;
+  onToolStarted?: (tool: { id: string; name: string }) => void;
+  onToolFinished?: (tool: { id: string; name: string; ok: boolean; summary: string }) => void;
+  /** A destructive tool call is waiting for the user's approval */
+  onApprovalRequired?: (approval: ApprovalSummary) => void;
+  /** show_diff produced a diff for the UI to render */
+  onDiff?: (diff: { id: string; files: DiffFile[] }) => void;
+  /** extract_receipt proposed an expense for the user to confirm or edit */
+  onExpenseDraft?: (draft: ExpenseDraft) => void;
+  /** A sandbox tool could not run because every sandbox is in use */
+  onWorkspaceBusy?: (status: WorkspaceBusy) => void;
+  /** Tokens used by one model call (zero when the model does not report usage) */
+  onModelUsage?: (usage: TokenUsage, model: string) => void;
+}
+
+/**
+ * Queue status reported when every sandbox is in use
+ */
+export interface WorkspaceBusy {
+  queuePosition: number;
+  retryAfterSeconds: number;
+  message: string;
+}
+
+/**
+ * Limits for one chat turn of the agent loop
+ */
+export interface AgentLoopOptions {
+  /** Maximum number of model calls in a turn */
+  maxSteps: number;
+  /** Wall-clock budget for the whole turn, in milliseconds */
+  turnBudgetMs: number;
+  /** Model to call; defaults to LLM_PROVIDER, with LLM_FALLBACK_PROVIDER when set */
+  provider?: LlmProvider;
+  /** Clock, injectable for tests */
+  now?: () => number;
+}
+
+/**
+ * Reads loop limits from AGENT_MAX_STEPS / AGENT_TURN_BUDGET_MS, falling back to the defaults
+ */
+export function getAgentLoopOptions(env: Env): AgentLoopOptions {
+  const maxSteps = Number.parseInt(env.AGENT_MAX_STEPS ?? '', 10);
+  const turnBudgetMs = Number.parseInt(env.AGENT_TURN_BUDGET_MS ?? '', 10);
+  return {
+    maxSteps: maxSteps > 0 ? maxSteps : DEFAULT_MAX_STEPS,
+    turnBudgetMs: turnBudgetMs > 0 ? turnBudgetMs : DEFAULT_TURN_BUDGET_MS,
+  };
+}
+
+/**
+ * Reads GIT_PUSH_MODE; anything other than "pull_request" pushes directly to main
+ */
+export function getPushMode(env: Env): PushMode {
+  const mode = env.GIT_PUSH_MODE as string | undefined;
+  return (PUSH_MODES as readonly (string | undefined)[]).includes(mode) ? (mode as PushMode) : 'direct';
+}
+
+/**
+ * Runs the agent loop: the model is called with tools enabled, every tool call
+ * it requests is executed and fed back, and this repeats until the model answers
+ * without tool calls or a step/time limit is reached.
+ */
+export async function runAgentConversation(
+  context: ToolContext,
+  messages: ChatMessage[],
+  options: AgentLoopOptions = getAgentLoopOptions(context.env),
+  events: AgentEvents = {}
 ): Promise<string> {
+  const now = options.now ?? Date.now;
+  const provider = options.provider ?? resolveLlmProvider(context.env);
+  const startedAt = now();
+  const toolsRun: string[] = [];
+  const tools = [...gitToolsForMode(context.gitConfig.pushMode), ...budgetAgentTools]
+    .filter((tool) => hasRole(context.role, toolRole(tool.function.name)));
+
   // Prepare messages with system prompt
-  const fullMessages: ChatMessage[] = [
-    { role: 'system', content: SYSTEM_PROMPT },
+  const conversation: ChatMessage[] = [
+    { role: 'system', content: context.project ? `${SYSTEM_PROMPT}\n\n${projectContext(context.project)}` : SYSTEM_PROMPT },
     ...messages,
   ];
 
-  // Call the AI with tools using env.AI.run()
-  const aiResult = await env.AI.run(AI_MODEL, {
-    messages: fullMessages,
-    tools: agentTools,
-    max_tokens: DEFAULT_MAX_TOKENS,
-  }) as {
-    response?: string;
-    tool_calls?: ToolCall[];
-  };
+  for (let step = 0; step < options.maxSteps; step++) {
+    if (now() - startedAt >= options.turnBudgetMs) {
+      return limitReachedMessage(`the ${Math.round(options.turnBudgetMs / 1000)}s time limit for one turn`, toolsRun);
+    }
+
+    const aiResult = await provider.complete({
+      messages: conversation,
+      tools,
+      maxTokens: DEFAULT_MAX_TOKENS,
+      onDelta: events.onDelta,
+    });
+    events.onModelUsage?.(aiResult.usage ?? { promptTokens: 0, completionTokens: 0, totalTokens: 0 }, aiResult.model);
+
+    // No tool calls means the model has produced its final answer
+    if (!aiResult.tool_calls || aiResult.tool_calls.length === 0) {
+      return aiResult.response || 'I apologize, but I could not generate a response.';
+    }
 
-  // Check if there are tool calls to execute
-  if (aiResult.tool_calls && aiResult.tool_calls.length > 0) {
-    const toolResultMessages: ChatMessage[] = [];
-    
-    for (const toolCall of aiResult.tool_calls) {
-      const result = await executeToolCall(sandbox, toolCall, gitConfig);
+    const toolCalls = aiResult.tool_calls.map((toolCall, index) => ({
+      ...toolCall,
+      id: toolCall.id || `call_${step}_${index}`,
+    }));
+    conversation.push({ role: 'assistant', content: aiResult.response || '', tool_calls: toolCalls });
+
+    // Tool calls from one step run in order: git operations on the shared
+    // workspace (write, then commit, then push) depend on each other
+    for (const toolCall of toolCalls) {
+      const name = toolCall.function.name;
+      events.onToolStarted?.({ id: toolCall.id, name });
+      const result = await executeToolCall(context, toolCall, events);
+      events.onToolFinished?.({
+        id: toolCall.id,
+        name,
+        ok: !isToolError(result),
+        summary: summarizeToolResult(result),
+      });
+      toolsRun.push(name);
       // Add tool result as a tool message (proper format for tool results)
-      toolResultMessages.push({
+      conversation.push({
         role: 'tool',
         content: result,
         tool_call_id: toolCall.id,
       });
     }
+  }
+
+  return limitReachedMessage(`the limit of ${options.maxSteps} steps for one turn`, toolsRun);
+}
+
+/**
+ * Minimum role for an agent tool: repository tools need admin, budget changes need editor
+ */
+export function toolRole(name: string): Role {
+  if (SANDBOX_TOOLS.has(name)) return 'admin';
+  return EDITOR_TOOLS.has(name) ? 'editor' : 'viewer';
+}
 
-    // Build follow-up messages with tool results
-    const followUpMessages: ChatMessage[] = [
-      ...fullMessages,
-      { role: 'assistant', content: '', tool_calls: aiResult.tool_calls },
-      ...toolResultMessages,
-    ];
+function isToolError(result: string): boolean {
+  return result.startsWith('Error') || result.startsWith('Unknown tool');
+}
 
-    const followUpResult = await env.AI.run(AI_MODEL, {
-      messages: followUpMessages,
-      max_tokens: DEFAULT_MAX_TOKENS,
-    }) as {
-      response?: string;
-    };
+function summarizeToolResult(result: string): string {
+  const compact = result.replace(/\s+/g, ' ').trim();
+  return compact.length > TOOL_SUMMARY_LENGTH
+    ? `${compact.slice(0, TOOL_SUMMARY_LENGTH - 1)}…`
+    : compact;
+}
 
-    return followUpResult.response || 'I executed the requested operations.';
-  }
+function limitReachedMessage(limit: string, toolsRun: string[]): string {
+  const completed = toolsRun.length > 0
+    ? ` Tools completed so far: ${toolsRun.join(', ')}.`
+    : '';
+  return `I stopped before finishing because I reached ${limit}.${completed} Send "continue" and I will pick up where I left off.`;
+}
 
-  return aiResult.response || 'I apologize, but I could not generate a response.';
+/**
+ * Stores a pending approval for a gated tool call instead of running it,
+ * unless the user has already approved this call
+ */
+async function withApproval(
+  context: ToolContext,
+  toolCall: ToolCall,
+  args: Record<string, unknown>,
+  events: AgentEvents,
+  run: () => Promise<string>
+): Promise<string> {
+  if (context.preApproved || !requiresApproval(toolCall.function.name)) {
+    return run();
+  }
+  const approval = await createApproval(
+    getDatabase(context.env),
+    context.conversationId,
+    toolCall.function.name,
+    args
+  );
+  events.onApprovalRequired?.(summarizeApproval(approval));
+  return `Approval required: ${approval.description}. This has NOT been done yet. ` +
+    `The user must approve it in the chat (approval id ${approval.id}, expires ${approval.expiresAt}). ` +
+    'Do not call this tool again; tell the user it is waiting for their approval.';
 }
 
 async function executeToolCall(
-  sandbox: Sandbox,
+  context: ToolContext,
   toolCall: ToolCall,
-  config: GitToolsConfig
+  events: AgentEvents = {}
 ): Promise<string> {
+  const name = toolCall.function.name;
+
   // Safely parse tool arguments with error handling
   let args: Record<string, unknown>;
   try {
@@ -201,46 +608,270 @@ async function executeToolCall(
       args = {};
     }
   } catch {
-    return `Error: Invalid arguments for tool ${toolCall.function.name}`;
+    return `Error: Invalid arguments for tool ${name}`;
+  }
+
+  const required = toolRole(name);
+  if (!hasRole(context.role, required)) {
+    return `Error: ${name} requires the ${required} role; the user is signed in as ${context.role}`;
   }
 
   try {
-    switch (toolCall.function.name) {
-      case 'clone_repository':
-        return await cloneRepository(sandbox, config);
+    if (SANDBOX_TOOLS.has(name)) {
+      await context.workspace.acquire();
+    }
+    if (LOCKED_TOOLS.has(name)) {
+      return await context.workspace.withLock(() => runTool(context, toolCall, args, events));
+    }
+    return await runTool(context, toolCall, args, events);
+  } catch (error) {
+    if (error instanceof WorkspaceBusyError) {
+      events.onWorkspaceBusy?.({
+        queuePosition: error.queuePosition,
+        retryAfterSeconds: error.retryAfterSeconds,
+        message: error.message,
+      });
+      return `Error: ${error.message} Nothing was run. Tell the user their request is queued ` +
+        `and to send it again in about ${error.retryAfterSeconds} seconds.`;
+    }
+    if (error instanceof ValidationError) {
+      return `Error executing ${name}: ${formatValidationError(error)}`;
+    }
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return `Error executing ${name}: ${errorMessage}`;
+  }
+}
 
-      case 'read_file':
-        if (typeof args.fileName !== 'string') {
-          return 'Error: fileName must be a string';
-        }
-        return await readAppsScriptFile(sandbox, args.fileName);
+/**
+ * Runs one tool call with parsed arguments; errors are turned into results by executeToolCall
+ */
+async function runTool(
+  context: ToolContext,
+  toolCall: ToolCall,
+  args: Record<string, unknown>,
+  events: AgentEvents
+): Promise<string> {
+  const { sandbox, gitConfig: config } = context;
 
-      case 'write_file':
-        if (typeof args.fileName !== 'string' || typeof args.content !== 'string') {
-          return 'Error: fileName and content must be strings';
-        }
-        return await writeAppsScriptFile(sandbox, args.fileName, args.content);
+  switch (toolCall.function.name) {
+    case 'clone_repository':
+      return await cloneRepository(sandbox, config);
 
-      case 'list_files':
-        return await listAppsScriptFiles(sandbox);
+    case 'read_file':
+      if (typeof args.fileName !== 'string') {
+        return 'Error: fileName must be a string';
+      }
+      return await readAppsScriptFile(sandbox, args.fileName);
 
-      case 'commit_changes':
-        if (typeof args.message !== 'string') {
-          return 'Error: message must be a string';
-        }
-        return await commitChanges(sandbox, args.message);
+    case 'write_file':
+      if (typeof args.fileName !== 'string' || typeof args.content !== 'string') {
+        return 'Error: fileName and content must be strings';
+      }
+      if (!validateFileName(args.fileName)) {
+        return `Error: Invalid file name: ${args.fileName}`;
+      }
+      return await withApproval(context, toolCall, args, events, () =>
+        writeAppsScriptFile(sandbox, args.fileName as string, args.content as string)
+      );
+
+    case 'list_files':
+      return await listAppsScriptFiles(sandbox);
+
+    case 'commit_changes': {
+      if (typeof args.message !== 'string') {
+        return 'Error: message must be a string';
+      }
+      // Only valid sources may be committed. This runs before asking for approval
+      // and again when the approved call is executed.
+      const issues = await validateAppsScriptSources(sandbox);
+      if (issues.length > 0) {
+        return formatSourceIssues(issues);
+      }
+      return await withApproval(context, toolCall, args, events, () =>
+        commitChanges(sandbox, args.message as string)
+      );
+    }
+
+    case 'push_changes':
+      if (config.pushMode !== 'direct') {
+        return 'Error: Direct pushes to main are disabled; use open_pull_request';
+      }
+      return await withApproval(context, toolCall, args, events, () =>
+        pushChanges(sandbox, config)
+      );
 
-      case 'push_changes':
-        return await pushChanges(sandbox, config);
+    case 'open_pull_request':
+      if (config.pushMode !== 'pull_request') {
+        return 'Error: Pull requests are disabled; use push_changes';
+      }
+      return await withApproval(context, toolCall, args, events, () =>
+        openPullRequest(sandbox, config, context.conversationId)
+      );
 
-      case 'get_status':
-        return await getGitStatus(sandbox);
+    case 'get_status':
+      return await getGitStatus(sandbox);
 
-      default:
-        return `Unknown tool: ${toolCall.function.name}`;
+    case 'show_diff': {
+      const range = args.range ?? 'uncommitted';
+      if (!(DIFF_RANGES as readonly unknown[]).includes(range)) {
+        return `Error: range must be one of: ${DIFF_RANGES.join(', ')}`;
+      }
+      const files = await showDiff(sandbox, range as DiffRange);
+      events.onDiff?.({ id: toolCall.id, files });
+      return files.length > 0 ? JSON.stringify({ files }) : 'No changes';
     }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return `Error executing ${toolCall.function.name}: ${errorMessage}`;
+
+    case 'list_projects':
+      return await listProjectsForAgent(getDatabase(context.env));
+
+    case 'get_project_summary':
+      if (typeof args.projectId !== 'string') {
+        return 'Error: projectId must be a string';
+      }
+      return await getProjectSummary(getDatabase(context.env), args.projectId);
+
+    case 'forecast_budget':
+      if (typeof args.projectId !== 'string') {
+        return 'Error: projectId must be a string';
+      }
+      return await getBudgetForecast(getDatabase(context.env), args.projectId, nowIso().slice(0, 10));
+
+    case 'add_expense':
+      if (typeof args.projectId !== 'string') {
+        return 'Error: projectId must be a string';
+      }
+      return await addExpense(getDatabase(context.env), args.projectId, args);
+
+    case 'extract_receipt': {
+      if (typeof args.projectId !== 'string') {
+        return 'Error: projectId must be a string';
+      }
+      if (args.attachmentId !== undefined && typeof args.attachmentId !== 'string') {
+        return 'Error: attachmentId must be a string';
+      }
+      const { draft, result } = await extractReceipt(
+        context.env,
+        args.projectId,
+        args.attachmentId as string | undefined,
+        events.onModelUsage
+      );
+      events.onExpenseDraft?.(draft);
+      return result;
+    }
+
+    case 'update_category_allocation':
+      if (typeof args.projectId !== 'string' || typeof args.category !== 'string') {
+        return 'Error: projectId and category must be strings';
+      }
+      return await updateCategoryAllocation(
+        getDatabase(context.env),
+        args.projectId,
+        args.category,
+        args.allocatedCents
+      );
+
+    case 'search_expenses': {
+      if (typeof args.projectId !== 'string') {
+        return 'Error: projectId must be a string';
+      }
+      const filters: Record<string, string> = {};
+      for (const key of ['from', 'to', 'category', 'vendor'] as const) {
+        if (args[key] === undefined) continue;
+        if (typeof args[key] !== 'string') {
+          return `Error: ${key} must be a string`;
+        }
+        filters[key] = args[key] as string;
+      }
+      if (args.paid !== undefined) {
+        if (typeof args.paid !== 'boolean') {
+          return 'Error: paid must be a boolean';
+        }
+        filters.paid = String(args.paid);
+      }
+      if (args.limit !== undefined) {
+        if (typeof args.limit !== 'number' || !Number.isInteger(args.limit)) {
+          return 'Error: limit must be an integer';
+        }
+        filters.limit = String(args.limit);
+      }
+      return await searchExpenses(getDatabase(context.env), args.projectId, filters);
+    }
+
+    case 'create_scenario':
+      if (typeof args.projectId !== 'string') {
+        return 'Error: projectId must be a string';
+      }
+      return await createScenarioForAgent(getDatabase(context.env), args.projectId, args);
+
+    case 'compare_scenario':
+      if (typeof args.projectId !== 'string' || typeof args.scenario !== 'string') {
+        return 'Error: projectId and scenario must be strings';
+      }
+      return await compareScenarioForAgent(getDatabase(context.env), args.projectId, args.scenario);
+
+    default:
+      return `Unknown tool: ${toolCall.function.name}`;
   }
 }
+
+/**
+ * POST /api/chat/approvals/:id
+ * Body: { conversationId, decision: 'approve' | 'reject' }
+ * Approving runs the stored tool call and returns its result. The outcome is
+ * added to the conversation as an assistant message.
+ */
+export async function handleApprovalDecision(
+  request: Request,
+  env: Env,
+  approvalId: string,
+  principal: Principal
+): Promise<Response> {
+  const body = await readJsonBody(request);
+  const errors: Record<string, string> = {};
+  if (typeof body.conversationId !== 'string' || !CONVERSATION_ID_PATTERN.test(body.conversationId)) {
+    errors.conversationId = 'conversationId is required';
+  }
+  if (body.decision !== 'approve' && body.decision !== 'reject') {
+    errors.decision = 'decision must be approve or reject';
+  }
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(errors);
+  }
+
+  const db = getDatabase(env);
+  const conversationId = body.conversationId as string;
+  // Only the API key that owns the conversation may decide its approvals
+  await getConversation(db, principal.keyId, conversationId);
+
+  // Approving needs the conversation's sandbox. When none is free this fails with a 503
+  // and the approval stays pending, so the user can approve again once one frees up.
+  const context: ToolContext = { ...createToolContext(env, conversationId, principal.role), preApproved: true };
+  if (body.decision === 'approve') {
+    await context.workspace.acquire();
+  }
+
+  const approval = await decideApproval(db, approvalId, conversationId, body.decision as 'approve' | 'reject');
+  if (approval.status !== 'approved') {
+    const message = `Rejected: ${approval.description}`;
+    await appendMessage(db, conversationId, 'assistant', message);
+    return jsonResponse({ approval: summarizeApproval(approval), message });
+  }
+
+  const result = await executeToolCall(context, {
+    id: approval.id,
+    function: { name: approval.toolName, arguments: approval.arguments },
+  });
+  await recordApprovalResult(db, approval.id, result);
+
+  // The outcome goes into the history so the model knows what was done
+  const ok = !isToolError(result);
+  const message = `${ok ? 'Done' : 'Failed'}: ${approval.description}\n\n${result}`;
+  await appendMessage(db, conversationId, 'assistant', message);
+
+  return jsonResponse({
+    approval: summarizeApproval(approval),
+    ok,
+    result,
+    message,
+  });
+}
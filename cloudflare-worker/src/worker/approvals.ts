@@ -0,0 +1,195 @@
+/**
+ * Approval gate for destructive agent tools
+ * Tools that change the repository are not run when the model calls them. Instead
+ * a pending approval is stored and the user approves or rejects it from the chat UI.
+ */
+
+import { nowIso } from './db';
+import { ApiError, NotFoundError } from './http';
+
+// Tools that modify the workspace or remote and therefore need explicit approval
+export const APPROVAL_REQUIRED_TOOLS = ['write_file', 'commit_changes', 'push_changes', 'open_pull_request'];
+
+// How long an approval token stays valid
+const APPROVAL_TTL_MS = 15 * 60 * 1000;
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+export type ApprovalDecision = 'approve' | 'reject';
+
+export interface ToolApproval {
+  id: string;
+  conversationId: string;
+  toolName: string;
+  arguments: string;
+  description: string;
+  status: ApprovalStatus;
+  result: string | null;
+  createdAt: string;
+  expiresAt: string;
+  decidedAt: string | null;
+}
+
+interface ToolApprovalRow {
+  id: string;
+  conversation_id: string;
+  tool_name: string;
+  arguments: string;
+  description: string;
+  status: ApprovalStatus;
+  result: string | null;
+  created_at: string;
+  expires_at: string;
+  decided_at: string | null;
+}
+
+function toApproval(row: ToolApprovalRow): ToolApproval {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    toolName: row.tool_name,
+    arguments: row.arguments,
+    description: row.description,
+    status: row.status,
+    result: row.result,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    decidedAt: row.decided_at,
+  };
+}
+
+/**
+ * The client-facing view of an approval (arguments can hold whole files, so they are left out)
+ */
+export interface ApprovalSummary {
+  id: string;
+  toolName: string;
+  description: string;
+  status: ApprovalStatus;
+  expiresAt: string;
+}
+
+export function summarizeApproval(approval: ToolApproval): ApprovalSummary {
+  return {
+    id: approval.id,
+    toolName: approval.toolName,
+    description: approval.description,
+    status: approval.status,
+    expiresAt: approval.expiresAt,
+  };
+}
+
+export function requiresApproval(toolName: string): boolean {
+  return APPROVAL_REQUIRED_TOOLS.includes(toolName);
+}
+
+/**
+ * Describes what a gated tool call will do, for display next to the Approve/Reject controls
+ */
+export function describeToolAction(toolName: string, args: Record<string, unknown>): string {
+  switch (toolName) {
+    case 'write_file': {
+      const content = typeof args.content === 'string' ? args.content : '';
+      const lines = content ? content.split('\n').length : 0;
+      return `Overwrite appsscript/src/${String(args.fileName)} with ${lines} line${lines === 1 ? '' : 's'} of new content`;
+    }
+    case 'commit_changes':
+      return `Commit all workspace changes with message "${String(args.message).slice(0, 200)}"`;
+    case 'push_changes':
+      return 'Push committed changes to GitHub, which triggers the Apps Script deployment workflow';
+    case 'open_pull_request':
+      return 'Push committed changes to a branch for this conversation and open a pull request against main';
+    default:
+      return `Run ${toolName}`;
+  }
+}
+
+export async function createApproval(
+  db: D1Database,
+  conversationId: string,
+  toolName: string,
+  args: Record<string, unknown>
+): Promise<ToolApproval> {
+  const id = crypto.randomUUID();
+  const createdAt = nowIso();
+  const expiresAt = new Date(Date.now() + APPROVAL_TTL_MS).toISOString();
+
+  await db
+    .prepare(
+      `INSERT INTO tool_approvals (id, conversation_id, tool_name, arguments, description, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      id,
+      conversationId,
+      toolName,
+      JSON.stringify(args),
+      describeToolAction(toolName, args),
+      createdAt,
+      expiresAt
+    )
+    .run();
+
+  return getApproval(db, id, conversationId);
+}
+
+/**
+ * Gets an approval; ids from another conversation are reported as not found
+ */
+export async function getApproval(
+  db: D1Database,
+  id: string,
+  conversationId: string
+): Promise<ToolApproval> {
+  const row = await db
+    .prepare('SELECT * FROM tool_approvals WHERE id = ? AND conversation_id = ?')
+    .bind(id, conversationId)
+    .first<ToolApprovalRow>();
+  if (!row) {
+    throw new NotFoundError(`Approval ${id} not found`);
+  }
+  return toApproval(row);
+}
+
+/**
+ * Records the user's decision on a pending approval
+ * Each token can be decided once, only for its own conversation, and only before it expires
+ */
+export async function decideApproval(
+  db: D1Database,
+  id: string,
+  conversationId: string,
+  decision: ApprovalDecision
+): Promise<ToolApproval> {
+  const now = nowIso();
+  const status: ApprovalStatus = decision === 'approve' ? 'approved' : 'rejected';
+
+  const result = await db
+    .prepare(
+      `UPDATE tool_approvals SET status = ?, decided_at = ?
+       WHERE id = ? AND conversation_id = ? AND status = 'pending' AND expires_at > ?`
+    )
+    .bind(status, now, id, conversationId, now)
+    .run();
+
+  if (result.meta.changes === 0) {
+    const existing = await getApproval(db, id, conversationId);
+    if (existing.status === 'pending') {
+      await db
+        .prepare("UPDATE tool_approvals SET status = 'expired' WHERE id = ?")
+        .bind(id)
+        .run();
+      throw new ApiError(410, `Approval ${id} has expired; ask the assistant to try again`);
+    }
+    throw new ApiError(409, `Approval ${id} was already ${existing.status}`);
+  }
+
+  return getApproval(db, id, conversationId);
+}
+
+export async function recordApprovalResult(
+  db: D1Database,
+  id: string,
+  result: string
+): Promise<void> {
+  await db.prepare('UPDATE tool_approvals SET result = ? WHERE id = ?').bind(result, id).run();
+}
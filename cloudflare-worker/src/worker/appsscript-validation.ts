@@ -0,0 +1,272 @@
+/**
+ * Pre-commit validation of the Apps Script sources in the sandbox workspace
+ * A broken Code.js, index.html or appsscript.json would otherwise be pushed and break the
+ * deployed web app. Issues are returned in a structured form so the model can fix them.
+ */
+
+import type { Sandbox } from '@cloudflare/sandbox';
+
+const SOURCE_DIR = '/workspace/repo/appsscript/src';
+// The repository keeps the manifest next to the clasp project, not in the source directory
+export const MANIFEST_PATH = '/workspace/repo/appsscript/appsscript.json';
+
+export interface SourceIssue {
+  file: string;
+  line?: number;
+  message: string;
+}
+
+const RUNTIME_VERSIONS = ['V8', 'STABLE', 'DEPRECATED_ES5'];
+const WEBAPP_ACCESS = ['MYSELF', 'DOMAIN', 'ANYONE', 'ANYONE_ANONYMOUS'];
+const WEBAPP_EXECUTE_AS = ['USER_ACCESSING', 'USER_DEPLOYING'];
+
+// Elements that never have a closing tag
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+// Elements whose content is raw text up to the matching closing tag
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+function lineAt(source: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index && i < source.length; i++) {
+    if (source[i] === '\n') line++;
+  }
+  return line;
+}
+
+/**
+ * Parses the output of `node --check` into an issue
+ * The first line is "<path>:<line>" and the error itself is on a line like "SyntaxError: ..."
+ */
+export function parseSyntaxCheckOutput(file: string, output: string): SourceIssue {
+  const lines = output.split('\n');
+  const location = /:(\d+)$/.exec(lines[0]?.trim() ?? '');
+  const message = lines.find((l) => /^\w*Error: /.test(l.trim()))?.trim() ?? (output.trim() || 'Syntax check failed');
+  return location ? { file, line: Number(location[1]), message } : { file, message };
+}
+
+/**
+ * Checks that Code.js still defines doGet, which serves the web app
+ */
+export function checkCodeJs(source: string): SourceIssue[] {
+  const code = source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+  const definesDoGet =
+    /\bfunction\s+doGet\s*\(/.test(code) || /\b(?:var|let|const)\s+doGet\s*=/.test(code);
+  return definesDoGet
+    ? []
+    : [{ file: 'Code.js', message: 'doGet is not defined; the web app needs a doGet(e) function' }];
+}
+
+/**
+ * Checks that index.html is well formed: every element is closed, in order
+ * Void elements, comments, the doctype and Apps Script scriptlets (<? ?>) are understood.
+ */
+export function checkHtml(source: string, file = 'index.html'): SourceIssue[] {
+  const issues: SourceIssue[] = [];
+  const open: { name: string; index: number }[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const start = source.indexOf('<', i);
+    if (start === -1) break;
+
+    if (source.startsWith('<!--', start)) {
+      const end = source.indexOf('-->', start + 4);
+      if (end === -1) {
+        issues.push({ file, line: lineAt(source, start), message: 'Unterminated comment' });
+        break;
+      }
+      i = end + 3;
+      continue;
+    }
+    if (source.startsWith('<?', start)) {
+      const end = source.indexOf('?>', start + 2);
+      if (end === -1) {
+        issues.push({ file, line: lineAt(source, start), message: 'Unterminated scriptlet (missing ?>)' });
+        break;
+      }
+      i = end + 2;
+      continue;
+    }
+    if (source.startsWith('<!', start)) {
+      const end = source.indexOf('>', start);
+      i = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    const tag = /^<(\/?)([A-Za-z][A-Za-z0-9-]*)/.exec(source.slice(start, start + 64));
+    if (!tag) {
+      // A literal "<" in text
+      i = start + 1;
+      continue;
+    }
+
+    // Find the end of the tag, skipping ">" inside quoted attribute values
+    let end = start + tag[0].length;
+    let quote: string | null = null;
+    for (; end < source.length; end++) {
+      const ch = source[end];
+      if (quote) {
+        if (ch === quote) quote = null;
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+      } else if (ch === '>') {
+        break;
+      }
+    }
+    if (end >= source.length) {
+      issues.push({ file, line: lineAt(source, start), message: `Unterminated tag <${tag[1]}${tag[2]}` });
+      break;
+    }
+
+    const name = tag[2].toLowerCase();
+    const closing = tag[1] === '/';
+    const selfClosing = source[end - 1] === '/';
+    i = end + 1;
+
+    if (closing) {
+      if (VOID_ELEMENTS.has(name)) continue;
+      const top = open[open.length - 1];
+      if (!top) {
+        issues.push({ file, line: lineAt(source, start), message: `Unexpected closing tag </${name}>` });
+      } else if (top.name === name) {
+        open.pop();
+      } else if (open.some((o) => o.name === name)) {
+        // Everything opened after the matching element was left unclosed
+        while (open[open.length - 1].name !== name) {
+          const unclosed = open.pop()!;
+          issues.push({
+            file,
+            line: lineAt(source, unclosed.index),
+            message: `<${unclosed.name}> is not closed before </${name}>`,
+          });
+        }
+        open.pop();
+      } else {
+        issues.push({
+          file,
+          line: lineAt(source, start),
+          message: `Unexpected closing tag </${name}>; expected </${top.name}>`,
+        });
+      }
+      continue;
+    }
+
+    if (VOID_ELEMENTS.has(name) || selfClosing) continue;
+
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const close = source.toLowerCase().indexOf(`</${name}`, i);
+      if (close === -1) {
+        issues.push({ file, line: lineAt(source, start), message: `<${name}> is never closed` });
+        break;
+      }
+      i = close;
+    }
+    open.push({ name, index: start });
+  }
+
+  for (const unclosed of open) {
+    issues.push({ file, line: lineAt(source, unclosed.index), message: `<${unclosed.name}> is never closed` });
+  }
+  return issues;
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks appsscript.json: a valid timeZone and runtimeVersion, and valid web app access settings
+ */
+export function checkManifest(source: string, file = 'appsscript.json'): SourceIssue[] {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(source);
+  } catch (error) {
+    return [{ file, message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }];
+  }
+  if (typeof manifest !== 'object' || manifest === null || Array.isArray(manifest)) {
+    return [{ file, message: 'The manifest must be a JSON object' }];
+  }
+
+  const issues: SourceIssue[] = [];
+  const m = manifest as Record<string, unknown>;
+
+  if (typeof m.timeZone !== 'string' || !isTimeZone(m.timeZone)) {
+    issues.push({ file, message: 'timeZone must be an IANA time zone such as "America/New_York"' });
+  }
+  if (typeof m.runtimeVersion !== 'string' || !RUNTIME_VERSIONS.includes(m.runtimeVersion)) {
+    issues.push({ file, message: `runtimeVersion must be one of: ${RUNTIME_VERSIONS.join(', ')}` });
+  }
+  if (m.webapp !== undefined) {
+    const webapp = m.webapp as Record<string, unknown> | null;
+    if (typeof webapp !== 'object' || webapp === null || Array.isArray(webapp)) {
+      issues.push({ file, message: 'webapp must be an object' });
+    } else {
+      if (typeof webapp.access !== 'string' || !WEBAPP_ACCESS.includes(webapp.access)) {
+        issues.push({ file, message: `webapp.access must be one of: ${WEBAPP_ACCESS.join(', ')}` });
+      }
+      if (typeof webapp.executeAs !== 'string' || !WEBAPP_EXECUTE_AS.includes(webapp.executeAs)) {
+        issues.push({ file, message: `webapp.executeAs must be one of: ${WEBAPP_EXECUTE_AS.join(', ')}` });
+      }
+    }
+  }
+  return issues;
+}
+
+async function readOptionalFile(sandbox: DurableObjectStub<Sandbox>, path: string): Promise<string | null> {
+  try {
+    const file = await sandbox.readFile(path);
+    return file.content;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validates the workspace's Apps Script sources
+ * Code.js is syntax-checked with `node --check` inside the sandbox.
+ */
+export async function validateAppsScriptSources(sandbox: DurableObjectStub<Sandbox>): Promise<SourceIssue[]> {
+  const issues: SourceIssue[] = [];
+
+  const code = await readOptionalFile(sandbox, `${SOURCE_DIR}/Code.js`);
+  if (code === null) {
+    issues.push({ file: 'Code.js', message: 'Code.js is missing' });
+  } else {
+    const check = await sandbox.exec(`node --check ${SOURCE_DIR}/Code.js`);
+    if (!check.success) {
+      issues.push(parseSyntaxCheckOutput('Code.js', check.stderr || check.stdout));
+    }
+    issues.push(...checkCodeJs(code));
+  }
+
+  const html = await readOptionalFile(sandbox, `${SOURCE_DIR}/index.html`);
+  if (html === null) {
+    issues.push({ file: 'index.html', message: 'index.html is missing; doGet serves it' });
+  } else {
+    issues.push(...checkHtml(html));
+  }
+
+  const manifest = await readOptionalFile(sandbox, MANIFEST_PATH);
+  if (manifest === null) {
+    issues.push({ file: 'appsscript.json', message: 'appsscript.json is missing; the project needs its manifest' });
+  } else {
+    issues.push(...checkManifest(manifest));
+  }
+
+  return issues;
+}
+
+/**
+ * Formats issues as a tool error the model can act on
+ */
+export function formatSourceIssues(issues: SourceIssue[]): string {
+  return `Error: Apps Script validation failed, nothing was committed. Fix these issues with write_file and commit again: ${JSON.stringify({ issues })}`;
+}
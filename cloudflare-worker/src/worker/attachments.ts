@@ -0,0 +1,395 @@
+/**
+ * Attachments API
+ * Receipts, invoices and other documents for a project, stored in the ATTACHMENTS R2 bucket
+ * with their metadata in D1. A file may be linked to one expense line item.
+ *
+ * Retention: deleting an expense keeps its files on the project, unlinked, because they are
+ * financial records. A file's object is only removed when the attachment itself or the
+ * whole project is deleted.
+ *
+ * Routes:
+ * - GET    /api/projects/:id/attachments                           List a project's files (expenseId filter)
+ * - POST   /api/projects/:id/attachments                           Upload a file (multipart: file, expenseId)
+ * - GET    /api/projects/:id/attachments/:attachmentId             Get a file's metadata
+ * - PATCH  /api/projects/:id/attachments/:attachmentId             Link to or unlink from an expense
+ * - DELETE /api/projects/:id/attachments/:attachmentId             Delete a file
+ * - GET    /api/projects/:id/attachments/:attachmentId/download    Download a file
+ * - GET    /api/projects/:id/expenses/:expenseId/attachments       List an expense's files
+ */
+
+import { getDatabase, nowIso } from './db';
+import { ApiError, NotFoundError, ValidationError, jsonResponse, matchPath, readFormData, readJsonBody } from './http';
+import { getExpense } from './expenses';
+import { getProject, getWritableProject } from './projects';
+import { readString, throwIfInvalid, type FieldErrors } from './validate';
+
+export const ATTACHMENT_CONTENT_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+] as const;
+export type AttachmentContentType = (typeof ATTACHMENT_CONTENT_TYPES)[number];
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const MAX_FILE_NAME_LENGTH = 255;
+
+// ISO-BMFF brands used by HEIC/HEIF photos from phones
+const HEIC_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1']);
+
+export interface Attachment {
+  id: string;
+  projectId: string;
+  expenseId: string | null;
+  fileName: string;
+  contentType: AttachmentContentType;
+  sizeBytes: number;
+  /** Authenticated API path that serves the file */
+  downloadUrl: string;
+  createdAt: string;
+}
+
+interface AttachmentRow {
+  id: string;
+  project_id: string;
+  expense_id: string | null;
+  file_name: string;
+  content_type: AttachmentContentType;
+  size_bytes: number;
+  storage_key: string;
+  created_at: string;
+}
+
+/**
+ * The upload is larger than ATTACHMENT_MAX_BYTES
+ */
+export class AttachmentTooLargeError extends ApiError {
+  readonly maxBytes: number;
+
+  constructor(maxBytes: number) {
+    super(413, `Attachments can be at most ${(maxBytes / (1024 * 1024)).toFixed(1)} MB`);
+    this.name = 'AttachmentTooLargeError';
+    this.maxBytes = maxBytes;
+  }
+}
+
+function toAttachment(row: AttachmentRow): Attachment {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    expenseId: row.expense_id,
+    fileName: row.file_name,
+    contentType: row.content_type,
+    sizeBytes: row.size_bytes,
+    downloadUrl: `/api/projects/${row.project_id}/attachments/${row.id}/download`,
+    createdAt: row.created_at,
+  };
+}
+
+export function getAttachmentBucket(env: Env): R2Bucket {
+  if (!env.ATTACHMENTS) {
+    throw new ApiError(503, 'Attachment storage binding ATTACHMENTS is not configured');
+  }
+  return env.ATTACHMENTS;
+}
+
+/**
+ * Reads ATTACHMENT_MAX_BYTES, falling back to 10 MB
+ */
+export function getAttachmentMaxBytes(env: Env): number {
+  const maxBytes = Number.parseInt(env.ATTACHMENT_MAX_BYTES ?? '', 10);
+  return maxBytes > 0 ? maxBytes : DEFAULT_MAX_BYTES;
+}
+
+/**
+ * Identifies a supported file from its leading bytes
+ * The declared Content-Type is ignored so a renamed file cannot pass as a receipt.
+ */
+export function detectContentType(bytes: Uint8Array): AttachmentContentType | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  if (ascii(0, 5) === '%PDF-') return 'application/pdf';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return 'image/png';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(4, 8) === 'ftyp' && HEIC_BRANDS.has(ascii(8, 12))) return 'image/heic';
+  return null;
+}
+
+/**
+ * Drops any client-side directory and control characters from an uploaded file name
+ */
+export function cleanFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/[\u0000-\u001f\u007f]/g, '').trim();
+  return cleaned.slice(0, MAX_FILE_NAME_LENGTH) || 'attachment';
+}
+
+export async function listAttachments(
+  db: D1Database,
+  projectId: string,
+  filter: { expenseId?: string } = {}
+): Promise<Attachment[]> {
+  await getProject(db, projectId);
+  const { results } = await db
+    .prepare(
+      `SELECT * FROM attachments
+       WHERE project_id = ?1 AND (?2 IS NULL OR expense_id = ?2)
+       ORDER BY created_at DESC, id`
+    )
+    .bind(projectId, filter.expenseId ?? null)
+    .all<AttachmentRow>();
+  return results.map(toAttachment);
+}
+
+async function getAttachmentRow(
+  db: D1Database,
+  projectId: string,
+  attachmentId: string
+): Promise<AttachmentRow> {
+  const row = await db
+    .prepare('SELECT * FROM attachments WHERE id = ? AND project_id = ?')
+    .bind(attachmentId, projectId)
+    .first<AttachmentRow>();
+  if (!row) {
+    throw new NotFoundError(`Attachment ${attachmentId} not found`);
+  }
+  return row;
+}
+
+export async function getAttachment(
+  db: D1Database,
+  projectId: string,
+  attachmentId: string
+): Promise<Attachment> {
+  return toAttachment(await getAttachmentRow(db, projectId, attachmentId));
+}
+
+/**
+ * Stores an uploaded file and records it, optionally linked to one of the project's expenses
+ */
+export async function createAttachment(
+  env: Env,
+  projectId: string,
+  upload: { file: File; expenseId: string | null }
+): Promise<Attachment> {
+  const db = getDatabase(env);
+  const bucket = getAttachmentBucket(env);
+  await getWritableProject(db, projectId);
+  if (upload.expenseId) {
+    await getExpense(db, projectId, upload.expenseId);
+  }
+
+  const maxBytes = getAttachmentMaxBytes(env);
+  if (upload.file.size > maxBytes) {
+    throw new AttachmentTooLargeError(maxBytes);
+  }
+  if (upload.file.size === 0) {
+    throw new ValidationError({ file: 'file is empty' });
+  }
+  const bytes = new Uint8Array(await upload.file.arrayBuffer());
+  const contentType = detectContentType(bytes);
+  if (!contentType) {
+    throw new ValidationError({ file: 'file must be a PDF, JPEG, PNG, WebP or HEIC image' });
+  }
+
+  const id = crypto.randomUUID();
+  const storageKey = `projects/${projectId}/attachments/${id}`;
+  const fileName = cleanFileName(upload.file.name);
+  await bucket.put(storageKey, bytes, {
+    httpMetadata: { contentType },
+    customMetadata: { projectId, fileName },
+  });
+
+  try {
+    await db
+      .prepare(
+        `INSERT INTO attachments (id, project_id, expense_id, file_name, content_type, size_bytes, storage_key, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(id, projectId, upload.expenseId, fileName, contentType, bytes.byteLength, storageKey, nowIso())
+      .run();
+  } catch (error) {
+    await bucket.delete(storageKey);
+    throw error;
+  }
+
+  return getAttachment(db, projectId, id);
+}
+
+/**
+ * Links an attachment to an expense, or unlinks it with `expenseId: null`
+ */
+export async function updateAttachment(
+  db: D1Database,
+  projectId: string,
+  attachmentId: string,
+  body: Record<string, unknown>
+): Promise<Attachment> {
+  const errors: FieldErrors = {};
+  const expenseId = readString(body, 'expenseId', errors, { required: true, nullable: true });
+  throwIfInvalid(errors);
+
+  await getWritableProject(db, projectId);
+  await getAttachmentRow(db, projectId, attachmentId);
+  if (expenseId) {
+    await getExpense(db, projectId, expenseId);
+  }
+
+  await db
+    .prepare('UPDATE attachments SET expense_id = ? WHERE id = ?')
+    .bind(expenseId ?? null, attachmentId)
+    .run();
+  return getAttachment(db, projectId, attachmentId);
+}
+
+export async function deleteAttachment(env: Env, projectId: string, attachmentId: string): Promise<void> {
+  const db = getDatabase(env);
+  const bucket = getAttachmentBucket(env);
+  await getWritableProject(db, projectId);
+  const row = await getAttachmentRow(db, projectId, attachmentId);
+  await db.prepare('DELETE FROM attachments WHERE id = ?').bind(attachmentId).run();
+  await bucket.delete(row.storage_key);
+}
+
+/**
+ * Storage keys of every file in a project, read before the project is deleted
+ * (the rows cascade away with it)
+ */
+export async function listAttachmentStorageKeys(db: D1Database, projectId: string): Promise<string[]> {
+  const { results } = await db
+    .prepare('SELECT storage_key FROM attachments WHERE project_id = ?')
+    .bind(projectId)
+    .all<{ storage_key: string }>();
+  return results.map((row) => row.storage_key);
+}
+
+/**
+ * Removes stored files whose rows are already gone; failures are logged, never thrown
+ */
+export async function deleteStoredFiles(env: Env, storageKeys: string[]): Promise<void> {
+  if (storageKeys.length === 0 || !env.ATTACHMENTS) return;
+  try {
+    await env.ATTACHMENTS.delete(storageKeys);
+  } catch (error) {
+    console.error('Failed to delete attachment files:', error);
+  }
+}
+
+/**
+ * The project's most recent upload that is not linked to an expense yet
+ */
+export async function getLatestUnlinkedAttachment(db: D1Database, projectId: string): Promise<Attachment | null> {
+  const row = await db
+    .prepare(
+      `SELECT * FROM attachments WHERE project_id = ? AND expense_id IS NULL
+       ORDER BY created_at DESC, id LIMIT 1`
+    )
+    .bind(projectId)
+    .first<AttachmentRow>();
+  return row ? toAttachment(row) : null;
+}
+
+async function getStoredObject(env: Env, row: AttachmentRow): Promise<R2ObjectBody> {
+  const object = await getAttachmentBucket(env).get(row.storage_key);
+  if (!object) {
+    throw new NotFoundError(`File for attachment ${row.id} is missing from storage`);
+  }
+  return object;
+}
+
+/**
+ * Reads a stored file into memory
+ */
+export async function readAttachmentFile(
+  env: Env,
+  projectId: string,
+  attachmentId: string
+): Promise<{ attachment: Attachment; bytes: Uint8Array<ArrayBuffer> }> {
+  const row = await getAttachmentRow(getDatabase(env), projectId, attachmentId);
+  const object = await getStoredObject(env, row);
+  return { attachment: toAttachment(row), bytes: new Uint8Array(await object.arrayBuffer()) };
+}
+
+async function downloadAttachment(env: Env, projectId: string, attachmentId: string): Promise<Response> {
+  const row = await getAttachmentRow(getDatabase(env), projectId, attachmentId);
+  const object = await getStoredObject(env, row);
+  return new Response(object.body, {
+    headers: {
+      'Content-Type': row.content_type,
+      'Content-Length': String(row.size_bytes),
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(row.file_name)}`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
+
+async function readUpload(request: Request): Promise<{ file: File; expenseId: string | null }> {
+  const form = await readFormData(request);
+  const file = form.get('file');
+  const expenseId = form.get('expenseId');
+  const errors: FieldErrors = {};
+  if (!(file instanceof File)) errors.file = 'file is required';
+  if (expenseId !== null && typeof expenseId !== 'string') errors.expenseId = 'expenseId must be a string';
+  throwIfInvalid(errors);
+
+  return { file: file as File, expenseId: typeof expenseId === 'string' && expenseId.trim() ? expenseId.trim() : null };
+}
+
+/**
+ * Routes /api/projects/:id/attachments and /api/projects/:id/expenses/:expenseId/attachments requests
+ * Returns null when the path/method is not an attachments route
+ */
+export async function handleAttachmentsRequest(
+  request: Request,
+  env: Env,
+  url: URL
+): Promise<Response | null> {
+  const method = request.method;
+
+  const listParams = matchPath('/api/projects/:id/attachments', url.pathname);
+  if (listParams) {
+    if (method === 'GET') {
+      const expenseId = url.searchParams.get('expenseId') ?? undefined;
+      const attachments = await listAttachments(getDatabase(env), listParams.id, { expenseId });
+      return jsonResponse({ attachments });
+    }
+    if (method === 'POST') {
+      const attachment = await createAttachment(env, listParams.id, await readUpload(request));
+      return jsonResponse({ attachment }, 201);
+    }
+    return null;
+  }
+
+  const expenseParams = matchPath('/api/projects/:id/expenses/:expenseId/attachments', url.pathname);
+  if (expenseParams && method === 'GET') {
+    const db = getDatabase(env);
+    await getExpense(db, expenseParams.id, expenseParams.expenseId);
+    const attachments = await listAttachments(db, expenseParams.id, { expenseId: expenseParams.expenseId });
+    return jsonResponse({ attachments });
+  }
+
+  const downloadParams = matchPath('/api/projects/:id/attachments/:attachmentId/download', url.pathname);
+  if (downloadParams && method === 'GET') {
+    return downloadAttachment(env, downloadParams.id, downloadParams.attachmentId);
+  }
+
+  const params = matchPath('/api/projects/:id/attachments/:attachmentId', url.pathname);
+  if (params) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ attachment: await getAttachment(db, params.id, params.attachmentId) });
+    }
+    if (method === 'PATCH') {
+      const attachment = await updateAttachment(db, params.id, params.attachmentId, await readJsonBody(request));
+      return jsonResponse({ attachment });
+    }
+    if (method === 'DELETE') {
+      await deleteAttachment(env, params.id, params.attachmentId);
+      return new Response(null, { status: 204 });
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,348 @@
+/**
+ * Authentication and roles
+ * Callers authenticate with an API key, either as a bearer token or by signing in once
+ * with the key, which sets a signed session cookie. Keys are stored as SHA-256 hashes.
+ * ADMIN_API_KEY, when set, is an admin key that needs no database row, so the first
+ * keys can be created.
+ *
+ * Roles are ordered: viewer (read budgets) < editor (change budget data) < admin
+ * (the agent may modify and push the Apps Script code, and manage API keys).
+ *
+ * Routes:
+ * - POST   /api/auth/login          Sign in with { apiKey }; sets the session cookie
+ * - POST   /api/auth/logout         Clear the session cookie
+ * - GET    /api/auth/me             The signed-in key's name and role
+ * - GET    /api/auth/keys           List API keys (admin)
+ * - POST   /api/auth/keys           Create an API key (admin); the key is only returned here
+ * - DELETE /api/auth/keys/:id       Revoke an API key (admin)
+ */
+
+import { getDatabase, nowIso } from './db';
+import {
+  ApiError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  jsonResponse,
+  matchPath,
+  readJsonBody,
+} from './http';
+import { readEnum, readString, throwIfInvalid, type FieldErrors } from './validate';
+
+export const ROLES = ['viewer', 'editor', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+export const AUTH_COOKIE = 'budget_auth';
+
+const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+const KEY_PREFIX = 'hrb_';
+const KEY_PREFIX_LENGTH = 12;
+// Principal id used for ADMIN_API_KEY
+const BOOTSTRAP_KEY_ID = 'bootstrap-admin';
+
+/**
+ * The caller of a request, identified by the API key it authenticated with
+ */
+export interface Principal {
+  keyId: string;
+  name: string;
+  role: Role;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  role: Role;
+  keyPrefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  role: Role;
+  key_prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    role: row.role,
+    keyPrefix: row.key_prefix,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Minimum role for an API route, or null for public routes
+ * Reads need viewer, so does chatting and managing one's own conversations;
+ * other writes need editor. Approving agent changes and managing keys need admin.
+ */
+export function requiredRole(method: string, pathname: string): Role | null {
+  if (['/api', '/api/', '/api/health', '/api/auth/login', '/api/auth/logout'].includes(pathname)) {
+    return null;
+  }
+  if (pathname === '/api/auth/keys' || pathname.startsWith('/api/auth/keys/')) return 'admin';
+  if (matchPath('/api/chat/approvals/:id', pathname)) return 'admin';
+  if (method === 'GET' || method === 'HEAD') return 'viewer';
+  if (pathname === '/api/chat') return 'viewer';
+  if (method === 'DELETE' && matchPath('/api/conversations/:id', pathname)) return 'viewer';
+  return 'editor';
+}
+
+/**
+ * Throws 401 without a principal and 403 when its role is too low
+ */
+export function authorize(principal: Principal | null, required: Role): asserts principal is Principal {
+  if (!principal) {
+    throw new UnauthorizedError();
+  }
+  if (!hasRole(principal.role, required)) {
+    throw new ForbiddenError(`This requires the ${required} role; you are signed in as ${principal.role}`);
+  }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): ArrayBuffer | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes.buffer;
+  } catch {
+    return null;
+  }
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function generateApiKey(): string {
+  return `${KEY_PREFIX}${toBase64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+}
+
+export async function createApiKey(
+  db: D1Database,
+  input: { name: string; role: Role }
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = generateApiKey();
+  const row: ApiKeyRow = {
+    id: crypto.randomUUID(),
+    name: input.name,
+    role: input.role,
+    key_prefix: key.slice(0, KEY_PREFIX_LENGTH),
+    created_at: nowIso(),
+    last_used_at: null,
+    revoked_at: null,
+  };
+  await db
+    .prepare('INSERT INTO api_keys (id, name, role, key_hash, key_prefix, created_at) VALUES (?, ?, ?, ?, ?, ?)')
+    .bind(row.id, row.name, row.role, await hashApiKey(key), row.key_prefix, row.created_at)
+    .run();
+  return { apiKey: toApiKey(row), key };
+}
+
+export async function listApiKeys(db: D1Database): Promise<ApiKey[]> {
+  const { results } = await db
+    .prepare('SELECT id, name, role, key_prefix, created_at, last_used_at, revoked_at FROM api_keys ORDER BY created_at, id')
+    .all<ApiKeyRow>();
+  return results.map(toApiKey);
+}
+
+export async function revokeApiKey(db: D1Database, id: string): Promise<void> {
+  const result = await db
+    .prepare('UPDATE api_keys SET revoked_at = COALESCE(revoked_at, ?) WHERE id = ?')
+    .bind(nowIso(), id)
+    .run();
+  if (result.meta.changes === 0) {
+    throw new NotFoundError(`API key ${id} not found`);
+  }
+}
+
+/**
+ * Resolves an API key to its principal; revoked and unknown keys resolve to null
+ */
+export async function findPrincipalByKey(env: Env, key: string): Promise<Principal | null> {
+  const hash = await hashApiKey(key);
+  if (env.ADMIN_API_KEY && hash === await hashApiKey(env.ADMIN_API_KEY)) {
+    return { keyId: BOOTSTRAP_KEY_ID, name: 'Admin key', role: 'admin' };
+  }
+  const db = getDatabase(env);
+  const row = await db
+    .prepare('SELECT id, name, role FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL')
+    .bind(hash)
+    .first<{ id: string; name: string; role: Role }>();
+  if (!row) return null;
+  await db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').bind(nowIso(), row.id).run();
+  return { keyId: row.id, name: row.name, role: row.role };
+}
+
+async function findPrincipalById(env: Env, keyId: string): Promise<Principal | null> {
+  if (keyId === BOOTSTRAP_KEY_ID) {
+    return env.ADMIN_API_KEY ? { keyId, name: 'Admin key', role: 'admin' } : null;
+  }
+  const row = await getDatabase(env)
+    .prepare('SELECT id, name, role FROM api_keys WHERE id = ? AND revoked_at IS NULL')
+    .bind(keyId)
+    .first<{ id: string; name: string; role: Role }>();
+  return row ? { keyId: row.id, name: row.name, role: row.role } : null;
+}
+
+function signingKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Session cookie value: "<keyId>.<expiry in epoch seconds>.<HMAC-SHA256 signature>"
+ */
+export async function signSession(secret: string, keyId: string, now = Date.now()): Promise<string> {
+  const payload = `${keyId}.${Math.floor(now / 1000) + SESSION_MAX_AGE_SECONDS}`;
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(secret), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Returns the key id of a validly signed, unexpired session, or null
+ */
+export async function verifySession(secret: string, value: string, now = Date.now()): Promise<string | null> {
+  const [keyId, expires, signature, ...rest] = value.split('.');
+  if (!keyId || !expires || !signature || rest.length > 0) return null;
+  const signatureBytes = fromBase64Url(signature);
+  if (!signatureBytes) return null;
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    await signingKey(secret),
+    signatureBytes,
+    new TextEncoder().encode(`${keyId}.${expires}`)
+  );
+  if (!valid || Number(expires) * 1000 <= now) return null;
+  return keyId;
+}
+
+/**
+ * Reads a cookie value from the request, or null when it is not set
+ */
+function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('Cookie');
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+function authCookie(value: string, maxAge: number): string {
+  return `${AUTH_COOKIE}=${value}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${maxAge}`;
+}
+
+/**
+ * Identifies the caller from a bearer API key or the session cookie
+ * Returns null when the request carries neither, or they are invalid.
+ */
+export async function authenticate(request: Request, env: Env): Promise<Principal | null> {
+  const header = request.headers.get('Authorization');
+  if (header?.startsWith('Bearer ')) {
+    return findPrincipalByKey(env, header.slice('Bearer '.length).trim());
+  }
+
+  const session = readCookie(request, AUTH_COOKIE);
+  if (!session || !env.AUTH_SECRET) return null;
+  const keyId = await verifySession(env.AUTH_SECRET, session);
+  return keyId ? findPrincipalById(env, keyId) : null;
+}
+
+async function login(request: Request, env: Env): Promise<Response> {
+  if (!env.AUTH_SECRET) {
+    throw new ApiError(503, 'Sign-in is not configured (AUTH_SECRET is not set)');
+  }
+  const body = await readJsonBody(request);
+  const errors: FieldErrors = {};
+  const apiKey = readString(body, 'apiKey', errors, { required: true });
+  throwIfInvalid(errors);
+
+  const principal = await findPrincipalByKey(env, apiKey!);
+  if (!principal) {
+    throw new UnauthorizedError('Invalid API key');
+  }
+  const response = jsonResponse({ user: { name: principal.name, role: principal.role } });
+  response.headers.append('Set-Cookie', authCookie(await signSession(env.AUTH_SECRET, principal.keyId), SESSION_MAX_AGE_SECONDS));
+  return response;
+}
+
+/**
+ * Routes /api/auth requests
+ * Role checks happen before this is called (see requiredRole); returns null when the
+ * path/method is not an auth route
+ */
+export async function handleAuthRequest(
+  request: Request,
+  env: Env,
+  url: URL,
+  principal: Principal | null
+): Promise<Response | null> {
+  const method = request.method;
+
+  if (url.pathname === '/api/auth/login' && method === 'POST') {
+    return login(request, env);
+  }
+  if (url.pathname === '/api/auth/logout' && method === 'POST') {
+    const response = new Response(null, { status: 204 });
+    response.headers.append('Set-Cookie', authCookie('', 0));
+    return response;
+  }
+  if (url.pathname === '/api/auth/me' && method === 'GET') {
+    authorize(principal, 'viewer');
+    return jsonResponse({ user: { name: principal.name, role: principal.role } });
+  }
+
+  if (matchPath('/api/auth/keys', url.pathname)) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ keys: await listApiKeys(db) });
+    }
+    if (method === 'POST') {
+      const body = await readJsonBody(request);
+      const errors: FieldErrors = {};
+      const name = readString(body, 'name', errors, { required: true, maxLength: 100 });
+      const role = readEnum(body, 'role', ROLES, errors, { required: true });
+      throwIfInvalid(errors);
+      const { apiKey, key } = await createApiKey(db, { name: name!, role: role! });
+      return jsonResponse({ apiKey, key }, 201);
+    }
+    return null;
+  }
+
+  const params = matchPath('/api/auth/keys/:id', url.pathname);
+  if (params && method === 'DELETE') {
+    await revokeApiKey(getDatabase(env), params.id);
+    return new Response(null, { status: 204 });
+  }
+
+  return null;
+}
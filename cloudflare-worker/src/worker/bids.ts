@@ -0,0 +1,693 @@
+/**
+ * Bids API
+ * Contractor quotes for a scope of work on a project, itemized so competing quotes can be
+ * compared line by line. Accepting a bid commits its total against its budget category
+ * (see committedCents in categories.ts) and declines the other open bids for the scope.
+ *
+ * Comparison lines bids up by line item slug. For every item any bid prices, each bid either
+ * prices it, lists it as included in the price, excludes it or does not mention it. Excluded
+ * and unmentioned items are gaps: they are estimated at the median price the other bids gave
+ * them, so normalized totals compare the same scope.
+ *
+ * Routes:
+ * - GET    /api/projects/:id/bids                   List bids (?scope=, ?status=)
+ * - POST   /api/projects/:id/bids                   Add a bid with line items
+ * - GET    /api/projects/:id/bids/compare           Compare the bids for a scope (?scope=)
+ * - GET    /api/projects/:id/bids/:bidId            Get a bid
+ * - PATCH  /api/projects/:id/bids/:bidId            Update an open bid
+ * - DELETE /api/projects/:id/bids/:bidId            Delete a bid that was not accepted
+ * - POST   /api/projects/:id/bids/:bidId/accept     Accept a bid, committing its total
+ * - POST   /api/projects/:id/bids/:bidId/decline    Decline a bid
+ */
+
+import { assertCategoryExists, getCategory, type BudgetCategory } from './categories';
+import { getDatabase, nowIso } from './db';
+import { ConflictError, NotFoundError, ValidationError, jsonResponse, matchPath, readJsonBody } from './http';
+import { getProject, getWritableProject } from './projects';
+import { normalizeCategory, readDate, readEnum, readString, throwIfInvalid, type FieldErrors } from './validate';
+import { assertVendorExists, listVendors, type Vendor } from './vendors';
+
+export const BID_STATUSES = ['pending', 'accepted', 'declined'] as const;
+export type BidStatus = (typeof BID_STATUSES)[number];
+
+const MAX_LINE_ITEMS = 100;
+const MAX_SCOPE_NOTES = 50;
+
+export interface BidLineItem {
+  id: string;
+  /** Slug that lines the same work up across bids; defaults to the slug of the description */
+  item: string;
+  description: string;
+  quantity: number | null;
+  unit: string | null;
+  amountCents: number;
+}
+
+export interface Bid {
+  id: string;
+  projectId: string;
+  vendor: { id: string; name: string };
+  /** Scope of work the bid prices; bids for the same scope compete */
+  scope: string;
+  /** Budget category the bid is committed against once accepted */
+  category: string;
+  validUntil: string | null;
+  inclusions: string[];
+  exclusions: string[];
+  notes: string | null;
+  status: BidStatus;
+  totalCents: number;
+  lineItems: BidLineItem[];
+  decidedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BidInput {
+  vendorId?: string;
+  scope?: string;
+  category?: string;
+  validUntil?: string | null;
+  inclusions?: string[];
+  exclusions?: string[];
+  notes?: string | null;
+  lineItems?: Omit<BidLineItem, 'id'>[];
+}
+
+export type CoverageStatus = 'priced' | 'included' | 'excluded' | 'missing';
+
+export interface BidComparisonLine {
+  item: string;
+  status: CoverageStatus;
+  /** What the bid charges for the item; null unless priced */
+  amountCents: number | null;
+  /** Median of the other bids' prices for a gap; null when no other bid priced it */
+  estimateCents: number | null;
+}
+
+export interface BidComparisonEntry {
+  bidId: string;
+  vendor: { id: string; name: string };
+  status: BidStatus;
+  totalCents: number;
+  /** Estimated cost of the items this bid leaves out */
+  gapCents: number;
+  /** Total plus gap estimates: what the full scope would cost with this vendor */
+  normalizedTotalCents: number;
+  lines: BidComparisonLine[];
+  /** Items the bid excludes or does not mention */
+  gaps: string[];
+  warnings: string[];
+}
+
+export interface BidComparison {
+  scope: string;
+  /** Every item any bid prices, with the range of prices */
+  items: { item: string; description: string; lowCents: number; highCents: number; pricedBy: number }[];
+  bids: BidComparisonEntry[];
+  /** Bid with the lowest normalized total */
+  lowestBidId: string | null;
+}
+
+interface BidRow {
+  id: string;
+  project_id: string;
+  vendor_id: string;
+  vendor_name: string;
+  scope: string;
+  category: string;
+  valid_until: string | null;
+  inclusions: string;
+  exclusions: string;
+  notes: string | null;
+  status: BidStatus;
+  total_cents: number;
+  decided_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface LineItemRow {
+  id: string;
+  bid_id: string;
+  item: string;
+  description: string;
+  quantity: number | null;
+  unit: string | null;
+  amount_cents: number;
+}
+
+const BID_SELECT = `
+  SELECT b.*, v.name AS vendor_name,
+         COALESCE((SELECT SUM(li.amount_cents) FROM bid_line_items li WHERE li.bid_id = b.id), 0) AS total_cents
+  FROM bids b
+  JOIN vendors v ON v.id = b.vendor_id`;
+
+function toLineItem(row: LineItemRow): BidLineItem {
+  return {
+    id: row.id,
+    item: row.item,
+    description: row.description,
+    quantity: row.quantity,
+    unit: row.unit,
+    amountCents: row.amount_cents,
+  };
+}
+
+function toBid(row: BidRow, lineItems: LineItemRow[]): Bid {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    vendor: { id: row.vendor_id, name: row.vendor_name },
+    scope: row.scope,
+    category: row.category,
+    validUntil: row.valid_until,
+    inclusions: JSON.parse(row.inclusions) as string[],
+    exclusions: JSON.parse(row.exclusions) as string[],
+    notes: row.notes,
+    status: row.status,
+    totalCents: row.total_cents,
+    lineItems: lineItems.map(toLineItem),
+    decidedAt: row.decided_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function readStringList(body: Record<string, unknown>, key: string, errors: FieldErrors): string[] | undefined {
+  const value = body[key];
+  if (value === undefined) return undefined;
+  if (value === null) return [];
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string' || entry.length > 200)) {
+    errors[key] = `${key} must be a list of notes of at most 200 characters`;
+    return undefined;
+  }
+  if (value.length > MAX_SCOPE_NOTES) {
+    errors[key] = `${key} can have at most ${MAX_SCOPE_NOTES} entries`;
+    return undefined;
+  }
+  return (value as string[]).map((entry) => entry.trim()).filter(Boolean);
+}
+
+function readLineItems(body: Record<string, unknown>, errors: FieldErrors, required: boolean): BidInput['lineItems'] {
+  const value = body.lineItems;
+  if (value === undefined) {
+    if (required) errors.lineItems = 'lineItems is required';
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.lineItems = 'lineItems must be a non-empty list';
+    return undefined;
+  }
+  if (value.length > MAX_LINE_ITEMS) {
+    errors.lineItems = `A bid can have at most ${MAX_LINE_ITEMS} line items`;
+    return undefined;
+  }
+
+  const items: NonNullable<BidInput['lineItems']> = [];
+  value.forEach((entry, index) => {
+    const prefix = `lineItems.${index}`;
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      errors[prefix] = 'line items must be objects';
+      return;
+    }
+    const line = entry as Record<string, unknown>;
+    const lineErrors: FieldErrors = {};
+    const description = readString(line, 'description', lineErrors, { required: true, maxLength: 200 });
+    const itemName = readString(line, 'item', lineErrors, { maxLength: 60 });
+    const unit = readString(line, 'unit', lineErrors, { nullable: true, maxLength: 20 });
+    const quantity = line.quantity;
+    if (quantity != null && (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity <= 0)) {
+      lineErrors.quantity = 'quantity must be a positive number';
+    }
+    const amountCents = line.amountCents;
+    if (typeof amountCents !== 'number' || !Number.isSafeInteger(amountCents) || amountCents < 0) {
+      lineErrors.amountCents = 'amountCents must be a whole, non-negative number of cents';
+    }
+    const item = normalizeCategory(itemName ?? description ?? '');
+    if (!item && !lineErrors.description && !lineErrors.item) {
+      lineErrors.item = 'item must contain letters or numbers';
+    }
+
+    for (const [key, message] of Object.entries(lineErrors)) {
+      errors[`${prefix}.${key}`] = message;
+    }
+    if (Object.keys(lineErrors).length === 0) {
+      items.push({
+        item,
+        description: description!,
+        quantity: (quantity as number | undefined) ?? null,
+        unit: unit ?? null,
+        amountCents: amountCents as number,
+      });
+    }
+  });
+
+  const seen = new Set<string>();
+  items.forEach((line, index) => {
+    if (seen.has(line.item)) {
+      errors[`lineItems.${index}.item`] = `item "${line.item}" appears more than once; combine the lines or give them different items`;
+    }
+    seen.add(line.item);
+  });
+  return items;
+}
+
+/**
+ * Validates a create (partial = false) or update (partial = true) payload
+ */
+export function validateBidInput(body: Record<string, unknown>, partial: boolean): BidInput {
+  const errors: FieldErrors = {};
+  const input: BidInput = {};
+
+  const vendorId = readString(body, 'vendorId', errors, { required: !partial, maxLength: 100 });
+  if (vendorId != null) input.vendorId = vendorId;
+
+  const scope = readString(body, 'scope', errors, { required: !partial, maxLength: 120 });
+  if (scope != null) input.scope = scope;
+
+  const category = readString(body, 'category', errors, { required: !partial, maxLength: 50 });
+  if (category != null) input.category = normalizeCategory(category);
+
+  const validUntil = readDate(body, 'validUntil', errors, { nullable: true });
+  if (validUntil !== undefined) input.validUntil = validUntil;
+
+  const inclusions = readStringList(body, 'inclusions', errors);
+  if (inclusions !== undefined) input.inclusions = inclusions;
+
+  const exclusions = readStringList(body, 'exclusions', errors);
+  if (exclusions !== undefined) input.exclusions = exclusions;
+
+  const notes = readString(body, 'notes', errors, { nullable: true, maxLength: 2000 });
+  if (notes !== undefined) input.notes = notes;
+
+  const lineItems = readLineItems(body, errors, !partial);
+  if (lineItems !== undefined) input.lineItems = lineItems;
+
+  throwIfInvalid(errors);
+  return input;
+}
+
+async function loadLineItems(db: D1Database, projectId: string, bidId?: string): Promise<Map<string, LineItemRow[]>> {
+  const statement = bidId
+    ? db.prepare('SELECT * FROM bid_line_items WHERE bid_id = ? ORDER BY position').bind(bidId)
+    : db
+        .prepare(
+          `SELECT li.* FROM bid_line_items li JOIN bids b ON b.id = li.bid_id
+           WHERE b.project_id = ? ORDER BY li.bid_id, li.position`
+        )
+        .bind(projectId);
+  const { results } = await statement.all<LineItemRow>();
+  const byBid = new Map<string, LineItemRow[]>();
+  for (const row of results) {
+    byBid.set(row.bid_id, [...(byBid.get(row.bid_id) ?? []), row]);
+  }
+  return byBid;
+}
+
+export async function listBids(
+  db: D1Database,
+  projectId: string,
+  filter: { scope?: string; status?: BidStatus } = {}
+): Promise<Bid[]> {
+  await getProject(db, projectId);
+  const conditions = ['b.project_id = ?'];
+  const values: string[] = [projectId];
+  if (filter.scope) {
+    conditions.push('b.scope = ?');
+    values.push(filter.scope);
+  }
+  if (filter.status) {
+    conditions.push('b.status = ?');
+    values.push(filter.status);
+  }
+  const { results } = await db
+    .prepare(`${BID_SELECT} WHERE ${conditions.join(' AND ')} ORDER BY b.scope, b.created_at`)
+    .bind(...values)
+    .all<BidRow>();
+  const lineItems = await loadLineItems(db, projectId);
+  return results.map((row) => toBid(row, lineItems.get(row.id) ?? []));
+}
+
+export async function getBid(db: D1Database, projectId: string, bidId: string): Promise<Bid> {
+  const row = await db
+    .prepare(`${BID_SELECT} WHERE b.project_id = ? AND b.id = ?`)
+    .bind(projectId, bidId)
+    .first<BidRow>();
+  if (!row) {
+    throw new NotFoundError(`Bid ${bidId} not found`);
+  }
+  const lineItems = await loadLineItems(db, projectId, bidId);
+  return toBid(row, lineItems.get(bidId) ?? []);
+}
+
+function insertLineItems(db: D1Database, bidId: string, lineItems: NonNullable<BidInput['lineItems']>): D1PreparedStatement[] {
+  return lineItems.map((line, position) =>
+    db
+      .prepare(
+        `INSERT INTO bid_line_items (id, bid_id, position, item, description, quantity, unit, amount_cents)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(crypto.randomUUID(), bidId, position, line.item, line.description, line.quantity, line.unit, line.amountCents)
+  );
+}
+
+export async function createBid(db: D1Database, projectId: string, body: Record<string, unknown>): Promise<Bid> {
+  const input = validateBidInput(body, false);
+  await getWritableProject(db, projectId);
+  await assertVendorExists(db, input.vendorId!);
+  await assertCategoryExists(db, projectId, input.category!);
+
+  const id = crypto.randomUUID();
+  const timestamp = nowIso();
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO bids
+          (id, project_id, vendor_id, scope, category, valid_until, inclusions, exclusions, notes, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        id,
+        projectId,
+        input.vendorId,
+        input.scope,
+        input.category,
+        input.validUntil ?? null,
+        JSON.stringify(input.inclusions ?? []),
+        JSON.stringify(input.exclusions ?? []),
+        input.notes ?? null,
+        timestamp,
+        timestamp
+      ),
+    ...insertLineItems(db, id, input.lineItems!),
+  ]);
+  return getBid(db, projectId, id);
+}
+
+async function getPendingBid(db: D1Database, projectId: string, bidId: string): Promise<Bid> {
+  const bid = await getBid(db, projectId, bidId);
+  if (bid.status !== 'pending') {
+    throw new ConflictError(`Bid ${bidId} was already ${bid.status}`);
+  }
+  return bid;
+}
+
+/**
+ * Updates an open bid; line items, when given, replace the existing ones
+ */
+export async function updateBid(
+  db: D1Database,
+  projectId: string,
+  bidId: string,
+  body: Record<string, unknown>
+): Promise<Bid> {
+  const input = validateBidInput(body, true);
+  await getWritableProject(db, projectId);
+  const existing = await getPendingBid(db, projectId, bidId);
+  if (input.vendorId) await assertVendorExists(db, input.vendorId);
+  if (input.category) await assertCategoryExists(db, projectId, input.category);
+
+  const statements = [
+    db
+      .prepare(
+        `UPDATE bids SET vendor_id = ?, scope = ?, category = ?, valid_until = ?, inclusions = ?, exclusions = ?,
+                notes = ?, updated_at = ?
+         WHERE id = ?`
+      )
+      .bind(
+        input.vendorId ?? existing.vendor.id,
+        input.scope ?? existing.scope,
+        input.category ?? existing.category,
+        input.validUntil !== undefined ? input.validUntil : existing.validUntil,
+        JSON.stringify(input.inclusions ?? existing.inclusions),
+        JSON.stringify(input.exclusions ?? existing.exclusions),
+        input.notes !== undefined ? input.notes : existing.notes,
+        nowIso(),
+        bidId
+      ),
+  ];
+  if (input.lineItems) {
+    statements.push(
+      db.prepare('DELETE FROM bid_line_items WHERE bid_id = ?').bind(bidId),
+      ...insertLineItems(db, bidId, input.lineItems)
+    );
+  }
+  await db.batch(statements);
+  return getBid(db, projectId, bidId);
+}
+
+export async function deleteBid(db: D1Database, projectId: string, bidId: string): Promise<void> {
+  await getWritableProject(db, projectId);
+  const bid = await getBid(db, projectId, bidId);
+  if (bid.status === 'accepted') {
+    throw new ConflictError(`Bid ${bidId} was accepted and is committed against ${bid.category}`);
+  }
+  await db.prepare('DELETE FROM bids WHERE id = ?').bind(bidId).run();
+}
+
+/**
+ * Accepts an open, unexpired bid: its total becomes committed cost in its category and the
+ * other open bids for the same scope are declined
+ */
+export async function acceptBid(
+  db: D1Database,
+  projectId: string,
+  bidId: string,
+  today: string
+): Promise<{ bid: Bid; category: BudgetCategory; declined: string[] }> {
+  await getWritableProject(db, projectId);
+  const bid = await getPendingBid(db, projectId, bidId);
+  if (bid.validUntil && bid.validUntil < today) {
+    throw new ConflictError(`Bid ${bidId} expired on ${bid.validUntil}; ask ${bid.vendor.name} to renew it`);
+  }
+  await assertCategoryExists(db, projectId, bid.category);
+
+  const rivals = await listBids(db, projectId, { scope: bid.scope });
+  const accepted = rivals.find((rival) => rival.status === 'accepted');
+  if (accepted) {
+    throw new ConflictError(`${accepted.vendor.name}'s bid was already accepted for ${bid.scope}`);
+  }
+  const declined = rivals.filter((rival) => rival.status === 'pending' && rival.id !== bidId).map((rival) => rival.id);
+
+  // Both updates only apply while the bid is still pending, and the partial unique index
+  // rejects a second accepted bid for the scope
+  const timestamp = nowIso();
+  let results: D1Result[];
+  try {
+    results = await db.batch([
+      db
+        .prepare(`UPDATE bids SET status = 'accepted', decided_at = ?, updated_at = ? WHERE id = ? AND status = 'pending'`)
+        .bind(timestamp, timestamp, bidId),
+      ...declined.map((id) =>
+        db
+          .prepare(
+            `UPDATE bids SET status = 'declined', decided_at = ?, updated_at = ?
+             WHERE id = ? AND status = 'pending' AND EXISTS (SELECT 1 FROM bids WHERE id = ? AND status = 'accepted')`
+          )
+          .bind(timestamp, timestamp, id, bidId)
+      ),
+    ]);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('UNIQUE')) {
+      throw new ConflictError(`Another bid was already accepted for ${bid.scope}`);
+    }
+    throw error;
+  }
+  if (results[0].meta.changes === 0) {
+    const current = await getBid(db, projectId, bidId);
+    throw new ConflictError(`Bid ${bidId} was already ${current.status}`);
+  }
+
+  return {
+    bid: await getBid(db, projectId, bidId),
+    category: await getCategory(db, projectId, bid.category),
+    declined,
+  };
+}
+
+export async function declineBid(db: D1Database, projectId: string, bidId: string): Promise<Bid> {
+  await getWritableProject(db, projectId);
+  await getPendingBid(db, projectId, bidId);
+  const timestamp = nowIso();
+  await db
+    .prepare(`UPDATE bids SET status = 'declined', decided_at = ?, updated_at = ? WHERE id = ?`)
+    .bind(timestamp, timestamp, bidId)
+    .run();
+  return getBid(db, projectId, bidId);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+// "Haul-away of debris" mentions the item "haul_away"
+function mentions(notes: string[], item: string): boolean {
+  return notes.some((note) => `_${normalizeCategory(note)}_`.includes(`_${item}_`));
+}
+
+function bidWarnings(bid: Bid, vendor: Vendor | undefined, today: string): string[] {
+  const warnings: string[] = [];
+  if (bid.validUntil && bid.validUntil < today) {
+    warnings.push(`Quote expired on ${bid.validUntil}`);
+  }
+  if (!vendor?.insuranceExpiresOn) {
+    warnings.push('No insurance expiry on file');
+  } else if (vendor.insuranceExpiresOn < today) {
+    warnings.push(`Insurance expired on ${vendor.insuranceExpiresOn}`);
+  }
+  if (!vendor?.licenseNumber) {
+    warnings.push('No license number on file');
+  }
+  return warnings;
+}
+
+/**
+ * Lines bids for one scope up item by item, estimates what each leaves out and flags expired
+ * quotes and vendors without current insurance or a license number
+ */
+export function compareBids(scope: string, bids: Bid[], vendors: Map<string, Vendor>, today: string): BidComparison {
+  const items = new Map<string, { description: string; prices: number[] }>();
+  for (const bid of bids) {
+    for (const line of bid.lineItems) {
+      const entry = items.get(line.item) ?? { description: line.description, prices: [] };
+      entry.prices.push(line.amountCents);
+      items.set(line.item, entry);
+    }
+  }
+
+  const entries = bids.map((bid): BidComparisonEntry => {
+    const priced = new Map(bid.lineItems.map((line) => [line.item, line.amountCents]));
+    const lines = [...items.keys()].map((item): BidComparisonLine => {
+      if (priced.has(item)) {
+        return { item, status: 'priced', amountCents: priced.get(item)!, estimateCents: null };
+      }
+      const status: CoverageStatus = mentions(bid.exclusions, item)
+        ? 'excluded'
+        : mentions(bid.inclusions, item)
+          ? 'included'
+          : 'missing';
+      // Only the other bids' prices count; this bid priced nothing for the item
+      const others = status === 'included' ? [] : items.get(item)!.prices;
+      return { item, status, amountCents: null, estimateCents: others.length > 0 ? median(others) : null };
+    });
+    const gapCents = lines.reduce((sum, line) => sum + (line.estimateCents ?? 0), 0);
+    return {
+      bidId: bid.id,
+      vendor: bid.vendor,
+      status: bid.status,
+      totalCents: bid.totalCents,
+      gapCents,
+      normalizedTotalCents: bid.totalCents + gapCents,
+      lines,
+      gaps: lines.filter((line) => line.status === 'excluded' || line.status === 'missing').map((line) => line.item),
+      warnings: bidWarnings(bid, vendors.get(bid.vendor.id), today),
+    };
+  });
+
+  const lowest = entries.reduce<BidComparisonEntry | null>(
+    (best, entry) => (!best || entry.normalizedTotalCents < best.normalizedTotalCents ? entry : best),
+    null
+  );
+  return {
+    scope,
+    items: [...items].map(([item, { description, prices }]) => ({
+      item,
+      description,
+      lowCents: Math.min(...prices),
+      highCents: Math.max(...prices),
+      pricedBy: prices.length,
+    })),
+    bids: entries,
+    lowestBidId: lowest?.bidId ?? null,
+  };
+}
+
+/**
+ * Compares the open and accepted bids for a scope of a project
+ */
+export async function compareProjectBids(
+  db: D1Database,
+  projectId: string,
+  scope: string,
+  today: string
+): Promise<BidComparison> {
+  const bids = (await listBids(db, projectId, { scope })).filter((bid) => bid.status !== 'declined');
+  const vendors = new Map((await listVendors(db)).map((vendor) => [vendor.id, vendor]));
+  return compareBids(bids[0]?.scope ?? scope, bids, vendors, today);
+}
+
+function readBidFilter(url: URL): { scope?: string; status?: BidStatus } {
+  const query = Object.fromEntries(url.searchParams);
+  const errors: FieldErrors = {};
+  const scope = readString(query, 'scope', errors, { maxLength: 120 });
+  const status = readEnum(query, 'status', BID_STATUSES, errors);
+  throwIfInvalid(errors);
+  return { scope: scope ?? undefined, status: status ?? undefined };
+}
+
+/**
+ * Routes /api/projects/:id/bids requests
+ * Returns null when the path/method is not a bids route
+ */
+export async function handleBidsRequest(
+  request: Request,
+  env: Env,
+  url: URL
+): Promise<Response | null> {
+  const method = request.method;
+
+  const listParams = matchPath('/api/projects/:id/bids', url.pathname);
+  if (listParams) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ bids: await listBids(db, listParams.id, readBidFilter(url)) });
+    }
+    if (method === 'POST') {
+      const bid = await createBid(db, listParams.id, await readJsonBody(request));
+      return jsonResponse({ bid }, 201);
+    }
+    return null;
+  }
+
+  const compareParams = matchPath('/api/projects/:id/bids/compare', url.pathname);
+  if (compareParams) {
+    if (method !== 'GET') return null;
+    const { scope } = readBidFilter(url);
+    if (!scope) {
+      throw new ValidationError({ scope: 'scope is required' });
+    }
+    const comparison = await compareProjectBids(getDatabase(env), compareParams.id, scope, nowIso().slice(0, 10));
+    return jsonResponse({ comparison });
+  }
+
+  const acceptParams = matchPath('/api/projects/:id/bids/:bidId/accept', url.pathname);
+  if (acceptParams && method === 'POST') {
+    return jsonResponse(await acceptBid(getDatabase(env), acceptParams.id, acceptParams.bidId, nowIso().slice(0, 10)));
+  }
+
+  const declineParams = matchPath('/api/projects/:id/bids/:bidId/decline', url.pathname);
+  if (declineParams && method === 'POST') {
+    return jsonResponse({ bid: await declineBid(getDatabase(env), declineParams.id, declineParams.bidId) });
+  }
+
+  const params = matchPath('/api/projects/:id/bids/:bidId', url.pathname);
+  if (params) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ bid: await getBid(db, params.id, params.bidId) });
+    }
+    if (method === 'PATCH') {
+      const bid = await updateBid(db, params.id, params.bidId, await readJsonBody(request));
+      return jsonResponse({ bid });
+    }
+    if (method === 'DELETE') {
+      await deleteBid(db, params.id, params.bidId);
+      return new Response(null, { status: 204 });
+    }
+  }
+
+  return null;
+}
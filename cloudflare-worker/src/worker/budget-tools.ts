@@ -0,0 +1,372 @@
+/**
+ * Agent Tools for Budget Data
+ * These tools let the agent answer questions from, and record changes to, the D1 budget data.
+ * Writes go through the same validation as the REST routes so chat and API numbers always agree.
+ */
+
+import { listCategories, updateCategory } from './categories';
+import {
+  createExpense,
+  getExpenseSummary,
+  listExpenses,
+  parseExpenseQuery,
+} from './expenses';
+import { forecastProject } from './forecast';
+import { ValidationError } from './http';
+import { getProject, listProjects } from './projects';
+import { createExpenseDraft } from './receipts';
+import { compareScenario, createScenario, findScenario } from './scenarios';
+import { lowConfidenceFields, type ExpenseDraft } from '../lib/receipts';
+import type { TokenUsage } from './usage';
+import { normalizeCategory } from './validate';
+
+/**
+ * List active projects with their headline budget figures
+ */
+export async function listProjectsForAgent(db: D1Database): Promise<string> {
+  const projects = await listProjects(db);
+  return JSON.stringify(
+    projects.map((p) => ({
+      id: p.id,
+      name: p.name,
+      status: p.status,
+      budgetCents: p.budgetCents,
+      spentCents: p.spentCents,
+      remainingCents: p.budgetCents - p.spentCents,
+    }))
+  );
+}
+
+/**
+ * Summarize a project: budget, committed, paid, pending change orders and forecast at completion,
+ * with the same figures per category
+ */
+export async function getProjectSummary(db: D1Database, projectId: string): Promise<string> {
+  const project = await getProject(db, projectId);
+  const { categories, totals } = await listCategories(db, projectId);
+  const expenses = await getExpenseSummary(db, projectId);
+
+  return JSON.stringify({
+    project: {
+      id: project.id,
+      name: project.name,
+      status: project.status,
+      startDate: project.startDate,
+      targetDate: project.targetDate,
+    },
+    totals: {
+      ...totals,
+      unpaidCents: expenses.unpaidCents,
+      expenseCount: expenses.count,
+    },
+    categories,
+  });
+}
+
+/**
+ * Forecast whether a project will finish on budget, by burn rate and by earned value
+ */
+export async function getBudgetForecast(
+  db: D1Database,
+  projectId: string,
+  today: string
+): Promise<string> {
+  const forecast = await forecastProject(db, projectId, today);
+  return JSON.stringify(forecast);
+}
+
+/**
+ * Record an expense; `args` is validated exactly as a POST to the expenses route would be
+ */
+export async function addExpense(
+  db: D1Database,
+  projectId: string,
+  args: Record<string, unknown>
+): Promise<string> {
+  const expense = await createExpense(db, projectId, args);
+  return JSON.stringify({ expense });
+}
+
+/**
+ * Change the amount allocated to a category
+ * The key is normalized like category names elsewhere, so "Kitchen " finds "kitchen".
+ */
+export async function updateCategoryAllocation(
+  db: D1Database,
+  projectId: string,
+  category: string,
+  allocatedCents: unknown
+): Promise<string> {
+  const updated = await updateCategory(db, projectId, normalizeCategory(category), { allocatedCents });
+  return JSON.stringify({ category: updated });
+}
+
+/**
+ * Search a project's expenses; filters are validated exactly as the list route's query string
+ */
+export async function searchExpenses(
+  db: D1Database,
+  projectId: string,
+  filters: Record<string, string>
+): Promise<string> {
+  const { filter, limit, offset } = parseExpenseQuery(new URLSearchParams(filters));
+  const page = await listExpenses(db, projectId, filter, { limit, offset });
+  return JSON.stringify({
+    total: page.total,
+    totalAmountCents: page.totalAmountCents,
+    expenses: page.expenses.map((e) => ({
+      id: e.id,
+      date: e.date,
+      vendor: e.vendor,
+      category: e.category,
+      amountCents: e.amountCents,
+      paid: e.paid,
+      notes: e.notes,
+    })),
+  });
+}
+
+/**
+ * Create a what-if scenario; `args` is validated exactly as a POST to the scenarios route would be.
+ * Returns the scenario with its comparison against the real budget
+ */
+export async function createScenarioForAgent(
+  db: D1Database,
+  projectId: string,
+  args: Record<string, unknown>
+): Promise<string> {
+  const scenario = await createScenario(db, projectId, args);
+  const diff = await compareScenario(db, projectId, scenario.id);
+  return JSON.stringify({ scenario, diff });
+}
+
+/**
+ * Compare a scenario, by id or name, with the real budget
+ */
+export async function compareScenarioForAgent(
+  db: D1Database,
+  projectId: string,
+  idOrName: string
+): Promise<string> {
+  const scenario = await findScenario(db, projectId, idOrName);
+  const diff = await compareScenario(db, projectId, scenario.id);
+  return JSON.stringify({ scenario, diff });
+}
+
+/**
+ * Read an uploaded receipt into an expense draft for the user to confirm in the chat
+ */
+export async function extractReceipt(
+  env: Env,
+  projectId: string,
+  attachmentId: string | undefined,
+  onUsage?: (usage: TokenUsage, model: string) => void
+): Promise<{ draft: ExpenseDraft; result: string }> {
+  const draft = await createExpenseDraft(env, projectId, attachmentId, onUsage);
+  const result = JSON.stringify({
+    draftId: draft.id,
+    attachmentId: draft.attachmentId,
+    extraction: draft.extraction,
+    needsReview: lowConfidenceFields(draft.extraction),
+    note: 'The draft is shown to the user, who confirms or edits it in the chat. It is NOT recorded yet; do not call add_expense for it.',
+  });
+  return { draft, result };
+}
+
+/**
+ * Formats a validation failure so the model can see which fields to fix
+ */
+export function formatValidationError(error: ValidationError): string {
+  const details = Object.entries(error.fields)
+    .map(([field, message]) => `${field}: ${message}`)
+    .join('; ');
+  return `${error.message} (${details})`;
+}
+
+/**
+ * Tool definitions for budget data, offered alongside the git tools
+ */
+export const budgetAgentTools = [
+  {
+    type: 'function' as const,
+    function: {
+      name: 'list_projects',
+      description: 'List active remodel projects with their id, status, budget and spend (amounts in cents)',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+    },
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'get_project_summary',
+      description: 'Get a project budget summary: budget, spent, committed (contracts and accepted bids), paid/unpaid, pending change orders and forecast at completion, and each category with allocated, spent, committed, forecast, remaining and over/under status (amounts in cents)',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: {
+            type: 'string',
+            description: 'The project id (from list_projects)',
+          },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'forecast_budget',
+      description: 'Forecast whether a project will finish on budget. Returns the estimate at completion, variance at completion (budget minus estimate, negative for an overrun) and projected overrun date for the project and each category, by linear burn rate and by earned value (cost performance index from each category\'s percent complete), with warnings about missing data (amounts in cents)',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: { type: 'string', description: 'The project id (from list_projects)' },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'add_expense',
+      description: 'Record an expense line item on a project',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: { type: 'string', description: 'The project id' },
+          date: { type: 'string', description: 'Date of the expense, YYYY-MM-DD' },
+          vendor: { type: 'string', description: 'Who was paid' },
+          category: { type: 'string', description: 'Budget category key, e.g. "plumbing"' },
+          amountCents: { type: 'integer', description: 'Amount in cents, e.g. 12550 for $125.50' },
+          paymentMethod: {
+            type: 'string',
+            description: 'One of cash, check, credit_card, debit_card, bank_transfer, financing, other',
+          },
+          notes: { type: 'string', description: 'Optional notes' },
+          paid: { type: 'boolean', description: 'Whether the expense has been paid (default false)' },
+        },
+        required: ['projectId', 'date', 'vendor', 'category', 'amountCents'],
+      },
+    },
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'extract_receipt',
+      description: 'Read an uploaded receipt or invoice (PDF or photo) and propose a draft expense: vendor, date, line items, tax, total and a suggested category, each with a confidence. The user confirms or edits the draft in the chat before it is recorded (amounts in cents)',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: { type: 'string', description: 'The project id' },
+          attachmentId: {
+            type: 'string',
+            description: 'The uploaded file; defaults to the project\'s latest upload not yet linked to an expense',
+          },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'update_category_allocation',
+      description: 'Set the amount allocated to a budget category',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: { type: 'string', description: 'The project id' },
+          category: { type: 'string', description: 'Budget category key, e.g. "cabinets"' },
+          allocatedCents: { type: 'integer', description: 'New allocation in cents' },
+        },
+        required: ['projectId', 'category', 'allocatedCents'],
+      },
+    },
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'search_expenses',
+      description: 'Search a project\'s expenses by date range, category, vendor or paid status. Returns matching line items and their total (amounts in cents)',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: { type: 'string', description: 'The project id' },
+          from: { type: 'string', description: 'Earliest date, YYYY-MM-DD' },
+          to: { type: 'string', description: 'Latest date, YYYY-MM-DD' },
+          category: { type: 'string', description: 'Budget category key' },
+          vendor: { type: 'string', description: 'Part of the vendor name' },
+          paid: { type: 'boolean', description: 'Only paid (true) or unpaid (false) expenses' },
+          limit: { type: 'integer', description: 'Maximum number of results (default 50)' },
+        },
+        required: ['projectId'],
+      },
+    },
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'create_scenario',
+      description: 'Create a what-if scenario on a project to model a change (e.g. quartz instead of laminate, adding a window) without touching the real budget, and compare it with the budget: total, per category and contingency left. A scenario can change category allocations and add, reprice or remove line items (amounts in cents)',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: { type: 'string', description: 'The project id' },
+          name: { type: 'string', description: 'A short, unique name, e.g. "Quartz counters"' },
+          description: { type: 'string', description: 'Optional description' },
+          categories: {
+            type: 'array',
+            description: 'Category changes',
+            items: {
+              type: 'object',
+              properties: {
+                key: { type: 'string', description: 'Category key, e.g. "finishes"; a new key adds a category' },
+                name: { type: 'string', description: 'Category name (required for a new category)' },
+                allocatedCents: { type: 'integer', description: 'Allocation in the scenario' },
+                removed: { type: 'boolean', description: 'Remove the category' },
+              },
+              required: ['key'],
+            },
+          },
+          items: {
+            type: 'array',
+            description: 'Line item changes: a new line item (vendor, category, amountCents), or an existing expense (expenseId from search_expenses) with a new amountCents or removed: true',
+            items: {
+              type: 'object',
+              properties: {
+                expenseId: { type: 'string', description: 'The expense to reprice or remove' },
+                vendor: { type: 'string', description: 'Who would be paid (new line items)' },
+                category: { type: 'string', description: 'Budget category key (new line items)' },
+                amountCents: { type: 'integer', description: 'Amount in cents' },
+                date: { type: 'string', description: 'Expected date, YYYY-MM-DD (new line items, optional)' },
+                notes: { type: 'string', description: 'What the line item is for (new line items)' },
+                removed: { type: 'boolean', description: 'Remove the expense' },
+              },
+            },
+          },
+        },
+        required: ['projectId', 'name'],
+      },
+    },
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'compare_scenario',
+      description: 'Compare a what-if scenario with the real budget: totals, each category\'s allocation, spend and forecast, contingency left, and anything that would stop it from being promoted (amounts in cents)',
+      parameters: {
+        type: 'object',
+        properties: {
+          projectId: { type: 'string', description: 'The project id' },
+          scenario: { type: 'string', description: 'The scenario id or name' },
+        },
+        required: ['projectId', 'scenario'],
+      },
+    },
+  },
+];
@@ -0,0 +1,392 @@
+/**
+ * Budget Categories API
+ * Per-project categories with allocations; spend, remaining amount and
+ * over/under status are computed from the expense ledger, and committed cost
+ * from contracts and accepted contractor bids (see contracts.ts and bids.ts).
+ *
+ * The forecast at completion of a category is what it is expected to cost in the end: its
+ * allocation, or more when commitments plus spend outside contracts exceed it, plus the
+ * change orders still proposed. Contingency only forecasts what was charged to it directly,
+ * since unused contingency is not expected to be spent.
+ *
+ * Routes:
+ * - GET    /api/projects/:id/categories         List categories with spend and status
+ * - POST   /api/projects/:id/categories         Add a category
+ * - GET    /api/projects/:id/categories/:key    Get a category
+ * - PATCH  /api/projects/:id/categories/:key    Rename, reallocate or update the percent complete of a category
+ * - DELETE /api/projects/:id/categories/:key    Delete a category with no expenses, bids or contracts
+ */
+
+import { CONTINGENCY_KEY } from './category-template';
+import { getDatabase, nowIso } from './db';
+import { ConflictError, NotFoundError, ValidationError, jsonResponse, matchPath, readJsonBody } from './http';
+import { getProject, getWritableProject } from './projects';
+import {
+  normalizeCategory,
+  readCents,
+  readPercent,
+  readString,
+  throwIfInvalid,
+  type FieldErrors,
+} from './validate';
+
+export type CategoryStatus = 'under' | 'at_limit' | 'over';
+
+export interface BudgetCategory {
+  key: string;
+  name: string;
+  allocatedCents: number;
+  spentCents: number;
+  /** Contract amounts, with approved change orders, and accepted bids without a contract yet */
+  committedCents: number;
+  /** Cost deltas of the change orders still proposed */
+  pendingChangeOrderCents: number;
+  forecastCents: number;
+  remainingCents: number;
+  /** Spend as a percentage of the allocation, to one decimal; null when nothing is allocated but money was spent */
+  percentConsumed: number | null;
+  /** How far along the work is (0-100), as estimated by the user; null until set */
+  percentComplete: number | null;
+  status: CategoryStatus;
+}
+
+export interface CategoryBreakdown {
+  categories: BudgetCategory[];
+  totals: {
+    budgetCents: number;
+    allocatedCents: number;
+    spentCents: number;
+    committedCents: number;
+    paidCents: number;
+    pendingChangeOrderCents: number;
+    /** Forecast at completion */
+    forecastCents: number;
+    remainingCents: number;
+    /** Budget not yet assigned to a category; negative when allocations exceed the budget */
+    unallocatedCents: number;
+  };
+}
+
+interface CategoryRow {
+  key: string;
+  name: string;
+  allocated_cents: number;
+  percent_complete: number | null;
+  spent_cents: number;
+  committed_cents: number;
+  pending_change_order_cents: number;
+  /** Spend recorded by paying contract payments, which the commitment already covers */
+  contract_paid_cents: number;
+}
+
+export interface CategoryInput {
+  key?: string;
+  name?: string;
+  allocatedCents?: number;
+  percentComplete?: number | null;
+}
+
+export function categoryStatus(allocatedCents: number, spentCents: number): CategoryStatus {
+  if (spentCents > allocatedCents) return 'over';
+  if (spentCents === allocatedCents && allocatedCents > 0) return 'at_limit';
+  return 'under';
+}
+
+/**
+ * Forecast at completion of a category; `contractPaidCents` is its spend recorded by paying
+ * contract payments, which the commitment already covers
+ */
+export function categoryForecastCents(
+  category: Pick<BudgetCategory, 'key' | 'allocatedCents' | 'spentCents' | 'committedCents' | 'pendingChangeOrderCents'>,
+  contractPaidCents: number
+): number {
+  const exposure = category.committedCents + category.spentCents - contractPaidCents;
+  const expected = category.key === CONTINGENCY_KEY ? exposure : Math.max(category.allocatedCents, exposure);
+  return expected + category.pendingChangeOrderCents;
+}
+
+function toCategory(row: CategoryRow): BudgetCategory {
+  const percentConsumed =
+    row.allocated_cents > 0
+      ? Math.round((row.spent_cents / row.allocated_cents) * 1000) / 10
+      : row.spent_cents > 0
+        ? null
+        : 0;
+  return {
+    key: row.key,
+    name: row.name,
+    allocatedCents: row.allocated_cents,
+    spentCents: row.spent_cents,
+    committedCents: row.committed_cents,
+    pendingChangeOrderCents: row.pending_change_order_cents,
+    forecastCents: categoryForecastCents(
+      {
+        key: row.key,
+        allocatedCents: row.allocated_cents,
+        spentCents: row.spent_cents,
+        committedCents: row.committed_cents,
+        pendingChangeOrderCents: row.pending_change_order_cents,
+      },
+      row.contract_paid_cents
+    ),
+    remainingCents: row.allocated_cents - row.spent_cents,
+    percentConsumed,
+    percentComplete: row.percent_complete,
+    status: categoryStatus(row.allocated_cents, row.spent_cents),
+  };
+}
+
+/**
+ * Validates a create (partial = false) or update (partial = true) payload
+ * On create, the key defaults to the slug of the name
+ */
+export function validateCategoryInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): CategoryInput {
+  const errors: FieldErrors = {};
+  const input: CategoryInput = {};
+
+  const name = readString(body, 'name', errors, { required: !partial, maxLength: 60 });
+  if (name != null) input.name = name;
+
+  if (!partial) {
+    const key = readString(body, 'key', errors, { maxLength: 50 });
+    const slug = normalizeCategory(key ?? name ?? '');
+    if (slug) {
+      input.key = slug;
+    } else if (!errors.name && !errors.key) {
+      errors.key = 'key must contain letters or numbers';
+    }
+  }
+
+  const allocatedCents = readCents(body, 'allocatedCents', errors, { required: !partial });
+  if (allocatedCents != null) input.allocatedCents = allocatedCents;
+
+  const percentComplete = readPercent(body, 'percentComplete', errors, { nullable: true });
+  if (percentComplete !== undefined) input.percentComplete = percentComplete;
+
+  throwIfInvalid(errors);
+  return input;
+}
+
+const CATEGORY_SELECT = `
+  SELECT c.key, c.name, c.allocated_cents, c.percent_complete,
+         COALESCE((SELECT SUM(e.amount_cents) FROM expenses e
+                   WHERE e.project_id = c.project_id AND e.category = c.key), 0) AS spent_cents,
+         COALESCE((SELECT SUM(li.amount_cents) FROM bids b JOIN bid_line_items li ON li.bid_id = b.id
+                   WHERE b.project_id = c.project_id AND b.category = c.key AND b.status = 'accepted'
+                     AND NOT EXISTS (SELECT 1 FROM contracts k WHERE k.bid_id = b.id)), 0)
+           + COALESCE((SELECT SUM(k.amount_cents) FROM contracts k
+                       WHERE k.project_id = c.project_id AND k.category = c.key), 0)
+           + COALESCE((SELECT SUM(o.cost_delta_cents) FROM change_orders o JOIN contracts k ON k.id = o.contract_id
+                       WHERE k.project_id = c.project_id AND k.category = c.key AND o.status = 'approved'), 0) AS committed_cents,
+         COALESCE((SELECT SUM(o.cost_delta_cents) FROM change_orders o JOIN contracts k ON k.id = o.contract_id
+                   WHERE k.project_id = c.project_id AND k.category = c.key AND o.status = 'proposed'), 0) AS pending_change_order_cents,
+         COALESCE((SELECT SUM(e.amount_cents) FROM contract_payments cp
+                   JOIN contracts k ON k.id = cp.contract_id JOIN expenses e ON e.id = cp.expense_id
+                   WHERE k.project_id = c.project_id AND e.category = c.key), 0) AS contract_paid_cents
+  FROM budget_categories c`;
+
+export async function listCategories(
+  db: D1Database,
+  projectId: string
+): Promise<CategoryBreakdown> {
+  const project = await getProject(db, projectId);
+  const { results } = await db
+    .prepare(`${CATEGORY_SELECT} WHERE c.project_id = ? ORDER BY c.sort_order, c.key`)
+    .bind(projectId)
+    .all<CategoryRow>();
+
+  const categories = results.map(toCategory);
+  const allocatedCents = categories.reduce((sum, c) => sum + c.allocatedCents, 0);
+  const spentCents = categories.reduce((sum, c) => sum + c.spentCents, 0);
+  const committedCents = categories.reduce((sum, c) => sum + c.committedCents, 0);
+  const pendingChangeOrderCents = categories.reduce((sum, c) => sum + c.pendingChangeOrderCents, 0);
+  const forecastCents = categories.reduce((sum, c) => sum + c.forecastCents, 0);
+  return {
+    categories,
+    totals: {
+      budgetCents: project.budgetCents,
+      allocatedCents,
+      spentCents,
+      committedCents,
+      paidCents: project.paidCents,
+      pendingChangeOrderCents,
+      forecastCents,
+      remainingCents: project.budgetCents - spentCents,
+      unallocatedCents: project.budgetCents - allocatedCents,
+    },
+  };
+}
+
+export async function getCategory(
+  db: D1Database,
+  projectId: string,
+  key: string
+): Promise<BudgetCategory> {
+  const row = await db
+    .prepare(`${CATEGORY_SELECT} WHERE c.project_id = ? AND c.key = ?`)
+    .bind(projectId, key)
+    .first<CategoryRow>();
+  if (!row) {
+    throw new NotFoundError(`Category ${key} not found`);
+  }
+  return toCategory(row);
+}
+
+/**
+ * Throws a field-level ValidationError unless the category exists on the project
+ */
+export async function assertCategoryExists(
+  db: D1Database,
+  projectId: string,
+  key: string
+): Promise<void> {
+  const row = await db
+    .prepare('SELECT key FROM budget_categories WHERE project_id = ? AND key = ?')
+    .bind(projectId, key)
+    .first();
+  if (row) return;
+
+  const { results } = await db
+    .prepare('SELECT key FROM budget_categories WHERE project_id = ? ORDER BY sort_order, key')
+    .bind(projectId)
+    .all<{ key: string }>();
+  const available = results.map((r) => r.key).join(', ') || 'none';
+  throw new ValidationError({
+    category: `Unknown category "${key}". Available categories: ${available}`,
+  });
+}
+
+export async function createCategory(
+  db: D1Database,
+  projectId: string,
+  body: Record<string, unknown>
+): Promise<BudgetCategory> {
+  const input = validateCategoryInput(body, false);
+  await getWritableProject(db, projectId);
+
+  const existing = await db
+    .prepare('SELECT key FROM budget_categories WHERE project_id = ? AND key = ?')
+    .bind(projectId, input.key)
+    .first();
+  if (existing) {
+    throw new ValidationError({ key: `Category ${input.key} already exists` });
+  }
+
+  const timestamp = nowIso();
+  await db
+    .prepare(
+      `INSERT INTO budget_categories (project_id, key, name, allocated_cents, percent_complete, sort_order, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?,
+               (SELECT COALESCE(MAX(sort_order), -1) + 1 FROM budget_categories WHERE project_id = ?),
+               ?, ?)`
+    )
+    .bind(projectId, input.key, input.name, input.allocatedCents, input.percentComplete ?? null, projectId, timestamp, timestamp)
+    .run();
+
+  return getCategory(db, projectId, input.key!);
+}
+
+export async function updateCategory(
+  db: D1Database,
+  projectId: string,
+  key: string,
+  body: Record<string, unknown>
+): Promise<BudgetCategory> {
+  const input = validateCategoryInput(body, true);
+  await getWritableProject(db, projectId);
+  const existing = await getCategory(db, projectId, key);
+
+  if (input.name === undefined && input.allocatedCents === undefined && input.percentComplete === undefined) {
+    return existing;
+  }
+
+  await db
+    .prepare(
+      `UPDATE budget_categories SET name = ?, allocated_cents = ?, percent_complete = ?, updated_at = ?
+       WHERE project_id = ? AND key = ?`
+    )
+    .bind(
+      input.name ?? existing.name,
+      input.allocatedCents ?? existing.allocatedCents,
+      input.percentComplete !== undefined ? input.percentComplete : existing.percentComplete,
+      nowIso(),
+      projectId,
+      key
+    )
+    .run();
+
+  return getCategory(db, projectId, key);
+}
+
+export async function deleteCategory(
+  db: D1Database,
+  projectId: string,
+  key: string
+): Promise<void> {
+  await getWritableProject(db, projectId);
+  const category = await getCategory(db, projectId, key);
+  if (category.spentCents > 0) {
+    throw new ConflictError(`Category ${key} has expenses; move them to another category first`);
+  }
+  const commitment = await db
+    .prepare(
+      `SELECT id FROM bids WHERE project_id = ?1 AND category = ?2
+       UNION ALL SELECT id FROM contracts WHERE project_id = ?1 AND category = ?2
+       LIMIT 1`
+    )
+    .bind(projectId, key)
+    .first();
+  if (commitment) {
+    throw new ConflictError(`Category ${key} has bids or contracts; move them to another category first`);
+  }
+  await db
+    .prepare('DELETE FROM budget_categories WHERE project_id = ? AND key = ?')
+    .bind(projectId, key)
+    .run();
+}
+
+/**
+ * Routes /api/projects/:id/categories requests
+ * Returns null when the path/method is not a categories route
+ */
+export async function handleCategoriesRequest(
+  request: Request,
+  env: Env,
+  url: URL
+): Promise<Response | null> {
+  const method = request.method;
+
+  const listParams = matchPath('/api/projects/:id/categories', url.pathname);
+  if (listParams) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse(await listCategories(db, listParams.id));
+    }
+    if (method === 'POST') {
+      const category = await createCategory(db, listParams.id, await readJsonBody(request));
+      return jsonResponse({ category }, 201);
+    }
+    return null;
+  }
+
+  const params = matchPath('/api/projects/:id/categories/:key', url.pathname);
+  if (params) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ category: await getCategory(db, params.id, params.key) });
+    }
+    if (method === 'PATCH') {
+      const category = await updateCategory(db, params.id, params.key, await readJsonBody(request));
+      return jsonResponse({ category });
+    }
+    if (method === 'DELETE') {
+      await deleteCategory(db, params.id, params.key);
+      return new Response(null, { status: 204 });
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,46 @@
+/**
+ * Default remodel category template
+ * Applied to every new project so kitchens and baths start with a sensible budget split
+ */
+
+export interface CategoryTemplateEntry {
+  key: string;
+  name: string;
+  /** Share of the project budget, in percent */
+  percent: number;
+}
+
+// Percentages add up to 100; contingency absorbs any rounding remainder
+export const DEFAULT_CATEGORY_TEMPLATE: readonly CategoryTemplateEntry[] = [
+  { key: 'demolition', name: 'Demolition', percent: 8 },
+  { key: 'electrical', name: 'Electrical', percent: 12 },
+  { key: 'plumbing', name: 'Plumbing', percent: 12 },
+  { key: 'cabinets', name: 'Cabinets', percent: 28 },
+  { key: 'finishes', name: 'Finishes', percent: 22 },
+  { key: 'permits', name: 'Permits', percent: 3 },
+  { key: 'contingency', name: 'Contingency', percent: 15 },
+];
+
+export const CONTINGENCY_KEY = 'contingency';
+
+/**
+ * Splits a budget across the template, in whole cents that sum exactly to the budget
+ */
+export function allocateTemplate(
+  budgetCents: number,
+  template: readonly CategoryTemplateEntry[] = DEFAULT_CATEGORY_TEMPLATE
+): { key: string; name: string; allocatedCents: number }[] {
+  const allocations = template.map((entry) => ({
+    key: entry.key,
+    name: entry.name,
+    allocatedCents: Math.floor((budgetCents * entry.percent) / 100),
+  }));
+
+  const remainder = budgetCents - allocations.reduce((sum, a) => sum + a.allocatedCents, 0);
+  const absorber =
+    allocations.find((a) => a.key === CONTINGENCY_KEY) ?? allocations[allocations.length - 1];
+  if (absorber) {
+    absorber.allocatedCents += remainder;
+  }
+  return allocations;
+}
@@ -0,0 +1,429 @@
+/**
+ * Change Orders API
+ * Changes to a signed contract's scope or price. A change order is proposed with a reason
+ * code and a cost delta (negative for a credit), then approved or rejected. Proposed change
+ * orders count towards the forecast at completion; approving one adds its delta to the
+ * contract amount and so to the committed cost of the contract's category.
+ *
+ * Approval draws on contingency automatically: the delta moves from the contingency
+ * category's allocation to the contract's category, as far as contingency has allocation
+ * left that was neither spent nor committed. A credit gives allocation back to contingency.
+ * The amount moved is stored on the change order.
+ *
+ * Routes:
+ * - GET    /api/projects/:id/change-orders                            List change orders (?status=, ?contractId=)
+ * - POST   /api/projects/:id/change-orders                            Propose a change order
+ * - GET    /api/projects/:id/change-orders/:changeOrderId             Get a change order
+ * - PATCH  /api/projects/:id/change-orders/:changeOrderId             Update a proposed change order
+ * - DELETE /api/projects/:id/change-orders/:changeOrderId             Delete a change order that was not approved
+ * - POST   /api/projects/:id/change-orders/:changeOrderId/approve     Approve, drawing on contingency
+ * - POST   /api/projects/:id/change-orders/:changeOrderId/reject      Reject
+ */
+
+import { getCategory, type BudgetCategory } from './categories';
+import { CONTINGENCY_KEY } from './category-template';
+import { getContract } from './contracts';
+import { getDatabase, nowIso } from './db';
+import { ConflictError, NotFoundError, jsonResponse, matchPath, readJsonBody } from './http';
+import { getProject, getWritableProject } from './projects';
+import { readCents, readEnum, readString, throwIfInvalid, type FieldErrors } from './validate';
+
+export const CHANGE_ORDER_STATUSES = ['proposed', 'approved', 'rejected'] as const;
+export type ChangeOrderStatus = (typeof CHANGE_ORDER_STATUSES)[number];
+
+export const CHANGE_ORDER_REASONS = [
+  'owner_request',
+  'design_change',
+  'unforeseen_condition',
+  'code_requirement',
+  'scope_gap',
+  'other',
+] as const;
+export type ChangeOrderReason = (typeof CHANGE_ORDER_REASONS)[number];
+
+export interface ChangeOrder {
+  id: string;
+  projectId: string;
+  contractId: string;
+  /** Numbered 1, 2, 3... per project */
+  number: number;
+  title: string;
+  description: string | null;
+  reason: ChangeOrderReason;
+  /** Added to the contract amount on approval; negative for a credit */
+  costDeltaCents: number;
+  /** The contract's category, which the delta is committed against */
+  category: string;
+  status: ChangeOrderStatus;
+  /** Allocation moved out of contingency on approval (negative when returned to it) */
+  contingencyDrawCents: number | null;
+  decidedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChangeOrderApproval {
+  changeOrder: ChangeOrder;
+  category: BudgetCategory;
+  /** The contingency category after the draw; null when the project has none */
+  contingency: BudgetCategory | null;
+  /** Part of the delta contingency could not cover */
+  shortfallCents: number;
+}
+
+interface ChangeOrderInput {
+  contractId?: string;
+  title?: string;
+  description?: string | null;
+  reason?: ChangeOrderReason;
+  costDeltaCents?: number;
+}
+
+interface ChangeOrderRow {
+  id: string;
+  project_id: string;
+  contract_id: string;
+  number: number;
+  title: string;
+  description: string | null;
+  reason: ChangeOrderReason;
+  cost_delta_cents: number;
+  category: string;
+  status: ChangeOrderStatus;
+  contingency_draw_cents: number | null;
+  decided_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const CHANGE_ORDER_SELECT = `
+  SELECT o.*, k.category
+  FROM change_orders o
+  JOIN contracts k ON k.id = o.contract_id`;
+
+function toChangeOrder(row: ChangeOrderRow): ChangeOrder {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    contractId: row.contract_id,
+    number: row.number,
+    title: row.title,
+    description: row.description,
+    reason: row.reason,
+    costDeltaCents: row.cost_delta_cents,
+    category: row.category,
+    status: row.status,
+    contingencyDrawCents: row.contingency_draw_cents,
+    decidedAt: row.decided_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Validates a create (partial = false) or update (partial = true) payload
+ */
+export function validateChangeOrderInput(body: Record<string, unknown>, partial: boolean): ChangeOrderInput {
+  const errors: FieldErrors = {};
+  const input: ChangeOrderInput = {};
+
+  if (!partial) {
+    const contractId = readString(body, 'contractId', errors, { required: true, maxLength: 100 });
+    if (contractId != null) input.contractId = contractId;
+  }
+
+  const title = readString(body, 'title', errors, { required: !partial, maxLength: 120 });
+  if (title != null) input.title = title;
+
+  const description = readString(body, 'description', errors, { nullable: true, maxLength: 2000 });
+  if (description !== undefined) input.description = description;
+
+  const reason = readEnum(body, 'reason', CHANGE_ORDER_REASONS, errors, { required: !partial });
+  if (reason != null) input.reason = reason;
+
+  const costDeltaCents = readCents(body, 'costDeltaCents', errors, { required: !partial, allowNegative: true });
+  if (costDeltaCents != null) input.costDeltaCents = costDeltaCents;
+
+  throwIfInvalid(errors);
+  return input;
+}
+
+export async function listChangeOrders(
+  db: D1Database,
+  projectId: string,
+  filter: { status?: ChangeOrderStatus; contractId?: string } = {}
+): Promise<ChangeOrder[]> {
+  await getProject(db, projectId);
+  const conditions = ['o.project_id = ?'];
+  const values: string[] = [projectId];
+  if (filter.status) {
+    conditions.push('o.status = ?');
+    values.push(filter.status);
+  }
+  if (filter.contractId) {
+    conditions.push('o.contract_id = ?');
+    values.push(filter.contractId);
+  }
+  const { results } = await db
+    .prepare(`${CHANGE_ORDER_SELECT} WHERE ${conditions.join(' AND ')} ORDER BY o.number`)
+    .bind(...values)
+    .all<ChangeOrderRow>();
+  return results.map(toChangeOrder);
+}
+
+export async function getChangeOrder(db: D1Database, projectId: string, changeOrderId: string): Promise<ChangeOrder> {
+  const row = await db
+    .prepare(`${CHANGE_ORDER_SELECT} WHERE o.project_id = ? AND o.id = ?`)
+    .bind(projectId, changeOrderId)
+    .first<ChangeOrderRow>();
+  if (!row) {
+    throw new NotFoundError(`Change order ${changeOrderId} not found`);
+  }
+  return toChangeOrder(row);
+}
+
+export async function createChangeOrder(
+  db: D1Database,
+  projectId: string,
+  body: Record<string, unknown>
+): Promise<ChangeOrder> {
+  const input = validateChangeOrderInput(body, false);
+  await getWritableProject(db, projectId);
+  await getContract(db, projectId, input.contractId!);
+
+  const id = crypto.randomUUID();
+  const timestamp = nowIso();
+  await db
+    .prepare(
+      `INSERT INTO change_orders
+        (id, project_id, contract_id, number, title, description, reason, cost_delta_cents, created_at, updated_at)
+       VALUES (?1, ?2, ?3, (SELECT COALESCE(MAX(number), 0) + 1 FROM change_orders WHERE project_id = ?2), ?4, ?5, ?6, ?7, ?8, ?8)`
+    )
+    .bind(id, projectId, input.contractId, input.title, input.description ?? null, input.reason, input.costDeltaCents, timestamp)
+    .run();
+  return getChangeOrder(db, projectId, id);
+}
+
+async function getProposedChangeOrder(db: D1Database, projectId: string, changeOrderId: string): Promise<ChangeOrder> {
+  const changeOrder = await getChangeOrder(db, projectId, changeOrderId);
+  if (changeOrder.status !== 'proposed') {
+    throw new ConflictError(`Change order ${changeOrder.number} was already ${changeOrder.status}`);
+  }
+  return changeOrder;
+}
+
+/**
+ * Runs a decision that only applies while the change order is still proposed
+ * Throws a conflict when another request decided it first
+ */
+async function claimChangeOrder(db: D1Database, changeOrder: ChangeOrder, decision: D1PreparedStatement): Promise<void> {
+  const result = await decision.run();
+  if (result.meta.changes === 0) {
+    const current = await getChangeOrder(db, changeOrder.projectId, changeOrder.id);
+    throw new ConflictError(`Change order ${changeOrder.number} was already ${current.status}`);
+  }
+}
+
+export async function updateChangeOrder(
+  db: D1Database,
+  projectId: string,
+  changeOrderId: string,
+  body: Record<string, unknown>
+): Promise<ChangeOrder> {
+  const input = validateChangeOrderInput(body, true);
+  await getWritableProject(db, projectId);
+  const existing = await getProposedChangeOrder(db, projectId, changeOrderId);
+
+  await db
+    .prepare(
+      `UPDATE change_orders SET title = ?, description = ?, reason = ?, cost_delta_cents = ?, updated_at = ?
+       WHERE id = ?`
+    )
+    .bind(
+      input.title ?? existing.title,
+      input.description !== undefined ? input.description : existing.description,
+      input.reason ?? existing.reason,
+      input.costDeltaCents ?? existing.costDeltaCents,
+      nowIso(),
+      changeOrderId
+    )
+    .run();
+  return getChangeOrder(db, projectId, changeOrderId);
+}
+
+export async function deleteChangeOrder(db: D1Database, projectId: string, changeOrderId: string): Promise<void> {
+  await getWritableProject(db, projectId);
+  const changeOrder = await getChangeOrder(db, projectId, changeOrderId);
+  if (changeOrder.status === 'approved') {
+    throw new ConflictError(`Change order ${changeOrder.number} was approved and is part of the contract`);
+  }
+  await db.prepare('DELETE FROM change_orders WHERE id = ?').bind(changeOrderId).run();
+}
+
+async function findCategory(db: D1Database, projectId: string, key: string): Promise<BudgetCategory | null> {
+  try {
+    return await getCategory(db, projectId, key);
+  } catch (error) {
+    if (error instanceof NotFoundError) return null;
+    throw error;
+  }
+}
+
+/**
+ * How much allocation approving a delta moves from contingency to the contract's category:
+ * up to what contingency has left for an increase, up to the category's allocation for a credit
+ */
+export function contingencyDraw(
+  costDeltaCents: number,
+  category: Pick<BudgetCategory, 'key' | 'allocatedCents'>,
+  contingency: Pick<BudgetCategory, 'allocatedCents' | 'spentCents' | 'committedCents'> | null
+): number {
+  if (!contingency || category.key === CONTINGENCY_KEY) return 0;
+  if (costDeltaCents >= 0) {
+    const available = Math.max(contingency.allocatedCents - contingency.spentCents - contingency.committedCents, 0);
+    return Math.min(costDeltaCents, available);
+  }
+  return -Math.min(-costDeltaCents, category.allocatedCents);
+}
+
+/**
+ * Approves a proposed change order: the contract amount changes by its delta and the same
+ * amount of allocation is drawn from contingency where it can be
+ */
+export async function approveChangeOrder(
+  db: D1Database,
+  projectId: string,
+  changeOrderId: string
+): Promise<ChangeOrderApproval> {
+  await getWritableProject(db, projectId);
+  const changeOrder = await getProposedChangeOrder(db, projectId, changeOrderId);
+  const contract = await getContract(db, projectId, changeOrder.contractId);
+  if (contract.currentAmountCents + changeOrder.costDeltaCents < contract.paidCents) {
+    throw new ConflictError(
+      `Change order ${changeOrder.number} would take contract "${contract.title}" below the ${contract.paidCents} cents already paid`
+    );
+  }
+
+  const category = await getCategory(db, projectId, changeOrder.category);
+  const contingency = await findCategory(db, projectId, CONTINGENCY_KEY);
+  const draw = contingencyDraw(changeOrder.costDeltaCents, category, contingency);
+
+  // Claim the change order before moving money so a concurrent approval cannot draw twice
+  const timestamp = nowIso();
+  await claimChangeOrder(
+    db,
+    changeOrder,
+    db
+      .prepare(
+        `UPDATE change_orders SET status = 'approved', contingency_draw_cents = ?, decided_at = ?, updated_at = ?
+         WHERE id = ? AND status = 'proposed'`
+      )
+      .bind(draw, timestamp, timestamp, changeOrderId)
+  );
+
+  if (draw !== 0) {
+    const reallocate = (key: string, deltaCents: number) =>
+      db
+        .prepare(
+          `UPDATE budget_categories SET allocated_cents = allocated_cents + ?, updated_at = ?
+           WHERE project_id = ? AND key = ?`
+        )
+        .bind(deltaCents, timestamp, projectId, key);
+    try {
+      await db.batch([reallocate(CONTINGENCY_KEY, -draw), reallocate(category.key, draw)]);
+    } catch (error) {
+      await db
+        .prepare(
+          `UPDATE change_orders SET status = 'proposed', contingency_draw_cents = NULL, decided_at = NULL, updated_at = ?
+           WHERE id = ?`
+        )
+        .bind(changeOrder.updatedAt, changeOrderId)
+        .run();
+      throw error;
+    }
+  }
+
+  return {
+    changeOrder: await getChangeOrder(db, projectId, changeOrderId),
+    category: await getCategory(db, projectId, category.key),
+    contingency: contingency && (await getCategory(db, projectId, CONTINGENCY_KEY)),
+    shortfallCents: Math.max(changeOrder.costDeltaCents - draw, 0),
+  };
+}
+
+export async function rejectChangeOrder(db: D1Database, projectId: string, changeOrderId: string): Promise<ChangeOrder> {
+  await getWritableProject(db, projectId);
+  const changeOrder = await getProposedChangeOrder(db, projectId, changeOrderId);
+  const timestamp = nowIso();
+  await claimChangeOrder(
+    db,
+    changeOrder,
+    db
+      .prepare(`UPDATE change_orders SET status = 'rejected', decided_at = ?, updated_at = ? WHERE id = ? AND status = 'proposed'`)
+      .bind(timestamp, timestamp, changeOrderId)
+  );
+  return getChangeOrder(db, projectId, changeOrderId);
+}
+
+function readChangeOrderFilter(url: URL): { status?: ChangeOrderStatus; contractId?: string } {
+  const query = Object.fromEntries(url.searchParams);
+  const errors: FieldErrors = {};
+  const status = readEnum(query, 'status', CHANGE_ORDER_STATUSES, errors);
+  const contractId = readString(query, 'contractId', errors, { maxLength: 100 });
+  throwIfInvalid(errors);
+  return { status: status ?? undefined, contractId: contractId ?? undefined };
+}
+
+/**
+ * Routes /api/projects/:id/change-orders requests
+ * Returns null when the path/method is not a change order route
+ */
+export async function handleChangeOrdersRequest(
+  request: Request,
+  env: Env,
+  url: URL
+): Promise<Response | null> {
+  const method = request.method;
+
+  const listParams = matchPath('/api/projects/:id/change-orders', url.pathname);
+  if (listParams) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ changeOrders: await listChangeOrders(db, listParams.id, readChangeOrderFilter(url)) });
+    }
+    if (method === 'POST') {
+      const changeOrder = await createChangeOrder(db, listParams.id, await readJsonBody(request));
+      return jsonResponse({ changeOrder }, 201);
+    }
+    return null;
+  }
+
+  const approveParams = matchPath('/api/projects/:id/change-orders/:changeOrderId/approve', url.pathname);
+  if (approveParams && method === 'POST') {
+    return jsonResponse(await approveChangeOrder(getDatabase(env), approveParams.id, approveParams.changeOrderId));
+  }
+
+  const rejectParams = matchPath('/api/projects/:id/change-orders/:changeOrderId/reject', url.pathname);
+  if (rejectParams && method === 'POST') {
+    const changeOrder = await rejectChangeOrder(getDatabase(env), rejectParams.id, rejectParams.changeOrderId);
+    return jsonResponse({ changeOrder });
+  }
+
+  const params = matchPath('/api/projects/:id/change-orders/:changeOrderId', url.pathname);
+  if (params) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ changeOrder: await getChangeOrder(db, params.id, params.changeOrderId) });
+    }
+    if (method === 'PATCH') {
+      const changeOrder = await updateChangeOrder(db, params.id, params.changeOrderId, await readJsonBody(request));
+      return jsonResponse({ changeOrder });
+    }
+    if (method === 'DELETE') {
+      await deleteChangeOrder(db, params.id, params.changeOrderId);
+      return new Response(null, { status: 204 });
+    }
+  }
+
+  return null;
+}
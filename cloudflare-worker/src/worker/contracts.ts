@@ -0,0 +1,580 @@
+/**
+ * Contracts API
+ * Signed contracts commit their amount against a budget category until it is paid. Each has
+ * a payment schedule (deposit, milestones, final payment). Paying a scheduled payment records
+ * it in the ledger as a paid expense, so the category's spend grows as its commitment is paid
+ * off. Approved change orders (see change-orders.ts) adjust the contract amount.
+ *
+ * A contract can be signed for an accepted bid, taking its vendor, category, scope and total
+ * as defaults. The contract then replaces the bid as the commitment.
+ *
+ * Routes:
+ * - GET    /api/projects/:id/contracts                                          List contracts
+ * - POST   /api/projects/:id/contracts                                          Add a contract with its payment schedule
+ * - GET    /api/projects/:id/contracts/:contractId                              Get a contract
+ * - PATCH  /api/projects/:id/contracts/:contractId                              Update a contract
+ * - DELETE /api/projects/:id/contracts/:contractId                              Delete a contract with no payments made or change orders
+ * - POST   /api/projects/:id/contracts/:contractId/payments                     Schedule a payment
+ * - PATCH  /api/projects/:id/contracts/:contractId/payments/:paymentId          Update an outstanding payment
+ * - DELETE /api/projects/:id/contracts/:contractId/payments/:paymentId          Remove an outstanding payment
+ * - POST   /api/projects/:id/contracts/:contractId/payments/:paymentId/pay      Pay a scheduled payment, recording an expense
+ */
+
+import { getBid } from './bids';
+import { assertCategoryExists } from './categories';
+import { getDatabase, nowIso } from './db';
+import { PAYMENT_METHODS, createExpense, deleteExpense, type Expense } from './expenses';
+import { ConflictError, NotFoundError, ValidationError, jsonResponse, matchPath, readJsonBody } from './http';
+import { getProject, getWritableProject } from './projects';
+import {
+  normalizeCategory,
+  readCents,
+  readDate,
+  readEnum,
+  readString,
+  throwIfInvalid,
+  type FieldErrors,
+} from './validate';
+import { assertVendorExists } from './vendors';
+
+const MAX_PAYMENTS = 50;
+
+export interface ContractPayment {
+  id: string;
+  description: string;
+  dueDate: string | null;
+  amountCents: number;
+  /** The paid expense recorded for the payment; null while it is outstanding */
+  expenseId: string | null;
+  paidOn: string | null;
+}
+
+export interface Contract {
+  id: string;
+  projectId: string;
+  vendor: { id: string; name: string };
+  bidId: string | null;
+  title: string;
+  category: string;
+  /** Amount as signed */
+  amountCents: number;
+  /** Sum of the approved change orders' cost deltas */
+  changeOrderCents: number;
+  currentAmountCents: number;
+  paidCents: number;
+  /** Still owed: the current amount less what was paid */
+  balanceCents: number;
+  /** Part of the current amount no scheduled payment covers yet */
+  unscheduledCents: number;
+  signedOn: string | null;
+  notes: string | null;
+  payments: ContractPayment[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ContractInput {
+  vendorId?: string;
+  bidId?: string;
+  title?: string;
+  category?: string;
+  amountCents?: number;
+  signedOn?: string | null;
+  notes?: string | null;
+  payments?: PaymentInput[];
+}
+
+interface PaymentInput {
+  description?: string;
+  dueDate?: string | null;
+  amountCents?: number;
+}
+
+interface ContractRow {
+  id: string;
+  project_id: string;
+  vendor_id: string;
+  vendor_name: string;
+  bid_id: string | null;
+  title: string;
+  category: string;
+  amount_cents: number;
+  change_order_cents: number;
+  signed_on: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface PaymentRow {
+  id: string;
+  contract_id: string;
+  description: string;
+  due_date: string | null;
+  amount_cents: number;
+  expense_id: string | null;
+  paid_on: string | null;
+}
+
+const CONTRACT_SELECT = `
+  SELECT k.*, v.name AS vendor_name,
+         COALESCE((SELECT SUM(o.cost_delta_cents) FROM change_orders o
+                   WHERE o.contract_id = k.id AND o.status = 'approved'), 0) AS change_order_cents
+  FROM contracts k
+  JOIN vendors v ON v.id = k.vendor_id`;
+
+const PAYMENT_SELECT = `
+  SELECT cp.*, e.expense_date AS paid_on
+  FROM contract_payments cp
+  LEFT JOIN expenses e ON e.id = cp.expense_id`;
+
+function toPayment(row: PaymentRow): ContractPayment {
+  return {
+    id: row.id,
+    description: row.description,
+    dueDate: row.due_date,
+    amountCents: row.amount_cents,
+    expenseId: row.expense_id,
+    paidOn: row.paid_on,
+  };
+}
+
+function toContract(row: ContractRow, paymentRows: PaymentRow[]): Contract {
+  const payments = paymentRows.map(toPayment);
+  const currentAmountCents = row.amount_cents + row.change_order_cents;
+  const paidCents = payments.reduce((sum, p) => sum + (p.expenseId ? p.amountCents : 0), 0);
+  const scheduledCents = payments.reduce((sum, p) => sum + p.amountCents, 0);
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    vendor: { id: row.vendor_id, name: row.vendor_name },
+    bidId: row.bid_id,
+    title: row.title,
+    category: row.category,
+    amountCents: row.amount_cents,
+    changeOrderCents: row.change_order_cents,
+    currentAmountCents,
+    paidCents,
+    balanceCents: currentAmountCents - paidCents,
+    unscheduledCents: currentAmountCents - scheduledCents,
+    signedOn: row.signed_on,
+    notes: row.notes,
+    payments,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Validates a payment payload; `prefix` namespaces the field errors ("payments.0.")
+ */
+function readPayment(body: Record<string, unknown>, errors: FieldErrors, partial: boolean, prefix = ''): PaymentInput {
+  const paymentErrors: FieldErrors = {};
+  const input: PaymentInput = {};
+
+  const description = readString(body, 'description', paymentErrors, { required: !partial, maxLength: 200 });
+  if (description != null) input.description = description;
+
+  const dueDate = readDate(body, 'dueDate', paymentErrors, { nullable: true });
+  if (dueDate !== undefined) input.dueDate = dueDate;
+
+  const amountCents = readCents(body, 'amountCents', paymentErrors, { required: !partial });
+  if (amountCents === 0) {
+    paymentErrors.amountCents = 'amountCents must be greater than 0';
+  } else if (amountCents != null) {
+    input.amountCents = amountCents;
+  }
+
+  for (const [key, message] of Object.entries(paymentErrors)) {
+    errors[`${prefix}${key}`] = message;
+  }
+  return input;
+}
+
+/**
+ * Validates a create (partial = false) or update (partial = true) payload
+ * When a bid is given, vendor, title, category and amount default to the bid's
+ */
+export function validateContractInput(body: Record<string, unknown>, partial: boolean): ContractInput {
+  const errors: FieldErrors = {};
+  const input: ContractInput = {};
+  const fromBid = !partial && body.bidId != null;
+
+  if (!partial) {
+    const bidId = readString(body, 'bidId', errors, { maxLength: 100 });
+    if (bidId != null) input.bidId = bidId;
+
+    const vendorId = readString(body, 'vendorId', errors, { required: !fromBid, maxLength: 100 });
+    if (vendorId != null) input.vendorId = vendorId;
+
+    const category = readString(body, 'category', errors, { required: !fromBid, maxLength: 50 });
+    if (category != null) input.category = normalizeCategory(category);
+  }
+
+  const title = readString(body, 'title', errors, { required: !partial && !fromBid, maxLength: 120 });
+  if (title != null) input.title = title;
+
+  const amountCents = readCents(body, 'amountCents', errors, { required: !partial && !fromBid });
+  if (amountCents != null) input.amountCents = amountCents;
+
+  const signedOn = readDate(body, 'signedOn', errors, { nullable: true });
+  if (signedOn !== undefined) input.signedOn = signedOn;
+
+  const notes = readString(body, 'notes', errors, { nullable: true, maxLength: 2000 });
+  if (notes !== undefined) input.notes = notes;
+
+  if (!partial && body.payments !== undefined) {
+    if (!Array.isArray(body.payments) || body.payments.length > MAX_PAYMENTS) {
+      errors.payments = `payments must be a list of at most ${MAX_PAYMENTS} payments`;
+    } else {
+      input.payments = body.payments.map((payment, index) => {
+        if (typeof payment !== 'object' || payment === null || Array.isArray(payment)) {
+          errors[`payments.${index}`] = 'payments must be objects';
+          return {};
+        }
+        return readPayment(payment as Record<string, unknown>, errors, false, `payments.${index}.`);
+      });
+    }
+  }
+
+  throwIfInvalid(errors);
+  return input;
+}
+
+async function loadPayments(db: D1Database, projectId: string, contractId?: string): Promise<Map<string, PaymentRow[]>> {
+  const statement = contractId
+    ? db.prepare(`${PAYMENT_SELECT} WHERE cp.contract_id = ? ORDER BY cp.position`).bind(contractId)
+    : db
+        .prepare(
+          `${PAYMENT_SELECT} JOIN contracts k ON k.id = cp.contract_id
+           WHERE k.project_id = ? ORDER BY cp.contract_id, cp.position`
+        )
+        .bind(projectId);
+  const { results } = await statement.all<PaymentRow>();
+  const byContract = new Map<string, PaymentRow[]>();
+  for (const row of results) {
+    byContract.set(row.contract_id, [...(byContract.get(row.contract_id) ?? []), row]);
+  }
+  return byContract;
+}
+
+export async function listContracts(db: D1Database, projectId: string): Promise<Contract[]> {
+  await getProject(db, projectId);
+  const { results } = await db
+    .prepare(`${CONTRACT_SELECT} WHERE k.project_id = ? ORDER BY k.created_at`)
+    .bind(projectId)
+    .all<ContractRow>();
+  const payments = await loadPayments(db, projectId);
+  return results.map((row) => toContract(row, payments.get(row.id) ?? []));
+}
+
+export async function getContract(db: D1Database, projectId: string, contractId: string): Promise<Contract> {
+  const row = await db
+    .prepare(`${CONTRACT_SELECT} WHERE k.project_id = ? AND k.id = ?`)
+    .bind(projectId, contractId)
+    .first<ContractRow>();
+  if (!row) {
+    throw new NotFoundError(`Contract ${contractId} not found`);
+  }
+  const payments = await loadPayments(db, projectId, contractId);
+  return toContract(row, payments.get(contractId) ?? []);
+}
+
+function assertScheduleFits(currentAmountCents: number, scheduledCents: number): void {
+  if (scheduledCents > currentAmountCents) {
+    throw new ValidationError({
+      payments: `Scheduled payments (${scheduledCents} cents) exceed the contract amount (${currentAmountCents} cents)`,
+    });
+  }
+}
+
+function insertPayment(db: D1Database, contractId: string, payment: PaymentInput, position: number | null): D1PreparedStatement {
+  return db
+    .prepare(
+      `INSERT INTO contract_payments (id, contract_id, position, description, due_date, amount_cents)
+       VALUES (?, ?, COALESCE(?, (SELECT COALESCE(MAX(position), -1) + 1 FROM contract_payments WHERE contract_id = ?)), ?, ?, ?)`
+    )
+    .bind(crypto.randomUUID(), contractId, position, contractId, payment.description, payment.dueDate ?? null, payment.amountCents);
+}
+
+export async function createContract(db: D1Database, projectId: string, body: Record<string, unknown>): Promise<Contract> {
+  const input = validateContractInput(body, false);
+  await getWritableProject(db, projectId);
+
+  if (input.bidId) {
+    const bid = await getBid(db, projectId, input.bidId);
+    if (bid.status !== 'accepted') {
+      throw new ConflictError(`Bid ${bid.id} is ${bid.status}; accept it before signing a contract for it`);
+    }
+    const existing = await db.prepare('SELECT id FROM contracts WHERE bid_id = ?').bind(bid.id).first<{ id: string }>();
+    if (existing) {
+      throw new ConflictError(`Bid ${bid.id} already has contract ${existing.id}`);
+    }
+    input.vendorId ??= bid.vendor.id;
+    input.category ??= bid.category;
+    input.title ??= bid.scope;
+    input.amountCents ??= bid.totalCents;
+  }
+  await assertVendorExists(db, input.vendorId!);
+  await assertCategoryExists(db, projectId, input.category!);
+  const payments = input.payments ?? [];
+  assertScheduleFits(input.amountCents!, payments.reduce((sum, p) => sum + p.amountCents!, 0));
+
+  const id = crypto.randomUUID();
+  const timestamp = nowIso();
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO contracts (id, project_id, vendor_id, bid_id, title, category, amount_cents, signed_on, notes, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        id,
+        projectId,
+        input.vendorId,
+        input.bidId ?? null,
+        input.title,
+        input.category,
+        input.amountCents,
+        input.signedOn ?? null,
+        input.notes ?? null,
+        timestamp,
+        timestamp
+      ),
+    ...payments.map((payment, position) => insertPayment(db, id, payment, position)),
+  ]);
+  return getContract(db, projectId, id);
+}
+
+export async function updateContract(
+  db: D1Database,
+  projectId: string,
+  contractId: string,
+  body: Record<string, unknown>
+): Promise<Contract> {
+  const input = validateContractInput(body, true);
+  await getWritableProject(db, projectId);
+  const existing = await getContract(db, projectId, contractId);
+
+  if (input.amountCents !== undefined) {
+    const currentAmountCents = input.amountCents + existing.changeOrderCents;
+    assertScheduleFits(currentAmountCents, existing.currentAmountCents - existing.unscheduledCents);
+  }
+
+  await db
+    .prepare('UPDATE contracts SET title = ?, amount_cents = ?, signed_on = ?, notes = ?, updated_at = ? WHERE id = ?')
+    .bind(
+      input.title ?? existing.title,
+      input.amountCents ?? existing.amountCents,
+      input.signedOn !== undefined ? input.signedOn : existing.signedOn,
+      input.notes !== undefined ? input.notes : existing.notes,
+      nowIso(),
+      contractId
+    )
+    .run();
+  return getContract(db, projectId, contractId);
+}
+
+export async function deleteContract(db: D1Database, projectId: string, contractId: string): Promise<void> {
+  await getWritableProject(db, projectId);
+  const contract = await getContract(db, projectId, contractId);
+  if (contract.paidCents > 0) {
+    throw new ConflictError(`Contract ${contractId} has payments recorded; it can no longer be deleted`);
+  }
+  const changeOrder = await db.prepare('SELECT id FROM change_orders WHERE contract_id = ? LIMIT 1').bind(contractId).first();
+  if (changeOrder) {
+    throw new ConflictError(`Contract ${contractId} has change orders; delete them first`);
+  }
+  await db.prepare('DELETE FROM contracts WHERE id = ?').bind(contractId).run();
+}
+
+async function getOutstandingPayment(
+  db: D1Database,
+  projectId: string,
+  contractId: string,
+  paymentId: string
+): Promise<{ contract: Contract; payment: ContractPayment }> {
+  const contract = await getContract(db, projectId, contractId);
+  const payment = contract.payments.find((p) => p.id === paymentId);
+  if (!payment) {
+    throw new NotFoundError(`Payment ${paymentId} not found`);
+  }
+  if (payment.expenseId) {
+    throw new ConflictError(`Payment ${paymentId} was already paid on ${payment.paidOn}`);
+  }
+  return { contract, payment };
+}
+
+export async function addContractPayment(
+  db: D1Database,
+  projectId: string,
+  contractId: string,
+  body: Record<string, unknown>
+): Promise<Contract> {
+  const errors: FieldErrors = {};
+  const payment = readPayment(body, errors, false);
+  throwIfInvalid(errors);
+  await getWritableProject(db, projectId);
+  const contract = await getContract(db, projectId, contractId);
+  if (contract.payments.length >= MAX_PAYMENTS) {
+    throw new ValidationError({ payments: `A contract can have at most ${MAX_PAYMENTS} payments` });
+  }
+  assertScheduleFits(contract.currentAmountCents, contract.currentAmountCents - contract.unscheduledCents + payment.amountCents!);
+
+  await insertPayment(db, contractId, payment, null).run();
+  return getContract(db, projectId, contractId);
+}
+
+export async function updateContractPayment(
+  db: D1Database,
+  projectId: string,
+  contractId: string,
+  paymentId: string,
+  body: Record<string, unknown>
+): Promise<Contract> {
+  const errors: FieldErrors = {};
+  const input = readPayment(body, errors, true);
+  throwIfInvalid(errors);
+  await getWritableProject(db, projectId);
+  const { contract, payment } = await getOutstandingPayment(db, projectId, contractId, paymentId);
+  if (input.amountCents !== undefined) {
+    const scheduledCents = contract.currentAmountCents - contract.unscheduledCents;
+    assertScheduleFits(contract.currentAmountCents, scheduledCents - payment.amountCents + input.amountCents);
+  }
+
+  await db
+    .prepare('UPDATE contract_payments SET description = ?, due_date = ?, amount_cents = ? WHERE id = ?')
+    .bind(
+      input.description ?? payment.description,
+      input.dueDate !== undefined ? input.dueDate : payment.dueDate,
+      input.amountCents ?? payment.amountCents,
+      paymentId
+    )
+    .run();
+  return getContract(db, projectId, contractId);
+}
+
+export async function deleteContractPayment(
+  db: D1Database,
+  projectId: string,
+  contractId: string,
+  paymentId: string
+): Promise<Contract> {
+  await getWritableProject(db, projectId);
+  await getOutstandingPayment(db, projectId, contractId, paymentId);
+  await db.prepare('DELETE FROM contract_payments WHERE id = ?').bind(paymentId).run();
+  return getContract(db, projectId, contractId);
+}
+
+/**
+ * Pays a scheduled payment: records it as a paid expense in the contract's category, from
+ * the contract's vendor, and links the expense to the payment
+ */
+export async function payContractPayment(
+  db: D1Database,
+  projectId: string,
+  contractId: string,
+  paymentId: string,
+  body: Record<string, unknown>
+): Promise<{ contract: Contract; expense: Expense }> {
+  const errors: FieldErrors = {};
+  const date = readDate(body, 'date', errors);
+  const paymentMethod = readEnum(body, 'paymentMethod', PAYMENT_METHODS, errors, { nullable: true });
+  throwIfInvalid(errors);
+  const { contract, payment } = await getOutstandingPayment(db, projectId, contractId, paymentId);
+
+  const expense = await createExpense(db, projectId, {
+    date: date ?? nowIso().slice(0, 10),
+    vendor: contract.vendor.name,
+    category: contract.category,
+    amountCents: payment.amountCents,
+    paymentMethod: paymentMethod ?? null,
+    notes: `${contract.title}: ${payment.description}`,
+    paid: true,
+  });
+  // Link only a payment that is still unpaid; a concurrent pay already recorded its own expense
+  const claim = await db
+    .prepare('UPDATE contract_payments SET expense_id = ? WHERE id = ? AND expense_id IS NULL')
+    .bind(expense.id, paymentId)
+    .run();
+  if (claim.meta.changes === 0) {
+    await deleteExpense(db, projectId, expense.id);
+    throw new ConflictError(`Payment ${paymentId} was already paid`);
+  }
+  return { contract: await getContract(db, projectId, contractId), expense };
+}
+
+/**
+ * Routes /api/projects/:id/contracts requests
+ * Returns null when the path/method is not a contracts route
+ */
+export async function handleContractsRequest(
+  request: Request,
+  env: Env,
+  url: URL
+): Promise<Response | null> {
+  const method = request.method;
+
+  const listParams = matchPath('/api/projects/:id/contracts', url.pathname);
+  if (listParams) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ contracts: await listContracts(db, listParams.id) });
+    }
+    if (method === 'POST') {
+      const contract = await createContract(db, listParams.id, await readJsonBody(request));
+      return jsonResponse({ contract }, 201);
+    }
+    return null;
+  }
+
+  const payParams = matchPath('/api/projects/:id/contracts/:contractId/payments/:paymentId/pay', url.pathname);
+  if (payParams && method === 'POST') {
+    const body = request.headers.get('Content-Type')?.includes('application/json') ? await readJsonBody(request) : {};
+    const result = await payContractPayment(getDatabase(env), payParams.id, payParams.contractId, payParams.paymentId, body);
+    return jsonResponse(result, 201);
+  }
+
+  const paymentsParams = matchPath('/api/projects/:id/contracts/:contractId/payments', url.pathname);
+  if (paymentsParams && method === 'POST') {
+    const contract = await addContractPayment(
+      getDatabase(env),
+      paymentsParams.id,
+      paymentsParams.contractId,
+      await readJsonBody(request)
+    );
+    return jsonResponse({ contract }, 201);
+  }
+
+  const paymentParams = matchPath('/api/projects/:id/contracts/:contractId/payments/:paymentId', url.pathname);
+  if (paymentParams) {
+    const db = getDatabase(env);
+    const { id, contractId, paymentId } = paymentParams;
+    if (method === 'PATCH') {
+      const contract = await updateContractPayment(db, id, contractId, paymentId, await readJsonBody(request));
+      return jsonResponse({ contract });
+    }
+    if (method === 'DELETE') {
+      return jsonResponse({ contract: await deleteContractPayment(db, id, contractId, paymentId) });
+    }
+    return null;
+  }
+
+  const params = matchPath('/api/projects/:id/contracts/:contractId', url.pathname);
+  if (params) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ contract: await getContract(db, params.id, params.contractId) });
+    }
+    if (method === 'PATCH') {
+      const contract = await updateContract(db, params.id, params.contractId, await readJsonBody(request));
+      return jsonResponse({ contract });
+    }
+    if (method === 'DELETE') {
+      await deleteContract(db, params.id, params.contractId);
+      return new Response(null, { status: 204 });
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,268 @@
+/**
+ * Conversations API
+ * Chat history stored in D1 per API key, so a refresh does not lose a chat
+ * and the client only sends the new message on each turn.
+ *
+ * Routes:
+ * - GET    /api/conversations        List the key's conversations, most recent first
+ * - GET    /api/conversations/:id    Get a conversation with its messages
+ * - DELETE /api/conversations/:id    Delete a conversation
+ */
+
+import type { ChatMessage } from './agent';
+import { getDatabase, nowIso } from './db';
+import { NotFoundError, jsonResponse, matchPath } from './http';
+import type { Principal } from './auth';
+
+// Approximate model context spent on history; older turns beyond it are left out
+const DEFAULT_TOKEN_BUDGET = 6000;
+// Upper bound on rows read when building the context for a turn
+const MAX_CONTEXT_MESSAGES = 200;
+const TITLE_LENGTH = 60;
+
+export type StoredRole = 'user' | 'assistant';
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StoredMessage {
+  id: number;
+  role: StoredRole;
+  content: string;
+  createdAt: string;
+}
+
+interface ConversationRow {
+  id: string;
+  title: string;
+  message_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MessageRow {
+  id: number;
+  role: StoredRole;
+  content: string;
+  created_at: string;
+}
+
+function toConversation(row: ConversationRow): Conversation {
+  return {
+    id: row.id,
+    title: row.title,
+    messageCount: row.message_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toMessage(row: MessageRow): StoredMessage {
+  return { id: row.id, role: row.role, content: row.content, createdAt: row.created_at };
+}
+
+/**
+ * Reads CONVERSATION_TOKEN_BUDGET, falling back to the default
+ */
+export function getConversationTokenBudget(env: Env): number {
+  const budget = Number.parseInt(env.CONVERSATION_TOKEN_BUDGET ?? '', 10);
+  return budget > 0 ? budget : DEFAULT_TOKEN_BUDGET;
+}
+
+/**
+ * Rough token count (about four characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function conversationTitle(message: string): string {
+  const line = message.trim().replace(/\s+/g, ' ');
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line || 'New conversation';
+}
+
+const CONVERSATION_SELECT = `
+  SELECT c.id, c.title, c.created_at, c.updated_at,
+         (SELECT COUNT(*) FROM conversation_messages m WHERE m.conversation_id = c.id) AS message_count
+  FROM conversations c`;
+
+export async function listConversations(db: D1Database, keyId: string): Promise<Conversation[]> {
+  const { results } = await db
+    .prepare(`${CONVERSATION_SELECT} WHERE c.key_id = ? ORDER BY c.updated_at DESC, c.id`)
+    .bind(keyId)
+    .all<ConversationRow>();
+  return results.map(toConversation);
+}
+
+/**
+ * Gets a conversation; conversations of other API keys are reported as not found
+ */
+export async function getConversation(
+  db: D1Database,
+  keyId: string,
+  id: string
+): Promise<Conversation> {
+  const row = await db
+    .prepare(`${CONVERSATION_SELECT} WHERE c.id = ? AND c.key_id = ?`)
+    .bind(id, keyId)
+    .first<ConversationRow>();
+  if (!row) {
+    throw new NotFoundError(`Conversation ${id} not found`);
+  }
+  return toConversation(row);
+}
+
+export async function getConversationMessages(db: D1Database, id: string): Promise<StoredMessage[]> {
+  const { results } = await db
+    .prepare('SELECT id, role, content, created_at FROM conversation_messages WHERE conversation_id = ? ORDER BY id')
+    .bind(id)
+    .all<MessageRow>();
+  return results.map(toMessage);
+}
+
+/**
+ * Returns the key's conversation with this id, creating it (titled after the
+ * first message) when it does not exist yet
+ */
+export async function openConversation(
+  db: D1Database,
+  keyId: string,
+  id: string,
+  firstMessage: string
+): Promise<Conversation> {
+  const timestamp = nowIso();
+  await db
+    .prepare(
+      `INSERT INTO conversations (id, key_id, title, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO NOTHING`
+    )
+    .bind(id, keyId, conversationTitle(firstMessage), timestamp, timestamp)
+    .run();
+  return getConversation(db, keyId, id);
+}
+
+export async function appendMessage(
+  db: D1Database,
+  conversationId: string,
+  role: StoredRole,
+  content: string
+): Promise<void> {
+  const timestamp = nowIso();
+  await db.batch([
+    db
+      .prepare('INSERT INTO conversation_messages (conversation_id, role, content, created_at) VALUES (?, ?, ?, ?)')
+      .bind(conversationId, role, content, timestamp),
+    db.prepare('UPDATE conversations SET updated_at = ? WHERE id = ?').bind(timestamp, conversationId),
+  ]);
+}
+
+/**
+ * Picks the most recent messages that fit the token budget
+ * The newest message is always kept. When older turns are left out, a system note says so.
+ * `totalCount` covers history that was not loaded at all.
+ */
+export function buildConversationContext(
+  messages: Pick<StoredMessage, 'role' | 'content'>[],
+  tokenBudget: number,
+  totalCount = messages.length
+): ChatMessage[] {
+  const kept: ChatMessage[] = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(messages[i].content);
+    if (kept.length > 0 && used + tokens > tokenBudget) break;
+    kept.unshift({ role: messages[i].role, content: messages[i].content });
+    used += tokens;
+  }
+
+  const omitted = totalCount - kept.length;
+  if (omitted === 0) return kept;
+  return [
+    {
+      role: 'system',
+      content: `${omitted} earlier message${omitted === 1 ? ' was' : 's were'} left out to fit the context window. ` +
+        'If you need details from earlier in the conversation, ask the user.',
+    },
+    ...kept,
+  ];
+}
+
+/**
+ * Loads the history for a turn, truncated to the token budget
+ */
+export async function loadConversationContext(
+  db: D1Database,
+  conversationId: string,
+  tokenBudget: number
+): Promise<ChatMessage[]> {
+  const [{ results }, count] = await Promise.all([
+    db
+      .prepare('SELECT role, content FROM conversation_messages WHERE conversation_id = ? ORDER BY id DESC LIMIT ?')
+      .bind(conversationId, MAX_CONTEXT_MESSAGES)
+      .all<{ role: StoredRole; content: string }>(),
+    db
+      .prepare('SELECT COUNT(*) AS count FROM conversation_messages WHERE conversation_id = ?')
+      .bind(conversationId)
+      .first<number>('count'),
+  ]);
+
+  return buildConversationContext(results.reverse(), tokenBudget, count ?? results.length);
+}
+
+export async function deleteConversation(
+  db: D1Database,
+  keyId: string,
+  id: string
+): Promise<void> {
+  await getConversation(db, keyId, id);
+  // Messages are removed by the foreign key cascade
+  await db.batch([
+    db.prepare('DELETE FROM tool_approvals WHERE conversation_id = ?').bind(id),
+    db.prepare('DELETE FROM conversations WHERE id = ? AND key_id = ?').bind(id, keyId),
+  ]);
+}
+
+/**
+ * Routes /api/conversations requests
+ * Returns null when the path/method is not a conversations route
+ */
+export async function handleConversationsRequest(
+  request: Request,
+  env: Env,
+  url: URL,
+  principal: Principal | null
+): Promise<Response | null> {
+  const method = request.method;
+
+  if (matchPath('/api/conversations', url.pathname)) {
+    if (method === 'GET') {
+      const conversations = principal ? await listConversations(getDatabase(env), principal.keyId) : [];
+      return jsonResponse({ conversations });
+    }
+    return null;
+  }
+
+  const params = matchPath('/api/conversations/:id', url.pathname);
+  if (params) {
+    if (!principal) {
+      throw new NotFoundError(`Conversation ${params.id} not found`);
+    }
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      const conversation = await getConversation(db, principal.keyId, params.id);
+      return jsonResponse({ conversation, messages: await getConversationMessages(db, params.id) });
+    }
+    if (method === 'DELETE') {
+      await deleteConversation(db, principal.keyId, params.id);
+      return new Response(null, { status: 204 });
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,23 @@
+/**
+ * D1 database access
+ * The schema lives in ../../migrations and is applied with `wrangler d1 migrations apply`
+ */
+
+import { ApiError } from './http';
+
+/**
+ * Returns the D1 binding, failing with a 503 when it has not been configured
+ */
+export function getDatabase(env: Env): D1Database {
+  if (!env.DB) {
+    throw new ApiError(503, 'Database binding DB is not configured');
+  }
+  return env.DB;
+}
+
+/**
+ * Current time as an ISO-8601 string, used for created/updated timestamps
+ */
+export function nowIso(): string {
+  return new Date().toISOString();
+}
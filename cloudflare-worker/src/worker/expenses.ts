@@ -0,0 +1,539 @@
+/**
+ * Expenses API
+ * Line-item ledger per project. Project spend and category subtotals are
+ * always computed from these rows rather than stored.
+ *
+ * Routes:
+ * - GET    /api/projects/:id/expenses                List expenses (filters + pagination)
+ * - POST   /api/projects/:id/expenses                Add an expense
+ * - GET    /api/projects/:id/expenses/summary        Spend totals and per-category subtotals
+ * - GET    /api/projects/:id/expenses/:expenseId     Get an expense
+ * - PATCH  /api/projects/:id/expenses/:expenseId     Update an expense
+ * - DELETE /api/projects/:id/expenses/:expenseId     Delete an expense (its attachments stay on the project)
+ */
+
+import { getDatabase, nowIso } from './db';
+import { NotFoundError, jsonResponse, matchPath, readJsonBody } from './http';
+import { assertCategoryExists } from './categories';
+import { getProject, getWritableProject } from './projects';
+import {
+  isValidDate,
+  normalizeCategory,
+  readBoolean,
+  readCents,
+  readDate,
+  readEnum,
+  readString,
+  throwIfInvalid,
+  type FieldErrors,
+} from './validate';
+
+export const PAYMENT_METHODS = [
+  'cash',
+  'check',
+  'credit_card',
+  'debit_card',
+  'bank_transfer',
+  'financing',
+  'other',
+] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+const CATEGORY_PATTERN = /^[a-z0-9_]+$/;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export interface Expense {
+  id: string;
+  projectId: string;
+  date: string;
+  vendor: string;
+  category: string;
+  amountCents: number;
+  paymentMethod: PaymentMethod | null;
+  notes: string | null;
+  paid: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * An expense as returned by the list route, with the cumulative ledger total
+ * (in date order, within the current filter) up to and including this row
+ */
+export interface LedgerExpense extends Expense {
+  runningTotalCents: number;
+}
+
+interface ExpenseRow {
+  id: string;
+  project_id: string;
+  expense_date: string;
+  vendor: string;
+  category: string;
+  amount_cents: number;
+  payment_method: PaymentMethod | null;
+  notes: string | null;
+  paid: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExpenseInput {
+  date?: string;
+  vendor?: string;
+  category?: string;
+  amountCents?: number;
+  paymentMethod?: PaymentMethod | null;
+  notes?: string | null;
+  paid?: boolean;
+}
+
+export interface ExpenseFilter {
+  from?: string;
+  to?: string;
+  category?: string;
+  vendor?: string;
+  paid?: boolean;
+}
+
+export interface CategorySubtotal {
+  category: string;
+  amountCents: number;
+  count: number;
+}
+
+export interface DailySpend {
+  date: string;
+  amountCents: number;
+  /** Spend up to and including this date, within the current filter */
+  cumulativeCents: number;
+}
+
+export interface ExpenseSummary {
+  spentCents: number;
+  paidCents: number;
+  unpaidCents: number;
+  count: number;
+  categories: CategorySubtotal[];
+  /** Spend per day that has expenses, oldest first */
+  daily: DailySpend[];
+}
+
+// Maps ExpenseInput keys onto their database columns
+const COLUMNS: Record<keyof ExpenseInput, keyof ExpenseRow> = {
+  date: 'expense_date',
+  vendor: 'vendor',
+  category: 'category',
+  amountCents: 'amount_cents',
+  paymentMethod: 'payment_method',
+  notes: 'notes',
+  paid: 'paid',
+};
+
+function toExpense(row: ExpenseRow): Expense {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    date: row.expense_date,
+    vendor: row.vendor,
+    category: row.category,
+    amountCents: row.amount_cents,
+    paymentMethod: row.payment_method,
+    notes: row.notes,
+    paid: row.paid === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Validates a create (partial = false) or update (partial = true) payload
+ */
+export function validateExpenseInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): ExpenseInput {
+  const errors: FieldErrors = {};
+  const input: ExpenseInput = {};
+
+  const date = readDate(body, 'date', errors, { required: !partial });
+  if (date != null) input.date = date;
+
+  const vendor = readString(body, 'vendor', errors, { required: !partial, maxLength: 120 });
+  if (vendor != null) input.vendor = vendor;
+
+  const category = readString(body, 'category', errors, { required: !partial, maxLength: 50 });
+  if (category != null) {
+    const slug = normalizeCategory(category);
+    if (!CATEGORY_PATTERN.test(slug)) {
+      errors.category = 'category must contain letters or numbers';
+    } else {
+      input.category = slug;
+    }
+  }
+
+  const amountCents = readCents(body, 'amountCents', errors, { required: !partial });
+  if (amountCents != null) input.amountCents = amountCents;
+
+  const paymentMethod = readEnum(body, 'paymentMethod', PAYMENT_METHODS, errors, { nullable: true });
+  if (paymentMethod !== undefined) input.paymentMethod = paymentMethod;
+
+  const notes = readString(body, 'notes', errors, { nullable: true, maxLength: 2000 });
+  if (notes !== undefined) input.notes = notes;
+
+  const paid = readBoolean(body, 'paid', errors);
+  if (paid != null) input.paid = paid;
+
+  throwIfInvalid(errors);
+  return input;
+}
+
+/**
+ * Parses list filters and pagination from the query string
+ */
+export function parseExpenseQuery(params: URLSearchParams): {
+  filter: ExpenseFilter;
+  limit: number;
+  offset: number;
+} {
+  const errors: FieldErrors = {};
+  const filter: ExpenseFilter = {};
+
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key);
+    if (value === null) continue;
+    if (!isValidDate(value)) {
+      errors[key] = `${key} must be a date in YYYY-MM-DD format`;
+    } else {
+      filter[key] = value;
+    }
+  }
+  if (filter.from && filter.to && filter.to < filter.from) {
+    errors.to = 'to cannot be before from';
+  }
+
+  const category = params.get('category');
+  if (category) filter.category = normalizeCategory(category);
+
+  const vendor = params.get('vendor');
+  if (vendor) filter.vendor = vendor.trim();
+
+  const paid = params.get('paid');
+  if (paid !== null) {
+    if (paid !== 'true' && paid !== 'false') {
+      errors.paid = 'paid must be true or false';
+    } else {
+      filter.paid = paid === 'true';
+    }
+  }
+
+  const limit = parseIntegerParam(params, 'limit', DEFAULT_PAGE_SIZE, errors);
+  if (limit < 1 || limit > MAX_PAGE_SIZE) {
+    errors.limit = `limit must be between 1 and ${MAX_PAGE_SIZE}`;
+  }
+  const offset = parseIntegerParam(params, 'offset', 0, errors);
+  if (offset < 0) {
+    errors.offset = 'offset cannot be negative';
+  }
+
+  throwIfInvalid(errors);
+  return { filter, limit, offset };
+}
+
+function parseIntegerParam(
+  params: URLSearchParams,
+  key: string,
+  fallback: number,
+  errors: FieldErrors
+): number {
+  const value = params.get(key);
+  if (value === null) return fallback;
+  if (!/^-?\d+$/.test(value)) {
+    errors[key] = `${key} must be an integer`;
+    return fallback;
+  }
+  return Number(value);
+}
+
+function buildFilterClause(projectId: string, filter: ExpenseFilter): {
+  where: string;
+  values: unknown[];
+} {
+  const conditions = ['project_id = ?'];
+  const values: unknown[] = [projectId];
+
+  if (filter.from) {
+    conditions.push('expense_date >= ?');
+    values.push(filter.from);
+  }
+  if (filter.to) {
+    conditions.push('expense_date <= ?');
+    values.push(filter.to);
+  }
+  if (filter.category) {
+    conditions.push('category = ?');
+    values.push(filter.category);
+  }
+  if (filter.vendor) {
+    conditions.push("vendor LIKE ? ESCAPE '\\'");
+    values.push(`%${filter.vendor.replace(/[\\%_]/g, (c) => `\\${c}`)}%`);
+  }
+  if (filter.paid !== undefined) {
+    conditions.push('paid = ?');
+    values.push(filter.paid ? 1 : 0);
+  }
+
+  return { where: conditions.join(' AND '), values };
+}
+
+export async function listExpenses(
+  db: D1Database,
+  projectId: string,
+  filter: ExpenseFilter = {},
+  page: { limit?: number; offset?: number } = {}
+): Promise<{ expenses: LedgerExpense[]; total: number; totalAmountCents: number }> {
+  await getProject(db, projectId);
+  const { where, values } = buildFilterClause(projectId, filter);
+  const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+  const offset = page.offset ?? 0;
+
+  const [rows, totals] = await db.batch<Record<string, unknown>>([
+    db
+      .prepare(
+        `SELECT * FROM (
+           SELECT *, SUM(amount_cents) OVER (
+             ORDER BY expense_date, created_at, id ROWS UNBOUNDED PRECEDING
+           ) AS running_total_cents
+           FROM expenses WHERE ${where}
+         )
+         ORDER BY expense_date DESC, created_at DESC, id DESC
+         LIMIT ? OFFSET ?`
+      )
+      .bind(...values, limit, offset),
+    db
+      .prepare(
+        `SELECT COUNT(*) AS total, COALESCE(SUM(amount_cents), 0) AS amount_cents
+         FROM expenses WHERE ${where}`
+      )
+      .bind(...values),
+  ]);
+
+  const summary = totals.results[0] as { total: number; amount_cents: number };
+  return {
+    expenses: (rows.results as unknown as (ExpenseRow & { running_total_cents: number })[]).map(
+      (row) => ({ ...toExpense(row), runningTotalCents: row.running_total_cents })
+    ),
+    total: summary.total,
+    totalAmountCents: summary.amount_cents,
+  };
+}
+
+export async function getExpenseSummary(
+  db: D1Database,
+  projectId: string,
+  filter: ExpenseFilter = {}
+): Promise<ExpenseSummary> {
+  await getProject(db, projectId);
+  const { where, values } = buildFilterClause(projectId, filter);
+
+  const [byCategory, byDate] = await db.batch<Record<string, unknown>>([
+    db
+      .prepare(
+        `SELECT category,
+                SUM(amount_cents) AS amount_cents,
+                SUM(CASE WHEN paid = 1 THEN amount_cents ELSE 0 END) AS paid_cents,
+                COUNT(*) AS count
+         FROM expenses WHERE ${where}
+         GROUP BY category
+         ORDER BY category`
+      )
+      .bind(...values),
+    db
+      .prepare(
+        `SELECT expense_date, SUM(amount_cents) AS amount_cents
+         FROM expenses WHERE ${where}
+         GROUP BY expense_date
+         ORDER BY expense_date`
+      )
+      .bind(...values),
+  ]);
+
+  const summary: ExpenseSummary = {
+    spentCents: 0,
+    paidCents: 0,
+    unpaidCents: 0,
+    count: 0,
+    categories: [],
+    daily: [],
+  };
+  const results = byCategory.results as { category: string; amount_cents: number; paid_cents: number; count: number }[];
+  for (const row of results) {
+    summary.spentCents += row.amount_cents;
+    summary.paidCents += row.paid_cents;
+    summary.count += row.count;
+    summary.categories.push({
+      category: row.category,
+      amountCents: row.amount_cents,
+      count: row.count,
+    });
+  }
+  summary.unpaidCents = summary.spentCents - summary.paidCents;
+
+  let cumulativeCents = 0;
+  for (const row of byDate.results as { expense_date: string; amount_cents: number }[]) {
+    cumulativeCents += row.amount_cents;
+    summary.daily.push({ date: row.expense_date, amountCents: row.amount_cents, cumulativeCents });
+  }
+  return summary;
+}
+
+export async function getExpense(
+  db: D1Database,
+  projectId: string,
+  expenseId: string
+): Promise<Expense> {
+  const row = await db
+    .prepare('SELECT * FROM expenses WHERE id = ? AND project_id = ?')
+    .bind(expenseId, projectId)
+    .first<ExpenseRow>();
+  if (!row) {
+    throw new NotFoundError(`Expense ${expenseId} not found`);
+  }
+  return toExpense(row);
+}
+
+export async function createExpense(
+  db: D1Database,
+  projectId: string,
+  body: Record<string, unknown>
+): Promise<Expense> {
+  const input = validateExpenseInput(body, false);
+  await getWritableProject(db, projectId);
+  await assertCategoryExists(db, projectId, input.category!);
+
+  const id = crypto.randomUUID();
+  const timestamp = nowIso();
+  await db
+    .prepare(
+      `INSERT INTO expenses
+        (id, project_id, expense_date, vendor, category, amount_cents, payment_method, notes, paid, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      id,
+      projectId,
+      input.date,
+      input.vendor,
+      input.category,
+      input.amountCents,
+      input.paymentMethod ?? null,
+      input.notes ?? null,
+      input.paid ? 1 : 0,
+      timestamp,
+      timestamp
+    )
+    .run();
+
+  return getExpense(db, projectId, id);
+}
+
+export async function updateExpense(
+  db: D1Database,
+  projectId: string,
+  expenseId: string,
+  body: Record<string, unknown>
+): Promise<Expense> {
+  const input = validateExpenseInput(body, true);
+  await getWritableProject(db, projectId);
+  const existing = await getExpense(db, projectId, expenseId);
+  if (input.category !== undefined) {
+    await assertCategoryExists(db, projectId, input.category);
+  }
+
+  const keys = Object.keys(input) as (keyof ExpenseInput)[];
+  if (keys.length === 0) {
+    return existing;
+  }
+
+  const assignments = keys.map((key) => `${COLUMNS[key]} = ?`);
+  const values = keys.map((key) => {
+    const value = input[key];
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return value ?? null;
+  });
+
+  await db
+    .prepare(`UPDATE expenses SET ${assignments.join(', ')}, updated_at = ? WHERE id = ?`)
+    .bind(...values, nowIso(), expenseId)
+    .run();
+
+  return getExpense(db, projectId, expenseId);
+}
+
+export async function deleteExpense(
+  db: D1Database,
+  projectId: string,
+  expenseId: string
+): Promise<void> {
+  await getWritableProject(db, projectId);
+  const result = await db
+    .prepare('DELETE FROM expenses WHERE id = ? AND project_id = ?')
+    .bind(expenseId, projectId)
+    .run();
+  if (result.meta.changes === 0) {
+    throw new NotFoundError(`Expense ${expenseId} not found`);
+  }
+}
+
+/**
+ * Routes /api/projects/:id/expenses requests
+ * Returns null when the path/method is not an expenses route
+ */
+export async function handleExpensesRequest(
+  request: Request,
+  env: Env,
+  url: URL
+): Promise<Response | null> {
+  const method = request.method;
+
+  const listParams = matchPath('/api/projects/:id/expenses', url.pathname);
+  if (listParams) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      const { filter, limit, offset } = parseExpenseQuery(url.searchParams);
+      const page = await listExpenses(db, listParams.id, filter, { limit, offset });
+      return jsonResponse({ ...page, limit, offset });
+    }
+    if (method === 'POST') {
+      const expense = await createExpense(db, listParams.id, await readJsonBody(request));
+      return jsonResponse({ expense }, 201);
+    }
+    return null;
+  }
+
+  const summaryParams = matchPath('/api/projects/:id/expenses/summary', url.pathname);
+  if (summaryParams && method === 'GET') {
+    const { filter } = parseExpenseQuery(url.searchParams);
+    const summary = await getExpenseSummary(getDatabase(env), summaryParams.id, filter);
+    return jsonResponse({ summary });
+  }
+
+  const params = matchPath('/api/projects/:id/expenses/:expenseId', url.pathname);
+  if (params && params.expenseId !== 'summary') {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ expense: await getExpense(db, params.id, params.expenseId) });
+    }
+    if (method === 'PATCH') {
+      const expense = await updateExpense(db, params.id, params.expenseId, await readJsonBody(request));
+      return jsonResponse({ expense });
+    }
+    if (method === 'DELETE') {
+      await deleteExpense(db, params.id, params.expenseId);
+      return new Response(null, { status: 204 });
+    }
+  }
+
+  return null;
+}
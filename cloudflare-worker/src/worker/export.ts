@@ -0,0 +1,445 @@
+/**
+ * Budget export
+ * A project's budget report for lenders and contractors: a summary header (budget, spent,
+ * paid, remaining, contingency left), the category allocation vs. actual table with variances,
+ * and the full expense ledger. Each format is generated here, without external services, and
+ * depends only on the data and the report date.
+ *
+ * Variance is spent minus allocated, so a positive variance is over budget; the variance
+ * percentage is relative to the allocation and empty when nothing was allocated.
+ *
+ * Routes:
+ * - GET /api/projects/:id/export?format=csv|xlsx|pdf   Download the budget report
+ */
+
+import { listCategories, type BudgetCategory, type CategoryStatus } from './categories';
+import { CONTINGENCY_KEY } from './category-template';
+import { getDatabase, nowIso } from './db';
+import { listExpenses, type LedgerExpense } from './expenses';
+import { ValidationError, matchPath } from './http';
+import { PAGE_HEIGHT, PAGE_WIDTH, buildPdf, fitText, type PdfPage, type PdfText } from './pdf';
+import { getProject, type Project } from './projects';
+import { buildXlsx, type Cell } from './xlsx';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'pdf'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+export interface ReportCategory extends BudgetCategory {
+  varianceCents: number;
+  variancePercent: number | null;
+}
+
+/** A line of the allocation table: a category, or the totals (status null) */
+type AllocationLine = Pick<
+  ReportCategory,
+  'name' | 'allocatedCents' | 'spentCents' | 'remainingCents' | 'varianceCents' | 'variancePercent'
+> & { status: CategoryStatus | null };
+
+export interface BudgetReport {
+  project: Project;
+  /** YYYY-MM-DD the report is as of */
+  reportDate: string;
+  summary: {
+    budgetCents: number;
+    spentCents: number;
+    paidCents: number;
+    remainingCents: number;
+    allocatedCents: number;
+    /** Remaining allocation of the contingency category; null when the project has none */
+    contingencyLeftCents: number | null;
+  };
+  categories: ReportCategory[];
+  /** The whole ledger, oldest first */
+  expenses: LedgerExpense[];
+}
+
+export async function buildBudgetReport(db: D1Database, projectId: string, reportDate: string): Promise<BudgetReport> {
+  const project = await getProject(db, projectId);
+  const { categories, totals } = await listCategories(db, projectId);
+  // SQLite reads a negative LIMIT as no limit
+  const { expenses } = await listExpenses(db, projectId, {}, { limit: -1 });
+  const contingency = categories.find((category) => category.key === CONTINGENCY_KEY);
+
+  return {
+    project,
+    reportDate,
+    summary: {
+      budgetCents: project.budgetCents,
+      spentCents: project.spentCents,
+      paidCents: project.paidCents,
+      remainingCents: project.budgetCents - project.spentCents,
+      allocatedCents: totals.allocatedCents,
+      contingencyLeftCents: contingency ? contingency.remainingCents : null,
+    },
+    categories: categories.map((category) => ({
+      ...category,
+      ...variance(category.allocatedCents, category.spentCents),
+    })),
+    expenses: [...expenses].reverse(),
+  };
+}
+
+function variance(allocatedCents: number, spentCents: number): { varianceCents: number; variancePercent: number | null } {
+  const varianceCents = spentCents - allocatedCents;
+  return {
+    varianceCents,
+    variancePercent: allocatedCents > 0 ? Math.round((varianceCents / allocatedCents) * 1000) / 10 : null,
+  };
+}
+
+function allocationLines(report: BudgetReport): AllocationLine[] {
+  const { allocatedCents, spentCents } = report.summary;
+  return [
+    ...report.categories,
+    {
+      name: 'Total',
+      allocatedCents,
+      spentCents,
+      remainingCents: allocatedCents - spentCents,
+      status: null,
+      ...variance(allocatedCents, spentCents),
+    },
+  ];
+}
+
+function categoryNames(report: BudgetReport): Map<string, string> {
+  return new Map(report.categories.map((category) => [category.key, category.name]));
+}
+
+function reportFileName(report: BudgetReport, format: ExportFormat): string {
+  const slug = report.project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'project';
+  return `${slug}-budget-${report.reportDate}.${format}`;
+}
+
+/** 123456 → "1234.56", for spreadsheets */
+function dollars(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/** 123456 → "$1,234.56", for reading */
+function formatMoney(cents: number): string {
+  const [whole, fraction] = dollars(Math.abs(cents)).split('.');
+  return `${cents < 0 ? '-' : ''}$${whole.replace(/\B(?=(\d{3})+$)/g, ',')}.${fraction}`;
+}
+
+function formatPercent(percent: number | null): string {
+  return percent === null ? '' : `${percent.toFixed(1)}%`;
+}
+
+/**
+ * Quotes a CSV field when needed, and keeps text starting with = + - @ from being read as a
+ * spreadsheet formula
+ */
+function csvText(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * The summary, categories and ledger as three blocks separated by blank lines; starts with a
+ * byte order mark so Excel reads it as UTF-8
+ */
+export function renderCsv(report: BudgetReport): string {
+  const { summary } = report;
+  const names = categoryNames(report);
+  const lines = [
+    `Budget report,${csvText(report.project.name)}`,
+    `Report date,${report.reportDate}`,
+    `Budget,${dollars(summary.budgetCents)}`,
+    `Spent,${dollars(summary.spentCents)}`,
+    `Paid,${dollars(summary.paidCents)}`,
+    `Remaining,${dollars(summary.remainingCents)}`,
+    `Contingency left,${summary.contingencyLeftCents === null ? '' : dollars(summary.contingencyLeftCents)}`,
+    '',
+    'Category,Allocated,Spent,Remaining,Variance,Variance %,Status',
+    ...allocationLines(report).map((line) =>
+      [
+        csvText(line.name),
+        dollars(line.allocatedCents),
+        dollars(line.spentCents),
+        dollars(line.remainingCents),
+        dollars(line.varianceCents),
+        line.variancePercent === null ? '' : line.variancePercent.toFixed(1),
+        line.status ?? '',
+      ].join(',')
+    ),
+    '',
+    'Date,Vendor,Category,Amount,Paid,Payment method,Notes,Running total',
+    ...report.expenses.map((expense) =>
+      [
+        expense.date,
+        csvText(expense.vendor),
+        csvText(names.get(expense.category) ?? expense.category),
+        dollars(expense.amountCents),
+        expense.paid ? 'yes' : 'no',
+        expense.paymentMethod ?? '',
+        csvText(expense.notes ?? ''),
+        dollars(expense.runningTotalCents),
+      ].join(',')
+    ),
+  ];
+  return `\ufeff${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * A workbook with Summary, Categories and Expenses sheets; amounts are numbers in dollars
+ */
+export function renderXlsx(report: BudgetReport): Uint8Array<ArrayBuffer> {
+  const { summary } = report;
+  const names = categoryNames(report);
+  const money = (cents: number): Cell => ({ value: cents / 100, style: 'money' });
+  const bold = (value: string): Cell => ({ value, style: 'bold' });
+
+  return buildXlsx([
+    {
+      name: 'Summary',
+      columnWidths: [20, 16],
+      rows: [
+        [bold('Budget report'), report.project.name],
+        ['Report date', report.reportDate],
+        ['Budget', money(summary.budgetCents)],
+        ['Spent', money(summary.spentCents)],
+        ['Paid', money(summary.paidCents)],
+        ['Remaining', money(summary.remainingCents)],
+        ['Contingency left', summary.contingencyLeftCents === null ? null : money(summary.contingencyLeftCents)],
+      ],
+    },
+    {
+      name: 'Categories',
+      columnWidths: [24, 14, 14, 14, 14, 12, 10],
+      rows: [
+        ['Category', 'Allocated', 'Spent', 'Remaining', 'Variance', 'Variance %', 'Status'].map(bold),
+        ...allocationLines(report).map((line) => [
+          line.status === null ? bold(line.name) : line.name,
+          money(line.allocatedCents),
+          money(line.spentCents),
+          money(line.remainingCents),
+          money(line.varianceCents),
+          line.variancePercent === null ? null : { value: line.variancePercent, style: 'percent' as const },
+          line.status,
+        ]),
+      ],
+    },
+    {
+      name: 'Expenses',
+      columnWidths: [12, 28, 18, 14, 6, 16, 40, 14],
+      rows: [
+        ['Date', 'Vendor', 'Category', 'Amount', 'Paid', 'Payment method', 'Notes', 'Running total'].map(bold),
+        ...report.expenses.map((expense) => [
+          expense.date,
+          expense.vendor,
+          names.get(expense.category) ?? expense.category,
+          money(expense.amountCents),
+          expense.paid ? 'yes' : 'no',
+          expense.paymentMethod,
+          expense.notes,
+          money(expense.runningTotalCents),
+        ]),
+      ],
+    },
+  ]);
+}
+
+const MARGIN = 50;
+const LINE_HEIGHT = 14;
+const FOOTER_Y = 30;
+
+interface PdfColumn {
+  label: string;
+  x: number;
+  /** Right-aligned columns end at x + width */
+  width: number;
+  align?: 'right';
+}
+
+const CATEGORY_COLUMNS: PdfColumn[] = [
+  { label: 'Category', x: MARGIN, width: 120 },
+  { label: 'Allocated', x: 170, width: 70, align: 'right' },
+  { label: 'Spent', x: 240, width: 70, align: 'right' },
+  { label: 'Remaining', x: 310, width: 70, align: 'right' },
+  { label: 'Variance', x: 380, width: 70, align: 'right' },
+  { label: 'Var. %', x: 450, width: 50, align: 'right' },
+  { label: 'Status', x: 508, width: 54 },
+];
+
+const EXPENSE_COLUMNS: PdfColumn[] = [
+  { label: 'Date', x: MARGIN, width: 60 },
+  { label: 'Vendor', x: 110, width: 150 },
+  { label: 'Category', x: 265, width: 95 },
+  { label: 'Paid', x: 365, width: 30 },
+  { label: 'Amount', x: 395, width: 75, align: 'right' },
+  { label: 'Running total', x: 470, width: 92, align: 'right' },
+];
+
+/**
+ * Builds pages top to bottom, starting a new page (with the table header repeated) when the
+ * next line would run into the footer
+ */
+function createPdfLayout() {
+  const pages: PdfPage[] = [];
+  let page: PdfPage;
+  let y = 0;
+
+  const newPage = () => {
+    page = { texts: [], rules: [] };
+    pages.push(page);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+  newPage();
+
+  const text = (item: PdfText) => page.texts.push(item);
+  const space = (height: number) => {
+    y -= height;
+  };
+  const row = (columns: PdfColumn[], values: string[], bold = false) => {
+    columns.forEach((column, i) => {
+      const value = fitText(values[i] ?? '', column.width - 4, 9, bold);
+      text(
+        column.align === 'right'
+          ? { x: column.x + column.width, y, text: value, size: 9, bold, align: 'right' }
+          : { x: column.x, y, text: value, size: 9, bold }
+      );
+    });
+  };
+  const header = (columns: PdfColumn[]) => {
+    row(columns, columns.map((column) => column.label), true);
+    page.rules!.push({ y: y - 4, x1: MARGIN, x2: PAGE_WIDTH - MARGIN });
+    y -= LINE_HEIGHT + 2;
+  };
+
+  return {
+    pages,
+    text,
+    space,
+    y: () => y,
+    heading: (label: string) => {
+      if (y - LINE_HEIGHT * 3 < FOOTER_Y + LINE_HEIGHT) newPage();
+      text({ x: MARGIN, y, text: label, size: 12, bold: true });
+      y -= LINE_HEIGHT + 4;
+    },
+    table: (columns: PdfColumn[], rows: { values: string[]; bold?: boolean }[]) => {
+      header(columns);
+      for (const { values, bold } of rows) {
+        if (y < FOOTER_Y + LINE_HEIGHT * 2) {
+          newPage();
+          header(columns);
+        }
+        row(columns, values, bold);
+        y -= LINE_HEIGHT;
+      }
+    },
+  };
+}
+
+/**
+ * A printable US Letter report: summary, category table, then the ledger, with page numbers
+ */
+export function renderPdf(report: BudgetReport): Uint8Array<ArrayBuffer> {
+  const { summary } = report;
+  const names = categoryNames(report);
+  const layout = createPdfLayout();
+
+  layout.text({ x: MARGIN, y: layout.y(), text: `Budget report: ${report.project.name}`, size: 16, bold: true });
+  layout.space(LINE_HEIGHT + 4);
+  layout.text({ x: MARGIN, y: layout.y(), text: `As of ${report.reportDate}`, size: 9 });
+  layout.space(LINE_HEIGHT * 2);
+
+  const summaryLines: [string, string][] = [
+    ['Budget', formatMoney(summary.budgetCents)],
+    ['Spent', formatMoney(summary.spentCents)],
+    ['Paid', formatMoney(summary.paidCents)],
+    ['Remaining', formatMoney(summary.remainingCents)],
+    ['Contingency left', summary.contingencyLeftCents === null ? 'n/a' : formatMoney(summary.contingencyLeftCents)],
+  ];
+  for (const [label, value] of summaryLines) {
+    layout.text({ x: MARGIN, y: layout.y(), text: label, size: 10 });
+    layout.text({ x: 250, y: layout.y(), text: value, size: 10, bold: true, align: 'right' });
+    layout.space(LINE_HEIGHT);
+  }
+  layout.space(LINE_HEIGHT);
+
+  layout.heading('Allocation vs. actual');
+  layout.table(
+    CATEGORY_COLUMNS,
+    allocationLines(report).map((line) => ({
+      bold: line.status === null,
+      values: [
+        line.name,
+        formatMoney(line.allocatedCents),
+        formatMoney(line.spentCents),
+        formatMoney(line.remainingCents),
+        formatMoney(line.varianceCents),
+        formatPercent(line.variancePercent),
+        line.status?.replace('_', ' ') ?? '',
+      ],
+    }))
+  );
+  layout.space(LINE_HEIGHT);
+
+  layout.heading('Expense ledger');
+  if (report.expenses.length === 0) {
+    layout.text({ x: MARGIN, y: layout.y(), text: 'No expenses recorded.', size: 9 });
+  } else {
+    layout.table(
+      EXPENSE_COLUMNS,
+      report.expenses.map((expense) => ({
+        values: [
+          expense.date,
+          expense.vendor,
+          names.get(expense.category) ?? expense.category,
+          expense.paid ? 'yes' : 'no',
+          formatMoney(expense.amountCents),
+          formatMoney(expense.runningTotalCents),
+        ],
+      }))
+    );
+  }
+
+  const { pages } = layout;
+  pages.forEach((page, i) => {
+    page.texts.push(
+      { x: MARGIN, y: FOOTER_Y, text: fitText(report.project.name, 300, 8), size: 8 },
+      { x: PAGE_WIDTH - MARGIN, y: FOOTER_Y, text: `Page ${i + 1} of ${pages.length}`, size: 8, align: 'right' }
+    );
+  });
+  return buildPdf(pages, `Budget report: ${report.project.name}`);
+}
+
+export function renderReport(report: BudgetReport, format: ExportFormat): string | Uint8Array<ArrayBuffer> {
+  if (format === 'xlsx') return renderXlsx(report);
+  if (format === 'pdf') return renderPdf(report);
+  return renderCsv(report);
+}
+
+/**
+ * Routes /api/projects/:id/export requests
+ * Returns null when the path/method is not the export route
+ */
+export async function handleExportRequest(
+  request: Request,
+  env: Env,
+  url: URL
+): Promise<Response | null> {
+  const params = matchPath('/api/projects/:id/export', url.pathname);
+  if (!params || request.method !== 'GET') return null;
+
+  const format = url.searchParams.get('format') ?? 'csv';
+  if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new ValidationError({ format: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+  }
+
+  const report = await buildBudgetReport(getDatabase(env), params.id, nowIso().slice(0, 10));
+  return new Response(renderReport(report, format as ExportFormat), {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format as ExportFormat],
+      'Content-Disposition': `attachment; filename="${reportFileName(report, format as ExportFormat)}"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
@@ -0,0 +1,348 @@
+/**
+ * Budget Forecasting API
+ * Projects what a project, and each of its categories, will cost by completion with two methods:
+ *
+ * - Linear burn rate: spend so far divided by the days since the project started (its start
+ *   date, or the first expense), continued until the target date.
+ * - Earned value: each category's earned value is its allocation times its percent complete,
+ *   and its cost performance index (CPI) that earned value divided by what was spent.
+ *   The estimate at completion is the spend divided by the percent complete.
+ *
+ * Neither estimate goes below the category's exposure (committed cost plus spend outside
+ * contracts), and both add the change orders still proposed. Where a method has nothing to
+ * go on (no target date, no spend yet, no percent complete) it falls back to the forecast
+ * from commitments in categories.ts, and says so in `basis`.
+ *
+ * Variance at completion is budget minus estimate, so a negative variance is an overrun.
+ * The projected overrun date is when spend crosses the budget: from the expense history if it
+ * already has, otherwise at the current burn rate, and at the latest on the target date.
+ *
+ * Routes:
+ * - GET /api/projects/:id/forecast    Forecast the project and its categories
+ */
+
+import { listCategories, type BudgetCategory } from './categories';
+import { getDatabase, nowIso } from './db';
+import { jsonResponse, matchPath } from './http';
+import { getProject, type Project } from './projects';
+
+export type ForecastBasis = 'burn_rate' | 'earned_value' | 'commitments';
+
+export interface ForecastEstimate {
+  basis: ForecastBasis;
+  estimateAtCompletionCents: number;
+  /** Budget minus the estimate; negative when the budget is expected to be overrun */
+  varianceAtCompletionCents: number;
+  /** When spend crosses the budget; null unless the estimate exceeds it */
+  projectedOverrunDate: string | null;
+}
+
+export interface EarnedValueEstimate extends ForecastEstimate {
+  earnedValueCents: number | null;
+  /** Earned value per dollar spent, to two decimals; below 1 means the work costs more than planned */
+  cpi: number | null;
+}
+
+export interface CategoryForecast {
+  key: string;
+  name: string;
+  allocatedCents: number;
+  spentCents: number;
+  /** Committed cost plus spend outside contracts */
+  exposureCents: number;
+  percentComplete: number | null;
+  burnRateCentsPerDay: number;
+  linear: ForecastEstimate;
+  earnedValue: EarnedValueEstimate;
+}
+
+export interface ProjectForecast {
+  projectId: string;
+  asOf: string;
+  startDate: string | null;
+  targetDate: string | null;
+  elapsedDays: number;
+  /** Days left until the target date; null without one */
+  remainingDays: number | null;
+  budgetCents: number;
+  spentCents: number;
+  exposureCents: number;
+  pendingChangeOrderCents: number;
+  burnRateCentsPerDay: number;
+  linear: ForecastEstimate;
+  earnedValue: EarnedValueEstimate;
+  categories: CategoryForecast[];
+  warnings: string[];
+}
+
+/**
+ * What the forecast is computed from: the category breakdown, the spend recorded by
+ * paying contract payments per category, and the spend per category and day
+ */
+export interface ForecastInput {
+  project: Pick<Project, 'id' | 'budgetCents' | 'startDate' | 'targetDate'>;
+  categories: BudgetCategory[];
+  contractPaidCents: Map<string, number>;
+  history: { category: string; date: string; amountCents: number }[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysFrom(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+interface Timeline {
+  today: string;
+  targetDate: string | null;
+  elapsedDays: number;
+  remainingDays: number | null;
+}
+
+/**
+ * The date spend crosses `budgetCents`, or null when the estimate stays within it
+ * `history` is the spend per day, oldest first
+ */
+function overrunDate(
+  estimateCents: number,
+  budgetCents: number,
+  history: { date: string; amountCents: number }[],
+  burnRate: number,
+  timeline: Timeline
+): string | null {
+  if (estimateCents <= budgetCents) return null;
+
+  let cumulative = 0;
+  for (const day of history) {
+    cumulative += day.amountCents;
+    if (cumulative > budgetCents) return day.date;
+  }
+
+  // Spend is expected to pass the budget by completion even if the burn rate says otherwise
+  const latest = timeline.targetDate && timeline.targetDate > timeline.today ? timeline.targetDate : timeline.today;
+  if (burnRate <= 0) return latest;
+  const projected = shiftDate(timeline.today, Math.ceil((budgetCents - cumulative) / burnRate));
+  return projected < latest ? projected : latest;
+}
+
+function estimate(
+  basis: ForecastBasis,
+  estimateCents: number,
+  budgetCents: number,
+  history: { date: string; amountCents: number }[],
+  burnRate: number,
+  timeline: Timeline
+): ForecastEstimate {
+  const rounded = Math.round(estimateCents);
+  return {
+    basis,
+    estimateAtCompletionCents: rounded,
+    varianceAtCompletionCents: budgetCents - rounded,
+    projectedOverrunDate: overrunDate(rounded, budgetCents, history, burnRate, timeline),
+  };
+}
+
+function roundCpi(earnedValue: number, spent: number): number {
+  return Math.round((earnedValue / spent) * 100) / 100;
+}
+
+/**
+ * Forecasts a project and its categories as of `today` (YYYY-MM-DD)
+ */
+export function forecastBudget(input: ForecastInput, today: string): ProjectForecast {
+  const { project, categories } = input;
+  const history = [...input.history].sort((a, b) => a.date.localeCompare(b.date));
+  const startDate = project.startDate ?? history[0]?.date ?? null;
+  const elapsedDays = startDate && startDate <= today ? daysFrom(startDate, today) + 1 : 0;
+  const remainingDays = project.targetDate ? Math.max(daysFrom(today, project.targetDate), 0) : null;
+  const timeline: Timeline = { today, targetDate: project.targetDate, elapsedDays, remainingDays };
+
+  const dailyByCategory = new Map<string, { date: string; amountCents: number }[]>();
+  const daily: { date: string; amountCents: number }[] = [];
+  for (const row of history) {
+    const days = dailyByCategory.get(row.category) ?? [];
+    days.push({ date: row.date, amountCents: row.amountCents });
+    dailyByCategory.set(row.category, days);
+    const last = daily.at(-1);
+    if (last?.date === row.date) {
+      last.amountCents += row.amountCents;
+    } else {
+      daily.push({ date: row.date, amountCents: row.amountCents });
+    }
+  }
+
+  const burnRateOf = (spentCents: number) => (elapsedDays > 0 ? spentCents / elapsedDays : 0);
+
+  let earnedValueCents = 0;
+  let earnedSpentCents = 0;
+  const forecasts = categories.map((category): CategoryForecast => {
+    const exposureCents =
+      category.committedCents + category.spentCents - (input.contractPaidCents.get(category.key) ?? 0);
+    const burnRate = burnRateOf(category.spentCents);
+    const days = dailyByCategory.get(category.key) ?? [];
+    const floor = (projected: number) => Math.max(projected, exposureCents) + category.pendingChangeOrderCents;
+
+    const linear =
+      remainingDays != null && category.spentCents > 0 && elapsedDays > 0
+        ? estimate('burn_rate', floor(category.spentCents + burnRate * remainingDays), category.allocatedCents, days, burnRate, timeline)
+        : estimate('commitments', category.forecastCents, category.allocatedCents, days, burnRate, timeline);
+
+    let earnedValue: EarnedValueEstimate;
+    const percent = category.percentComplete;
+    if (percent && category.spentCents > 0) {
+      const earned = (category.allocatedCents * percent) / 100;
+      earnedValueCents += earned;
+      earnedSpentCents += category.spentCents;
+      earnedValue = {
+        ...estimate('earned_value', floor((category.spentCents * 100) / percent), category.allocatedCents, days, burnRate, timeline),
+        earnedValueCents: Math.round(earned),
+        cpi: roundCpi(earned, category.spentCents),
+      };
+    } else {
+      earnedValue = {
+        ...estimate('commitments', category.forecastCents, category.allocatedCents, days, burnRate, timeline),
+        earnedValueCents: percent == null ? null : Math.round((category.allocatedCents * percent) / 100),
+        cpi: null,
+      };
+    }
+
+    return {
+      key: category.key,
+      name: category.name,
+      allocatedCents: category.allocatedCents,
+      spentCents: category.spentCents,
+      exposureCents,
+      percentComplete: percent,
+      burnRateCentsPerDay: Math.round(burnRate),
+      linear,
+      earnedValue,
+    };
+  });
+
+  const sum = (pick: (c: CategoryForecast) => number) => forecasts.reduce((total, c) => total + pick(c), 0);
+  const spentCents = sum((c) => c.spentCents);
+  const exposureCents = sum((c) => c.exposureCents);
+  const pendingChangeOrderCents = categories.reduce((total, c) => total + c.pendingChangeOrderCents, 0);
+  const burnRate = burnRateOf(spentCents);
+  const budgetCents = project.budgetCents;
+
+  const warnings: string[] = [];
+  if (!project.targetDate) {
+    warnings.push('The project has no target date, so spend cannot be projected at the burn rate');
+  } else if (remainingDays === 0) {
+    warnings.push(`The target date ${project.targetDate} has passed`);
+  }
+  if (spentCents === 0) {
+    warnings.push('No expenses are recorded yet, so there is no burn rate or cost performance');
+  }
+  if (!categories.some((c) => c.percentComplete != null)) {
+    warnings.push('No category has a percent complete, so earned value falls back to commitments');
+  }
+
+  const linearTotal =
+    remainingDays != null && spentCents > 0 && elapsedDays > 0
+      ? estimate(
+          'burn_rate',
+          Math.max(spentCents + burnRate * remainingDays, exposureCents) + pendingChangeOrderCents,
+          budgetCents,
+          daily,
+          burnRate,
+          timeline
+        )
+      : estimate('commitments', sum((c) => c.linear.estimateAtCompletionCents), budgetCents, daily, burnRate, timeline);
+
+  const earnedBasis = forecasts.some((c) => c.earnedValue.basis === 'earned_value') ? 'earned_value' : 'commitments';
+  const earnedValueTotal: EarnedValueEstimate = {
+    ...estimate(earnedBasis, sum((c) => c.earnedValue.estimateAtCompletionCents), budgetCents, daily, burnRate, timeline),
+    earnedValueCents: earnedSpentCents > 0 ? Math.round(earnedValueCents) : null,
+    cpi: earnedSpentCents > 0 ? roundCpi(earnedValueCents, earnedSpentCents) : null,
+  };
+
+  return {
+    projectId: project.id,
+    asOf: today,
+    startDate,
+    targetDate: project.targetDate,
+    elapsedDays,
+    remainingDays,
+    budgetCents,
+    spentCents,
+    exposureCents,
+    pendingChangeOrderCents,
+    burnRateCentsPerDay: Math.round(burnRate),
+    linear: linearTotal,
+    earnedValue: earnedValueTotal,
+    categories: forecasts,
+    warnings,
+  };
+}
+
+/**
+ * Spend per category recorded by paying contract payments
+ */
+export async function loadContractPaidCents(db: D1Database, projectId: string): Promise<Map<string, number>> {
+  const { results } = await db
+    .prepare(
+      `SELECT e.category, SUM(e.amount_cents) AS amount_cents
+       FROM contract_payments cp
+       JOIN contracts k ON k.id = cp.contract_id JOIN expenses e ON e.id = cp.expense_id
+       WHERE k.project_id = ?
+       GROUP BY e.category`
+    )
+    .bind(projectId)
+    .all<{ category: string; amount_cents: number }>();
+  return new Map(results.map((r) => [r.category, r.amount_cents]));
+}
+
+export async function forecastProject(
+  db: D1Database,
+  projectId: string,
+  today: string
+): Promise<ProjectForecast> {
+  const project = await getProject(db, projectId);
+  const { categories } = await listCategories(db, projectId);
+  const contractPaidCents = await loadContractPaidCents(db, projectId);
+  const { results: history } = await db
+    .prepare(
+      `SELECT category, expense_date, SUM(amount_cents) AS amount_cents
+       FROM expenses WHERE project_id = ?
+       GROUP BY category, expense_date
+       ORDER BY expense_date, category`
+    )
+    .bind(projectId)
+    .all<{ category: string; expense_date: string; amount_cents: number }>();
+
+  return forecastBudget(
+    {
+      project,
+      categories,
+      contractPaidCents,
+      history: history.map((r) => ({
+        category: r.category,
+        date: r.expense_date,
+        amountCents: r.amount_cents,
+      })),
+    },
+    today
+  );
+}
+
+/**
+ * Routes /api/projects/:id/forecast requests
+ * Returns null when the path/method is not the forecast route
+ */
+export async function handleForecastRequest(
+  request: Request,
+  env: Env,
+  url: URL
+): Promise<Response | null> {
+  const params = matchPath('/api/projects/:id/forecast', url.pathname);
+  if (!params || request.method !== 'GET') return null;
+
+  const forecast = await forecastProject(getDatabase(env), params.id, nowIso().slice(0, 10));
+  return jsonResponse({ forecast });
+}
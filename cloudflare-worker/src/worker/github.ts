@@ -0,0 +1,128 @@
+/**
+ * Minimal GitHub REST API client for opening pull requests
+ * The base URL is configurable (GITHUB_API_URL) so tests can point it at a local mock server.
+ */
+
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+
+export interface GitHubClientConfig {
+  token: string;
+  baseUrl: string;
+}
+
+export interface GitHubRepo {
+  owner: string;
+  repo: string;
+}
+
+export interface PullRequest {
+  number: number;
+  url: string;
+}
+
+export interface PullRequestInput {
+  title: string;
+  body: string;
+  /** Branch with the changes */
+  head: string;
+  /** Branch to merge into */
+  base: string;
+}
+
+export class GitHubApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'GitHubApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Extracts owner and repository name from a GitHub clone URL
+ */
+export function parseRepoUrl(repoUrl: string): GitHubRepo {
+  const url = new URL(repoUrl);
+  const [owner, repo] = url.pathname.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '').split('/');
+  if (!owner || !repo) {
+    throw new Error(`Cannot determine the GitHub repository from ${repoUrl}`);
+  }
+  return { owner, repo };
+}
+
+async function githubRequest<T>(
+  config: GitHubClientConfig,
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<T> {
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}${path}`, {
+    method,
+    headers: {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${config.token}`,
+      'User-Agent': 'home-remodel-budget-agent',
+      'X-GitHub-Api-Version': '2022-11-28',
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => null) as { message?: string } | null;
+  if (!response.ok) {
+    throw new GitHubApiError(
+      response.status,
+      `GitHub API ${method} ${path} failed (${response.status}): ${data?.message ?? response.statusText}`
+    );
+  }
+  return data as T;
+}
+
+function toPullRequest(data: { number: number; html_url: string }): PullRequest {
+  return { number: data.number, url: data.html_url };
+}
+
+/**
+ * Finds the open pull request for a branch, if there is one
+ */
+export async function findOpenPullRequest(
+  config: GitHubClientConfig,
+  { owner, repo }: GitHubRepo,
+  head: string
+): Promise<PullRequest | null> {
+  const query = new URLSearchParams({ head: `${owner}:${head}`, state: 'open' });
+  const pulls = await githubRequest<{ number: number; html_url: string }[]>(
+    config,
+    'GET',
+    `/repos/${owner}/${repo}/pulls?${query}`
+  );
+  return pulls.length > 0 ? toPullRequest(pulls[0]) : null;
+}
+
+/**
+ * Opens a pull request
+ * When the branch already has an open pull request (GitHub answers 422), that one is returned
+ * with `existing: true`; new commits pushed to the branch show up on it automatically.
+ */
+export async function createPullRequest(
+  config: GitHubClientConfig,
+  target: GitHubRepo,
+  input: PullRequestInput
+): Promise<PullRequest & { existing: boolean }> {
+  try {
+    const data = await githubRequest<{ number: number; html_url: string }>(
+      config,
+      'POST',
+      `/repos/${target.owner}/${target.repo}/pulls`,
+      input
+    );
+    return { ...toPullRequest(data), existing: false };
+  } catch (error) {
+    if (error instanceof GitHubApiError && error.status === 422) {
+      const existing = await findOpenPullRequest(config, target, input.head);
+      if (existing) return { ...existing, existing: true };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * HTTP helpers shared by the API route handlers
+ * Keeps JSON responses, request parsing and error shapes consistent across routes
+ */
+
+/**
+ * An error that maps directly onto an HTTP response
+ */
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Raised when a request body fails validation
+ * `fields` maps each offending field name to a human-readable message
+ */
+export class ValidationError extends ApiError {
+  readonly fields: Record<string, string>;
+
+  constructor(fields: Record<string, string>) {
+    super(400, 'Validation failed');
+    this.name = 'ValidationError';
+    this.fields = fields;
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'Sign in required') {
+    super(401, message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message: string) {
+    super(403, message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(404, message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super(409, message);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Raised when a request cannot be served right now but may succeed later
+ * The response carries a Retry-After header; `details` are added to the JSON body.
+ */
+export class RetryLaterError extends ApiError {
+  readonly retryAfterSeconds: number;
+  readonly details: Record<string, unknown>;
+
+  constructor(
+    status: number,
+    message: string,
+    retryAfterSeconds: number,
+    details: Record<string, unknown> = {}
+  ) {
+    super(status, message);
+    this.name = 'RetryLaterError';
+    this.retryAfterSeconds = retryAfterSeconds;
+    this.details = details;
+  }
+}
+
+export function jsonResponse(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+/**
+ * Converts an ApiError into its JSON response
+ */
+export function apiErrorResponse(error: ApiError): Response {
+  const body: Record<string, unknown> = { error: error.message };
+  if (error instanceof ValidationError) {
+    body.fields = error.fields;
+  }
+  if (error instanceof RetryLaterError) {
+    Object.assign(body, error.details, { retryAfterSeconds: error.retryAfterSeconds });
+    const response = jsonResponse(body, error.status);
+    response.headers.set('Retry-After', String(error.retryAfterSeconds));
+    return response;
+  }
+  return jsonResponse(body, error.status);
+}
+
+/**
+ * Parses a JSON request body, rejecting anything that is not a JSON object
+ */
+export async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError(400, 'Request body must be valid JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ApiError(400, 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Reads a multipart/form-data body (file uploads)
+ */
+export async function readFormData(request: Request): Promise<FormData> {
+  if (!(request.headers.get('Content-Type') ?? '').startsWith('multipart/form-data')) {
+    throw new ApiError(415, 'Request body must be multipart/form-data');
+  }
+  try {
+    return await request.formData();
+  } catch {
+    throw new ApiError(400, 'Request body is not valid multipart/form-data');
+  }
+}
+
+/**
+ * Matches a pathname against a pattern such as `/api/projects/:id`
+ * Returns the decoded path parameters, or null when the path does not match.
+ * Throws ValidationError when a matching path has a parameter that is not valid percent-encoding.
+ */
+export function matchPath(
+  pattern: string,
+  pathname: string
+): Record<string, string> | null {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) {
+    return null;
+  }
+  if (patternParts.some((part, i) => !part.startsWith(':') && part !== pathParts[i])) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    const part = patternParts[i];
+    if (!part.startsWith(':')) continue;
+    const name = part.slice(1);
+    try {
+      params[name] = decodeURIComponent(pathParts[i]);
+    } catch {
+      throw new ValidationError({ [name]: `${name} is not a valid URL path segment` });
+    }
+  }
+  return params;
+}
@@ -0,0 +1,914 @@
+/**
+ * Statement imports
+ * A CSV or OFX/QFX statement is parsed (see statements.ts) into a pending import. Each
+ * transaction is matched against the project's ledger so nothing is counted twice, and
+ * categorized with vendor rules learned from how past expenses were categorized. The import
+ * is a preview: rows can be accepted, rejected or recategorized, and only committing it
+ * writes expenses.
+ *
+ * A transaction counts as already recorded when an expense carries its import reference
+ * (the same statement line was imported before), or when an expense has the same amount,
+ * a date at most 3 days away and a matching vendor. Duplicates start out rejected.
+ *
+ * Routes:
+ * - GET    /api/import-mappings                             List saved CSV column mappings
+ * - POST   /api/import-mappings                             Save the mapping for a bank or card
+ * - GET    /api/import-mappings/:id                         Get a mapping
+ * - PATCH  /api/import-mappings/:id                         Update a mapping
+ * - DELETE /api/import-mappings/:id                         Delete a mapping
+ * - GET    /api/projects/:id/imports                        List imports
+ * - POST   /api/projects/:id/imports                        Upload a statement (multipart: file, mappingId, format)
+ * - GET    /api/projects/:id/imports/:importId              Preview an import with its rows
+ * - DELETE /api/projects/:id/imports/:importId              Discard a pending import
+ * - PATCH  /api/projects/:id/imports/:importId/rows/:rowId  Accept, reject or recategorize a row
+ * - POST   /api/projects/:id/imports/:importId/commit       Write the accepted rows as expenses
+ */
+
+import { assertCategoryExists } from './categories';
+import { getDatabase, nowIso } from './db';
+import { PAYMENT_METHODS } from './expenses';
+import {
+  ApiError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  jsonResponse,
+  matchPath,
+  readFormData,
+  readJsonBody,
+} from './http';
+import { getProject, getWritableProject } from './projects';
+import {
+  DATE_FORMATS,
+  EXPENSE_SIGNS,
+  STATEMENT_FORMATS,
+  detectStatementFormat,
+  guessCsvMapping,
+  parseCsv,
+  parseCsvStatement,
+  parseOfxStatement,
+  type CsvMapping,
+  type ParsedStatement,
+  type StatementFormat,
+  type StatementTransaction,
+} from './statements';
+import { normalizeCategory, readBoolean, readEnum, readString, throwIfInvalid, type FieldErrors } from './validate';
+
+const MAX_STATEMENT_BYTES = 2 * 1024 * 1024;
+const MAX_IMPORT_ROWS = 5000;
+// Expenses this many days either side of a transaction may be the same purchase
+const DUPLICATE_WINDOW_DAYS = 3;
+// Rows written per D1 batch
+const WRITE_CHUNK = 50;
+const MAX_VENDOR_LENGTH = 120;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words card processors and banks add around merchant names
+const VENDOR_NOISE = /\b(sq|tst|pos|pp|purchase|debit|credit|card|ach|online|payment|recurring|www|com|inc|llc|ltd|co)\b/g;
+
+export type ImportDecision = 'accept' | 'reject';
+export type ImportStatus = 'pending' | 'committed';
+export type DuplicateReason = 'same_transaction' | 'similar_expense';
+
+export interface ImportMapping extends CsvMapping {
+  id: string;
+  /** Bank or card the mapping is for */
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ImportRow {
+  id: string;
+  rowNumber: number;
+  date: string;
+  /** Vendor the expense will be recorded under; the ledger's name when a vendor rule matched */
+  vendor: string;
+  /** The statement's description, as written */
+  description: string;
+  amountCents: number;
+  category: string | null;
+  categorySource: 'vendor_rule' | 'user' | null;
+  duplicateOf: { expenseId: string; date: string; vendor: string; amountCents: number } | null;
+  duplicateReason: DuplicateReason | null;
+  decision: ImportDecision;
+  /** The expense written on commit */
+  expenseId: string | null;
+}
+
+export interface ImportBatch {
+  id: string;
+  projectId: string;
+  fileName: string;
+  format: StatementFormat;
+  mappingId: string | null;
+  status: ImportStatus;
+  /** Incoming transactions (payments, refunds) that were left out */
+  skipped: number;
+  errors: ParsedStatement['errors'];
+  counts: { rows: number; accepted: number; rejected: number; duplicates: number; uncategorized: number };
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ImportMappingRow {
+  id: string;
+  name: string;
+  date_column: string;
+  description_column: string;
+  amount_column: string | null;
+  debit_column: string | null;
+  credit_column: string | null;
+  date_format: CsvMapping['dateFormat'];
+  expenses_are: CsvMapping['expensesAre'];
+  created_at: string;
+  updated_at: string;
+}
+
+interface ImportBatchRow {
+  id: string;
+  project_id: string;
+  file_name: string;
+  format: StatementFormat;
+  mapping_id: string | null;
+  status: ImportStatus;
+  skipped_count: number;
+  parse_errors: string;
+  created_at: string;
+  updated_at: string;
+  row_count: number;
+  accepted_count: number | null;
+  rejected_count: number | null;
+  duplicate_count: number | null;
+  uncategorized_count: number | null;
+}
+
+interface ImportRowRow {
+  id: string;
+  row_number: number;
+  import_ref: string;
+  expense_date: string;
+  vendor: string;
+  description: string;
+  amount_cents: number;
+  category: string | null;
+  category_source: ImportRow['categorySource'];
+  duplicate_of: string | null;
+  duplicate_reason: DuplicateReason | null;
+  decision: ImportDecision;
+  expense_id: string | null;
+  duplicate_date: string | null;
+  duplicate_vendor: string | null;
+  duplicate_amount_cents: number | null;
+}
+
+interface LedgerEntry {
+  id: string;
+  expense_date: string;
+  vendor: string;
+  amount_cents: number;
+  import_ref: string | null;
+}
+
+interface VendorRule {
+  key: string;
+  vendor: string;
+  category: string;
+}
+
+const BATCH_SELECT = `
+  SELECT b.*,
+         COUNT(r.id) AS row_count,
+         SUM(r.decision = 'accept') AS accepted_count,
+         SUM(r.decision = 'reject') AS rejected_count,
+         SUM(r.duplicate_reason IS NOT NULL) AS duplicate_count,
+         SUM(r.decision = 'accept' AND r.category IS NULL) AS uncategorized_count
+  FROM import_batches b
+  LEFT JOIN import_rows r ON r.batch_id = b.id`;
+
+const ROW_SELECT = `
+  SELECT r.*, e.expense_date AS duplicate_date, e.vendor AS duplicate_vendor, e.amount_cents AS duplicate_amount_cents
+  FROM import_rows r
+  LEFT JOIN expenses e ON e.id = r.duplicate_of`;
+
+function toMapping(row: ImportMappingRow): ImportMapping {
+  return {
+    id: row.id,
+    name: row.name,
+    dateColumn: row.date_column,
+    descriptionColumn: row.description_column,
+    amountColumn: row.amount_column,
+    debitColumn: row.debit_column,
+    creditColumn: row.credit_column,
+    dateFormat: row.date_format,
+    expensesAre: row.expenses_are,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toBatch(row: ImportBatchRow): ImportBatch {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    fileName: row.file_name,
+    format: row.format,
+    mappingId: row.mapping_id,
+    status: row.status,
+    skipped: row.skipped_count,
+    errors: JSON.parse(row.parse_errors) as ImportBatch['errors'],
+    counts: {
+      rows: row.row_count,
+      accepted: row.accepted_count ?? 0,
+      rejected: row.rejected_count ?? 0,
+      duplicates: row.duplicate_count ?? 0,
+      uncategorized: row.uncategorized_count ?? 0,
+    },
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toImportRow(row: ImportRowRow): ImportRow {
+  return {
+    id: row.id,
+    rowNumber: row.row_number,
+    date: row.expense_date,
+    vendor: row.vendor,
+    description: row.description,
+    amountCents: row.amount_cents,
+    category: row.category,
+    categorySource: row.category_source,
+    duplicateOf: row.duplicate_of
+      ? {
+          expenseId: row.duplicate_of,
+          date: row.duplicate_date!,
+          vendor: row.duplicate_vendor!,
+          amountCents: row.duplicate_amount_cents!,
+        }
+      : null,
+    duplicateReason: row.duplicate_reason,
+    decision: row.decision,
+    expenseId: row.expense_id,
+  };
+}
+
+/**
+ * Reduces a ledger vendor or statement description to the words that name the merchant:
+ * "SQ *TILE DEPOT #0423 SAN JOSE" and "Tile Depot" both contain "tile depot"
+ */
+export function vendorKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z ]+/g, ' ')
+    .replace(VENDOR_NOISE, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function containsWords(text: string, words: string): boolean {
+  return words.length >= 3 && ` ${text} `.includes(` ${words} `);
+}
+
+function vendorsMatch(a: string, b: string): boolean {
+  const [keyA, keyB] = [vendorKey(a), vendorKey(b)];
+  if (containsWords(keyA, keyB) || containsWords(keyB, keyA)) return true;
+  const [firstA] = keyA.split(' ');
+  const [firstB] = keyB.split(' ');
+  return firstA.length >= 4 && firstA === firstB;
+}
+
+/**
+ * Validates a mapping create (partial = false) or update (partial = true) payload
+ */
+function validateMappingInput(body: Record<string, unknown>, partial: boolean): Partial<Omit<ImportMapping, 'id' | 'createdAt' | 'updatedAt'>> {
+  const errors: FieldErrors = {};
+  const input: Partial<Omit<ImportMapping, 'id' | 'createdAt' | 'updatedAt'>> = {};
+
+  const name = readString(body, 'name', errors, { required: !partial, maxLength: 100 });
+  if (name != null) input.name = name;
+  const dateColumn = readString(body, 'dateColumn', errors, { required: !partial, maxLength: 100 });
+  if (dateColumn != null) input.dateColumn = dateColumn;
+  const descriptionColumn = readString(body, 'descriptionColumn', errors, { required: !partial, maxLength: 100 });
+  if (descriptionColumn != null) input.descriptionColumn = descriptionColumn;
+  for (const key of ['amountColumn', 'debitColumn', 'creditColumn'] as const) {
+    const column = readString(body, key, errors, { nullable: true, maxLength: 100 });
+    if (column !== undefined) input[key] = column;
+  }
+  const dateFormat = readEnum(body, 'dateFormat', DATE_FORMATS, errors);
+  if (dateFormat != null) input.dateFormat = dateFormat;
+  const expensesAre = readEnum(body, 'expensesAre', EXPENSE_SIGNS, errors);
+  if (expensesAre != null) input.expensesAre = expensesAre;
+
+  throwIfInvalid(errors);
+  return input;
+}
+
+function assertAmountColumns(mapping: CsvMapping): void {
+  if (!mapping.amountColumn && !mapping.debitColumn) {
+    throw new ValidationError({ amountColumn: 'set amountColumn, or debitColumn for banks with separate debit and credit columns' });
+  }
+}
+
+export async function listImportMappings(db: D1Database): Promise<ImportMapping[]> {
+  const { results } = await db.prepare('SELECT * FROM import_mappings ORDER BY name').all<ImportMappingRow>();
+  return results.map(toMapping);
+}
+
+export async function getImportMapping(db: D1Database, id: string): Promise<ImportMapping> {
+  const row = await db.prepare('SELECT * FROM import_mappings WHERE id = ?').bind(id).first<ImportMappingRow>();
+  if (!row) {
+    throw new NotFoundError(`Import mapping ${id} not found`);
+  }
+  return toMapping(row);
+}
+
+async function saveMapping(db: D1Database, mapping: Omit<ImportMapping, 'createdAt' | 'updatedAt'>, isNew: boolean): Promise<ImportMapping> {
+  assertAmountColumns(mapping);
+  const values = [
+    mapping.name,
+    mapping.dateColumn,
+    mapping.descriptionColumn,
+    mapping.amountColumn,
+    mapping.debitColumn,
+    mapping.creditColumn,
+    mapping.dateFormat,
+    mapping.expensesAre,
+  ];
+  const timestamp = nowIso();
+  try {
+    if (isNew) {
+      await db
+        .prepare(
+          `INSERT INTO import_mappings
+             (name, date_column, description_column, amount_column, debit_column, credit_column, date_format, expenses_are, id, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(...values, mapping.id, timestamp, timestamp)
+        .run();
+    } else {
+      await db
+        .prepare(
+          `UPDATE import_mappings
+           SET name = ?, date_column = ?, description_column = ?, amount_column = ?, debit_column = ?,
+               credit_column = ?, date_format = ?, expenses_are = ?, updated_at = ?
+           WHERE id = ?`
+        )
+        .bind(...values, timestamp, mapping.id)
+        .run();
+    }
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('UNIQUE')) {
+      throw new ConflictError(`An import mapping named "${mapping.name}" already exists`);
+    }
+    throw error;
+  }
+  return getImportMapping(db, mapping.id);
+}
+
+export async function createImportMapping(db: D1Database, body: Record<string, unknown>): Promise<ImportMapping> {
+  const input = validateMappingInput(body, false);
+  return saveMapping(
+    db,
+    {
+      id: crypto.randomUUID(),
+      name: input.name!,
+      dateColumn: input.dateColumn!,
+      descriptionColumn: input.descriptionColumn!,
+      amountColumn: input.amountColumn ?? null,
+      debitColumn: input.debitColumn ?? null,
+      creditColumn: input.creditColumn ?? null,
+      dateFormat: input.dateFormat ?? 'MM/DD/YYYY',
+      expensesAre: input.expensesAre ?? 'negative',
+    },
+    true
+  );
+}
+
+export async function updateImportMapping(db: D1Database, id: string, body: Record<string, unknown>): Promise<ImportMapping> {
+  const input = validateMappingInput(body, true);
+  const existing = await getImportMapping(db, id);
+  return saveMapping(db, { ...existing, ...input }, false);
+}
+
+export async function deleteImportMapping(db: D1Database, id: string): Promise<void> {
+  const result = await db.prepare('DELETE FROM import_mappings WHERE id = ?').bind(id).run();
+  if (result.meta.changes === 0) {
+    throw new NotFoundError(`Import mapping ${id} not found`);
+  }
+}
+
+/**
+ * Vendor rules learned from the ledger: each vendor maps to the category its expenses were
+ * given most often, preferring this project's expenses over other projects'. Only categories
+ * the project has are used. Longer vendor names come first so the most specific rule wins.
+ */
+async function loadVendorRules(db: D1Database, projectId: string): Promise<VendorRule[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT MAX(e.vendor) AS vendor, e.category,
+              SUM(e.project_id = ?1) AS project_count, COUNT(*) AS total_count
+       FROM expenses e
+       WHERE e.category IN (SELECT key FROM budget_categories WHERE project_id = ?1)
+       GROUP BY lower(e.vendor), e.category`
+    )
+    .bind(projectId)
+    .all<{ vendor: string; category: string; project_count: number; total_count: number }>();
+
+  const best = new Map<string, (typeof results)[number]>();
+  for (const row of results) {
+    const key = vendorKey(row.vendor);
+    const current = best.get(key);
+    if (
+      key.length >= 3 &&
+      (!current ||
+        row.project_count > current.project_count ||
+        (row.project_count === current.project_count && row.total_count > current.total_count))
+    ) {
+      best.set(key, row);
+    }
+  }
+  return [...best.entries()]
+    .map(([key, row]) => ({ key, vendor: row.vendor, category: row.category }))
+    .sort((a, b) => b.key.length - a.key.length);
+}
+
+function matchVendorRule(rules: VendorRule[], description: string): VendorRule | null {
+  const key = vendorKey(description);
+  return rules.find((rule) => containsWords(key, rule.key)) ?? null;
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS;
+}
+
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Identifies a statement line across imports: the bank's id for OFX, otherwise a hash of
+ * date, amount and description (numbered, so identical purchases on one day stay distinct)
+ */
+async function importRef(format: StatementFormat, transaction: StatementTransaction, occurrence: number): Promise<string> {
+  if (format === 'ofx' && transaction.bankId) {
+    return `ofx:${transaction.bankId}:${transaction.date}:${transaction.amountCents}`;
+  }
+  const text = `${transaction.date}|${transaction.amountCents}|${transaction.description.toLowerCase()}|${occurrence}`;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  const hex = [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${format}:${hex.slice(0, 32)}`;
+}
+
+async function loadLedger(db: D1Database, projectId: string, transactions: StatementTransaction[]): Promise<LedgerEntry[]> {
+  const dates = transactions.map((t) => t.date).sort();
+  const { results } = await db
+    .prepare(
+      `SELECT id, expense_date, vendor, amount_cents, import_ref FROM expenses
+       WHERE project_id = ? AND expense_date BETWEEN ? AND ?`
+    )
+    .bind(projectId, shiftDate(dates[0], -DUPLICATE_WINDOW_DAYS), shiftDate(dates[dates.length - 1], DUPLICATE_WINDOW_DAYS))
+    .all<LedgerEntry>();
+  return results;
+}
+
+/**
+ * Finds the ledger entry a transaction is already recorded as; each entry matches once
+ */
+function findDuplicate(
+  ledger: LedgerEntry[],
+  matched: Set<string>,
+  ref: string,
+  transaction: StatementTransaction,
+  vendor: string
+): { entry: LedgerEntry; reason: DuplicateReason } | null {
+  const available = ledger.filter((entry) => !matched.has(entry.id));
+  const same = available.find((entry) => entry.import_ref === ref);
+  if (same) return { entry: same, reason: 'same_transaction' };
+
+  const similar = available.find(
+    (entry) =>
+      entry.amount_cents === transaction.amountCents &&
+      daysBetween(entry.expense_date, transaction.date) <= DUPLICATE_WINDOW_DAYS &&
+      (vendorsMatch(entry.vendor, transaction.description) || vendorsMatch(entry.vendor, vendor))
+  );
+  return similar ? { entry: similar, reason: 'similar_expense' } : null;
+}
+
+async function readStatement(
+  db: D1Database,
+  text: string,
+  format: StatementFormat,
+  mappingId: string | null
+): Promise<ParsedStatement> {
+  if (format === 'ofx') {
+    return parseOfxStatement(text);
+  }
+  let mapping: CsvMapping | null;
+  if (mappingId) {
+    mapping = await getImportMapping(db, mappingId);
+  } else {
+    const [headers = []] = parseCsv(text.split(/\r?\n/, 1)[0] ?? '');
+    mapping = guessCsvMapping(headers);
+    if (!mapping) {
+      throw new ValidationError({
+        mappingId: `mappingId is required: the columns (${headers.join(', ') || 'none'}) were not recognised`,
+      });
+    }
+  }
+  return parseCsvStatement(text, mapping);
+}
+
+/**
+ * Parses a statement into a pending import, matching each transaction against the ledger
+ * and the vendor rules
+ */
+export async function createImport(
+  db: D1Database,
+  projectId: string,
+  upload: { fileName: string; text: string; format?: StatementFormat; mappingId?: string | null }
+): Promise<{ import: ImportBatch; rows: ImportRow[] }> {
+  await getWritableProject(db, projectId);
+  const text = upload.text.replace(/^﻿/, '');
+  const format = upload.format ?? detectStatementFormat(upload.fileName, text);
+  const mappingId = format === 'csv' ? upload.mappingId ?? null : null;
+  const parsed = await readStatement(db, text, format, mappingId);
+
+  const columnError = parsed.errors.find((error) => error.rowNumber === 0);
+  if (columnError) {
+    throw new ValidationError({ file: columnError.message });
+  }
+  if (parsed.transactions.length === 0) {
+    throw new ValidationError({ file: 'the statement has no outgoing transactions to import' });
+  }
+  if (parsed.transactions.length > MAX_IMPORT_ROWS) {
+    throw new ValidationError({ file: `a statement can have at most ${MAX_IMPORT_ROWS} transactions` });
+  }
+
+  const rules = await loadVendorRules(db, projectId);
+  const ledger = await loadLedger(db, projectId, parsed.transactions);
+  const matched = new Set<string>();
+  const occurrences = new Map<string, number>();
+  const seenRefs = new Set<string>();
+  const errors = [...parsed.errors];
+
+  const batchId = crypto.randomUUID();
+  const timestamp = nowIso();
+  const rowInserts: D1PreparedStatement[] = [];
+
+  for (const transaction of parsed.transactions) {
+    const sameLine = `${transaction.date}|${transaction.amountCents}|${transaction.description.toLowerCase()}`;
+    const occurrence = (occurrences.get(sameLine) ?? 0) + 1;
+    occurrences.set(sameLine, occurrence);
+    const ref = await importRef(format, transaction, occurrence);
+    if (seenRefs.has(ref)) {
+      errors.push({ rowNumber: transaction.rowNumber, message: 'Repeats an earlier transaction in this file' });
+      continue;
+    }
+    seenRefs.add(ref);
+
+    const rule = matchVendorRule(rules, transaction.description);
+    const vendor = (rule?.vendor ?? transaction.description).slice(0, MAX_VENDOR_LENGTH);
+    const duplicate = findDuplicate(ledger, matched, ref, transaction, vendor);
+    if (duplicate) matched.add(duplicate.entry.id);
+
+    rowInserts.push(
+      db
+        .prepare(
+          `INSERT INTO import_rows
+             (id, batch_id, row_number, import_ref, expense_date, vendor, description, amount_cents,
+              category, category_source, duplicate_of, duplicate_reason, decision)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          crypto.randomUUID(),
+          batchId,
+          transaction.rowNumber,
+          ref,
+          transaction.date,
+          vendor,
+          transaction.description.slice(0, 500),
+          transaction.amountCents,
+          rule?.category ?? null,
+          rule ? 'vendor_rule' : null,
+          duplicate?.entry.id ?? null,
+          duplicate?.reason ?? null,
+          duplicate ? 'reject' : 'accept'
+        )
+    );
+  }
+  const statements = [
+    db
+      .prepare(
+        `INSERT INTO import_batches (id, project_id, file_name, format, mapping_id, skipped_count, parse_errors, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(batchId, projectId, upload.fileName, format, mappingId, parsed.skipped, JSON.stringify(errors), timestamp, timestamp),
+    ...rowInserts,
+  ];
+  for (let i = 0; i < statements.length; i += WRITE_CHUNK) {
+    await db.batch(statements.slice(i, i + WRITE_CHUNK));
+  }
+  return getImport(db, projectId, batchId);
+}
+
+export async function listImports(db: D1Database, projectId: string): Promise<ImportBatch[]> {
+  await getProject(db, projectId);
+  const { results } = await db
+    .prepare(`${BATCH_SELECT} WHERE b.project_id = ? GROUP BY b.id ORDER BY b.created_at DESC`)
+    .bind(projectId)
+    .all<ImportBatchRow>();
+  return results.map(toBatch);
+}
+
+async function getBatch(db: D1Database, projectId: string, importId: string): Promise<ImportBatch> {
+  const row = await db
+    .prepare(`${BATCH_SELECT} WHERE b.id = ? AND b.project_id = ? GROUP BY b.id`)
+    .bind(importId, projectId)
+    .first<ImportBatchRow>();
+  if (!row) {
+    throw new NotFoundError(`Import ${importId} not found`);
+  }
+  return toBatch(row);
+}
+
+async function getPendingBatch(db: D1Database, projectId: string, importId: string): Promise<ImportBatch> {
+  const batch = await getBatch(db, projectId, importId);
+  if (batch.status !== 'pending') {
+    throw new ConflictError(`Import ${importId} was already committed`);
+  }
+  return batch;
+}
+
+export async function getImport(
+  db: D1Database,
+  projectId: string,
+  importId: string
+): Promise<{ import: ImportBatch; rows: ImportRow[] }> {
+  const batch = await getBatch(db, projectId, importId);
+  const { results } = await db
+    .prepare(`${ROW_SELECT} WHERE r.batch_id = ? ORDER BY r.row_number`)
+    .bind(importId)
+    .all<ImportRowRow>();
+  return { import: batch, rows: results.map(toImportRow) };
+}
+
+/**
+ * Accepts or rejects a row, or changes the vendor or category it will be recorded under
+ */
+export async function updateImportRow(
+  db: D1Database,
+  projectId: string,
+  importId: string,
+  rowId: string,
+  body: Record<string, unknown>
+): Promise<ImportRow> {
+  const errors: FieldErrors = {};
+  const decision = readEnum(body, 'decision', ['accept', 'reject'] as const, errors);
+  const vendor = readString(body, 'vendor', errors, { maxLength: MAX_VENDOR_LENGTH });
+  const category = readString(body, 'category', errors, { nullable: true, maxLength: 50 });
+  throwIfInvalid(errors);
+
+  await getWritableProject(db, projectId);
+  await getPendingBatch(db, projectId, importId);
+  const existing = await db
+    .prepare(`${ROW_SELECT} WHERE r.id = ? AND r.batch_id = ?`)
+    .bind(rowId, importId)
+    .first<ImportRowRow>();
+  if (!existing) {
+    throw new NotFoundError(`Import row ${rowId} not found`);
+  }
+
+  const assignments: string[] = [];
+  const values: unknown[] = [];
+  if (decision) {
+    assignments.push('decision = ?');
+    values.push(decision);
+  }
+  if (vendor) {
+    assignments.push('vendor = ?');
+    values.push(vendor);
+  }
+  if (category !== undefined) {
+    const key = category === null ? null : normalizeCategory(category);
+    if (key !== null) await assertCategoryExists(db, projectId, key);
+    assignments.push('category = ?', 'category_source = ?');
+    values.push(key, key === null ? null : 'user');
+  }
+  if (assignments.length > 0) {
+    await db
+      .prepare(`UPDATE import_rows SET ${assignments.join(', ')} WHERE id = ?`)
+      .bind(...values, rowId)
+      .run();
+    await db.prepare('UPDATE import_batches SET updated_at = ? WHERE id = ?').bind(nowIso(), importId).run();
+  }
+
+  const row = await db.prepare(`${ROW_SELECT} WHERE r.id = ?`).bind(rowId).first<ImportRowRow>();
+  return toImportRow(row!);
+}
+
+/**
+ * Writes the accepted rows as expenses
+ * Every accepted row needs a category. Rows whose statement line was recorded by another
+ * import since the preview are rejected rather than written twice. Statement transactions
+ * have cleared, so expenses are recorded as paid unless `paid: false` is passed.
+ * The batch is claimed before anything is written, so a second commit of it gets a 409,
+ * and the expenses are written in one transaction that releases the claim if it fails.
+ */
+export async function commitImport(
+  db: D1Database,
+  projectId: string,
+  importId: string,
+  body: Record<string, unknown>
+): Promise<{ import: ImportBatch; created: number }> {
+  const errors: FieldErrors = {};
+  const paid = readBoolean(body, 'paid', errors) ?? true;
+  const paymentMethod = readEnum(body, 'paymentMethod', PAYMENT_METHODS, errors, { nullable: true }) ?? null;
+  throwIfInvalid(errors);
+
+  await getWritableProject(db, projectId);
+  await getPendingBatch(db, projectId, importId);
+
+  await db
+    .prepare(
+      `UPDATE import_rows
+       SET decision = 'reject', duplicate_reason = 'same_transaction',
+           duplicate_of = (SELECT e.id FROM expenses e WHERE e.project_id = ?1 AND e.import_ref = import_rows.import_ref LIMIT 1)
+       WHERE batch_id = ?2 AND decision = 'accept'
+         AND EXISTS (SELECT 1 FROM expenses e WHERE e.project_id = ?1 AND e.import_ref = import_rows.import_ref)`
+    )
+    .bind(projectId, importId)
+    .run();
+
+  const { rows } = await getImport(db, projectId, importId);
+  const accepted = rows.filter((row) => row.decision === 'accept');
+  const { results: categories } = await db
+    .prepare('SELECT key FROM budget_categories WHERE project_id = ?')
+    .bind(projectId)
+    .all<{ key: string }>();
+  const keys = new Set(categories.map((category) => category.key));
+
+  const rowErrors: FieldErrors = {};
+  for (const row of accepted) {
+    if (!row.category) {
+      rowErrors[`rows.${row.rowNumber}.category`] = 'choose a category or reject the row';
+    } else if (!keys.has(row.category)) {
+      rowErrors[`rows.${row.rowNumber}.category`] = `category ${row.category} no longer exists`;
+    }
+  }
+  throwIfInvalid(rowErrors);
+
+  const timestamp = nowIso();
+  const claim = await db
+    .prepare(`UPDATE import_batches SET status = 'committed', updated_at = ? WHERE id = ? AND status = 'pending'`)
+    .bind(timestamp, importId)
+    .run();
+  if (claim.meta.changes === 0) {
+    throw new ConflictError(`Import ${importId} was already committed`);
+  }
+
+  const statements: D1PreparedStatement[] = [];
+  for (const row of accepted) {
+    const expenseId = crypto.randomUUID();
+    const notes = row.description !== row.vendor ? `Imported from statement: ${row.description}` : 'Imported from statement';
+    statements.push(
+      db
+        .prepare(
+          `INSERT INTO expenses
+             (id, project_id, expense_date, vendor, category, amount_cents, payment_method, notes, paid, import_ref, created_at, updated_at)
+           SELECT ?, ?, expense_date, vendor, category, amount_cents, ?, ?, ?, import_ref, ?, ? FROM import_rows WHERE id = ?`
+        )
+        .bind(expenseId, projectId, paymentMethod, notes, paid ? 1 : 0, timestamp, timestamp, row.id),
+      db.prepare('UPDATE import_rows SET expense_id = ? WHERE id = ?').bind(expenseId, row.id)
+    );
+  }
+  try {
+    if (statements.length > 0) await db.batch(statements);
+  } catch (error) {
+    await db
+      .prepare(`UPDATE import_batches SET status = 'pending', updated_at = ? WHERE id = ?`)
+      .bind(nowIso(), importId)
+      .run();
+    // Another import recorded one of these statement lines since the duplicate check
+    if (error instanceof Error && error.message.includes('UNIQUE')) {
+      throw new ConflictError(`Some transactions in import ${importId} were just recorded by another import; commit again to skip them`);
+    }
+    throw error;
+  }
+
+  return { import: await getBatch(db, projectId, importId), created: accepted.length };
+}
+
+export async function discardImport(db: D1Database, projectId: string, importId: string): Promise<void> {
+  await getPendingBatch(db, projectId, importId);
+  await db.prepare('DELETE FROM import_batches WHERE id = ?').bind(importId).run();
+}
+
+async function readStatementUpload(request: Request): Promise<{ fileName: string; text: string; format?: StatementFormat; mappingId: string | null }> {
+  const form = await readFormData(request);
+  const file = form.get('file');
+  const mappingId = form.get('mappingId');
+  const format = form.get('format');
+  const errors: FieldErrors = {};
+  if (!(file instanceof File)) {
+    errors.file = 'file is required';
+  } else if (file.size > MAX_STATEMENT_BYTES) {
+    throw new ApiError(413, `Statements can be at most ${MAX_STATEMENT_BYTES / (1024 * 1024)} MB`);
+  }
+  if (format !== null && !(STATEMENT_FORMATS as readonly unknown[]).includes(format)) {
+    errors.format = `format must be one of: ${STATEMENT_FORMATS.join(', ')}`;
+  }
+  throwIfInvalid(errors);
+
+  return {
+    fileName: (file as File).name || 'statement',
+    text: await (file as File).text(),
+    format: (format as StatementFormat | null) ?? undefined,
+    mappingId: typeof mappingId === 'string' && mappingId.trim() ? mappingId.trim() : null,
+  };
+}
+
+/**
+ * Routes /api/import-mappings and /api/projects/:id/imports requests
+ * Returns null when the path/method is not an import route
+ */
+export async function handleImportsRequest(
+  request: Request,
+  env: Env,
+  url: URL
+): Promise<Response | null> {
+  const method = request.method;
+
+  if (matchPath('/api/import-mappings', url.pathname)) {
+    if (method === 'GET') {
+      return jsonResponse({ mappings: await listImportMappings(getDatabase(env)) });
+    }
+    if (method === 'POST') {
+      const mapping = await createImportMapping(getDatabase(env), await readJsonBody(request));
+      return jsonResponse({ mapping }, 201);
+    }
+    return null;
+  }
+
+  const mappingParams = matchPath('/api/import-mappings/:id', url.pathname);
+  if (mappingParams) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ mapping: await getImportMapping(db, mappingParams.id) });
+    }
+    if (method === 'PATCH') {
+      const mapping = await updateImportMapping(db, mappingParams.id, await readJsonBody(request));
+      return jsonResponse({ mapping });
+    }
+    if (method === 'DELETE') {
+      await deleteImportMapping(db, mappingParams.id);
+      return new Response(null, { status: 204 });
+    }
+    return null;
+  }
+
+  const listParams = matchPath('/api/projects/:id/imports', url.pathname);
+  if (listParams) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ imports: await listImports(db, listParams.id) });
+    }
+    if (method === 'POST') {
+      const preview = await createImport(db, listParams.id, await readStatementUpload(request));
+      return jsonResponse(preview, 201);
+    }
+    return null;
+  }
+
+  const rowParams = matchPath('/api/projects/:id/imports/:importId/rows/:rowId', url.pathname);
+  if (rowParams && method === 'PATCH') {
+    const row = await updateImportRow(
+      getDatabase(env),
+      rowParams.id,
+      rowParams.importId,
+      rowParams.rowId,
+      await readJsonBody(request)
+    );
+    return jsonResponse({ row });
+  }
+
+  const commitParams = matchPath('/api/projects/:id/imports/:importId/commit', url.pathname);
+  if (commitParams && method === 'POST') {
+    const body = request.headers.get('Content-Type')?.includes('application/json') ? await readJsonBody(request) : {};
+    return jsonResponse(await commitImport(getDatabase(env), commitParams.id, commitParams.importId, body));
+  }
+
+  const params = matchPath('/api/projects/:id/imports/:importId', url.pathname);
+  if (params) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse(await getImport(db, params.id, params.importId));
+    }
+    if (method === 'DELETE') {
+      await discardImport(db, params.id, params.importId);
+      return new Response(null, { status: 204 });
+    }
+  }
+
+  return null;
+}
@@ -3,170 +3,168 @@
  * Main entry point for the API and agent orchestration
  * 
  * Security Notes:
- * - CORS is currently set to allow all origins for development
- * - In production, restrict CORS to specific trusted origins
- * - Consider adding authentication middleware (e.g., API keys, JWT) for /api/chat endpoint
+ * - CORS only reflects origins listed in CORS_ALLOWED_ORIGINS; every response carries
+ *   CSP, HSTS and X-Content-Type-Options (see middleware.ts)
+ * - Every API route except health, API info and sign-in requires an API key or a
+ *   signed session cookie; roles are enforced per route (see auth.ts)
  * - Git operations use GITHUB_TOKEN - protect this secret carefully
  */
 
 // Re-export Sandbox for Durable Object binding
 export { Sandbox } from '@cloudflare/sandbox';
+// Chat rate limit counters
+export { RateLimiter } from './rate-limit';
 
-import { handleChat } from './agent';
+import { handleApprovalDecision, handleChat } from './agent';
+import { handleAttachmentsRequest } from './attachments';
+import { handleBidsRequest } from './bids';
+import { authenticate, authorize, handleAuthRequest, requiredRole } from './auth';
+import { handleCategoriesRequest } from './categories';
+import { handleChangeOrdersRequest } from './change-orders';
+import { handleContractsRequest } from './contracts';
+import { handleConversationsRequest } from './conversations';
+import { handleExpensesRequest } from './expenses';
+import { handleExportRequest } from './export';
+import { handleForecastRequest } from './forecast';
+import { jsonResponse, matchPath } from './http';
+import { handleImportsRequest } from './imports';
+import { compose, cors, errorResponses, securityHeaders } from './middleware';
+import { handleProjectsRequest } from './projects';
+import { enforceChatRateLimits } from './rate-limit';
+import { handleExpenseDraftsRequest } from './receipts';
+import { handleScenariosRequest } from './scenarios';
+import { API_ROUTES } from './routes';
+import { getDatabase } from './db';
+import { handleUsageRequest } from './usage';
+import { handleVendorsRequest } from './vendors';
+import { getWorkspaceLimits, reclaimIdleWorkspaces } from './workspaces';
 
 // The Env interface is defined globally in worker-configuration.d.ts
 // It includes: ASSETS, Sandbox, AI, GITHUB_TOKEN, OPENAI_API_KEY, 
-// ANTHROPIC_API_KEY, CLOUDFLARE_API_TOKEN, APPS_SCRIPT_ID, REPO_URL
-
-// CORS configuration
-// TODO: In production, replace '*' with specific allowed origins
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-};
+// ANTHROPIC_API_KEY, CLOUDFLARE_API_TOKEN, APPS_SCRIPT_ID, REPO_URL, DB
+
+// D1-backed REST handlers; each returns null for paths it does not own
+const resourceHandlers = [
+  handleProjectsRequest,
+  handleExpensesRequest,
+  handleAttachmentsRequest,
+  handleExpenseDraftsRequest,
+  handleImportsRequest,
+  handleExportRequest,
+  handleVendorsRequest,
+  handleBidsRequest,
+  handleContractsRequest,
+  handleChangeOrdersRequest,
+  handleForecastRequest,
+  handleScenariosRequest,
+  handleCategoriesRequest,
+];
+
+/**
+ * Routes API requests to their handlers and everything else to the Astro assets
+ */
+async function route(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+  const url = new URL(request.url);
 
-function handleOptions(): Response {
-  return new Response(null, {
-    headers: corsHeaders,
-  });
+  // API Routes
+  if (url.pathname.startsWith('/api/') || url.pathname === '/api') {
+    return handleApiRequest(request, env, url, ctx);
+  }
+
+  // For all other routes, let Astro handle it
+  // The assets binding will serve the static files and SSR pages
+  return env.ASSETS.fetch(request);
 }
 
+// CORS, security headers and JSON errors apply to every response, so routes cannot forget them
+const handleFetch = compose([securityHeaders, cors, errorResponses], route);
+
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    const url = new URL(request.url);
-
-    // Handle CORS preflight
-    if (request.method === 'OPTIONS') {
-      return handleOptions();
-    }
-
-    // API Routes
-    if (url.pathname.startsWith('/api/')) {
-      return handleApiRequest(request, env, url);
-    }
+    return handleFetch(request, env, ctx);
+  },
 
-    // For all other routes, let Astro handle it
-    // The assets binding will serve the static files and SSR pages
-    return env.ASSETS.fetch(request);
+  /**
+   * Cron trigger: destroys sandboxes that have been idle longer than SANDBOX_IDLE_MINUTES
+   */
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(
+      reclaimIdleWorkspaces(env, getDatabase(env), getWorkspaceLimits(env)).then((reclaimed) => {
+        if (reclaimed.length > 0) {
+          console.log(`Destroyed ${reclaimed.length} idle sandbox(es): ${reclaimed.join(', ')}`);
+        }
+      })
+    );
   },
 };
 
 async function handleApiRequest(
   request: Request,
   env: Env,
-  url: URL
+  url: URL,
+  ctx: ExecutionContext
 ): Promise<Response> {
-  try {
-    // Health check endpoint
-    if (url.pathname === '/api/health') {
-      return new Response(
-        JSON.stringify({
-          status: 'ok',
-          timestamp: new Date().toISOString(),
-          version: '1.0.0',
-        }),
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            ...corsHeaders,
-          },
-        }
-      );
-    }
+  // Health check endpoint
+  if (url.pathname === '/api/health') {
+    return jsonResponse({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      version: '1.0.0',
+    });
+  }
 
-    // API info endpoint
-    if (url.pathname === '/api' || url.pathname === '/api/') {
-      return new Response(
-        JSON.stringify({
-          message: 'Home Remodel Budget API',
-          version: '1.0.0',
-          endpoints: [
-            { path: '/api/health', method: 'GET', description: 'Health check' },
-            { path: '/api/chat', method: 'POST', description: 'Chat with the budget assistant' },
-            { path: '/api/projects', method: 'GET', description: 'List projects' },
-          ],
-        }),
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            ...corsHeaders,
-          },
-        }
-      );
-    }
+  // API info endpoint
+  if (url.pathname === '/api' || url.pathname === '/api/') {
+    return jsonResponse({
+      message: 'Home Remodel Budget API',
+      version: '1.0.0',
+      endpoints: API_ROUTES,
+    });
+  }
 
-    // Chat endpoint - connects to the agent
-    if (url.pathname === '/api/chat' && request.method === 'POST') {
-      const response = await handleChat(request, env);
-      
-      // Add CORS headers to the response
-      const headers = new Headers(response.headers);
-      Object.entries(corsHeaders).forEach(([key, value]) => {
-        headers.set(key, value);
-      });
-      
-      return new Response(response.body, {
-        status: response.status,
-        headers,
-      });
-    }
+  // Everything below requires a caller with at least the route's role
+  const principal = await authenticate(request, env);
+  const role = requiredRole(request.method, url.pathname);
+  if (role) {
+    authorize(principal, role);
+  }
 
-    // Projects endpoint (placeholder)
-    if (url.pathname === '/api/projects') {
-      return new Response(
-        JSON.stringify({
-          projects: [
-            {
-              id: '1',
-              name: 'Kitchen Renovation',
-              budget: 25000,
-              spent: 12500,
-              status: 'in_progress',
-            },
-            {
-              id: '2',
-              name: 'Bathroom Remodel',
-              budget: 15000,
-              spent: 3200,
-              status: 'planning',
-            },
-          ],
-        }),
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            ...corsHeaders,
-          },
-        }
-      );
-    }
+  const authResponse = await handleAuthRequest(request, env, url, principal);
+  if (authResponse) {
+    return authResponse;
+  }
 
-    // 404 for unknown API routes
-    return new Response(
-      JSON.stringify({ error: 'Not Found', path: url.pathname }),
-      {
-        status: 404,
-        headers: {
-          'Content-Type': 'application/json',
-          ...corsHeaders,
-        },
-      }
-    );
-  } catch (error) {
-    console.error('API error:', error);
-    return new Response(
-      JSON.stringify({
-        error: 'Internal Server Error',
-        message: error instanceof Error ? error.message : 'Unknown error',
-      }),
-      {
-        status: 500,
-        headers: {
-          'Content-Type': 'application/json',
-          ...corsHeaders,
-        },
-      }
-    );
+  // Chat endpoint - connects to the agent
+  if (url.pathname === '/api/chat' && request.method === 'POST') {
+    await enforceChatRateLimits(request, env, principal!);
+    return handleChat(request, env, principal!, ctx);
   }
+
+  const usageResponse = await handleUsageRequest(request, env, url, principal);
+  if (usageResponse) {
+    return usageResponse;
+  }
+
+  // Conversations belong to the API key that started them
+  const conversationsResponse = await handleConversationsRequest(request, env, url, principal);
+  if (conversationsResponse) {
+    return conversationsResponse;
+  }
+
+  // Approve or reject a tool call the agent is waiting on
+  const approvalParams = matchPath('/api/chat/approvals/:id', url.pathname);
+  if (approvalParams && request.method === 'POST') {
+    return handleApprovalDecision(request, env, approvalParams.id, principal!);
+  }
+
+  // Budget data endpoints (D1-backed)
+  for (const handler of resourceHandlers) {
+    const response = await handler(request, env, url);
+    if (response) {
+      return response;
+    }
+  }
+
+  // 404 for unknown API routes
+  return jsonResponse({ error: 'Not Found', path: url.pathname }, 404);
 }
@@ -0,0 +1,489 @@
+/**
+ * LLM providers
+ * The agent loop calls models through LlmProvider, so Workers AI, OpenAI and Anthropic are
+ * interchangeable. Each adapter translates ChatMessage / ToolCall to and from its vendor's
+ * tool-calling format. The provider is picked per chat request or by LLM_PROVIDER, and
+ * LLM_FALLBACK_PROVIDER is tried when a call to it fails.
+ *
+ * Only Workers AI streams; the other adapters report their answer as a single delta.
+ */
+
+import type { ChatMessage, ToolCall } from './agent';
+import { ApiError, ValidationError } from './http';
+import { parseSseStream } from '../lib/sse';
+import { readModelUsage, type TokenUsage } from './usage';
+
+export const LLM_PROVIDERS = ['workers-ai', 'openai', 'anthropic'] as const;
+export type LlmProviderName = (typeof LLM_PROVIDERS)[number];
+
+export const WORKERS_AI_MODEL = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+export const DEFAULT_OPENAI_API_URL = 'https://api.openai.com/v1';
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-haiku-latest';
+export const DEFAULT_ANTHROPIC_API_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * A tool offered to the model, in the OpenAI function format the tool lists use
+ */
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: object;
+  };
+}
+
+export interface ModelRequest {
+  messages: ChatMessage[];
+  tools: ToolDefinition[];
+  maxTokens: number;
+  /** When set, text is reported as it arrives */
+  onDelta?: (text: string) => void;
+}
+
+export interface ModelResult {
+  response?: string;
+  tool_calls?: ToolCall[];
+  /** Null when the model did not report usage */
+  usage: TokenUsage | null;
+  /** Model that produced the result */
+  model: string;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  complete(request: ModelRequest): Promise<ModelResult>;
+}
+
+export interface HttpProviderConfig {
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+}
+
+export class LlmProviderError extends Error {
+  readonly provider: LlmProviderName;
+  readonly status: number;
+
+  constructor(provider: LlmProviderName, status: number, message: string) {
+    super(message);
+    this.name = 'LlmProviderError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+function parseArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+async function postJson(
+  provider: LlmProviderName,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown
+): Promise<unknown> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => null) as { error?: { message?: string } } | null;
+  if (!response.ok) {
+    throw new LlmProviderError(
+      provider,
+      response.status,
+      `${provider} request failed (${response.status}): ${data?.error?.message ?? response.statusText}`
+    );
+  }
+  return data;
+}
+
+/**
+ * Accepts both the OpenAI shape ({ id, function: { name, arguments } }) and the
+ * flat Workers AI shape ({ name, arguments }) where arguments may be an object
+ */
+export function normalizeToolCall(raw: unknown): ToolCall {
+  const call = (raw ?? {}) as Record<string, unknown>;
+  const fn = (typeof call.function === 'object' && call.function !== null
+    ? call.function
+    : call) as Record<string, unknown>;
+  const args = fn.arguments;
+  return {
+    id: typeof call.id === 'string' ? call.id : '',
+    function: {
+      name: typeof fn.name === 'string' ? fn.name : '',
+      arguments: typeof args === 'string' ? args : JSON.stringify(args ?? {}),
+    },
+  };
+}
+
+/**
+ * Collects a streamed Workers AI response: `{ response }` chunks are text deltas,
+ * tool calls arrive in `tool_calls` chunks, and the last chunk reports `usage`
+ */
+async function readWorkersAiStream(
+  stream: ReadableStream<Uint8Array>,
+  onDelta?: (text: string) => void
+): Promise<Omit<ModelResult, 'model'>> {
+  let response = '';
+  const toolCalls: ToolCall[] = [];
+  let usage: TokenUsage | null = null;
+
+  for await (const event of parseSseStream(stream)) {
+    if (event.data === '[DONE]') break;
+    let chunk: { response?: unknown; tool_calls?: unknown; usage?: unknown };
+    try {
+      chunk = JSON.parse(event.data);
+    } catch {
+      continue;
+    }
+    if (typeof chunk.response === 'string' && chunk.response) {
+      response += chunk.response;
+      onDelta?.(chunk.response);
+    }
+    if (Array.isArray(chunk.tool_calls)) {
+      toolCalls.push(...chunk.tool_calls.map(normalizeToolCall));
+    }
+    usage = readModelUsage(chunk.usage) ?? usage;
+  }
+
+  return { response, tool_calls: toolCalls, usage };
+}
+
+/**
+ * Workers AI through the AI binding; messages and tools are sent in the OpenAI format it accepts
+ */
+export function createWorkersAiProvider(ai: Ai, model: string = WORKERS_AI_MODEL): LlmProvider {
+  const run = ai.run.bind(ai) as unknown as (model: string, input: unknown) => Promise<unknown>;
+
+  return {
+    name: 'workers-ai',
+    model,
+    async complete({ messages, tools, maxTokens, onDelta }) {
+      const result = await run(model, {
+        messages,
+        tools,
+        max_tokens: maxTokens,
+        ...(onDelta ? { stream: true } : {}),
+      });
+
+      if (result instanceof ReadableStream) {
+        return { ...(await readWorkersAiStream(result as ReadableStream<Uint8Array>, onDelta)), model };
+      }
+
+      const aiResult = (result ?? {}) as { response?: string; tool_calls?: unknown[]; usage?: unknown };
+      if (onDelta && aiResult.response) {
+        onDelta(aiResult.response);
+      }
+      return {
+        response: aiResult.response,
+        tool_calls: aiResult.tool_calls?.map(normalizeToolCall),
+        usage: readModelUsage(aiResult.usage),
+        model,
+      };
+    },
+  };
+}
+
+/**
+ * Converts messages to Chat Completions messages; tool calls are sent back with their ids
+ */
+export function toOpenAiMessages(messages: ChatMessage[]): Record<string, unknown>[] {
+  return messages.map((message) => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.tool_call_id ?? '', content: message.content };
+    }
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.tool_calls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.function.name, arguments: call.function.arguments || '{}' },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+export function fromOpenAiResponse(data: unknown, model: string): ModelResult {
+  const body = (data ?? {}) as { model?: string; choices?: { message?: Record<string, unknown> }[]; usage?: unknown };
+  const message = body.choices?.[0]?.message ?? {};
+  const toolCalls = Array.isArray(message.tool_calls) ? message.tool_calls.map(normalizeToolCall) : [];
+  return {
+    response: typeof message.content === 'string' ? message.content : '',
+    tool_calls: toolCalls,
+    usage: readModelUsage(body.usage),
+    model: body.model ?? model,
+  };
+}
+
+/**
+ * OpenAI Chat Completions, or any compatible API at OPENAI_API_URL
+ */
+export function createOpenAiProvider(config: HttpProviderConfig): LlmProvider {
+  return {
+    name: 'openai',
+    model: config.model,
+    async complete({ messages, tools, maxTokens, onDelta }) {
+      const data = await postJson(
+        'openai',
+        `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+        { Authorization: `Bearer ${config.apiKey}` },
+        {
+          model: config.model,
+          messages: toOpenAiMessages(messages),
+          ...(tools.length > 0 ? { tools } : {}),
+          max_tokens: maxTokens,
+        }
+      );
+      const result = fromOpenAiResponse(data, config.model);
+      if (onDelta && result.response) {
+        onDelta(result.response);
+      }
+      return result;
+    },
+  };
+}
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicBlock[];
+}
+
+/**
+ * Builds a Messages API request body
+ * System messages become the `system` prompt, tool results are sent as user turns, and
+ * consecutive turns of the same role are merged, as the API expects alternating roles.
+ * Assistant turns before the first user turn (left over when history is truncated) are
+ * dropped, as the API expects the conversation to start with the user.
+ */
+export function toAnthropicRequest(request: ModelRequest, model: string): Record<string, unknown> {
+  const system: string[] = [];
+  const messages: AnthropicMessage[] = [];
+
+  const push = (role: AnthropicMessage['role'], content: AnthropicBlock[]) => {
+    if (content.length === 0) return;
+    const last = messages[messages.length - 1];
+    if (last?.role === role) {
+      last.content.push(...content);
+    } else {
+      messages.push({ role, content });
+    }
+  };
+
+  for (const message of request.messages) {
+    if (message.role === 'assistant' && messages.length === 0) continue;
+    switch (message.role) {
+      case 'system':
+        system.push(message.content);
+        break;
+      case 'tool':
+        push('user', [{ type: 'tool_result', tool_use_id: message.tool_call_id ?? '', content: message.content }]);
+        break;
+      case 'assistant':
+        push('assistant', [
+          ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+          ...(message.tool_calls ?? []).map((call) => ({
+            type: 'tool_use' as const,
+            id: call.id,
+            name: call.function.name,
+            input: parseArguments(call.function.arguments),
+          })),
+        ]);
+        break;
+      default:
+        push('user', message.content ? [{ type: 'text', text: message.content }] : []);
+    }
+  }
+
+  return {
+    model,
+    max_tokens: request.maxTokens,
+    ...(system.length > 0 ? { system: system.join('\n\n') } : {}),
+    messages,
+    ...(request.tools.length > 0
+      ? {
+          tools: request.tools.map((tool) => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            input_schema: tool.function.parameters,
+          })),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Text blocks make up the answer; tool_use blocks become tool calls
+ */
+export function fromAnthropicResponse(data: unknown, model: string): ModelResult {
+  const body = (data ?? {}) as {
+    model?: string;
+    content?: { type?: string; text?: string; id?: string; name?: string; input?: unknown }[];
+    usage?: { input_tokens?: number; output_tokens?: number };
+  };
+  const blocks = body.content ?? [];
+  return {
+    response: blocks.filter((block) => block.type === 'text').map((block) => block.text ?? '').join(''),
+    tool_calls: blocks
+      .filter((block) => block.type === 'tool_use')
+      .map((block) => ({
+        id: block.id ?? '',
+        function: { name: block.name ?? '', arguments: JSON.stringify(block.input ?? {}) },
+      })),
+    usage: body.usage
+      ? readModelUsage({ prompt_tokens: body.usage.input_tokens, completion_tokens: body.usage.output_tokens })
+      : null,
+    model: body.model ?? model,
+  };
+}
+
+/**
+ * Anthropic Messages API
+ */
+export function createAnthropicProvider(config: HttpProviderConfig): LlmProvider {
+  return {
+    name: 'anthropic',
+    model: config.model,
+    async complete(request) {
+      const data = await postJson(
+        'anthropic',
+        `${config.baseUrl.replace(/\/+$/, '')}/messages`,
+        { 'x-api-key': config.apiKey, 'anthropic-version': ANTHROPIC_VERSION },
+        toAnthropicRequest(request, config.model)
+      );
+      const result = fromAnthropicResponse(data, config.model);
+      if (request.onDelta && result.response) {
+        request.onDelta(result.response);
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * Tries each provider in order, moving on to the next when a call fails
+ * The last provider's error is thrown when every one fails. A provider that fails after
+ * streaming part of its answer is not retried, as the client already shows that text.
+ */
+export function createFallbackProvider(providers: LlmProvider[]): LlmProvider {
+  const [primary] = providers;
+  return {
+    name: primary.name,
+    model: primary.model,
+    async complete(request) {
+      let streamed = false;
+      const onDelta = request.onDelta;
+      const tracked: ModelRequest = onDelta
+        ? {
+            ...request,
+            onDelta: (text) => {
+              streamed = true;
+              onDelta(text);
+            },
+          }
+        : request;
+
+      let lastError: unknown;
+      for (const provider of providers) {
+        try {
+          return await provider.complete(tracked);
+        } catch (error) {
+          console.error(`LLM provider ${provider.name} failed:`, error);
+          if (streamed) throw error;
+          lastError = error;
+        }
+      }
+      throw lastError;
+    },
+  };
+}
+
+function isProviderName(value: unknown): value is LlmProviderName {
+  return (LLM_PROVIDERS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Why a provider cannot be used, or null when its binding or API key is configured
+ */
+function missingConfiguration(env: Env, name: LlmProviderName): string | null {
+  switch (name) {
+    case 'workers-ai':
+      return env.AI ? null : 'the AI binding is not configured';
+    case 'openai':
+      return env.OPENAI_API_KEY ? null : 'OPENAI_API_KEY is not set';
+    case 'anthropic':
+      return env.ANTHROPIC_API_KEY ? null : 'ANTHROPIC_API_KEY is not set';
+  }
+}
+
+function createProvider(env: Env, name: LlmProviderName): LlmProvider {
+  switch (name) {
+    case 'workers-ai':
+      return createWorkersAiProvider(env.AI!);
+    case 'openai':
+      return createOpenAiProvider({
+        apiKey: env.OPENAI_API_KEY!,
+        model: env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+        baseUrl: env.OPENAI_API_URL || DEFAULT_OPENAI_API_URL,
+      });
+    case 'anthropic':
+      return createAnthropicProvider({
+        apiKey: env.ANTHROPIC_API_KEY!,
+        model: env.ANTHROPIC_MODEL || DEFAULT_ANTHROPIC_MODEL,
+        baseUrl: env.ANTHROPIC_API_URL || DEFAULT_ANTHROPIC_API_URL,
+      });
+  }
+}
+
+/**
+ * Returns the provider for a chat turn
+ * `requested` (from the chat request) overrides LLM_PROVIDER, which defaults to Workers AI.
+ * LLM_FALLBACK_PROVIDER, when set, configured and different, is tried after it fails.
+ * An unknown or unconfigured requested provider is a 400; a misconfigured LLM_PROVIDER is a 503.
+ */
+export function resolveLlmProvider(env: Env, requested?: unknown): LlmProvider {
+  if (requested !== undefined) {
+    if (!isProviderName(requested)) {
+      throw new ValidationError({ provider: `provider must be one of: ${LLM_PROVIDERS.join(', ')}` });
+    }
+    const missing = missingConfiguration(env, requested);
+    if (missing) {
+      throw new ValidationError({ provider: `${requested} is not available: ${missing}` });
+    }
+  }
+
+  const configured = env.LLM_PROVIDER || 'workers-ai';
+  if (requested === undefined && !isProviderName(configured)) {
+    throw new ApiError(503, `LLM_PROVIDER must be one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+  const name = (requested ?? configured) as LlmProviderName;
+  const missing = missingConfiguration(env, name);
+  if (missing) {
+    throw new ApiError(503, `LLM provider ${name} is not available: ${missing}`);
+  }
+
+  const primary = createProvider(env, name);
+  const fallback = env.LLM_FALLBACK_PROVIDER;
+  if (!isProviderName(fallback) || fallback === name || missingConfiguration(env, fallback)) {
+    return primary;
+  }
+  return createFallbackProvider([primary, createProvider(env, fallback)]);
+}
@@ -0,0 +1,160 @@
+/**
+ * Request/response middleware for the worker
+ * Every request passes through the same pipeline, so CORS, security headers and error
+ * responses are applied in one place instead of by each route:
+ *
+ *   securityHeaders → cors → errorResponses → router
+ */
+
+import { ApiError, apiErrorResponse, jsonResponse } from './http';
+import { allowedMethods } from './routes';
+
+export type Handler = (request: Request, env: Env, ctx: ExecutionContext) => Promise<Response>;
+
+export type Middleware = (
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  next: () => Promise<Response>
+) => Promise<Response>;
+
+const ALLOWED_HEADERS = 'Content-Type, Authorization, Accept';
+// Headers the frontend reads from cross-origin responses
+const EXPOSED_HEADERS = 'Retry-After';
+const PREFLIGHT_MAX_AGE_SECONDS = 600;
+
+// API responses are JSON or event streams and never render as a page
+const API_CSP = "default-src 'none'; frame-ancestors 'none'";
+// Astro pages hydrate islands with inline scripts and inline styles
+const PAGE_CSP = [
+  "default-src 'self'",
+  "script-src 'self' 'unsafe-inline'",
+  "style-src 'self' 'unsafe-inline'",
+  "img-src 'self' data: blob:",
+  "connect-src 'self'",
+  "frame-ancestors 'none'",
+  "base-uri 'self'",
+  "form-action 'self'",
+].join('; ');
+const HSTS = 'max-age=31536000; includeSubDomains';
+
+/**
+ * Runs the middlewares in order around the handler
+ */
+export function compose(middlewares: Middleware[], handler: Handler): Handler {
+  return (request, env, ctx) => {
+    const dispatch = (index: number): Promise<Response> =>
+      index < middlewares.length
+        ? middlewares[index](request, env, ctx, () => dispatch(index + 1))
+        : handler(request, env, ctx);
+    return dispatch(0);
+  };
+}
+
+/**
+ * Copies a response so its headers can be changed (fetched responses are immutable)
+ */
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  const copy = new Response(response.body, response);
+  for (const [key, value] of Object.entries(headers)) {
+    copy.headers.set(key, value);
+  }
+  return copy;
+}
+
+/**
+ * Origins allowed to call the API from the browser, from CORS_ALLOWED_ORIGINS
+ * (comma-separated, e.g. "https://budget.example.com,http://localhost:4321").
+ * Same-origin requests need no entry.
+ */
+export function getAllowedOrigins(env: Env): string[] {
+  return (env.CORS_ALLOWED_ORIGINS ?? '')
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+function corsHeaders(origin: string): Record<string, string> {
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Credentials': 'true',
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS,
+    Vary: 'Origin',
+  };
+}
+
+/**
+ * Answers API preflight requests and reflects allowed origins on responses
+ * Preflights are checked against the route's methods: unknown routes get 404, methods the
+ * route does not accept get 405, and origins that are not allowed get 403. Responses to
+ * origins that are not allowed carry no CORS headers, so the browser blocks them.
+ */
+export const cors: Middleware = async (request, env, _ctx, next) => {
+  const origin = request.headers.get('Origin');
+  const allowed = origin !== null && getAllowedOrigins(env).includes(origin);
+  const pathname = new URL(request.url).pathname;
+
+  if (request.method === 'OPTIONS' && pathname.startsWith('/api')) {
+    const methods = allowedMethods(pathname);
+    if (methods.length === 0) {
+      return jsonResponse({ error: 'Not Found', path: pathname }, 404);
+    }
+    const allow = [...methods, 'OPTIONS'].join(', ');
+    const requested = request.headers.get('Access-Control-Request-Method');
+    if (!origin || !requested) {
+      return new Response(null, { status: 204, headers: { Allow: allow } });
+    }
+    if (!allowed) {
+      return jsonResponse({ error: `Origin ${origin} is not allowed` }, 403);
+    }
+    if (!methods.includes(requested.toUpperCase())) {
+      return new Response(null, { status: 405, headers: { Allow: allow, ...corsHeaders(origin) } });
+    }
+    return new Response(null, {
+      status: 204,
+      headers: {
+        ...corsHeaders(origin),
+        'Access-Control-Allow-Methods': allow,
+        'Access-Control-Allow-Headers': ALLOWED_HEADERS,
+        'Access-Control-Max-Age': String(PREFLIGHT_MAX_AGE_SECONDS),
+      },
+    });
+  }
+
+  const response = await next();
+  return allowed ? withHeaders(response, corsHeaders(origin)) : response;
+};
+
+/**
+ * Adds CSP, HSTS and X-Content-Type-Options to every response
+ */
+export const securityHeaders: Middleware = async (request, _env, _ctx, next) => {
+  const response = await next();
+  const isApi = new URL(request.url).pathname.startsWith('/api');
+  return withHeaders(response, {
+    'Content-Security-Policy': isApi ? API_CSP : PAGE_CSP,
+    'Strict-Transport-Security': HSTS,
+    'X-Content-Type-Options': 'nosniff',
+  });
+};
+
+/**
+ * Turns thrown errors into JSON responses: ApiErrors keep their status, anything else is a 500
+ */
+export const errorResponses: Middleware = async (_request, _env, _ctx, next) => {
+  try {
+    return await next();
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+    console.error('API error:', error);
+    return jsonResponse(
+      {
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+};
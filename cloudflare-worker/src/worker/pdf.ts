@@ -0,0 +1,141 @@
+/**
+ * Minimal PDF writer
+ * Lays out text and horizontal rules on US Letter pages with the standard Helvetica fonts,
+ * which every PDF reader has, so nothing is embedded. The output has no creation date or
+ * random id: the same pages always produce the same bytes.
+ */
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export interface PdfText {
+  x: number;
+  /** Baseline, from the bottom of the page */
+  y: number;
+  text: string;
+  size?: number;
+  bold?: boolean;
+  /** With 'right', x is where the text ends */
+  align?: 'left' | 'right';
+}
+
+export interface PdfRule {
+  y: number;
+  x1: number;
+  x2: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules?: PdfRule[];
+}
+
+// Glyph widths (1/1000 em) of ASCII 32-126 in Helvetica and Helvetica-Bold, from the Adobe AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+const DEFAULT_SIZE = 10;
+
+/**
+ * Replaces characters the WinAnsi-encoded standard fonts cannot show
+ */
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[\r\n\t]+/g, ' ')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+export function textWidth(text: string, size = DEFAULT_SIZE, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of toWinAnsi(text)) {
+    units += widths[char.charCodeAt(0) - 32] ?? DEFAULT_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+/**
+ * Shortens text with "..." so it fits in maxWidth points
+ */
+export function fitText(text: string, maxWidth: number, size = DEFAULT_SIZE, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+function escapePdfString(text: string): string {
+  return toWinAnsi(text).replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function pageContent(page: PdfPage): string {
+  const lines: string[] = [];
+  for (const rule of page.rules ?? []) {
+    lines.push(`0.5 w ${formatNumber(rule.x1)} ${formatNumber(rule.y)} m ${formatNumber(rule.x2)} ${formatNumber(rule.y)} l S`);
+  }
+  for (const item of page.texts) {
+    const size = item.size ?? DEFAULT_SIZE;
+    const x = item.align === 'right' ? item.x - textWidth(item.text, size, item.bold) : item.x;
+    lines.push(
+      `BT /${item.bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(x)} ${formatNumber(item.y)} Td (${escapePdfString(item.text)}) Tj ET`
+    );
+  }
+  return lines.join('\n');
+}
+
+function toBytes(text: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+  return bytes;
+}
+
+export function buildPdf(pages: PdfPage[], title: string): Uint8Array<ArrayBuffer> {
+  // Objects 1-5 are fixed; each page then adds a page object and its content stream
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${escapePdfString(title)}) /Producer (Home Remodel Budget) >>`,
+  ];
+  for (const [i, page] of pages.entries()) {
+    const content = pageContent(page);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  }
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return toBytes(pdf);
+}
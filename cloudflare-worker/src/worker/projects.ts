@@ -0,0 +1,369 @@
+/**
+ * Projects API
+ * CRUD, archiving and status transitions for remodel projects, backed by D1
+ *
+ * Routes:
+ * - GET    /api/projects                 List projects (?includeArchived=true to include archived)
+ * - POST   /api/projects                 Create a project
+ * - GET    /api/projects/:id             Get a project
+ * - PATCH  /api/projects/:id             Update a project
+ * - DELETE /api/projects/:id             Delete a project with its expenses and attachments
+ * - POST   /api/projects/:id/archive     Archive a project
+ */
+
+import { deleteStoredFiles, listAttachmentStorageKeys } from './attachments';
+import { allocateTemplate } from './category-template';
+import { getDatabase, nowIso } from './db';
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  jsonResponse,
+  matchPath,
+  readJsonBody,
+} from './http';
+import {
+  readBoolean,
+  readCents,
+  readDate,
+  readEnum,
+  readString,
+  throwIfInvalid,
+  type FieldErrors,
+} from './validate';
+
+export const PROJECT_STATUSES = ['planning', 'in_progress', 'complete'] as const;
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+// Projects only move forward: planning → in_progress → complete
+const STATUS_TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  planning: ['in_progress'],
+  in_progress: ['complete'],
+  complete: [],
+};
+
+// New projects start at the beginning of the status sequence
+const INITIAL_STATUS: ProjectStatus = 'planning';
+
+/**
+ * A project with spend derived from its expense ledger
+ * (spentCents covers every line item; paidCents only those marked paid)
+ */
+export interface Project {
+  id: string;
+  name: string;
+  budgetCents: number;
+  spentCents: number;
+  paidCents: number;
+  status: ProjectStatus;
+  startDate: string | null;
+  targetDate: string | null;
+  address: string | null;
+  room: string | null;
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ProjectRow {
+  id: string;
+  name: string;
+  budget_cents: number;
+  spent_cents: number;
+  paid_cents: number;
+  status: ProjectStatus;
+  start_date: string | null;
+  target_date: string | null;
+  address: string | null;
+  room: string | null;
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProjectInput {
+  name?: string;
+  budgetCents?: number;
+  status?: ProjectStatus;
+  startDate?: string | null;
+  targetDate?: string | null;
+  address?: string | null;
+  room?: string | null;
+}
+
+// Maps ProjectInput keys onto their database columns
+const COLUMNS: Record<keyof ProjectInput, keyof ProjectRow> = {
+  name: 'name',
+  budgetCents: 'budget_cents',
+  status: 'status',
+  startDate: 'start_date',
+  targetDate: 'target_date',
+  address: 'address',
+  room: 'room',
+};
+
+function toProject(row: ProjectRow): Project {
+  return {
+    id: row.id,
+    name: row.name,
+    budgetCents: row.budget_cents,
+    spentCents: row.spent_cents,
+    paidCents: row.paid_cents,
+    status: row.status,
+    startDate: row.start_date,
+    targetDate: row.target_date,
+    address: row.address,
+    room: row.room,
+    archivedAt: row.archived_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Validates a create (partial = false) or update (partial = true) payload
+ */
+export function validateProjectInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): ProjectInput {
+  const errors: FieldErrors = {};
+  const input: ProjectInput = {};
+
+  const name = readString(body, 'name', errors, { required: !partial, maxLength: 120 });
+  if (name === '') {
+    errors.name = 'name cannot be empty';
+  } else if (name != null) {
+    input.name = name;
+  }
+
+  const budgetCents = readCents(body, 'budgetCents', errors, { required: !partial });
+  if (budgetCents != null) input.budgetCents = budgetCents;
+
+  const status = readEnum(body, 'status', PROJECT_STATUSES, errors);
+  if (!partial && status != null && status !== INITIAL_STATUS) {
+    errors.status = `New projects start in ${INITIAL_STATUS}; advance the status once they are created`;
+  } else if (status != null) {
+    input.status = status;
+  }
+
+  const startDate = readDate(body, 'startDate', errors, { nullable: true });
+  if (startDate !== undefined) input.startDate = startDate;
+
+  const targetDate = readDate(body, 'targetDate', errors, { nullable: true });
+  if (targetDate !== undefined) input.targetDate = targetDate;
+
+  const address = readString(body, 'address', errors, { nullable: true, maxLength: 200 });
+  if (address !== undefined) input.address = address;
+
+  const room = readString(body, 'room', errors, { nullable: true, maxLength: 100 });
+  if (room !== undefined) input.room = room;
+
+  if (input.startDate && input.targetDate && input.targetDate < input.startDate) {
+    errors.targetDate = 'targetDate cannot be before startDate';
+  }
+
+  throwIfInvalid(errors);
+  return input;
+}
+
+// Selects project columns plus spend totals aggregated from the expense ledger
+const PROJECT_SELECT = `
+  SELECT p.*,
+         COALESCE(SUM(e.amount_cents), 0) AS spent_cents,
+         COALESCE(SUM(CASE WHEN e.paid = 1 THEN e.amount_cents ELSE 0 END), 0) AS paid_cents
+  FROM projects p
+  LEFT JOIN expenses e ON e.project_id = p.id`;
+
+export async function listProjects(
+  db: D1Database,
+  options: { includeArchived?: boolean } = {}
+): Promise<Project[]> {
+  const where = options.includeArchived ? '' : 'WHERE p.archived_at IS NULL';
+  const { results } = await db
+    .prepare(`${PROJECT_SELECT} ${where} GROUP BY p.id ORDER BY p.created_at DESC`)
+    .all<ProjectRow>();
+  return results.map(toProject);
+}
+
+export async function getProject(db: D1Database, id: string): Promise<Project> {
+  const row = await db
+    .prepare(`${PROJECT_SELECT} WHERE p.id = ? GROUP BY p.id`)
+    .bind(id)
+    .first<ProjectRow>();
+  if (!row) {
+    throw new NotFoundError(`Project ${id} not found`);
+  }
+  return toProject(row);
+}
+
+/**
+ * Gets a project that is allowed to change, rejecting archived projects
+ */
+export async function getWritableProject(db: D1Database, id: string): Promise<Project> {
+  const project = await getProject(db, id);
+  if (project.archivedAt) {
+    throw new ConflictError(`Project ${id} is archived and cannot be modified`);
+  }
+  return project;
+}
+
+/**
+ * Creates a project and, unless `applyTemplate: false` is passed, seeds it with
+ * the default remodel category template
+ */
+export async function createProject(
+  db: D1Database,
+  body: Record<string, unknown>
+): Promise<Project> {
+  const input = validateProjectInput(body, false);
+  const errors: FieldErrors = {};
+  const applyTemplate = readBoolean(body, 'applyTemplate', errors) ?? true;
+  throwIfInvalid(errors);
+
+  const id = crypto.randomUUID();
+  const timestamp = nowIso();
+
+  const insertProject = db
+    .prepare(
+      `INSERT INTO projects
+        (id, name, budget_cents, status, start_date, target_date, address, room, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      id,
+      input.name,
+      input.budgetCents,
+      INITIAL_STATUS,
+      input.startDate ?? null,
+      input.targetDate ?? null,
+      input.address ?? null,
+      input.room ?? null,
+      timestamp,
+      timestamp
+    );
+
+  const insertCategories = applyTemplate
+    ? allocateTemplate(input.budgetCents!).map((category, index) =>
+        db
+          .prepare(
+            `INSERT INTO budget_categories (project_id, key, name, allocated_cents, sort_order, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`
+          )
+          .bind(id, category.key, category.name, category.allocatedCents, index, timestamp, timestamp)
+      )
+    : [];
+
+  await db.batch([insertProject, ...insertCategories]);
+  return getProject(db, id);
+}
+
+export async function updateProject(
+  db: D1Database,
+  id: string,
+  body: Record<string, unknown>
+): Promise<Project> {
+  const input = validateProjectInput(body, true);
+  const existing = await getWritableProject(db, id);
+
+  if (input.status && input.status !== existing.status) {
+    if (!STATUS_TRANSITIONS[existing.status].includes(input.status)) {
+      throw new ValidationError({
+        status: `Cannot change status from ${existing.status} to ${input.status}`,
+      });
+    }
+  }
+
+  const startDate = input.startDate !== undefined ? input.startDate : existing.startDate;
+  const targetDate = input.targetDate !== undefined ? input.targetDate : existing.targetDate;
+  if (startDate && targetDate && targetDate < startDate) {
+    throw new ValidationError({ targetDate: 'targetDate cannot be before startDate' });
+  }
+
+  const keys = Object.keys(input) as (keyof ProjectInput)[];
+  if (keys.length === 0) {
+    return existing;
+  }
+
+  const assignments = keys.map((key) => `${COLUMNS[key]} = ?`);
+  const values = keys.map((key) => input[key] ?? null);
+
+  await db
+    .prepare(`UPDATE projects SET ${assignments.join(', ')}, updated_at = ? WHERE id = ?`)
+    .bind(...values, nowIso(), id)
+    .run();
+
+  return getProject(db, id);
+}
+
+export async function archiveProject(db: D1Database, id: string): Promise<Project> {
+  const existing = await getProject(db, id);
+  if (existing.archivedAt) {
+    return existing;
+  }
+  const timestamp = nowIso();
+  await db
+    .prepare('UPDATE projects SET archived_at = ?, updated_at = ? WHERE id = ?')
+    .bind(timestamp, timestamp, id)
+    .run();
+  return getProject(db, id);
+}
+
+export async function deleteProject(db: D1Database, id: string): Promise<void> {
+  const result = await db.prepare('DELETE FROM projects WHERE id = ?').bind(id).run();
+  if (result.meta.changes === 0) {
+    throw new NotFoundError(`Project ${id} not found`);
+  }
+}
+
+/**
+ * Routes /api/projects requests
+ * Returns null when the path/method is not a projects route
+ */
+export async function handleProjectsRequest(
+  request: Request,
+  env: Env,
+  url: URL
+): Promise<Response | null> {
+  const method = request.method;
+
+  if (matchPath('/api/projects', url.pathname)) {
+    if (method === 'GET') {
+      const includeArchived = url.searchParams.get('includeArchived') === 'true';
+      const projects = await listProjects(getDatabase(env), { includeArchived });
+      return jsonResponse({ projects });
+    }
+    if (method === 'POST') {
+      const project = await createProject(getDatabase(env), await readJsonBody(request));
+      return jsonResponse({ project }, 201);
+    }
+    return null;
+  }
+
+  const archiveParams = matchPath('/api/projects/:id/archive', url.pathname);
+  if (archiveParams && method === 'POST') {
+    const project = await archiveProject(getDatabase(env), archiveParams.id);
+    return jsonResponse({ project });
+  }
+
+  const params = matchPath('/api/projects/:id', url.pathname);
+  if (params) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ project: await getProject(db, params.id) });
+    }
+    if (method === 'PATCH') {
+      const project = await updateProject(db, params.id, await readJsonBody(request));
+      return jsonResponse({ project });
+    }
+    if (method === 'DELETE') {
+      // Attachment rows cascade with the project; their stored files are removed afterwards
+      const storageKeys = await listAttachmentStorageKeys(db, params.id);
+      await deleteProject(db, params.id);
+      await deleteStoredFiles(env, storageKeys);
+      return new Response(null, { status: 204 });
+    }
+  }
+
+  return null;
+}
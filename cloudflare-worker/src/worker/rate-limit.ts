@@ -0,0 +1,139 @@
+/**
+ * Rate limits for /api/chat
+ * A chat turn can make several model calls and start a sandbox, so callers are limited
+ * per API key and per client IP. Each counter lives in its own RateLimiter Durable Object
+ * (one instance per key), so every Worker isolate sees the same count.
+ */
+
+import type { Principal } from './auth';
+import { ApiError, RetryLaterError } from './http';
+
+// Chat requests per minute
+const DEFAULT_CHAT_LIMIT_PER_USER = 10;
+const DEFAULT_CHAT_LIMIT_PER_IP = 30;
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+export interface ChatRateLimits {
+  /** Requests per window for one API key */
+  perUser: number;
+  /** Requests per window from one IP address */
+  perIp: number;
+}
+
+/**
+ * Fixed-window counter kept by a RateLimiter
+ */
+export interface RateLimitWindow {
+  windowStart: number;
+  count: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until the window resets; 0 when allowed */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Too many chat requests from one API key or IP address
+ */
+export class RateLimitedError extends RetryLaterError {
+  constructor(scope: 'user' | 'ip', limit: number, retryAfterSeconds: number) {
+    super(
+      429,
+      `Too many chat requests: the limit is ${limit} per minute per ${scope === 'user' ? 'API key' : 'IP address'}`,
+      retryAfterSeconds,
+      { scope }
+    );
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * Counts one request against a window, starting a new window once the old one has passed
+ * Rejected requests are not counted.
+ */
+export function consumeRateLimit(
+  current: RateLimitWindow | undefined,
+  limit: number,
+  windowMs: number,
+  now: number
+): { window: RateLimitWindow; result: RateLimitResult } {
+  const window = current && now < current.windowStart + windowMs
+    ? current
+    : { windowStart: now, count: 0 };
+
+  if (window.count >= limit) {
+    return {
+      window,
+      result: {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((window.windowStart + windowMs - now) / 1000)),
+      },
+    };
+  }
+  const counted = { ...window, count: window.count + 1 };
+  return { window: counted, result: { allowed: true, remaining: limit - counted.count, retryAfterSeconds: 0 } };
+}
+
+/**
+ * Durable Object holding one rate limit counter
+ * Requests to an instance run one at a time, so concurrent hits cannot both take the last slot.
+ * POST { limit, windowMs } counts a hit and answers with a RateLimitResult.
+ */
+export class RateLimiter implements DurableObject {
+  constructor(private readonly state: DurableObjectState, _env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { limit, windowMs } = (await request.json()) as { limit: number; windowMs: number };
+    const stored = await this.state.storage.get<RateLimitWindow>('window');
+    const { window, result } = consumeRateLimit(stored, limit, windowMs, Date.now());
+    await this.state.storage.put('window', window);
+    return Response.json(result);
+  }
+}
+
+/**
+ * Reads CHAT_RATE_LIMIT_PER_USER / CHAT_RATE_LIMIT_PER_IP, falling back to the defaults
+ */
+export function getChatRateLimits(env: Env): ChatRateLimits {
+  const perUser = Number.parseInt(env.CHAT_RATE_LIMIT_PER_USER ?? '', 10);
+  const perIp = Number.parseInt(env.CHAT_RATE_LIMIT_PER_IP ?? '', 10);
+  return {
+    perUser: perUser > 0 ? perUser : DEFAULT_CHAT_LIMIT_PER_USER,
+    perIp: perIp > 0 ? perIp : DEFAULT_CHAT_LIMIT_PER_IP,
+  };
+}
+
+async function hitRateLimit(namespace: DurableObjectNamespace, key: string, limit: number): Promise<RateLimitResult> {
+  const stub = namespace.get(namespace.idFromName(key));
+  const response = await stub.fetch('https://rate-limiter/hit', {
+    method: 'POST',
+    body: JSON.stringify({ limit, windowMs: RATE_LIMIT_WINDOW_MS }),
+  });
+  return (await response.json()) as RateLimitResult;
+}
+
+/**
+ * Counts a chat request against the client IP's and the caller's limits
+ * Throws RateLimitedError (429 with Retry-After) when either is used up. The IP is checked
+ * first, so requests it rejects do not use up the caller's own limit.
+ */
+export async function enforceChatRateLimits(request: Request, env: Env, principal: Principal): Promise<void> {
+  if (!env.RATE_LIMITER) {
+    throw new ApiError(503, 'Rate limiter binding RATE_LIMITER is not configured');
+  }
+  const limits = getChatRateLimits(env);
+  const ip = request.headers.get('CF-Connecting-IP') ?? 'unknown';
+
+  const client = await hitRateLimit(env.RATE_LIMITER, `chat:ip:${ip}`, limits.perIp);
+  if (!client.allowed) {
+    throw new RateLimitedError('ip', limits.perIp, client.retryAfterSeconds);
+  }
+  const user = await hitRateLimit(env.RATE_LIMITER, `chat:key:${principal.keyId}`, limits.perUser);
+  if (!user.allowed) {
+    throw new RateLimitedError('user', limits.perUser, user.retryAfterSeconds);
+  }
+}
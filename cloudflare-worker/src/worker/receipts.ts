@@ -0,0 +1,395 @@
+/**
+ * Receipt extraction into draft expenses
+ * An uploaded receipt or invoice is read with Workers AI: photos go to a vision model, PDFs are
+ * converted to text first. The vendor, date, line items, tax and total it finds, each with a
+ * confidence, are stored as an expense draft with a suggested category. Nothing reaches the
+ * ledger until the user confirms the draft, possibly after editing it.
+ *
+ * Routes:
+ * - GET  /api/projects/:id/expense-drafts/:draftId            Get a draft
+ * - POST /api/projects/:id/expense-drafts/:draftId/confirm    Write the (edited) expense and link the file
+ * - POST /api/projects/:id/expense-drafts/:draftId/discard    Discard a draft
+ */
+
+import {
+  type ExpenseDraft,
+  type ExpenseDraftStatus,
+  type ExtractedField,
+  type ReceiptExtraction,
+  type ReceiptLineItem,
+} from '../lib/receipts';
+import { getLatestUnlinkedAttachment, readAttachmentFile, updateAttachment, type Attachment } from './attachments';
+import { listCategories } from './categories';
+import { getDatabase, nowIso } from './db';
+import { createExpense, type Expense } from './expenses';
+import { ApiError, ConflictError, NotFoundError, jsonResponse, matchPath, readJsonBody } from './http';
+import { WORKERS_AI_MODEL } from './llm';
+import { getWritableProject } from './projects';
+import { readModelUsage, type TokenUsage } from './usage';
+import { isValidDate, normalizeCategory } from './validate';
+
+export const RECEIPT_VISION_MODEL = '@cf/meta/llama-3.2-11b-vision-instruct';
+
+const MAX_OUTPUT_TOKENS = 1024;
+// Characters of converted PDF text sent to the model
+const MAX_DOCUMENT_TEXT = 12_000;
+const MAX_LINE_ITEMS = 50;
+// A total that does not match its line items and tax is capped at this confidence
+const MISMATCHED_TOTAL_CONFIDENCE = 0.5;
+// Confidence of a total the receipt did not show, summed from its line items and tax
+const DERIVED_TOTAL_CONFIDENCE = 0.4;
+// Confidence of a category suggested because the vendor was used before
+const VENDOR_HISTORY_CONFIDENCE = 0.9;
+
+interface ExpenseDraftRow {
+  id: string;
+  project_id: string;
+  attachment_id: string;
+  status: ExpenseDraftStatus;
+  extraction: string;
+  model: string;
+  expense_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toExpenseDraft(row: ExpenseDraftRow): ExpenseDraft {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    attachmentId: row.attachment_id,
+    status: row.status,
+    extraction: JSON.parse(row.extraction) as ReceiptExtraction,
+    model: row.model,
+    expenseId: row.expense_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function buildExtractionPrompt(categories: string[]): string {
+  return `Read this receipt or invoice for a home remodel and answer with only a JSON object:
+{
+  "vendor": { "value": "business that was paid", "confidence": 0.9 },
+  "date": { "value": "YYYY-MM-DD", "confidence": 0.9 },
+  "lineItems": [{ "description": "item", "amount": 12.50, "confidence": 0.9 }],
+  "tax": { "value": 1.03, "confidence": 0.9 },
+  "total": { "value": 13.53, "confidence": 0.9 },
+  "category": { "value": "one of: ${categories.join(', ')}", "confidence": 0.5 }
+}
+Amounts are in dollars. Confidence is between 0 and 1: use 1 only for clearly printed values and
+lower values for anything smudged, cut off or inferred. Use null for a value that is not on the document.`;
+}
+
+function readConfidence(raw: unknown): number {
+  return typeof raw === 'number' && Number.isFinite(raw) ? Math.min(1, Math.max(0, raw)) : 0;
+}
+
+/**
+ * Reads a dollar amount the model returned (12.5, "12.50" or "$1,234.50") as cents
+ */
+function readDollarsAsCents(raw: unknown): number | null {
+  const value = typeof raw === 'string' ? Number(raw.replace(/[$,\s]/g, '')) : raw;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) return null;
+  return Math.round(value * 100);
+}
+
+function readField<T>(raw: unknown, read: (value: unknown) => T | null): ExtractedField<T> {
+  const field = typeof raw === 'object' && raw !== null ? (raw as Record<string, unknown>) : {};
+  const value = read(field.value);
+  return { value, confidence: value === null ? 0 : readConfidence(field.confidence) };
+}
+
+function readText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim().slice(0, 200) : null;
+}
+
+/**
+ * Parses the model's JSON answer into an extraction
+ * Values that do not fit (bad dates, unknown categories, negative amounts) become null with
+ * zero confidence. A total that disagrees with its line items and tax keeps its value but is
+ * marked for review; a missing total is derived from them at low confidence.
+ */
+export function parseReceiptExtraction(answer: string, categories: string[]): ReceiptExtraction {
+  const start = answer.indexOf('{');
+  const end = answer.lastIndexOf('}');
+  let raw: Record<string, unknown> = {};
+  if (start !== -1 && end > start) {
+    try {
+      const parsed: unknown = JSON.parse(answer.slice(start, end + 1));
+      if (typeof parsed === 'object' && parsed !== null) raw = parsed as Record<string, unknown>;
+    } catch {
+      // An unreadable answer leaves every field empty for the user to fill in
+    }
+  }
+
+  const lineItems: ReceiptLineItem[] = (Array.isArray(raw.lineItems) ? raw.lineItems : [])
+    .slice(0, MAX_LINE_ITEMS)
+    .flatMap((item: unknown) => {
+      const fields = typeof item === 'object' && item !== null ? (item as Record<string, unknown>) : {};
+      const description = readText(fields.description);
+      if (!description) return [];
+      return [{ description, amountCents: readDollarsAsCents(fields.amount), confidence: readConfidence(fields.confidence) }];
+    });
+
+  const extraction: ReceiptExtraction = {
+    vendor: readField(raw.vendor, readText),
+    date: readField(raw.date, (value) => (typeof value === 'string' && isValidDate(value) ? value : null)),
+    lineItems,
+    taxCents: readField(raw.tax, readDollarsAsCents),
+    totalCents: readField(raw.total, readDollarsAsCents),
+    category: readField(raw.category, (value) => {
+      const key = typeof value === 'string' ? normalizeCategory(value) : '';
+      return categories.includes(key) ? key : null;
+    }),
+  };
+
+  const itemAmounts = lineItems.map((item) => item.amountCents);
+  if (itemAmounts.length > 0 && itemAmounts.every((amount) => amount !== null)) {
+    const expected = (itemAmounts as number[]).reduce((sum, amount) => sum + amount, 0) + (extraction.taxCents.value ?? 0);
+    const total = extraction.totalCents;
+    if (total.value === null) {
+      extraction.totalCents = { value: expected, confidence: DERIVED_TOTAL_CONFIDENCE };
+    } else if (Math.abs(total.value - expected) > 1) {
+      total.confidence = Math.min(total.confidence, MISMATCHED_TOTAL_CONFIDENCE);
+    }
+  }
+  return extraction;
+}
+
+function getAi(env: Env): Ai {
+  if (!env.AI) {
+    throw new ApiError(503, 'Workers AI binding AI is not configured');
+  }
+  return env.AI;
+}
+
+/**
+ * Sends the file to the model and returns its raw answer
+ */
+async function readReceipt(
+  env: Env,
+  attachment: Attachment,
+  bytes: Uint8Array<ArrayBuffer>,
+  prompt: string
+): Promise<{ answer: string; model: string; usage: TokenUsage | null }> {
+  const ai = getAi(env);
+  const run = ai.run.bind(ai) as unknown as (model: string, input: unknown) => Promise<unknown>;
+  let model: string;
+  let result: unknown;
+
+  if (attachment.contentType === 'application/pdf') {
+    const converted = await ai.toMarkdown({
+      name: attachment.fileName,
+      blob: new Blob([bytes], { type: attachment.contentType }),
+    });
+    if (converted.format === 'error') {
+      throw new ApiError(422, `${attachment.fileName} could not be read: ${converted.error}`);
+    }
+    model = WORKERS_AI_MODEL;
+    result = await run(model, {
+      messages: [
+        { role: 'system', content: prompt },
+        { role: 'user', content: converted.data.slice(0, MAX_DOCUMENT_TEXT) },
+      ],
+      max_tokens: MAX_OUTPUT_TOKENS,
+    });
+  } else if (attachment.contentType === 'image/heic') {
+    throw new ApiError(422, 'HEIC photos cannot be read yet; upload the receipt as a JPEG, PNG, WebP or PDF');
+  } else {
+    model = RECEIPT_VISION_MODEL;
+    result = await run(model, { prompt, image: Array.from(bytes), max_tokens: MAX_OUTPUT_TOKENS });
+  }
+
+  const output = (result ?? {}) as { response?: unknown; usage?: unknown };
+  const answer = typeof output.response === 'string' ? output.response : JSON.stringify(output.response ?? {});
+  return { answer, model, usage: readModelUsage(output.usage) };
+}
+
+/**
+ * The category this project's earlier expenses from the same vendor used most
+ */
+async function categoryFromVendorHistory(db: D1Database, projectId: string, vendor: string): Promise<string | null> {
+  return db
+    .prepare(
+      `SELECT category FROM expenses WHERE project_id = ? AND lower(vendor) = lower(?)
+       GROUP BY category ORDER BY COUNT(*) DESC, MAX(expense_date) DESC LIMIT 1`
+    )
+    .bind(projectId, vendor)
+    .first<string>('category');
+}
+
+/**
+ * Extracts an uploaded file into a pending expense draft
+ * Without an attachment id the project's latest upload that is not linked to an expense is used.
+ * `onUsage` receives the tokens the model reports, so they count against the caller's budget.
+ */
+export async function createExpenseDraft(
+  env: Env,
+  projectId: string,
+  attachmentId?: string,
+  onUsage?: (usage: TokenUsage, model: string) => void
+): Promise<ExpenseDraft> {
+  const db = getDatabase(env);
+  await getWritableProject(db, projectId);
+  if (!attachmentId) {
+    const latest = await getLatestUnlinkedAttachment(db, projectId);
+    if (!latest) {
+      throw new NotFoundError(`Project ${projectId} has no uploaded receipts that are not linked to an expense`);
+    }
+    attachmentId = latest.id;
+  }
+
+  const { attachment, bytes } = await readAttachmentFile(env, projectId, attachmentId);
+  const categories = (await listCategories(db, projectId)).categories.map((category) => category.key);
+  const { answer, model, usage } = await readReceipt(env, attachment, bytes, buildExtractionPrompt(categories));
+  onUsage?.(usage ?? { promptTokens: 0, completionTokens: 0, totalTokens: 0 }, model);
+
+  const extraction = parseReceiptExtraction(answer, categories);
+  if (extraction.vendor.value) {
+    const previous = await categoryFromVendorHistory(db, projectId, extraction.vendor.value);
+    if (previous && categories.includes(previous)) {
+      extraction.category = {
+        value: previous,
+        confidence: previous === extraction.category.value
+          ? Math.max(extraction.category.confidence, VENDOR_HISTORY_CONFIDENCE)
+          : VENDOR_HISTORY_CONFIDENCE,
+      };
+    }
+  }
+
+  const id = crypto.randomUUID();
+  const timestamp = nowIso();
+  await db
+    .prepare(
+      `INSERT INTO expense_drafts (id, project_id, attachment_id, extraction, model, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(id, projectId, attachment.id, JSON.stringify(extraction), model, timestamp, timestamp)
+    .run();
+  return getExpenseDraft(db, projectId, id);
+}
+
+export async function getExpenseDraft(db: D1Database, projectId: string, draftId: string): Promise<ExpenseDraft> {
+  const row = await db
+    .prepare('SELECT * FROM expense_drafts WHERE id = ? AND project_id = ?')
+    .bind(draftId, projectId)
+    .first<ExpenseDraftRow>();
+  if (!row) {
+    throw new NotFoundError(`Expense draft ${draftId} not found`);
+  }
+  return toExpenseDraft(row);
+}
+
+async function getPendingDraft(db: D1Database, projectId: string, draftId: string): Promise<ExpenseDraft> {
+  const draft = await getExpenseDraft(db, projectId, draftId);
+  if (draft.status !== 'pending') {
+    throw new ConflictError(`Expense draft ${draftId} was already ${draft.status}`);
+  }
+  return draft;
+}
+
+/**
+ * The expense a draft proposes, before the user's edits
+ */
+export function draftExpenseFields(extraction: ReceiptExtraction): Record<string, unknown> {
+  const items = extraction.lineItems.map((item) => item.description).join(', ');
+  return {
+    date: extraction.date.value ?? undefined,
+    vendor: extraction.vendor.value ?? undefined,
+    category: extraction.category.value ?? undefined,
+    amountCents: extraction.totalCents.value ?? undefined,
+    notes: items ? items.slice(0, 500) : undefined,
+  };
+}
+
+/**
+ * Moves a pending draft to `status`, so a second confirm or discard of it gets a 409
+ * even when both requests read the draft as pending
+ */
+async function claimDraft(
+  db: D1Database,
+  projectId: string,
+  draftId: string,
+  status: 'confirmed' | 'discarded'
+): Promise<ExpenseDraft> {
+  const draft = await getPendingDraft(db, projectId, draftId);
+  const result = await db
+    .prepare(`UPDATE expense_drafts SET status = ?, updated_at = ? WHERE id = ? AND status = 'pending'`)
+    .bind(status, nowIso(), draftId)
+    .run();
+  if (result.meta.changes === 0) {
+    throw new ConflictError(`Expense draft ${draftId} is no longer pending`);
+  }
+  return draft;
+}
+
+/**
+ * Writes the draft's expense, with the user's edits in `body` taking precedence, and links
+ * the uploaded file to it. The body is validated like a POST to the expenses route.
+ * The draft is claimed first and goes back to pending when the expense is not valid.
+ */
+export async function confirmExpenseDraft(
+  db: D1Database,
+  projectId: string,
+  draftId: string,
+  body: Record<string, unknown>
+): Promise<{ draft: ExpenseDraft; expense: Expense }> {
+  const draft = await claimDraft(db, projectId, draftId, 'confirmed');
+  let expense: Expense;
+  try {
+    expense = await createExpense(db, projectId, { ...draftExpenseFields(draft.extraction), ...body });
+  } catch (error) {
+    await db
+      .prepare(`UPDATE expense_drafts SET status = 'pending', updated_at = ? WHERE id = ?`)
+      .bind(nowIso(), draftId)
+      .run();
+    throw error;
+  }
+  await updateAttachment(db, projectId, draft.attachmentId, { expenseId: expense.id });
+  await db
+    .prepare('UPDATE expense_drafts SET expense_id = ?, updated_at = ? WHERE id = ?')
+    .bind(expense.id, nowIso(), draftId)
+    .run();
+  return { draft: await getExpenseDraft(db, projectId, draftId), expense };
+}
+
+export async function discardExpenseDraft(db: D1Database, projectId: string, draftId: string): Promise<ExpenseDraft> {
+  await claimDraft(db, projectId, draftId, 'discarded');
+  return getExpenseDraft(db, projectId, draftId);
+}
+
+/**
+ * Routes /api/projects/:id/expense-drafts requests
+ * Returns null when the path/method is not an expense draft route
+ */
+export async function handleExpenseDraftsRequest(
+  request: Request,
+  env: Env,
+  url: URL
+): Promise<Response | null> {
+  const method = request.method;
+
+  const params = matchPath('/api/projects/:id/expense-drafts/:draftId', url.pathname);
+  if (params && method === 'GET') {
+    return jsonResponse({ draft: await getExpenseDraft(getDatabase(env), params.id, params.draftId) });
+  }
+
+  const confirmParams = matchPath('/api/projects/:id/expense-drafts/:draftId/confirm', url.pathname);
+  if (confirmParams && method === 'POST') {
+    const result = await confirmExpenseDraft(
+      getDatabase(env),
+      confirmParams.id,
+      confirmParams.draftId,
+      await readJsonBody(request)
+    );
+    return jsonResponse(result, 201);
+  }
+
+  const discardParams = matchPath('/api/projects/:id/expense-drafts/:draftId/discard', url.pathname);
+  if (discardParams && method === 'POST') {
+    return jsonResponse({ draft: await discardExpenseDraft(getDatabase(env), discardParams.id, discardParams.draftId) });
+  }
+
+  return null;
+}
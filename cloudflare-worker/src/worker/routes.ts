@@ -0,0 +1,131 @@
+/**
+ * API route table
+ * The API info endpoint lists it, and CORS preflights are answered from it, so a route
+ * added here is both documented and reachable from allowed origins.
+ */
+
+import { ValidationError, matchPath } from './http';
+
+export interface ApiRoute {
+  path: string;
+  method: string;
+  description: string;
+}
+
+export const API_ROUTES: ApiRoute[] = [
+  { path: '/api/health', method: 'GET', description: 'Health check' },
+  { path: '/api/auth/login', method: 'POST', description: 'Sign in with an API key' },
+  { path: '/api/auth/logout', method: 'POST', description: 'Sign out' },
+  { path: '/api/auth/me', method: 'GET', description: 'The signed-in key\'s name and role' },
+  { path: '/api/auth/keys', method: 'GET', description: 'List API keys (admin)' },
+  { path: '/api/auth/keys', method: 'POST', description: 'Create an API key (admin)' },
+  { path: '/api/auth/keys/:id', method: 'DELETE', description: 'Revoke an API key (admin)' },
+  { path: '/api/chat', method: 'POST', description: 'Chat with the budget assistant' },
+  { path: '/api/usage', method: 'GET', description: 'AI token usage today and per conversation' },
+  { path: '/api/chat/approvals/:id', method: 'POST', description: 'Approve or reject a pending write, commit or push' },
+  { path: '/api/conversations', method: 'GET', description: 'List this session\'s conversations' },
+  { path: '/api/conversations/:id', method: 'GET', description: 'Get a conversation with its messages' },
+  { path: '/api/conversations/:id', method: 'DELETE', description: 'Delete a conversation' },
+  { path: '/api/projects', method: 'GET', description: 'List projects' },
+  { path: '/api/projects', method: 'POST', description: 'Create a project' },
+  { path: '/api/projects/:id', method: 'GET', description: 'Get a project' },
+  { path: '/api/projects/:id', method: 'PATCH', description: 'Update a project or advance its status' },
+  { path: '/api/projects/:id', method: 'DELETE', description: 'Delete a project' },
+  { path: '/api/projects/:id/archive', method: 'POST', description: 'Archive a project' },
+  { path: '/api/projects/:id/expenses', method: 'GET', description: 'List expenses (from, to, category, vendor, paid, limit, offset)' },
+  { path: '/api/projects/:id/expenses', method: 'POST', description: 'Add an expense' },
+  { path: '/api/projects/:id/expenses/summary', method: 'GET', description: 'Spend totals, per-category subtotals and spend per day' },
+  { path: '/api/projects/:id/expenses/:expenseId', method: 'GET', description: 'Get an expense' },
+  { path: '/api/projects/:id/expenses/:expenseId', method: 'PATCH', description: 'Update an expense' },
+  { path: '/api/projects/:id/expenses/:expenseId', method: 'DELETE', description: 'Delete an expense' },
+  { path: '/api/projects/:id/expenses/:expenseId/attachments', method: 'GET', description: 'List an expense\'s receipts and invoices' },
+  { path: '/api/projects/:id/attachments', method: 'GET', description: 'List a project\'s receipts and invoices (expenseId)' },
+  { path: '/api/projects/:id/attachments', method: 'POST', description: 'Upload a PDF or image (multipart: file, expenseId)' },
+  { path: '/api/projects/:id/attachments/:attachmentId', method: 'GET', description: 'Get an attachment' },
+  { path: '/api/projects/:id/attachments/:attachmentId', method: 'PATCH', description: 'Link an attachment to an expense, or unlink it' },
+  { path: '/api/projects/:id/attachments/:attachmentId', method: 'DELETE', description: 'Delete an attachment and its file' },
+  { path: '/api/projects/:id/attachments/:attachmentId/download', method: 'GET', description: 'Download an attachment' },
+  { path: '/api/projects/:id/expense-drafts/:draftId', method: 'GET', description: 'Get an expense drafted from a receipt' },
+  { path: '/api/projects/:id/expense-drafts/:draftId/confirm', method: 'POST', description: 'Record a drafted expense, with edits, and link its receipt' },
+  { path: '/api/projects/:id/expense-drafts/:draftId/discard', method: 'POST', description: 'Discard a drafted expense' },
+  { path: '/api/projects/:id/imports', method: 'GET', description: 'List statement imports' },
+  { path: '/api/projects/:id/imports', method: 'POST', description: 'Upload a CSV or OFX/QFX statement for preview (multipart)' },
+  { path: '/api/projects/:id/imports/:importId', method: 'GET', description: 'Preview an import with duplicates and suggested categories' },
+  { path: '/api/projects/:id/imports/:importId', method: 'DELETE', description: 'Discard a pending import' },
+  { path: '/api/projects/:id/imports/:importId/rows/:rowId', method: 'PATCH', description: 'Accept, reject or recategorize an imported transaction' },
+  { path: '/api/projects/:id/imports/:importId/commit', method: 'POST', description: 'Record the accepted transactions as expenses' },
+  { path: '/api/import-mappings', method: 'GET', description: 'List saved CSV column mappings' },
+  { path: '/api/import-mappings', method: 'POST', description: 'Save the CSV column mapping for a bank or card' },
+  { path: '/api/import-mappings/:id', method: 'GET', description: 'Get a CSV column mapping' },
+  { path: '/api/import-mappings/:id', method: 'PATCH', description: 'Update a CSV column mapping' },
+  { path: '/api/import-mappings/:id', method: 'DELETE', description: 'Delete a CSV column mapping' },
+  { path: '/api/projects/:id/export', method: 'GET', description: 'Download the budget report as CSV, XLSX or PDF (?format=)' },
+  { path: '/api/vendors', method: 'GET', description: 'List vendors (trade)' },
+  { path: '/api/vendors', method: 'POST', description: 'Add a vendor' },
+  { path: '/api/vendors/:id', method: 'GET', description: 'Get a vendor' },
+  { path: '/api/vendors/:id', method: 'PATCH', description: 'Update a vendor' },
+  { path: '/api/vendors/:id', method: 'DELETE', description: 'Delete a vendor with no bids' },
+  { path: '/api/projects/:id/bids', method: 'GET', description: 'List bids (scope, status)' },
+  { path: '/api/projects/:id/bids', method: 'POST', description: 'Add a bid with line items' },
+  { path: '/api/projects/:id/bids/compare', method: 'GET', description: 'Compare the bids for a scope line by line, with gaps (scope)' },
+  { path: '/api/projects/:id/bids/:bidId', method: 'GET', description: 'Get a bid' },
+  { path: '/api/projects/:id/bids/:bidId', method: 'PATCH', description: 'Update an open bid' },
+  { path: '/api/projects/:id/bids/:bidId', method: 'DELETE', description: 'Delete a bid that was not accepted' },
+  { path: '/api/projects/:id/bids/:bidId/accept', method: 'POST', description: 'Accept a bid, committing its total against its category' },
+  { path: '/api/projects/:id/bids/:bidId/decline', method: 'POST', description: 'Decline a bid' },
+  { path: '/api/projects/:id/contracts', method: 'GET', description: 'List contracts with their payment schedules' },
+  { path: '/api/projects/:id/contracts', method: 'POST', description: 'Add a contract, optionally for an accepted bid, with its payment schedule' },
+  { path: '/api/projects/:id/contracts/:contractId', method: 'GET', description: 'Get a contract' },
+  { path: '/api/projects/:id/contracts/:contractId', method: 'PATCH', description: 'Update a contract' },
+  { path: '/api/projects/:id/contracts/:contractId', method: 'DELETE', description: 'Delete a contract with no payments made or change orders' },
+  { path: '/api/projects/:id/contracts/:contractId/payments', method: 'POST', description: 'Schedule a payment' },
+  { path: '/api/projects/:id/contracts/:contractId/payments/:paymentId', method: 'PATCH', description: 'Update an outstanding payment' },
+  { path: '/api/projects/:id/contracts/:contractId/payments/:paymentId', method: 'DELETE', description: 'Remove an outstanding payment' },
+  { path: '/api/projects/:id/contracts/:contractId/payments/:paymentId/pay', method: 'POST', description: 'Pay a scheduled payment, recording a paid expense' },
+  { path: '/api/projects/:id/change-orders', method: 'GET', description: 'List change orders (status, contractId)' },
+  { path: '/api/projects/:id/change-orders', method: 'POST', description: 'Propose a change order' },
+  { path: '/api/projects/:id/change-orders/:changeOrderId', method: 'GET', description: 'Get a change order' },
+  { path: '/api/projects/:id/change-orders/:changeOrderId', method: 'PATCH', description: 'Update a proposed change order' },
+  { path: '/api/projects/:id/change-orders/:changeOrderId', method: 'DELETE', description: 'Delete a change order that was not approved' },
+  { path: '/api/projects/:id/change-orders/:changeOrderId/approve', method: 'POST', description: 'Approve a change order, drawing on contingency' },
+  { path: '/api/projects/:id/change-orders/:changeOrderId/reject', method: 'POST', description: 'Reject a change order' },
+  { path: '/api/projects/:id/scenarios', method: 'GET', description: 'List what-if scenarios with their changes' },
+  { path: '/api/projects/:id/scenarios', method: 'POST', description: 'Add a scenario, optionally with its category and line item changes' },
+  { path: '/api/projects/:id/scenarios/:scenarioId', method: 'GET', description: 'Get a scenario' },
+  { path: '/api/projects/:id/scenarios/:scenarioId', method: 'PATCH', description: 'Rename or describe a scenario' },
+  { path: '/api/projects/:id/scenarios/:scenarioId', method: 'DELETE', description: 'Delete a scenario' },
+  { path: '/api/projects/:id/scenarios/:scenarioId/categories', method: 'POST', description: 'Change, add or remove a category in a scenario' },
+  { path: '/api/projects/:id/scenarios/:scenarioId/categories/:key', method: 'DELETE', description: 'Undo a category change' },
+  { path: '/api/projects/:id/scenarios/:scenarioId/items', method: 'POST', description: 'Add a line item to a scenario, or reprice or remove an expense' },
+  { path: '/api/projects/:id/scenarios/:scenarioId/items/:itemId', method: 'PATCH', description: 'Update a line item change' },
+  { path: '/api/projects/:id/scenarios/:scenarioId/items/:itemId', method: 'DELETE', description: 'Undo a line item change' },
+  { path: '/api/projects/:id/scenarios/:scenarioId/diff', method: 'GET', description: 'Compare a scenario with the real budget' },
+  { path: '/api/projects/:id/scenarios/:scenarioId/promote', method: 'POST', description: 'Apply a scenario to the real budget' },
+  { path: '/api/projects/:id/forecast', method: 'GET', description: 'Forecast the cost at completion by burn rate and earned value, with the projected overrun date' },
+  { path: '/api/projects/:id/categories', method: 'GET', description: 'List categories with allocation, spend, committed cost, forecast and status' },
+  { path: '/api/projects/:id/categories', method: 'POST', description: 'Add a category' },
+  { path: '/api/projects/:id/categories/:key', method: 'GET', description: 'Get a category' },
+  { path: '/api/projects/:id/categories/:key', method: 'PATCH', description: 'Rename, reallocate or set the percent complete of a category' },
+  { path: '/api/projects/:id/categories/:key', method: 'DELETE', description: 'Delete an unused category' },
+];
+
+/**
+ * Methods the routes matching a pathname accept; empty for unknown paths
+ */
+export function allowedMethods(pathname: string): string[] {
+  if (pathname === '/api' || pathname === '/api/') {
+    return ['GET'];
+  }
+  const methods = API_ROUTES.filter((route) => routeMatches(route.path, pathname)).map((route) => route.method);
+  return [...new Set(methods)];
+}
+
+// A path with a malformed parameter still has the route's shape; the request itself gets the 400
+function routeMatches(pattern: string, pathname: string): boolean {
+  try {
+    return matchPath(pattern, pathname) !== null;
+  } catch (error) {
+    if (error instanceof ValidationError) return true;
+    throw error;
+  }
+}
@@ -0,0 +1,1141 @@
+/**
+ * Scenarios API
+ * What-if scenarios model a change ("quartz instead of laminate", "add a window") before it is
+ * made, without touching the real budget. A scenario is a copy-on-write overlay on its project:
+ * it stores only its changes and is read by applying them to the project as it is now.
+ *
+ * Category changes are keyed by category: a new allocation or name, a removal, or a category
+ * the project does not have yet. Line item changes add an item, or reprice or remove one of
+ * the project's expenses. The diff compares the scenario with the baseline: totals, each
+ * category, and the contingency left (its allocation less spend and commitments). Promoting a
+ * scenario writes its changes into the real budget in one batch, added items as unpaid
+ * expenses, and leaves it read-only.
+ *
+ * Routes:
+ * - GET    /api/projects/:id/scenarios                                       List scenarios
+ * - POST   /api/projects/:id/scenarios                                       Add a scenario, optionally with its changes
+ * - GET    /api/projects/:id/scenarios/:scenarioId                           Get a scenario
+ * - PATCH  /api/projects/:id/scenarios/:scenarioId                           Rename or describe a scenario
+ * - DELETE /api/projects/:id/scenarios/:scenarioId                           Delete a scenario
+ * - POST   /api/projects/:id/scenarios/:scenarioId/categories                Change, add or remove a category
+ * - DELETE /api/projects/:id/scenarios/:scenarioId/categories/:key           Undo a category change
+ * - POST   /api/projects/:id/scenarios/:scenarioId/items                     Add a line item, or reprice or remove an expense
+ * - PATCH  /api/projects/:id/scenarios/:scenarioId/items/:itemId             Update a line item change
+ * - DELETE /api/projects/:id/scenarios/:scenarioId/items/:itemId             Undo a line item change
+ * - GET    /api/projects/:id/scenarios/:scenarioId/diff                      Compare the scenario with the baseline
+ * - POST   /api/projects/:id/scenarios/:scenarioId/promote                   Apply the scenario to the real budget
+ */
+
+import { categoryForecastCents, listCategories, type BudgetCategory, type CategoryBreakdown } from './categories';
+import { CONTINGENCY_KEY } from './category-template';
+import { getDatabase, nowIso } from './db';
+import { loadContractPaidCents } from './forecast';
+import { ConflictError, NotFoundError, ValidationError, jsonResponse, matchPath, readJsonBody } from './http';
+import { getProject, getWritableProject } from './projects';
+import {
+  normalizeCategory,
+  readBoolean,
+  readCents,
+  readDate,
+  readString,
+  throwIfInvalid,
+  type FieldErrors,
+} from './validate';
+
+const MAX_CATEGORY_CHANGES = 50;
+const MAX_ITEMS = 100;
+
+export const SCENARIO_STATUSES = ['draft', 'promoted'] as const;
+export type ScenarioStatus = (typeof SCENARIO_STATUSES)[number];
+
+export interface ScenarioCategoryChange {
+  key: string;
+  /** New name; null keeps the current one */
+  name: string | null;
+  /** New allocation; null keeps the current one */
+  allocatedCents: number | null;
+  removed: boolean;
+}
+
+export interface ScenarioItem {
+  id: string;
+  /** The expense this change reprices or removes; null for a line item the scenario adds */
+  expenseId: string | null;
+  date: string | null;
+  vendor: string;
+  category: string;
+  /** Amount in the scenario; 0 once removed */
+  amountCents: number;
+  /** The expense's amount in the real budget; null for an added line item */
+  baselineAmountCents: number | null;
+  notes: string | null;
+  removed: boolean;
+}
+
+export interface Scenario {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string | null;
+  status: ScenarioStatus;
+  promotedAt: string | null;
+  categories: ScenarioCategoryChange[];
+  items: ScenarioItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScenarioFigures {
+  name: string;
+  allocatedCents: number;
+  spentCents: number;
+  committedCents: number;
+  forecastCents: number;
+}
+
+export interface ScenarioCategoryDiff {
+  key: string;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  /** Null for a category the scenario adds */
+  baseline: ScenarioFigures | null;
+  /** Null for a category the scenario removes */
+  scenario: ScenarioFigures | null;
+  allocatedDeltaCents: number;
+  spentDeltaCents: number;
+  forecastDeltaCents: number;
+}
+
+export interface ScenarioTotals {
+  allocatedCents: number;
+  spentCents: number;
+  forecastCents: number;
+  /** Budget not assigned to a category */
+  unallocatedCents: number;
+  /** Budget minus the forecast at completion; negative for an overrun */
+  varianceCents: number;
+  /** Contingency allocation not yet spent or committed; null without a contingency category */
+  contingencyLeftCents: number | null;
+}
+
+export interface ScenarioDiff {
+  scenarioId: string;
+  name: string;
+  budgetCents: number;
+  baseline: ScenarioTotals;
+  scenario: ScenarioTotals;
+  /** Scenario minus baseline */
+  delta: ScenarioTotals;
+  categories: ScenarioCategoryDiff[];
+  /** What stops the scenario from being promoted as it stands */
+  conflicts: string[];
+}
+
+interface ScenarioInput {
+  name?: string;
+  description?: string | null;
+  categories?: CategoryChangeInput[];
+  items?: ItemInput[];
+}
+
+interface CategoryChangeInput {
+  key: string;
+  name?: string;
+  allocatedCents?: number;
+  removed?: boolean;
+}
+
+interface ItemInput {
+  expenseId?: string;
+  date?: string | null;
+  vendor?: string;
+  category?: string;
+  amountCents?: number;
+  notes?: string | null;
+  removed?: boolean;
+}
+
+interface ScenarioRow {
+  id: string;
+  project_id: string;
+  name: string;
+  description: string | null;
+  status: ScenarioStatus;
+  promoted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface CategoryChangeRow {
+  scenario_id: string;
+  key: string;
+  name: string | null;
+  allocated_cents: number | null;
+  removed: number;
+}
+
+interface ItemRow {
+  id: string;
+  scenario_id: string;
+  expense_id: string | null;
+  expense_date: string | null;
+  vendor: string | null;
+  category: string | null;
+  amount_cents: number | null;
+  notes: string | null;
+  removed: number;
+  base_date: string | null;
+  base_vendor: string | null;
+  base_category: string | null;
+  base_amount_cents: number | null;
+  base_notes: string | null;
+}
+
+const ITEM_SELECT = `
+  SELECT si.*, e.expense_date AS base_date, e.vendor AS base_vendor, e.category AS base_category,
+         e.amount_cents AS base_amount_cents, e.notes AS base_notes
+  FROM scenario_items si
+  LEFT JOIN expenses e ON e.id = si.expense_id`;
+
+function toCategoryChange(row: CategoryChangeRow): ScenarioCategoryChange {
+  return {
+    key: row.key,
+    name: row.name,
+    allocatedCents: row.allocated_cents,
+    removed: row.removed === 1,
+  };
+}
+
+function toItem(row: ItemRow): ScenarioItem {
+  const removed = row.removed === 1;
+  if (row.expense_id) {
+    return {
+      id: row.id,
+      expenseId: row.expense_id,
+      date: row.base_date,
+      vendor: row.base_vendor!,
+      category: row.base_category!,
+      amountCents: removed ? 0 : (row.amount_cents ?? row.base_amount_cents!),
+      baselineAmountCents: row.base_amount_cents,
+      notes: row.base_notes,
+      removed,
+    };
+  }
+  return {
+    id: row.id,
+    expenseId: null,
+    date: row.expense_date,
+    vendor: row.vendor!,
+    category: row.category!,
+    amountCents: row.amount_cents!,
+    baselineAmountCents: null,
+    notes: row.notes,
+    removed: false,
+  };
+}
+
+function toScenario(row: ScenarioRow, categories: CategoryChangeRow[], items: ItemRow[]): Scenario {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    description: row.description,
+    status: row.status,
+    promotedAt: row.promoted_at,
+    categories: categories.map(toCategoryChange),
+    items: items.map(toItem),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Copies a nested reader's errors into `errors` under `prefix` ("items.0.")
+ */
+function collectErrors(errors: FieldErrors, nested: FieldErrors, prefix: string): void {
+  for (const [key, message] of Object.entries(nested)) {
+    errors[`${prefix}${key}`] = message;
+  }
+}
+
+/**
+ * Validates a category change; the key defaults to the slug of the name
+ */
+function readCategoryChange(body: Record<string, unknown>, errors: FieldErrors, prefix = ''): CategoryChangeInput {
+  const changeErrors: FieldErrors = {};
+
+  const key = readString(body, 'key', changeErrors, { maxLength: 50 });
+  const name = readString(body, 'name', changeErrors, { maxLength: 60 });
+  const input: CategoryChangeInput = { key: normalizeCategory(key ?? name ?? '') };
+  if (!input.key && !changeErrors.key && !changeErrors.name) {
+    changeErrors.key = 'key must contain letters or numbers';
+  }
+  if (name != null) input.name = name;
+
+  const allocatedCents = readCents(body, 'allocatedCents', changeErrors);
+  if (allocatedCents != null) input.allocatedCents = allocatedCents;
+
+  const removed = readBoolean(body, 'removed', changeErrors);
+  if (removed) {
+    input.removed = true;
+    if (allocatedCents != null) changeErrors.allocatedCents = 'a removed category has no allocation';
+  } else if (input.name === undefined && input.allocatedCents === undefined && Object.keys(changeErrors).length === 0) {
+    changeErrors.allocatedCents = 'allocatedCents, name or removed is required';
+  }
+
+  collectErrors(errors, changeErrors, prefix);
+  return input;
+}
+
+/**
+ * Validates a line item change. With an expenseId only amountCents or removed can be given;
+ * otherwise it is a new line item, validated like an expense except that the date is optional
+ */
+function readItem(
+  body: Record<string, unknown>,
+  errors: FieldErrors,
+  options: { partial: boolean; forExpense: boolean },
+  prefix = ''
+): ItemInput {
+  const itemErrors: FieldErrors = {};
+  const input: ItemInput = {};
+  const { partial, forExpense } = options;
+
+  if (forExpense) {
+    if (!partial) {
+      const expenseId = readString(body, 'expenseId', itemErrors, { required: true, maxLength: 100 });
+      if (expenseId != null) input.expenseId = expenseId;
+    }
+    for (const key of ['date', 'vendor', 'category', 'notes']) {
+      if (body[key] !== undefined) {
+        itemErrors[key] = `${key} cannot change for an existing expense; give amountCents or removed`;
+      }
+    }
+    const amountCents = readCents(body, 'amountCents', itemErrors);
+    if (amountCents != null) input.amountCents = amountCents;
+    const removed = readBoolean(body, 'removed', itemErrors);
+    if (removed != null) input.removed = removed;
+
+    if (removed && amountCents != null) {
+      itemErrors.amountCents = 'a removed expense has no amount';
+    } else if (!partial && amountCents == null && !removed && !itemErrors.amountCents) {
+      itemErrors.amountCents = 'amountCents or removed is required for an existing expense';
+    }
+  } else {
+    const date = readDate(body, 'date', itemErrors, { nullable: true });
+    if (date !== undefined) input.date = date;
+
+    const vendor = readString(body, 'vendor', itemErrors, { required: !partial, maxLength: 120 });
+    if (vendor != null) input.vendor = vendor;
+
+    const category = readString(body, 'category', itemErrors, { required: !partial, maxLength: 50 });
+    if (category != null) {
+      input.category = normalizeCategory(category);
+      if (!input.category) itemErrors.category = 'category must contain letters or numbers';
+    }
+
+    const amountCents = readCents(body, 'amountCents', itemErrors, { required: !partial });
+    if (amountCents != null) input.amountCents = amountCents;
+
+    const notes = readString(body, 'notes', itemErrors, { nullable: true, maxLength: 2000 });
+    if (notes !== undefined) input.notes = notes;
+
+    if (body.removed !== undefined) {
+      itemErrors.removed = 'removed only applies to existing expenses; delete the line item instead';
+    }
+  }
+
+  collectErrors(errors, itemErrors, prefix);
+  return input;
+}
+
+function readList<T>(
+  body: Record<string, unknown>,
+  key: 'categories' | 'items',
+  max: number,
+  errors: FieldErrors,
+  read: (entry: Record<string, unknown>, prefix: string) => T
+): T[] | undefined {
+  const value = body[key];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.length > max) {
+    errors[key] = `${key} must be a list of at most ${max} changes`;
+    return undefined;
+  }
+  return value.map((entry, index) => {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      errors[`${key}.${index}`] = `${key} must be objects`;
+      return undefined as T;
+    }
+    return read(entry as Record<string, unknown>, `${key}.${index}.`);
+  });
+}
+
+/**
+ * Validates a create (partial = false) or update (partial = true) payload
+ * On create, `categories` and `items` take the same changes as their own routes
+ */
+export function validateScenarioInput(body: Record<string, unknown>, partial: boolean): ScenarioInput {
+  const errors: FieldErrors = {};
+  const input: ScenarioInput = {};
+
+  const name = readString(body, 'name', errors, { required: !partial, maxLength: 80 });
+  if (name != null) input.name = name;
+
+  const description = readString(body, 'description', errors, { nullable: true, maxLength: 2000 });
+  if (description !== undefined) input.description = description;
+
+  if (!partial) {
+    input.categories = readList(body, 'categories', MAX_CATEGORY_CHANGES, errors, (entry, prefix) =>
+      readCategoryChange(entry, errors, prefix)
+    );
+    input.items = readList(body, 'items', MAX_ITEMS, errors, (entry, prefix) =>
+      readItem(entry, errors, { partial: false, forExpense: entry.expenseId != null }, prefix)
+    );
+  }
+
+  throwIfInvalid(errors);
+  return input;
+}
+
+function rethrowDuplicateName(error: unknown, name: string | null | undefined): never {
+  if (error instanceof Error && error.message.includes('UNIQUE')) {
+    throw new ConflictError(`A scenario named "${name}" already exists`);
+  }
+  throw error;
+}
+
+async function loadScenarios(db: D1Database, projectId: string, scenarioId?: string): Promise<Scenario[]> {
+  const where = scenarioId ? 's.project_id = ?1 AND s.id = ?2' : 's.project_id = ?1';
+  const binds = scenarioId ? [projectId, scenarioId] : [projectId];
+  const [scenarios, categories, items] = await db.batch<Record<string, unknown>>([
+    db.prepare(`SELECT s.* FROM scenarios s WHERE ${where} ORDER BY s.created_at, s.rowid`).bind(...binds),
+    db
+      .prepare(
+        `SELECT sc.* FROM scenario_categories sc JOIN scenarios s ON s.id = sc.scenario_id
+         WHERE ${where} ORDER BY sc.rowid`
+      )
+      .bind(...binds),
+    db
+      .prepare(`${ITEM_SELECT} JOIN scenarios s ON s.id = si.scenario_id WHERE ${where} ORDER BY si.rowid`)
+      .bind(...binds),
+  ]);
+
+  const categoryRows = categories.results as unknown as CategoryChangeRow[];
+  const itemRows = items.results as unknown as ItemRow[];
+  return (scenarios.results as unknown as ScenarioRow[]).map((row) =>
+    toScenario(
+      row,
+      categoryRows.filter((c) => c.scenario_id === row.id),
+      itemRows.filter((i) => i.scenario_id === row.id)
+    )
+  );
+}
+
+export async function listScenarios(db: D1Database, projectId: string): Promise<Scenario[]> {
+  await getProject(db, projectId);
+  return loadScenarios(db, projectId);
+}
+
+export async function getScenario(db: D1Database, projectId: string, scenarioId: string): Promise<Scenario> {
+  const [scenario] = await loadScenarios(db, projectId, scenarioId);
+  if (!scenario) {
+    throw new NotFoundError(`Scenario ${scenarioId} not found`);
+  }
+  return scenario;
+}
+
+/**
+ * Finds a scenario by id or, failing that, by name (ignoring case)
+ */
+export async function findScenario(db: D1Database, projectId: string, idOrName: string): Promise<Scenario> {
+  const row = await db
+    .prepare('SELECT id FROM scenarios WHERE project_id = ?1 AND (id = ?2 OR name = ?2) ORDER BY id = ?2 DESC LIMIT 1')
+    .bind(projectId, idOrName)
+    .first<{ id: string }>();
+  if (!row) {
+    throw new NotFoundError(`Scenario ${idOrName} not found`);
+  }
+  return getScenario(db, projectId, row.id);
+}
+
+/**
+ * Loads a scenario that can still change: on a writable project, and not promoted yet
+ */
+async function getDraftScenario(db: D1Database, projectId: string, scenarioId: string): Promise<Scenario> {
+  await getWritableProject(db, projectId);
+  const scenario = await getScenario(db, projectId, scenarioId);
+  if (scenario.status === 'promoted') {
+    throw new ConflictError(`Scenario ${scenarioId} was promoted on ${scenario.promotedAt}; it can no longer change`);
+  }
+  return scenario;
+}
+
+/**
+ * Merges a category change into the scenario's existing one for the same key, checking it
+ * against the baseline. Field errors are reported under `prefix`
+ */
+function mergeCategoryChange(
+  change: CategoryChangeInput,
+  existing: ScenarioCategoryChange | undefined,
+  baseline: BudgetCategory[],
+  prefix = ''
+): ScenarioCategoryChange {
+  const inBaseline = baseline.some((c) => c.key === change.key);
+  if (change.removed) {
+    if (!inBaseline) {
+      throw new ValidationError({ [`${prefix}key`]: `Category ${change.key} is not in the budget` });
+    }
+    return { key: change.key, name: null, allocatedCents: null, removed: true };
+  }
+
+  const merged: ScenarioCategoryChange = {
+    key: change.key,
+    name: change.name ?? (existing?.removed ? null : (existing?.name ?? null)),
+    allocatedCents: change.allocatedCents ?? (existing?.removed ? null : (existing?.allocatedCents ?? null)),
+    removed: false,
+  };
+  if (!inBaseline) {
+    const errors: FieldErrors = {};
+    if (merged.name == null) errors[`${prefix}name`] = 'name is required for a new category';
+    if (merged.allocatedCents == null) errors[`${prefix}allocatedCents`] = 'allocatedCents is required for a new category';
+    throwIfInvalid(errors);
+  }
+  return merged;
+}
+
+function upsertCategoryChange(db: D1Database, scenarioId: string, change: ScenarioCategoryChange): D1PreparedStatement {
+  return db
+    .prepare(
+      `INSERT INTO scenario_categories (scenario_id, key, name, allocated_cents, removed) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (scenario_id, key) DO UPDATE
+       SET name = excluded.name, allocated_cents = excluded.allocated_cents, removed = excluded.removed`
+    )
+    .bind(scenarioId, change.key, change.name, change.allocatedCents, change.removed ? 1 : 0);
+}
+
+/**
+ * The category keys a scenario has: the baseline's, less removals, plus additions
+ */
+function scenarioCategoryKeys(baseline: BudgetCategory[], changes: ScenarioCategoryChange[]): string[] {
+  const removed = new Set(changes.filter((c) => c.removed).map((c) => c.key));
+  const keys = baseline.map((c) => c.key).filter((key) => !removed.has(key));
+  for (const change of changes) {
+    if (!change.removed && !keys.includes(change.key)) keys.push(change.key);
+  }
+  return keys;
+}
+
+function assertScenarioCategory(keys: string[], category: string, field: string): void {
+  if (!keys.includes(category)) {
+    throw new ValidationError({
+      [field]: `Unknown category "${category}". Available categories: ${keys.join(', ') || 'none'}`,
+    });
+  }
+}
+
+/**
+ * Throws a field-level ValidationError unless the expense is on the project and not a
+ * contract payment, whose amount the contract sets
+ */
+async function assertChangeableExpense(db: D1Database, projectId: string, expenseId: string, field: string): Promise<void> {
+  const row = await db
+    .prepare(
+      `SELECT e.id, cp.id AS payment_id FROM expenses e LEFT JOIN contract_payments cp ON cp.expense_id = e.id
+       WHERE e.project_id = ? AND e.id = ?`
+    )
+    .bind(projectId, expenseId)
+    .first<{ id: string; payment_id: string | null }>();
+  if (!row) {
+    throw new ValidationError({ [field]: `Expense ${expenseId} not found` });
+  }
+  if (row.payment_id) {
+    throw new ValidationError({ [field]: `Expense ${expenseId} pays a contract payment; change the contract instead` });
+  }
+}
+
+/**
+ * Statement writing a line item change; changes to an expense replace any earlier change to it
+ */
+function upsertItem(db: D1Database, scenarioId: string, item: ItemInput, timestamp: string): D1PreparedStatement {
+  if (item.expenseId) {
+    return db
+      .prepare(
+        `INSERT INTO scenario_items (id, scenario_id, expense_id, amount_cents, removed, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (scenario_id, expense_id) DO UPDATE
+         SET amount_cents = excluded.amount_cents, removed = excluded.removed, updated_at = excluded.updated_at`
+      )
+      .bind(
+        crypto.randomUUID(),
+        scenarioId,
+        item.expenseId,
+        item.removed ? null : item.amountCents,
+        item.removed ? 1 : 0,
+        timestamp,
+        timestamp
+      );
+  }
+  return db
+    .prepare(
+      `INSERT INTO scenario_items (id, scenario_id, expense_date, vendor, category, amount_cents, notes, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      crypto.randomUUID(),
+      scenarioId,
+      item.date ?? null,
+      item.vendor,
+      item.category,
+      item.amountCents,
+      item.notes ?? null,
+      timestamp,
+      timestamp
+    );
+}
+
+export async function createScenario(db: D1Database, projectId: string, body: Record<string, unknown>): Promise<Scenario> {
+  const input = validateScenarioInput(body, false);
+  await getWritableProject(db, projectId);
+  const { categories: baseline } = await listCategories(db, projectId);
+
+  const changes = new Map<string, ScenarioCategoryChange>();
+  (input.categories ?? []).forEach((change, index) => {
+    changes.set(change.key, mergeCategoryChange(change, changes.get(change.key), baseline, `categories.${index}.`));
+  });
+  const keys = scenarioCategoryKeys(baseline, [...changes.values()]);
+  const items = input.items ?? [];
+  for (const [index, item] of items.entries()) {
+    if (item.expenseId) {
+      await assertChangeableExpense(db, projectId, item.expenseId, `items.${index}.expenseId`);
+    } else {
+      assertScenarioCategory(keys, item.category!, `items.${index}.category`);
+    }
+  }
+
+  const id = crypto.randomUUID();
+  const timestamp = nowIso();
+  try {
+    await db.batch([
+      db
+        .prepare(
+          `INSERT INTO scenarios (id, project_id, name, description, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .bind(id, projectId, input.name, input.description ?? null, timestamp, timestamp),
+      ...[...changes.values()].map((change) => upsertCategoryChange(db, id, change)),
+      ...items.map((item) => upsertItem(db, id, item, timestamp)),
+    ]);
+  } catch (error) {
+    rethrowDuplicateName(error, input.name);
+  }
+  return getScenario(db, projectId, id);
+}
+
+export async function updateScenario(
+  db: D1Database,
+  projectId: string,
+  scenarioId: string,
+  body: Record<string, unknown>
+): Promise<Scenario> {
+  const input = validateScenarioInput(body, true);
+  await getWritableProject(db, projectId);
+  const existing = await getScenario(db, projectId, scenarioId);
+  try {
+    await db
+      .prepare('UPDATE scenarios SET name = ?, description = ?, updated_at = ? WHERE id = ?')
+      .bind(
+        input.name ?? existing.name,
+        input.description !== undefined ? input.description : existing.description,
+        nowIso(),
+        scenarioId
+      )
+      .run();
+  } catch (error) {
+    rethrowDuplicateName(error, input.name);
+  }
+  return getScenario(db, projectId, scenarioId);
+}
+
+export async function deleteScenario(db: D1Database, projectId: string, scenarioId: string): Promise<void> {
+  await getWritableProject(db, projectId);
+  await getScenario(db, projectId, scenarioId);
+  await db.prepare('DELETE FROM scenarios WHERE id = ?').bind(scenarioId).run();
+}
+
+function touchScenario(db: D1Database, scenarioId: string): D1PreparedStatement {
+  return db.prepare('UPDATE scenarios SET updated_at = ? WHERE id = ?').bind(nowIso(), scenarioId);
+}
+
+/**
+ * Changes, adds or removes a category in the scenario, merged with any earlier change to it
+ */
+export async function setScenarioCategory(
+  db: D1Database,
+  projectId: string,
+  scenarioId: string,
+  body: Record<string, unknown>
+): Promise<Scenario> {
+  const errors: FieldErrors = {};
+  const change = readCategoryChange(body, errors);
+  throwIfInvalid(errors);
+  const scenario = await getDraftScenario(db, projectId, scenarioId);
+  const existing = scenario.categories.find((c) => c.key === change.key);
+  if (!existing && scenario.categories.length >= MAX_CATEGORY_CHANGES) {
+    throw new ValidationError({ categories: `A scenario can change at most ${MAX_CATEGORY_CHANGES} categories` });
+  }
+  const { categories: baseline } = await listCategories(db, projectId);
+
+  await db.batch([
+    upsertCategoryChange(db, scenarioId, mergeCategoryChange(change, existing, baseline)),
+    touchScenario(db, scenarioId),
+  ]);
+  return getScenario(db, projectId, scenarioId);
+}
+
+export async function clearScenarioCategory(
+  db: D1Database,
+  projectId: string,
+  scenarioId: string,
+  key: string
+): Promise<Scenario> {
+  await getDraftScenario(db, projectId, scenarioId);
+  const [result] = await db.batch([
+    db.prepare('DELETE FROM scenario_categories WHERE scenario_id = ? AND key = ?').bind(scenarioId, key),
+    touchScenario(db, scenarioId),
+  ]);
+  if (result.meta.changes === 0) {
+    throw new NotFoundError(`Scenario ${scenarioId} does not change category ${key}`);
+  }
+  return getScenario(db, projectId, scenarioId);
+}
+
+/**
+ * Adds a line item to the scenario, or reprices or removes one of the project's expenses
+ */
+export async function addScenarioItem(
+  db: D1Database,
+  projectId: string,
+  scenarioId: string,
+  body: Record<string, unknown>
+): Promise<Scenario> {
+  const errors: FieldErrors = {};
+  const item = readItem(body, errors, { partial: false, forExpense: body.expenseId != null });
+  throwIfInvalid(errors);
+  const scenario = await getDraftScenario(db, projectId, scenarioId);
+  if (scenario.items.length >= MAX_ITEMS && !scenario.items.some((i) => i.expenseId === item.expenseId)) {
+    throw new ValidationError({ items: `A scenario can change at most ${MAX_ITEMS} line items` });
+  }
+
+  if (item.expenseId) {
+    await assertChangeableExpense(db, projectId, item.expenseId, 'expenseId');
+  } else {
+    const { categories: baseline } = await listCategories(db, projectId);
+    assertScenarioCategory(scenarioCategoryKeys(baseline, scenario.categories), item.category!, 'category');
+  }
+
+  await db.batch([upsertItem(db, scenarioId, item, nowIso()), touchScenario(db, scenarioId)]);
+  return getScenario(db, projectId, scenarioId);
+}
+
+export async function updateScenarioItem(
+  db: D1Database,
+  projectId: string,
+  scenarioId: string,
+  itemId: string,
+  body: Record<string, unknown>
+): Promise<Scenario> {
+  const scenario = await getDraftScenario(db, projectId, scenarioId);
+  const existing = scenario.items.find((i) => i.id === itemId);
+  if (!existing) {
+    throw new NotFoundError(`Line item ${itemId} not found`);
+  }
+  const errors: FieldErrors = {};
+  const input = readItem(body, errors, { partial: true, forExpense: existing.expenseId != null });
+  throwIfInvalid(errors);
+
+  const timestamp = nowIso();
+  let statement: D1PreparedStatement;
+  if (existing.expenseId) {
+    const removed = input.removed ?? (input.amountCents !== undefined ? false : existing.removed);
+    const amountCents = removed ? null : (input.amountCents ?? existing.amountCents);
+    statement = db
+      .prepare('UPDATE scenario_items SET amount_cents = ?, removed = ?, updated_at = ? WHERE id = ?')
+      .bind(amountCents, removed ? 1 : 0, timestamp, itemId);
+  } else {
+    if (input.category !== undefined) {
+      const { categories: baseline } = await listCategories(db, projectId);
+      assertScenarioCategory(scenarioCategoryKeys(baseline, scenario.categories), input.category, 'category');
+    }
+    statement = db
+      .prepare(
+        `UPDATE scenario_items SET expense_date = ?, vendor = ?, category = ?, amount_cents = ?, notes = ?, updated_at = ?
+         WHERE id = ?`
+      )
+      .bind(
+        input.date !== undefined ? input.date : existing.date,
+        input.vendor ?? existing.vendor,
+        input.category ?? existing.category,
+        input.amountCents ?? existing.amountCents,
+        input.notes !== undefined ? input.notes : existing.notes,
+        timestamp,
+        itemId
+      );
+  }
+
+  await db.batch([statement, touchScenario(db, scenarioId)]);
+  return getScenario(db, projectId, scenarioId);
+}
+
+export async function deleteScenarioItem(
+  db: D1Database,
+  projectId: string,
+  scenarioId: string,
+  itemId: string
+): Promise<Scenario> {
+  await getDraftScenario(db, projectId, scenarioId);
+  const [result] = await db.batch([
+    db.prepare('DELETE FROM scenario_items WHERE scenario_id = ? AND id = ?').bind(scenarioId, itemId),
+    touchScenario(db, scenarioId),
+  ]);
+  if (result.meta.changes === 0) {
+    throw new NotFoundError(`Line item ${itemId} not found`);
+  }
+  return getScenario(db, projectId, scenarioId);
+}
+
+function totalsOf(figures: ScenarioFigures[], contingency: ScenarioFigures | null, budgetCents: number): ScenarioTotals {
+  const allocatedCents = figures.reduce((sum, f) => sum + f.allocatedCents, 0);
+  const spentCents = figures.reduce((sum, f) => sum + f.spentCents, 0);
+  const forecastCents = figures.reduce((sum, f) => sum + f.forecastCents, 0);
+  return {
+    allocatedCents,
+    spentCents,
+    forecastCents,
+    unallocatedCents: budgetCents - allocatedCents,
+    varianceCents: budgetCents - forecastCents,
+    contingencyLeftCents: contingency
+      ? contingency.allocatedCents - contingency.spentCents - contingency.committedCents
+      : null,
+  };
+}
+
+function categoryDiff(
+  key: string,
+  change: ScenarioCategoryDiff['change'],
+  baseline: ScenarioFigures | null,
+  scenario: ScenarioFigures | null
+): ScenarioCategoryDiff {
+  return {
+    key,
+    change,
+    baseline,
+    scenario,
+    allocatedDeltaCents: (scenario?.allocatedCents ?? 0) - (baseline?.allocatedCents ?? 0),
+    spentDeltaCents: (scenario?.spentCents ?? 0) - (baseline?.spentCents ?? 0),
+    forecastDeltaCents: (scenario?.forecastCents ?? 0) - (baseline?.forecastCents ?? 0),
+  };
+}
+
+/**
+ * Applies a scenario to the baseline breakdown and compares the two
+ * `contractPaidCents` is the spend per category recorded by paying contract payments
+ */
+export function diffScenario(
+  breakdown: CategoryBreakdown,
+  contractPaidCents: Map<string, number>,
+  scenario: Scenario
+): ScenarioDiff {
+  const changes = new Map(scenario.categories.map((c) => [c.key, c]));
+  const spendDelta = new Map<string, number>();
+  for (const item of scenario.items) {
+    spendDelta.set(item.category, (spendDelta.get(item.category) ?? 0) + item.amountCents - (item.baselineAmountCents ?? 0));
+  }
+
+  const conflicts: string[] = [];
+  const project = (key: string, base: Omit<ScenarioFigures, 'forecastCents'>, pendingChangeOrderCents: number): ScenarioFigures => ({
+    ...base,
+    forecastCents: categoryForecastCents({ key, ...base, pendingChangeOrderCents }, contractPaidCents.get(key) ?? 0),
+  });
+
+  const rows: ScenarioCategoryDiff[] = breakdown.categories.map((category) => {
+    const baseline: ScenarioFigures = {
+      name: category.name,
+      allocatedCents: category.allocatedCents,
+      spentCents: category.spentCents,
+      committedCents: category.committedCents,
+      forecastCents: category.forecastCents,
+    };
+    const change = changes.get(category.key);
+    const spentCents = category.spentCents + (spendDelta.get(category.key) ?? 0);
+    if (change?.removed) {
+      if (category.committedCents > 0) {
+        conflicts.push(`Category ${category.key} has bids or contracts, so it cannot be removed`);
+      }
+      if (spentCents > 0) {
+        conflicts.push(`Category ${category.key} still has expenses in the scenario, so it cannot be removed`);
+      }
+      return categoryDiff(category.key, 'removed', baseline, null);
+    }
+    const figures = project(
+      category.key,
+      {
+        name: change?.name ?? category.name,
+        allocatedCents: change?.allocatedCents ?? category.allocatedCents,
+        spentCents,
+        committedCents: category.committedCents,
+      },
+      category.pendingChangeOrderCents
+    );
+    const changed =
+      figures.name !== baseline.name ||
+      figures.allocatedCents !== baseline.allocatedCents ||
+      figures.spentCents !== baseline.spentCents;
+    return categoryDiff(category.key, changed ? 'changed' : 'unchanged', baseline, figures);
+  });
+
+  const baselineKeys = new Set(breakdown.categories.map((c) => c.key));
+  for (const change of scenario.categories) {
+    if (change.removed || baselineKeys.has(change.key)) continue;
+    const figures = project(
+      change.key,
+      {
+        name: change.name ?? change.key,
+        allocatedCents: change.allocatedCents ?? 0,
+        spentCents: spendDelta.get(change.key) ?? 0,
+        committedCents: 0,
+      },
+      0
+    );
+    rows.push(categoryDiff(change.key, 'added', null, figures));
+  }
+
+  const scenarioKeys = new Set(rows.filter((row) => row.scenario).map((row) => row.key));
+  for (const item of scenario.items) {
+    if (!item.removed && !item.expenseId && !scenarioKeys.has(item.category)) {
+      conflicts.push(`The line item from ${item.vendor} is in category ${item.category}, which the scenario does not have`);
+    }
+  }
+
+  const { budgetCents } = breakdown.totals;
+  const contingencyRow = rows.find((row) => row.key === CONTINGENCY_KEY);
+  const baseline = totalsOf(
+    rows.flatMap((row) => (row.baseline ? [row.baseline] : [])),
+    contingencyRow?.baseline ?? null,
+    budgetCents
+  );
+  const totals = totalsOf(
+    rows.flatMap((row) => (row.scenario ? [row.scenario] : [])),
+    contingencyRow?.scenario ?? null,
+    budgetCents
+  );
+  return {
+    scenarioId: scenario.id,
+    name: scenario.name,
+    budgetCents,
+    baseline,
+    scenario: totals,
+    delta: {
+      allocatedCents: totals.allocatedCents - baseline.allocatedCents,
+      spentCents: totals.spentCents - baseline.spentCents,
+      forecastCents: totals.forecastCents - baseline.forecastCents,
+      unallocatedCents: totals.unallocatedCents - baseline.unallocatedCents,
+      varianceCents: totals.varianceCents - baseline.varianceCents,
+      contingencyLeftCents:
+        baseline.contingencyLeftCents == null && totals.contingencyLeftCents == null
+          ? null
+          : (totals.contingencyLeftCents ?? 0) - (baseline.contingencyLeftCents ?? 0),
+    },
+    categories: rows,
+    conflicts,
+  };
+}
+
+export async function compareScenario(db: D1Database, projectId: string, scenarioId: string): Promise<ScenarioDiff> {
+  const scenario = await getScenario(db, projectId, scenarioId);
+  const breakdown = await listCategories(db, projectId);
+  return diffScenario(breakdown, await loadContractPaidCents(db, projectId), scenario);
+}
+
+/**
+ * Writes a scenario's changes into the real budget in one batch: category changes, added line
+ * items as unpaid expenses dated `today` unless they have a date, repriced and removed expenses.
+ * Refused while the diff reports conflicts. Returns the diff as it was applied
+ */
+export async function promoteScenario(
+  db: D1Database,
+  projectId: string,
+  scenarioId: string,
+  today: string
+): Promise<{ scenario: Scenario; diff: ScenarioDiff }> {
+  const scenario = await getDraftScenario(db, projectId, scenarioId);
+  const breakdown = await listCategories(db, projectId);
+  const diff = diffScenario(breakdown, await loadContractPaidCents(db, projectId), scenario);
+  if (diff.conflicts.length > 0) {
+    throw new ConflictError(`Scenario ${scenario.name} cannot be promoted: ${diff.conflicts.join('; ')}`);
+  }
+
+  // Claim the scenario first so two concurrent promotions cannot both apply it
+  const timestamp = nowIso();
+  const claim = await db
+    .prepare(`UPDATE scenarios SET status = 'promoted', promoted_at = ?, updated_at = ? WHERE id = ? AND status = 'draft'`)
+    .bind(timestamp, timestamp, scenarioId)
+    .run();
+  if (claim.meta.changes === 0) {
+    await getDraftScenario(db, projectId, scenarioId);
+    throw new ConflictError(`Scenario ${scenario.name} is already being promoted`);
+  }
+
+  const baselineKeys = new Set(breakdown.categories.map((c) => c.key));
+  const statements: D1PreparedStatement[] = [];
+  for (const change of scenario.categories) {
+    if (change.removed) continue;
+    if (baselineKeys.has(change.key)) {
+      statements.push(
+        db
+          .prepare(
+            `UPDATE budget_categories SET name = COALESCE(?, name), allocated_cents = COALESCE(?, allocated_cents), updated_at = ?
+             WHERE project_id = ? AND key = ?`
+          )
+          .bind(change.name, change.allocatedCents, timestamp, projectId, change.key)
+      );
+    } else {
+      statements.push(
+        db
+          .prepare(
+            `INSERT INTO budget_categories (project_id, key, name, allocated_cents, sort_order, created_at, updated_at)
+             VALUES (?1, ?2, ?3, ?4,
+                     (SELECT COALESCE(MAX(sort_order), -1) + 1 FROM budget_categories WHERE project_id = ?1),
+                     ?5, ?5)`
+          )
+          .bind(projectId, change.key, change.name, change.allocatedCents, timestamp)
+      );
+    }
+  }
+  for (const item of scenario.items) {
+    if (!item.expenseId) {
+      statements.push(
+        db
+          .prepare(
+            `INSERT INTO expenses (id, project_id, expense_date, vendor, category, amount_cents, notes, paid, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?)`
+          )
+          .bind(crypto.randomUUID(), projectId, item.date ?? today, item.vendor, item.category, item.amountCents, item.notes, timestamp, timestamp)
+      );
+    } else if (item.removed) {
+      statements.push(db.prepare('DELETE FROM expenses WHERE id = ? AND project_id = ?').bind(item.expenseId, projectId));
+    } else {
+      statements.push(
+        db
+          .prepare('UPDATE expenses SET amount_cents = ?, updated_at = ? WHERE id = ? AND project_id = ?')
+          .bind(item.amountCents, timestamp, item.expenseId, projectId)
+      );
+    }
+  }
+  for (const change of scenario.categories) {
+    if (change.removed && baselineKeys.has(change.key)) {
+      statements.push(
+        db.prepare('DELETE FROM budget_categories WHERE project_id = ? AND key = ?').bind(projectId, change.key)
+      );
+    }
+  }
+
+  try {
+    await db.batch(statements);
+  } catch (error) {
+    await db
+      .prepare(`UPDATE scenarios SET status = 'draft', promoted_at = NULL, updated_at = ? WHERE id = ?`)
+      .bind(scenario.updatedAt, scenarioId)
+      .run();
+    throw error;
+  }
+  return { scenario: await getScenario(db, projectId, scenarioId), diff };
+}
+
+/**
+ * Routes /api/projects/:id/scenarios requests
+ * Returns null when the path/method is not a scenarios route
+ */
+export async function handleScenariosRequest(
+  request: Request,
+  env: Env,
+  url: URL
+): Promise<Response | null> {
+  const method = request.method;
+
+  const listParams = matchPath('/api/projects/:id/scenarios', url.pathname);
+  if (listParams) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ scenarios: await listScenarios(db, listParams.id) });
+    }
+    if (method === 'POST') {
+      const scenario = await createScenario(db, listParams.id, await readJsonBody(request));
+      return jsonResponse({ scenario }, 201);
+    }
+    return null;
+  }
+
+  const diffParams = matchPath('/api/projects/:id/scenarios/:scenarioId/diff', url.pathname);
+  if (diffParams) {
+    if (method !== 'GET') return null;
+    return jsonResponse({ diff: await compareScenario(getDatabase(env), diffParams.id, diffParams.scenarioId) });
+  }
+
+  const promoteParams = matchPath('/api/projects/:id/scenarios/:scenarioId/promote', url.pathname);
+  if (promoteParams && method === 'POST') {
+    const result = await promoteScenario(getDatabase(env), promoteParams.id, promoteParams.scenarioId, nowIso().slice(0, 10));
+    return jsonResponse(result);
+  }
+
+  const categoriesParams = matchPath('/api/projects/:id/scenarios/:scenarioId/categories', url.pathname);
+  if (categoriesParams && method === 'POST') {
+    const { id, scenarioId } = categoriesParams;
+    const scenario = await setScenarioCategory(getDatabase(env), id, scenarioId, await readJsonBody(request));
+    return jsonResponse({ scenario });
+  }
+
+  const categoryParams = matchPath('/api/projects/:id/scenarios/:scenarioId/categories/:key', url.pathname);
+  if (categoryParams && method === 'DELETE') {
+    const { id, scenarioId, key } = categoryParams;
+    return jsonResponse({ scenario: await clearScenarioCategory(getDatabase(env), id, scenarioId, key) });
+  }
+
+  const itemsParams = matchPath('/api/projects/:id/scenarios/:scenarioId/items', url.pathname);
+  if (itemsParams && method === 'POST') {
+    const { id, scenarioId } = itemsParams;
+    const scenario = await addScenarioItem(getDatabase(env), id, scenarioId, await readJsonBody(request));
+    return jsonResponse({ scenario }, 201);
+  }
+
+  const itemParams = matchPath('/api/projects/:id/scenarios/:scenarioId/items/:itemId', url.pathname);
+  if (itemParams) {
+    const db = getDatabase(env);
+    const { id, scenarioId, itemId } = itemParams;
+    if (method === 'PATCH') {
+      const scenario = await updateScenarioItem(db, id, scenarioId, itemId, await readJsonBody(request));
+      return jsonResponse({ scenario });
+    }
+    if (method === 'DELETE') {
+      return jsonResponse({ scenario: await deleteScenarioItem(db, id, scenarioId, itemId) });
+    }
+    return null;
+  }
+
+  const params = matchPath('/api/projects/:id/scenarios/:scenarioId', url.pathname);
+  if (params) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ scenario: await getScenario(db, params.id, params.scenarioId) });
+    }
+    if (method === 'PATCH') {
+      const scenario = await updateScenario(db, params.id, params.scenarioId, await readJsonBody(request));
+      return jsonResponse({ scenario });
+    }
+    if (method === 'DELETE') {
+      await deleteScenario(db, params.id, params.scenarioId);
+      return new Response(null, { status: 204 });
+    }
+  }
+
+  return null;
+}
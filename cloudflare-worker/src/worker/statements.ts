@@ -0,0 +1,275 @@
+/**
+ * Bank and credit-card statement parsing
+ * Turns CSV exports (read through a column mapping) and OFX/QFX downloads into a list of
+ * outgoing transactions. Money coming in (payments, refunds, deposits) is counted but not
+ * returned, since only spending belongs in the ledger.
+ */
+
+import { isValidDate } from './validate';
+
+export const STATEMENT_FORMATS = ['csv', 'ofx'] as const;
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+export const DATE_FORMATS = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'] as const;
+export type DateFormat = (typeof DATE_FORMATS)[number];
+
+/** Whether the bank shows money spent as negative (most checking accounts) or positive (most cards) */
+export const EXPENSE_SIGNS = ['negative', 'positive'] as const;
+export type ExpenseSign = (typeof EXPENSE_SIGNS)[number];
+
+/**
+ * Which CSV columns (by header name) hold each field
+ * Either `amountColumn` or `debitColumn` (with an optional `creditColumn`) is set.
+ */
+export interface CsvMapping {
+  dateColumn: string;
+  descriptionColumn: string;
+  amountColumn: string | null;
+  debitColumn: string | null;
+  creditColumn: string | null;
+  dateFormat: DateFormat;
+  expensesAre: ExpenseSign;
+}
+
+export interface StatementTransaction {
+  /** 1-based line in the CSV (after the header) or position in the OFX file */
+  rowNumber: number;
+  date: string;
+  description: string;
+  /** Money spent, always positive */
+  amountCents: number;
+  /** The bank's transaction id (OFX FITID), when the format has one */
+  bankId: string | null;
+}
+
+export interface ParsedStatement {
+  transactions: StatementTransaction[];
+  /** Incoming transactions that were left out */
+  skipped: number;
+  errors: { rowNumber: number; message: string }[];
+}
+
+// Header names banks commonly use, for reading a CSV without a saved mapping
+const DATE_HEADERS = ['date', 'transaction date', 'posted date', 'posting date', 'trans. date'];
+const DESCRIPTION_HEADERS = ['description', 'payee', 'name', 'merchant', 'memo'];
+const AMOUNT_HEADERS = ['amount', 'transaction amount'];
+const DEBIT_HEADERS = ['debit', 'withdrawal', 'withdrawals'];
+const CREDIT_HEADERS = ['credit', 'deposit', 'deposits'];
+
+/**
+ * Splits CSV text into rows of fields (RFC 4180: quoted fields may contain commas,
+ * newlines and doubled quotes)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Reads "1,234.56", "$12.50", "-12.50" or "(12.50)" as signed cents
+ */
+export function parseAmount(value: string): number | null {
+  let text = value.trim().replace(/[$€£,\s]/g, '');
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    sign = -sign;
+    text = text.slice(0, -1);
+  }
+  if (!/^[-+]?\d*\.?\d+$/.test(text)) return null;
+  return sign * Math.round(Number(text) * 100);
+}
+
+/**
+ * Reads a date in the mapping's format as YYYY-MM-DD; two-digit years are taken as 20xx
+ */
+export function parseStatementDate(value: string, format: DateFormat): string | null {
+  const text = value.trim();
+  let year: string;
+  let month: string;
+  let day: string;
+
+  if (format === 'YYYY-MM-DD') {
+    const match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(text);
+    if (!match) return null;
+    [, year, month, day] = match;
+  } else {
+    const match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/.exec(text);
+    if (!match) return null;
+    [, month, day, year] = match;
+    if (format === 'DD/MM/YYYY') [month, day] = [day, month];
+    if (year.length === 2) year = `20${year}`;
+  }
+
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  return isValidDate(date) ? date : null;
+}
+
+function findHeader(headers: string[], candidates: string[]): string | null {
+  return headers.find((header) => candidates.includes(header.trim().toLowerCase())) ?? null;
+}
+
+/**
+ * Guesses a mapping from common header names; null when the columns cannot be told apart
+ */
+export function guessCsvMapping(headers: string[]): CsvMapping | null {
+  const dateColumn = findHeader(headers, DATE_HEADERS);
+  const descriptionColumn = findHeader(headers, DESCRIPTION_HEADERS);
+  const amountColumn = findHeader(headers, AMOUNT_HEADERS);
+  const debitColumn = findHeader(headers, DEBIT_HEADERS);
+  if (!dateColumn || !descriptionColumn || (!amountColumn && !debitColumn)) return null;
+
+  return {
+    dateColumn,
+    descriptionColumn,
+    amountColumn: debitColumn ? null : amountColumn,
+    debitColumn,
+    creditColumn: debitColumn ? findHeader(headers, CREDIT_HEADERS) : null,
+    dateFormat: 'MM/DD/YYYY',
+    expensesAre: 'negative',
+  };
+}
+
+/**
+ * Reads a CSV export through a column mapping; the first row must be the header
+ */
+export function parseCsvStatement(text: string, mapping: CsvMapping): ParsedStatement {
+  const [headers = [], ...rows] = parseCsv(text);
+  const index = (column: string | null) =>
+    column === null ? -1 : headers.findIndex((header) => header.trim().toLowerCase() === column.trim().toLowerCase());
+
+  const columns = {
+    date: index(mapping.dateColumn),
+    description: index(mapping.descriptionColumn),
+    amount: index(mapping.amountColumn),
+    debit: index(mapping.debitColumn),
+    credit: index(mapping.creditColumn),
+  };
+  const missing = [
+    columns.date === -1 && mapping.dateColumn,
+    columns.description === -1 && mapping.descriptionColumn,
+    mapping.amountColumn && columns.amount === -1 && mapping.amountColumn,
+    mapping.debitColumn && columns.debit === -1 && mapping.debitColumn,
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    return { transactions: [], skipped: 0, errors: [{ rowNumber: 0, message: `Missing column(s): ${missing.join(', ')}` }] };
+  }
+
+  const result: ParsedStatement = { transactions: [], skipped: 0, errors: [] };
+  rows.forEach((row, i) => {
+    const rowNumber = i + 1;
+    const date = parseStatementDate(row[columns.date] ?? '', mapping.dateFormat);
+    const description = (row[columns.description] ?? '').replace(/\s+/g, ' ').trim();
+
+    let spentCents: number | null;
+    if (columns.amount !== -1) {
+      const amount = parseAmount(row[columns.amount] ?? '');
+      spentCents = amount === null ? null : mapping.expensesAre === 'negative' ? -amount : amount;
+    } else {
+      const debit = (row[columns.debit] ?? '').trim();
+      const credit = columns.credit === -1 ? '' : (row[columns.credit] ?? '').trim();
+      const amount = parseAmount(debit || credit);
+      spentCents = amount === null ? null : debit ? Math.abs(amount) : -Math.abs(amount);
+    }
+
+    if (!date) {
+      result.errors.push({ rowNumber, message: `Unreadable date "${row[columns.date] ?? ''}"` });
+    } else if (spentCents === null) {
+      result.errors.push({ rowNumber, message: 'Unreadable amount' });
+    } else if (spentCents <= 0) {
+      result.skipped++;
+    } else {
+      result.transactions.push({ rowNumber, date, description: description || 'Unknown', amountCents: spentCents, bankId: null });
+    }
+  });
+  return result;
+}
+
+function readOfxTag(block: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Reads the transactions of an OFX or QFX download (SGML OFX 1.x or XML OFX 2.x)
+ */
+export function parseOfxStatement(text: string): ParsedStatement {
+  const result: ParsedStatement = { transactions: [], skipped: 0, errors: [] };
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+
+  blocks.forEach((block, i) => {
+    const rowNumber = i + 1;
+    const posted = readOfxTag(block, 'DTPOSTED') ?? '';
+    const date = /^\d{8}/.test(posted)
+      ? `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`
+      : null;
+    const amount = parseAmount(readOfxTag(block, 'TRNAMT') ?? '');
+    const description = [readOfxTag(block, 'NAME'), readOfxTag(block, 'MEMO')]
+      .filter((part): part is string => Boolean(part))
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (!date || !isValidDate(date)) {
+      result.errors.push({ rowNumber, message: `Unreadable date "${posted}"` });
+    } else if (amount === null) {
+      result.errors.push({ rowNumber, message: 'Unreadable amount' });
+    } else if (amount >= 0) {
+      result.skipped++;
+    } else {
+      result.transactions.push({
+        rowNumber,
+        date,
+        description: description || 'Unknown',
+        amountCents: -amount,
+        bankId: readOfxTag(block, 'FITID'),
+      });
+    }
+  });
+  return result;
+}
+
+/**
+ * OFX and QFX files start with an OFX header or tag; anything else is read as CSV
+ */
+export function detectStatementFormat(fileName: string, text: string): StatementFormat {
+  if (/\.(ofx|qfx)$/i.test(fileName)) return 'ofx';
+  return /^\s*(OFXHEADER|<\?xml[^>]*>\s*<\?OFX|<OFX>)/i.test(text) ? 'ofx' : 'csv';
+}
@@ -4,16 +4,26 @@
  * 
  * Security Notes:
  * - File operations are restricted to the appsscript/src directory via path validation
- * - Git tokens are used via URL embedding (standard for Cloudflare Sandbox gitCheckout)
+ * - Git tokens are used via URL embedding (standard for Cloudflare Sandbox gitCheckout) and redacted from command errors
  * - Consider adding authentication middleware in production
  */
 
 import type { Sandbox } from '@cloudflare/sandbox';
+import { parseUnifiedDiff, type DiffFile } from '../lib/diff';
+import { MANIFEST_PATH } from './appsscript-validation';
+import { createPullRequest, parseRepoUrl } from './github';
+
+// How finished changes reach GitHub: pushed straight to main (which redeploys
+// the Apps Script project), or pushed to a branch with a pull request for review
+export const PUSH_MODES = ['direct', 'pull_request'] as const;
+export type PushMode = (typeof PUSH_MODES)[number];
 
 export interface GitToolsConfig {
   repoUrl: string;
   githubToken: string;
   appsScriptId: string;
+  githubApiUrl: string;
+  pushMode: PushMode;
 }
 
 // Allowed file names for Apps Script operations (whitelist approach)
@@ -23,7 +33,7 @@ const ALLOWED_FILES = ['Code.js', 'index.html', 'appsscript.json'];
  * Validates a filename to prevent path traversal attacks
  * Only allows specifically whitelisted files in the appsscript/src directory
  */
-function validateFileName(fileName: string): boolean {
+export function validateFileName(fileName: string): boolean {
   // Reject if contains path traversal characters
   if (fileName.includes('..') || fileName.includes('/') || fileName.includes('\\')) {
     return false;
@@ -32,6 +42,13 @@ function validateFileName(fileName: string): boolean {
   return ALLOWED_FILES.includes(fileName);
 }
 
+/**
+ * Workspace path of a whitelisted file; the manifest lives outside the source directory
+ */
+function appsScriptFilePath(fileName: string): string {
+  return fileName === 'appsscript.json' ? MANIFEST_PATH : `/workspace/repo/appsscript/src/${fileName}`;
+}
+
 /**
  * Sanitizes commit messages to prevent injection attacks
  */
@@ -44,23 +61,59 @@ function sanitizeCommitMessage(message: string): string {
   return sanitized || 'Update Apps Script files';
 }
 
+/**
+ * Quotes a value for the sandbox shell
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Replaces each secret, as written or URL-encoded, with asterisks
+ */
+function redactSecrets(text: string, secrets: string[]): string {
+  let redacted = text;
+  for (const secret of secrets.filter(Boolean)) {
+    for (const form of new Set([secret, encodeURIComponent(secret)])) {
+      redacted = redacted.split(form).join('***');
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Runs a command in the sandbox and returns its output, throwing if it fails
+ * The installed Sandbox SDK takes a single command string, so dynamic parts must be shell-quoted.
+ * Git echoes remote URLs in its errors, so `secrets` in the command are redacted from the
+ * error, which is passed on to the model and the chat client.
+ */
+async function runCommand(sandbox: DurableObjectStub<Sandbox>, command: string, secrets: string[] = []): Promise<string> {
+  const result = await sandbox.exec(command);
+  if (!result.success) {
+    // git reports some failures, such as "nothing to commit", on stdout
+    const output = result.stderr.trim() || result.stdout.trim();
+    throw new Error(redactSecrets(output, secrets) || `Command exited with code ${result.exitCode}`);
+  }
+  return result.stdout;
+}
+
+function authenticatedRepoUrl(config: GitToolsConfig): string {
+  const url = new URL(config.repoUrl);
+  url.username = config.githubToken;
+  return url.toString();
+}
+
 /**
  * Clone the repository into the sandbox
  */
 export async function cloneRepository(
-  sandbox: Sandbox,
+  sandbox: DurableObjectStub<Sandbox>,
   config: GitToolsConfig
 ): Promise<string> {
-  // Use URL constructor for robust URL manipulation
-  const url = new URL(config.repoUrl);
-  url.username = config.githubToken;
-  const authenticatedUrl = url.toString();
-  
-  await sandbox.gitCheckout(authenticatedUrl, {
+  await sandbox.gitCheckout(authenticatedRepoUrl(config), {
     targetDir: '/workspace/repo',
-    depth: 1,
   });
-  
+
   return 'Repository cloned successfully to /workspace/repo';
 }
 
@@ -69,15 +122,14 @@ export async function cloneRepository(
  * Only allows reading whitelisted files to prevent path traversal
  */
 export async function readAppsScriptFile(
-  sandbox: Sandbox,
+  sandbox: DurableObjectStub<Sandbox>,
   fileName: string
 ): Promise<string> {
   if (!validateFileName(fileName)) {
     throw new Error(`Invalid file name: ${fileName}. Allowed files: ${ALLOWED_FILES.join(', ')}`);
   }
-  const filePath = `/workspace/repo/appsscript/src/${fileName}`;
-  const content = await sandbox.readFile(filePath);
-  return content;
+  const file = await sandbox.readFile(appsScriptFilePath(fileName));
+  return file.content;
 }
 
 /**
@@ -85,14 +137,14 @@ export async function readAppsScriptFile(
  * Only allows writing to whitelisted files to prevent path traversal
  */
 export async function writeAppsScriptFile(
-  sandbox: Sandbox,
+  sandbox: DurableObjectStub<Sandbox>,
   fileName: string,
   content: string
 ): Promise<string> {
   if (!validateFileName(fileName)) {
     throw new Error(`Invalid file name: ${fileName}. Allowed files: ${ALLOWED_FILES.join(', ')}`);
   }
-  const filePath = `/workspace/repo/appsscript/src/${fileName}`;
+  const filePath = appsScriptFilePath(fileName);
   await sandbox.writeFile(filePath, content);
   return `File ${fileName} updated successfully`;
 }
@@ -100,9 +152,9 @@ export async function writeAppsScriptFile(
 /**
  * List files in the Apps Script source directory
  */
-export async function listAppsScriptFiles(sandbox: Sandbox): Promise<string> {
-  const result = await sandbox.exec('ls', ['-la', '/workspace/repo/appsscript/src']);
-  return result.stdout || result.output || 'No files found';
+export async function listAppsScriptFiles(sandbox: DurableObjectStub<Sandbox>): Promise<string> {
+  const stdout = await runCommand(sandbox, 'ls -la /workspace/repo/appsscript/src');
+  return stdout || 'No files found';
 }
 
 /**
@@ -110,66 +162,116 @@ export async function listAppsScriptFiles(sandbox: Sandbox): Promise<string> {
  * Sanitizes the commit message to prevent injection attacks
  */
 export async function commitChanges(
-  sandbox: Sandbox,
+  sandbox: DurableObjectStub<Sandbox>,
   message: string
 ): Promise<string> {
-  // Sanitize the commit message
   const sanitizedMessage = sanitizeCommitMessage(message);
-  
-  // Stage all changes
-  await sandbox.exec('git', ['-C', '/workspace/repo', 'add', '.']);
-  
-  // Commit with the sanitized message
-  const result = await sandbox.exec('git', [
-    '-C',
-    '/workspace/repo',
-    'commit',
-    '-m',
-    sanitizedMessage,
-  ]);
-  
-  return result.stdout || result.output || 'Changes committed';
+  await runCommand(sandbox, 'git -C /workspace/repo add .');
+  const stdout = await runCommand(sandbox, `git -C /workspace/repo commit -m ${shellQuote(sanitizedMessage)}`);
+  return stdout || 'Changes committed';
 }
 
 /**
  * Push changes to the remote repository
  */
 export async function pushChanges(
-  sandbox: Sandbox,
+  sandbox: DurableObjectStub<Sandbox>,
   config: GitToolsConfig
 ): Promise<string> {
-  // Use URL constructor for robust URL manipulation
-  const url = new URL(config.repoUrl);
-  url.username = config.githubToken;
-  const authenticatedUrl = url.toString();
-  
-  await sandbox.exec('git', [
-    '-C',
-    '/workspace/repo',
-    'remote',
-    'set-url',
-    'origin',
-    authenticatedUrl,
-  ]);
-  
-  // Push to main branch
-  const result = await sandbox.exec('git', [
-    '-C',
-    '/workspace/repo',
-    'push',
-    'origin',
-    'main',
-  ]);
-  
+  await runCommand(
+    sandbox,
+    `git -C /workspace/repo remote set-url origin ${shellQuote(authenticatedRepoUrl(config))}`,
+    [config.githubToken]
+  );
+  await runCommand(sandbox, 'git -C /workspace/repo push origin main', [config.githubToken]);
   return 'Changes pushed to GitHub. This will trigger the Apps Script deployment workflow.';
 }
 
 /**
  * Get the current git status
  */
-export async function getGitStatus(sandbox: Sandbox): Promise<string> {
-  const result = await sandbox.exec('git', ['-C', '/workspace/repo', 'status']);
-  return result.stdout || result.output || 'No changes';
+export async function getGitStatus(sandbox: DurableObjectStub<Sandbox>): Promise<string> {
+  const stdout = await runCommand(sandbox, 'git -C /workspace/repo status');
+  return stdout || 'No changes';
+}
+
+// What show_diff compares: uncommitted edits against HEAD, or local commits against the remote
+export const DIFF_RANGES = ['uncommitted', 'unpushed'] as const;
+export type DiffRange = (typeof DIFF_RANGES)[number];
+
+/**
+ * Get the diff of the Apps Script sources as structured per-file hunks
+ */
+export async function showDiff(
+  sandbox: DurableObjectStub<Sandbox>,
+  range: DiffRange = 'uncommitted'
+): Promise<DiffFile[]> {
+  const revisions = range === 'unpushed' ? 'origin/main HEAD' : 'HEAD';
+  const stdout = await runCommand(
+    sandbox,
+    `git -C /workspace/repo diff --no-color ${revisions} -- appsscript/src appsscript/appsscript.json`
+  );
+  return parseUnifiedDiff(stdout);
+}
+
+/**
+ * Branch used for a conversation's pull request
+ */
+export function conversationBranch(conversationId: string): string {
+  return `agent/${conversationId}`;
+}
+
+/**
+ * Push local commits to a branch named after the conversation and open a pull request
+ * against main, instead of pushing to main directly
+ */
+export async function openPullRequest(
+  sandbox: DurableObjectStub<Sandbox>,
+  config: GitToolsConfig,
+  conversationId: string
+): Promise<string> {
+  const branch = conversationBranch(conversationId);
+  const subjects = (await runCommand(sandbox, 'git -C /workspace/repo log --format=%s origin/main..HEAD'))
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (subjects.length === 0) {
+    throw new Error('There are no commits to open a pull request for. Commit the changes first.');
+  }
+  const diffStat = await runCommand(sandbox, 'git -C /workspace/repo diff --stat origin/main HEAD');
+
+  await runCommand(
+    sandbox,
+    `git -C /workspace/repo push ${shellQuote(authenticatedRepoUrl(config))} HEAD:refs/heads/${branch}`,
+    [config.githubToken]
+  );
+
+  // git log lists the newest commit first
+  const [latest, ...earlier] = subjects;
+  const title = earlier.length === 0
+    ? latest
+    : `${latest} (+${earlier.length} more commit${earlier.length === 1 ? '' : 's'})`;
+  const body = [
+    '## Changes',
+    ...subjects.map((subject) => `- ${subject}`),
+    '',
+    '```',
+    diffStat.trim(),
+    '```',
+    '',
+    `Opened by the budget assistant from conversation \`${conversationId}\`. ` +
+      'Merging this pull request deploys the Apps Script project.',
+  ].join('\n');
+
+  const pullRequest = await createPullRequest(
+    { token: config.githubToken, baseUrl: config.githubApiUrl },
+    parseRepoUrl(config.repoUrl),
+    { title: title.slice(0, 200), body, head: branch, base: 'main' }
+  );
+
+  return pullRequest.existing
+    ? `Pushed to ${branch}; pull request #${pullRequest.number} was updated: ${pullRequest.url}`
+    : `Pushed to ${branch} and opened pull request #${pullRequest.number}: ${pullRequest.url}`;
 }
 
 /**
@@ -192,7 +294,7 @@ export const agentTools = [
     type: 'function' as const,
     function: {
       name: 'read_file',
-      description: 'Read the contents of a file from the Apps Script source directory (appsscript/src/)',
+      description: 'Read the contents of a file from the Apps Script source directory (appsscript/src/) or the manifest (appsscript/appsscript.json)',
       parameters: {
         type: 'object',
         properties: {
@@ -209,7 +311,7 @@ export const agentTools = [
     type: 'function' as const,
     function: {
       name: 'write_file',
-      description: 'Write content to a file in the Apps Script source directory (appsscript/src/)',
+      description: 'Write content to a file in the Apps Script source directory (appsscript/src/) or the manifest (appsscript/appsscript.json)',
       parameters: {
         type: 'object',
         properties: {
@@ -267,6 +369,18 @@ export const agentTools = [
       },
     },
   },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'open_pull_request',
+      description: 'Push committed changes to a branch for this conversation and open a GitHub pull request against main for review. Returns the pull request URL.',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+    },
+  },
   {
     type: 'function' as const,
     function: {
@@ -279,4 +393,29 @@ export const agentTools = [
       },
     },
   },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'show_diff',
+      description: 'Show a line-by-line diff of the Apps Script files so the user can review changes before approving a commit or push. Returns each changed file with its hunks and added/removed lines.',
+      parameters: {
+        type: 'object',
+        properties: {
+          range: {
+            type: 'string',
+            description: '"uncommitted" (default) for edits not yet committed, or "unpushed" for commits not yet pushed to GitHub',
+          },
+        },
+        required: [],
+      },
+    },
+  },
 ];
+
+/**
+ * The git tools offered in a push mode: only one way of publishing changes is available
+ */
+export function gitToolsForMode(pushMode: PushMode) {
+  const hidden = pushMode === 'pull_request' ? 'push_changes' : 'open_pull_request';
+  return agentTools.filter((tool) => tool.function.name !== hidden);
+}
@@ -0,0 +1,239 @@
+/**
+ * AI usage and the daily token budget
+ * The token counts the model reports are recorded once per chat turn, by conversation and
+ * API key. Each key may spend CHAT_DAILY_TOKEN_BUDGET tokens per UTC day; the budget is
+ * checked before a turn starts, so the turn that crosses it still completes.
+ *
+ * Routes:
+ * - GET /api/usage   Today's usage against the budget and per-conversation totals
+ *                    (the caller's own conversations; admins see every key's)
+ */
+
+import { hasRole, type Principal } from './auth';
+import { getDatabase, nowIso } from './db';
+import { RetryLaterError, jsonResponse, matchPath } from './http';
+
+const DEFAULT_DAILY_TOKEN_BUDGET = 200_000;
+const MAX_LISTED_CONVERSATIONS = 100;
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ConversationUsage extends TokenUsage {
+  conversationId: string;
+  /** Null once the conversation has been deleted */
+  title: string | null;
+  keyId: string;
+  turns: number;
+  modelCalls: number;
+  lastUsedAt: string;
+}
+
+/**
+ * Records the model usage of one chat turn
+ */
+export interface UsageMeter {
+  /** Adds the usage of one model call */
+  add(usage: TokenUsage, model: string): void;
+  /** Stores the turn's usage; failures are logged, never thrown */
+  save(): Promise<void>;
+}
+
+interface ConversationUsageRow {
+  conversation_id: string;
+  title: string | null;
+  key_id: string;
+  turns: number;
+  model_calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  last_used_at: string;
+}
+
+/**
+ * The caller's API key has used up today's token budget
+ */
+export class TokenBudgetExceededError extends RetryLaterError {
+  constructor(budget: number, used: number, retryAfterSeconds: number) {
+    super(
+      429,
+      `The daily budget of ${budget.toLocaleString('en-US')} AI tokens has been used; it resets at midnight UTC`,
+      retryAfterSeconds,
+      { dailyTokenBudget: budget, tokensUsedToday: used }
+    );
+    this.name = 'TokenBudgetExceededError';
+  }
+}
+
+/**
+ * Reads CHAT_DAILY_TOKEN_BUDGET, falling back to the default
+ */
+export function getDailyTokenBudget(env: Env): number {
+  const budget = Number.parseInt(env.CHAT_DAILY_TOKEN_BUDGET ?? '', 10);
+  return budget > 0 ? budget : DEFAULT_DAILY_TOKEN_BUDGET;
+}
+
+function toCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : 0;
+}
+
+/**
+ * Reads the `usage` object a model returns ({ prompt_tokens, completion_tokens, total_tokens })
+ * Returns null when the model did not report usage.
+ */
+export function readModelUsage(raw: unknown): TokenUsage | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const usage = raw as Record<string, unknown>;
+  const promptTokens = toCount(usage.prompt_tokens);
+  const completionTokens = toCount(usage.completion_tokens);
+  const totalTokens = toCount(usage.total_tokens) || promptTokens + completionTokens;
+  return { promptTokens, completionTokens, totalTokens };
+}
+
+function startOfUtcDay(now: number): number {
+  const day = new Date(now);
+  return Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
+}
+
+export async function getTokensUsedToday(db: D1Database, keyId: string, now = Date.now()): Promise<number> {
+  return (
+    (await db
+      .prepare('SELECT COALESCE(SUM(total_tokens), 0) AS used FROM ai_usage WHERE key_id = ? AND created_at >= ?')
+      .bind(keyId, new Date(startOfUtcDay(now)).toISOString())
+      .first<number>('used')) ?? 0
+  );
+}
+
+/**
+ * Throws TokenBudgetExceededError (429, retry after midnight UTC) once the key has used today's budget
+ */
+export async function assertWithinDailyTokenBudget(
+  db: D1Database,
+  env: Env,
+  keyId: string,
+  now = Date.now()
+): Promise<void> {
+  const budget = getDailyTokenBudget(env);
+  const used = await getTokensUsedToday(db, keyId, now);
+  if (used >= budget) {
+    const resetsAt = startOfUtcDay(now) + 24 * 60 * 60_000;
+    throw new TokenBudgetExceededError(budget, used, Math.ceil((resetsAt - now) / 1000));
+  }
+}
+
+export async function recordUsage(
+  db: D1Database,
+  turn: { conversationId: string; keyId: string; model: string; modelCalls: number; usage: TokenUsage }
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO ai_usage
+         (conversation_id, key_id, model, model_calls, prompt_tokens, completion_tokens, total_tokens, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      turn.conversationId,
+      turn.keyId,
+      turn.model,
+      turn.modelCalls,
+      turn.usage.promptTokens,
+      turn.usage.completionTokens,
+      turn.usage.totalTokens,
+      nowIso()
+    )
+    .run();
+}
+
+/**
+ * A turn that fell back to another provider lists every model it used, comma-separated
+ */
+export function createUsageMeter(
+  db: D1Database,
+  turn: { conversationId: string; keyId: string }
+): UsageMeter {
+  let modelCalls = 0;
+  const models = new Set<string>();
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  return {
+    add(call, model) {
+      modelCalls++;
+      models.add(model);
+      usage.promptTokens += call.promptTokens;
+      usage.completionTokens += call.completionTokens;
+      usage.totalTokens += call.totalTokens;
+    },
+
+    async save() {
+      if (modelCalls === 0) return;
+      try {
+        await recordUsage(db, { ...turn, model: [...models].join(','), modelCalls, usage });
+      } catch (error) {
+        console.error('Failed to record AI usage:', error);
+      }
+    },
+  };
+}
+
+/**
+ * Usage per conversation, most recently used first; all keys when keyId is null
+ */
+export async function listConversationUsage(db: D1Database, keyId: string | null): Promise<ConversationUsage[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT u.conversation_id, c.title, u.key_id,
+              COUNT(*) AS turns, SUM(u.model_calls) AS model_calls,
+              SUM(u.prompt_tokens) AS prompt_tokens, SUM(u.completion_tokens) AS completion_tokens,
+              SUM(u.total_tokens) AS total_tokens, MAX(u.created_at) AS last_used_at
+       FROM ai_usage u LEFT JOIN conversations c ON c.id = u.conversation_id
+       WHERE ?1 IS NULL OR u.key_id = ?1
+       GROUP BY u.conversation_id, u.key_id
+       ORDER BY last_used_at DESC
+       LIMIT ?2`
+    )
+    .bind(keyId, MAX_LISTED_CONVERSATIONS)
+    .all<ConversationUsageRow>();
+
+  return results.map((row) => ({
+    conversationId: row.conversation_id,
+    title: row.title,
+    keyId: row.key_id,
+    turns: row.turns,
+    modelCalls: row.model_calls,
+    promptTokens: row.prompt_tokens,
+    completionTokens: row.completion_tokens,
+    totalTokens: row.total_tokens,
+    lastUsedAt: row.last_used_at,
+  }));
+}
+
+/**
+ * Routes /api/usage requests
+ * Role checks happen before this is called; returns null when the path/method is not a usage route
+ */
+export async function handleUsageRequest(
+  request: Request,
+  env: Env,
+  url: URL,
+  principal: Principal | null
+): Promise<Response | null> {
+  if (!matchPath('/api/usage', url.pathname) || request.method !== 'GET' || !principal) {
+    return null;
+  }
+  const db = getDatabase(env);
+  const budget = getDailyTokenBudget(env);
+  const used = await getTokensUsedToday(db, principal.keyId);
+  const conversations = await listConversationUsage(db, hasRole(principal.role, 'admin') ? null : principal.keyId);
+
+  return jsonResponse({
+    date: new Date().toISOString().slice(0, 10),
+    dailyTokenBudget: budget,
+    tokensUsedToday: used,
+    tokensRemainingToday: Math.max(0, budget - used),
+    conversations,
+  });
+}
@@ -0,0 +1,185 @@
+/**
+ * Field validators for REST and agent tool input
+ * Each reader records a message in `errors` instead of throwing, so a single
+ * ValidationError can report every bad field at once.
+ * Readers return undefined when the field is absent and null when it was explicitly cleared.
+ */
+
+import { ValidationError } from './http';
+
+export type FieldErrors = Record<string, string>;
+
+interface FieldOptions {
+  required?: boolean;
+  nullable?: boolean;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function readPresence(
+  body: Record<string, unknown>,
+  key: string,
+  errors: FieldErrors,
+  options: FieldOptions
+): 'absent' | 'null' | 'present' {
+  const value = body[key];
+  if (value === undefined) {
+    if (options.required) errors[key] = `${key} is required`;
+    return 'absent';
+  }
+  if (value === null) {
+    if (!options.nullable) errors[key] = `${key} cannot be null`;
+    return 'null';
+  }
+  return 'present';
+}
+
+export function readString(
+  body: Record<string, unknown>,
+  key: string,
+  errors: FieldErrors,
+  options: FieldOptions & { maxLength?: number } = {}
+): string | null | undefined {
+  const presence = readPresence(body, key, errors, options);
+  if (presence !== 'present') return presence === 'null' ? null : undefined;
+
+  const value = body[key];
+  if (typeof value !== 'string') {
+    errors[key] = `${key} must be a string`;
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (options.required && trimmed === '') {
+    errors[key] = `${key} cannot be empty`;
+    return undefined;
+  }
+  const maxLength = options.maxLength ?? 500;
+  if (trimmed.length > maxLength) {
+    errors[key] = `${key} must be at most ${maxLength} characters`;
+    return undefined;
+  }
+  if (trimmed === '' && options.nullable) return null;
+  return trimmed;
+}
+
+/**
+ * Reads a non-negative whole number of cents
+ */
+export function readCents(
+  body: Record<string, unknown>,
+  key: string,
+  errors: FieldErrors,
+  options: FieldOptions & { allowNegative?: boolean } = {}
+): number | null | undefined {
+  const presence = readPresence(body, key, errors, options);
+  if (presence !== 'present') return presence === 'null' ? null : undefined;
+
+  const value = body[key];
+  if (typeof value !== 'number' || !Number.isSafeInteger(value)) {
+    errors[key] = `${key} must be a whole number of cents`;
+    return undefined;
+  }
+  if (value < 0 && !options.allowNegative) {
+    errors[key] = `${key} cannot be negative`;
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Reads a calendar date in YYYY-MM-DD form
+ */
+export function readDate(
+  body: Record<string, unknown>,
+  key: string,
+  errors: FieldErrors,
+  options: FieldOptions = {}
+): string | null | undefined {
+  const presence = readPresence(body, key, errors, options);
+  if (presence !== 'present') return presence === 'null' ? null : undefined;
+
+  const value = body[key];
+  if (typeof value !== 'string' || !isValidDate(value)) {
+    errors[key] = `${key} must be a date in YYYY-MM-DD format`;
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Reads a percentage from 0 to 100
+ */
+export function readPercent(
+  body: Record<string, unknown>,
+  key: string,
+  errors: FieldErrors,
+  options: FieldOptions = {}
+): number | null | undefined {
+  const presence = readPresence(body, key, errors, options);
+  if (presence !== 'present') return presence === 'null' ? null : undefined;
+
+  const value = body[key];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) {
+    errors[key] = `${key} must be a number from 0 to 100`;
+    return undefined;
+  }
+  return value;
+}
+
+export function readBoolean(
+  body: Record<string, unknown>,
+  key: string,
+  errors: FieldErrors,
+  options: FieldOptions = {}
+): boolean | null | undefined {
+  const presence = readPresence(body, key, errors, options);
+  if (presence !== 'present') return presence === 'null' ? null : undefined;
+
+  const value = body[key];
+  if (typeof value !== 'boolean') {
+    errors[key] = `${key} must be true or false`;
+    return undefined;
+  }
+  return value;
+}
+
+export function readEnum<T extends string>(
+  body: Record<string, unknown>,
+  key: string,
+  allowed: readonly T[],
+  errors: FieldErrors,
+  options: FieldOptions = {}
+): T | null | undefined {
+  const presence = readPresence(body, key, errors, options);
+  if (presence !== 'present') return presence === 'null' ? null : undefined;
+
+  const value = body[key];
+  if (typeof value !== 'string' || !(allowed as readonly string[]).includes(value)) {
+    errors[key] = `${key} must be one of: ${allowed.join(', ')}`;
+    return undefined;
+  }
+  return value as T;
+}
+
+/**
+ * Normalizes a category name to its slug form ("Cabinets & Counters" → "cabinets_counters")
+ */
+export function normalizeCategory(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+export function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+}
+
+export function throwIfInvalid(errors: FieldErrors): void {
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(errors);
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Vendors API
+ * Contractors and suppliers that bid on projects, with the license and insurance details
+ * worth checking before hiring them. Vendors are shared by every project.
+ *
+ * Routes:
+ * - GET    /api/vendors       List vendors (?trade= to filter)
+ * - POST   /api/vendors       Add a vendor
+ * - GET    /api/vendors/:id   Get a vendor
+ * - PATCH  /api/vendors/:id   Update a vendor
+ * - DELETE /api/vendors/:id   Delete a vendor with no bids
+ */
+
+import { getDatabase, nowIso } from './db';
+import { ConflictError, NotFoundError, ValidationError, jsonResponse, matchPath, readJsonBody } from './http';
+import { readDate, readString, throwIfInvalid, type FieldErrors } from './validate';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface Vendor {
+  id: string;
+  name: string;
+  /** Kind of work, e.g. "Electrician" or "Cabinetry" */
+  trade: string | null;
+  contactName: string | null;
+  email: string | null;
+  phone: string | null;
+  licenseNumber: string | null;
+  /** Last day the vendor's liability insurance is known to be valid */
+  insuranceExpiresOn: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type VendorInput = Partial<Omit<Vendor, 'id' | 'createdAt' | 'updatedAt'>>;
+
+interface VendorRow {
+  id: string;
+  name: string;
+  trade: string | null;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  license_number: string | null;
+  insurance_expires_on: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Maps VendorInput keys onto their database columns
+const COLUMNS: Record<keyof VendorInput, keyof VendorRow> = {
+  name: 'name',
+  trade: 'trade',
+  contactName: 'contact_name',
+  email: 'email',
+  phone: 'phone',
+  licenseNumber: 'license_number',
+  insuranceExpiresOn: 'insurance_expires_on',
+  notes: 'notes',
+};
+
+function toVendor(row: VendorRow): Vendor {
+  return {
+    id: row.id,
+    name: row.name,
+    trade: row.trade,
+    contactName: row.contact_name,
+    email: row.email,
+    phone: row.phone,
+    licenseNumber: row.license_number,
+    insuranceExpiresOn: row.insurance_expires_on,
+    notes: row.notes,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Validates a create (partial = false) or update (partial = true) payload
+ */
+export function validateVendorInput(body: Record<string, unknown>, partial: boolean): VendorInput {
+  const errors: FieldErrors = {};
+  const input: VendorInput = {};
+
+  const name = readString(body, 'name', errors, { required: !partial, maxLength: 120 });
+  if (name != null) input.name = name;
+
+  for (const key of ['trade', 'contactName', 'phone', 'licenseNumber'] as const) {
+    const value = readString(body, key, errors, { nullable: true, maxLength: 100 });
+    if (value !== undefined) input[key] = value;
+  }
+
+  const email = readString(body, 'email', errors, { nullable: true, maxLength: 200 });
+  if (email && !EMAIL_PATTERN.test(email)) {
+    errors.email = 'email must be an email address';
+  } else if (email !== undefined) {
+    input.email = email;
+  }
+
+  const insuranceExpiresOn = readDate(body, 'insuranceExpiresOn', errors, { nullable: true });
+  if (insuranceExpiresOn !== undefined) input.insuranceExpiresOn = insuranceExpiresOn;
+
+  const notes = readString(body, 'notes', errors, { nullable: true, maxLength: 2000 });
+  if (notes !== undefined) input.notes = notes;
+
+  throwIfInvalid(errors);
+  return input;
+}
+
+function rethrowDuplicateName(error: unknown, name: string | null | undefined): never {
+  if (error instanceof Error && error.message.includes('UNIQUE')) {
+    throw new ConflictError(`A vendor named "${name}" already exists`);
+  }
+  throw error;
+}
+
+export async function listVendors(db: D1Database, options: { trade?: string } = {}): Promise<Vendor[]> {
+  const statement = options.trade
+    ? db.prepare('SELECT * FROM vendors WHERE trade = ? COLLATE NOCASE ORDER BY name').bind(options.trade)
+    : db.prepare('SELECT * FROM vendors ORDER BY name');
+  const { results } = await statement.all<VendorRow>();
+  return results.map(toVendor);
+}
+
+export async function getVendor(db: D1Database, id: string): Promise<Vendor> {
+  const row = await db.prepare('SELECT * FROM vendors WHERE id = ?').bind(id).first<VendorRow>();
+  if (!row) {
+    throw new NotFoundError(`Vendor ${id} not found`);
+  }
+  return toVendor(row);
+}
+
+/**
+ * Throws a field-level ValidationError unless the vendor exists
+ */
+export async function assertVendorExists(db: D1Database, id: string): Promise<void> {
+  const row = await db.prepare('SELECT id FROM vendors WHERE id = ?').bind(id).first();
+  if (!row) {
+    throw new ValidationError({ vendorId: `Unknown vendor "${id}"` });
+  }
+}
+
+export async function createVendor(db: D1Database, body: Record<string, unknown>): Promise<Vendor> {
+  const input = validateVendorInput(body, false);
+  const id = crypto.randomUUID();
+  const timestamp = nowIso();
+  try {
+    await db
+      .prepare(
+        `INSERT INTO vendors
+          (id, name, trade, contact_name, email, phone, license_number, insurance_expires_on, notes, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        id,
+        input.name,
+        input.trade ?? null,
+        input.contactName ?? null,
+        input.email ?? null,
+        input.phone ?? null,
+        input.licenseNumber ?? null,
+        input.insuranceExpiresOn ?? null,
+        input.notes ?? null,
+        timestamp,
+        timestamp
+      )
+      .run();
+  } catch (error) {
+    rethrowDuplicateName(error, input.name);
+  }
+  return getVendor(db, id);
+}
+
+export async function updateVendor(db: D1Database, id: string, body: Record<string, unknown>): Promise<Vendor> {
+  const input = validateVendorInput(body, true);
+  const existing = await getVendor(db, id);
+
+  const keys = Object.keys(input) as (keyof VendorInput)[];
+  if (keys.length === 0) {
+    return existing;
+  }
+
+  const assignments = keys.map((key) => `${COLUMNS[key]} = ?`);
+  const values = keys.map((key) => input[key] ?? null);
+  try {
+    await db
+      .prepare(`UPDATE vendors SET ${assignments.join(', ')}, updated_at = ? WHERE id = ?`)
+      .bind(...values, nowIso(), id)
+      .run();
+  } catch (error) {
+    rethrowDuplicateName(error, input.name);
+  }
+  return getVendor(db, id);
+}
+
+export async function deleteVendor(db: D1Database, id: string): Promise<void> {
+  await getVendor(db, id);
+  const bid = await db.prepare('SELECT id FROM bids WHERE vendor_id = ? LIMIT 1').bind(id).first();
+  if (bid) {
+    throw new ConflictError(`Vendor ${id} has bids; delete them first`);
+  }
+  const contract = await db.prepare('SELECT id FROM contracts WHERE vendor_id = ? LIMIT 1').bind(id).first();
+  if (contract) {
+    throw new ConflictError(`Vendor ${id} has contracts; delete them first`);
+  }
+  await db.prepare('DELETE FROM vendors WHERE id = ?').bind(id).run();
+}
+
+/**
+ * Routes /api/vendors requests
+ * Returns null when the path/method is not a vendors route
+ */
+export async function handleVendorsRequest(
+  request: Request,
+  env: Env,
+  url: URL
+): Promise<Response | null> {
+  const method = request.method;
+
+  if (matchPath('/api/vendors', url.pathname)) {
+    if (method === 'GET') {
+      const trade = url.searchParams.get('trade') ?? undefined;
+      return jsonResponse({ vendors: await listVendors(getDatabase(env), { trade }) });
+    }
+    if (method === 'POST') {
+      const vendor = await createVendor(getDatabase(env), await readJsonBody(request));
+      return jsonResponse({ vendor }, 201);
+    }
+    return null;
+  }
+
+  const params = matchPath('/api/vendors/:id', url.pathname);
+  if (params) {
+    const db = getDatabase(env);
+    if (method === 'GET') {
+      return jsonResponse({ vendor: await getVendor(db, params.id) });
+    }
+    if (method === 'PATCH') {
+      const vendor = await updateVendor(db, params.id, await readJsonBody(request));
+      return jsonResponse({ vendor });
+    }
+    if (method === 'DELETE') {
+      await deleteVendor(db, params.id);
+      return new Response(null, { status: 204 });
+    }
+  }
+
+  return null;
+}
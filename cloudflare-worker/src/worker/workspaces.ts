@@ -0,0 +1,259 @@
+/**
+ * Sandbox workspaces
+ * Every conversation works in its own sandbox, so one chat's uncommitted edits can never
+ * end up in another chat's commit. Leases in D1 cap the number of sandboxes at the
+ * container limit, and conversations that find them all in use wait in a queue.
+ * Git-mutating tools hold a per-workspace lock, so overlapping requests from the same
+ * conversation (a new turn while an approved commit runs) take turns.
+ */
+
+import { getSandbox } from '@cloudflare/sandbox';
+import { getDatabase } from './db';
+import { ApiError, ConflictError, RetryLaterError } from './http';
+
+// Keep in sync with containers[].max_instances in wrangler.jsonc
+const DEFAULT_MAX_SANDBOXES = 5;
+const DEFAULT_IDLE_MINUTES = 15;
+// A lock outlives a crashed request by at most this long
+const LOCK_TTL_MS = 5 * 60_000;
+const LOCK_WAIT_MS = 15_000;
+const LOCK_POLL_MS = 250;
+// Queued conversations that stop retrying drop out of the queue
+const QUEUE_ENTRY_TTL_MS = 2 * 60_000;
+const RETRY_AFTER_SECONDS = 30;
+
+export interface WorkspaceLimits {
+  /** Sandboxes that may exist at once */
+  maxSandboxes: number;
+  /** Unused time after which a sandbox is destroyed and its lease freed */
+  idleMs: number;
+}
+
+/**
+ * A conversation's claim on its sandbox, used by the agent's tool calls
+ */
+export interface Workspace {
+  /** Makes sure the conversation holds a sandbox; throws WorkspaceBusyError when none is free */
+  acquire(): Promise<void>;
+  /** Runs a git-mutating operation while holding the workspace lock */
+  withLock<T>(run: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Every sandbox is in use; the conversation has been queued
+ */
+export class WorkspaceBusyError extends RetryLaterError {
+  readonly queuePosition: number;
+
+  constructor(queuePosition: number, maxSandboxes: number) {
+    super(
+      503,
+      `All ${maxSandboxes} sandboxes are in use. This conversation is number ${queuePosition} in the queue.`,
+      RETRY_AFTER_SECONDS,
+      { queuePosition }
+    );
+    this.name = 'WorkspaceBusyError';
+    this.queuePosition = queuePosition;
+  }
+}
+
+/**
+ * Reads SANDBOX_MAX_INSTANCES / SANDBOX_IDLE_MINUTES, falling back to the defaults
+ */
+export function getWorkspaceLimits(env: Env): WorkspaceLimits {
+  const maxSandboxes = Number.parseInt(env.SANDBOX_MAX_INSTANCES ?? '', 10);
+  const idleMinutes = Number.parseInt(env.SANDBOX_IDLE_MINUTES ?? '', 10);
+  return {
+    maxSandboxes: maxSandboxes > 0 ? maxSandboxes : DEFAULT_MAX_SANDBOXES,
+    idleMs: (idleMinutes > 0 ? idleMinutes : DEFAULT_IDLE_MINUTES) * 60_000,
+  };
+}
+
+export function sandboxIdFor(conversationId: string): string {
+  return `conversation-${conversationId}`;
+}
+
+/**
+ * Returns the sandbox stub for an id, failing with a 503 when the binding is missing
+ */
+export function getSandboxById(env: Env, sandboxId: string) {
+  if (!env.Sandbox) {
+    throw new ApiError(503, 'Sandbox binding is not configured');
+  }
+  return getSandbox(env.Sandbox, sandboxId);
+}
+
+function iso(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+/**
+ * Gives the conversation a sandbox lease, or queues it when every sandbox is in use
+ * A conversation that already holds a lease only has it renewed. Free slots go to the
+ * front of the queue first, so a newcomer cannot overtake conversations already waiting.
+ */
+export async function acquireWorkspaceLease(
+  db: D1Database,
+  conversationId: string,
+  limits: WorkspaceLimits,
+  now = Date.now()
+): Promise<void> {
+  const timestamp = iso(now);
+  const renewed = await db
+    .prepare('UPDATE sandbox_leases SET last_used_at = ? WHERE conversation_id = ?')
+    .bind(timestamp, conversationId)
+    .run();
+  if (renewed.meta.changes > 0) return;
+
+  // Join the queue, or stay in it at the original position
+  await db.batch([
+    db.prepare('DELETE FROM sandbox_queue WHERE last_seen_at < ?').bind(iso(now - QUEUE_ENTRY_TTL_MS)),
+    db
+      .prepare(
+        `INSERT INTO sandbox_queue (conversation_id, requested_at, last_seen_at) VALUES (?, ?, ?)
+         ON CONFLICT (conversation_id) DO UPDATE SET last_seen_at = excluded.last_seen_at`
+      )
+      .bind(conversationId, timestamp, timestamp),
+  ]);
+  const position = await db
+    .prepare(
+      `SELECT COUNT(*) AS position FROM sandbox_queue q, sandbox_queue me
+       WHERE me.conversation_id = ?
+         AND (q.requested_at < me.requested_at
+              OR (q.requested_at = me.requested_at AND q.conversation_id <= me.conversation_id))`
+    )
+    .bind(conversationId)
+    .first<number>('position') ?? 1;
+
+  // The capacity check and the insert are one statement, so concurrent requests cannot overshoot
+  const claimed = await db
+    .prepare(
+      `INSERT INTO sandbox_leases (conversation_id, sandbox_id, acquired_at, last_used_at)
+       SELECT ?, ?, ?, ? WHERE (SELECT COUNT(*) FROM sandbox_leases) + ? <= ?`
+    )
+    .bind(conversationId, sandboxIdFor(conversationId), timestamp, timestamp, position, limits.maxSandboxes)
+    .run();
+  if (claimed.meta.changes === 0) {
+    throw new WorkspaceBusyError(position, limits.maxSandboxes);
+  }
+  await db.prepare('DELETE FROM sandbox_queue WHERE conversation_id = ?').bind(conversationId).run();
+}
+
+/**
+ * Takes the workspace lock; returns the token to release it with, or null while someone else holds it
+ */
+export async function lockWorkspace(
+  db: D1Database,
+  conversationId: string,
+  now = Date.now()
+): Promise<string | null> {
+  const token = crypto.randomUUID();
+  const locked = await db
+    .prepare(
+      `UPDATE sandbox_leases SET lock_token = ?, locked_until = ?, last_used_at = ?
+       WHERE conversation_id = ? AND (locked_until IS NULL OR locked_until < ?)`
+    )
+    .bind(token, iso(now + LOCK_TTL_MS), iso(now), conversationId, iso(now))
+    .run();
+  return locked.meta.changes > 0 ? token : null;
+}
+
+export async function unlockWorkspace(
+  db: D1Database,
+  conversationId: string,
+  token: string,
+  now = Date.now()
+): Promise<void> {
+  await db
+    .prepare(
+      `UPDATE sandbox_leases SET lock_token = NULL, locked_until = NULL, last_used_at = ?
+       WHERE conversation_id = ? AND lock_token = ?`
+    )
+    .bind(iso(now), conversationId, token)
+    .run();
+}
+
+/**
+ * D1-backed workspace for a conversation
+ * The lease is taken once per request; waiting for the lock gives up after a few seconds.
+ */
+export function createWorkspace(env: Env, conversationId: string): Workspace {
+  const db = getDatabase(env);
+  const limits = getWorkspaceLimits(env);
+  let acquired: Promise<void> | null = null;
+
+  const acquireOrReclaim = async () => {
+    try {
+      await acquireWorkspaceLease(db, conversationId, limits);
+    } catch (error) {
+      // Idle sandboxes the cron trigger has not reclaimed yet can make room
+      if (!(error instanceof WorkspaceBusyError)) throw error;
+      const reclaimed = await reclaimIdleWorkspaces(env, db, limits);
+      if (reclaimed.length === 0) throw error;
+      await acquireWorkspaceLease(db, conversationId, limits);
+    }
+  };
+
+  return {
+    acquire() {
+      acquired ??= acquireOrReclaim().catch((error) => {
+        acquired = null;
+        throw error;
+      });
+      return acquired;
+    },
+
+    async withLock(run) {
+      const deadline = Date.now() + LOCK_WAIT_MS;
+      let token = await lockWorkspace(db, conversationId);
+      while (!token) {
+        if (Date.now() >= deadline) {
+          throw new ConflictError('Another change is still running in this conversation\'s sandbox; try again shortly');
+        }
+        await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+        token = await lockWorkspace(db, conversationId);
+      }
+      try {
+        return await run();
+      } finally {
+        await unlockWorkspace(db, conversationId, token);
+      }
+    },
+  };
+}
+
+/**
+ * Destroys sandboxes that have been idle longer than the limit and frees their leases
+ * Locked workspaces are left alone. Returns the ids of the destroyed sandboxes.
+ */
+export async function reclaimIdleWorkspaces(
+  env: Env,
+  db: D1Database,
+  limits: WorkspaceLimits,
+  now = Date.now()
+): Promise<string[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT conversation_id, sandbox_id, last_used_at FROM sandbox_leases
+       WHERE last_used_at < ? AND (locked_until IS NULL OR locked_until < ?)`
+    )
+    .bind(iso(now - limits.idleMs), iso(now))
+    .all<{ conversation_id: string; sandbox_id: string; last_used_at: string }>();
+
+  const reclaimed: string[] = [];
+  for (const lease of results) {
+    // Free the lease first; if the conversation used it in the meantime it is kept
+    const freed = await db
+      .prepare('DELETE FROM sandbox_leases WHERE conversation_id = ? AND last_used_at = ?')
+      .bind(lease.conversation_id, lease.last_used_at)
+      .run();
+    if (freed.meta.changes === 0) continue;
+    try {
+      await getSandboxById(env, lease.sandbox_id).destroy();
+    } catch (error) {
+      console.error(`Failed to destroy sandbox ${lease.sandbox_id}:`, error);
+    }
+    reclaimed.push(lease.sandbox_id);
+  }
+  return reclaimed;
+}
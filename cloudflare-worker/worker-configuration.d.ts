@@ -1,14 +1,40 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: f2832f886c83a1634610ce4ea21edd5c)
+// Generated by Wrangler by running `wrangler types --env-file .dev.vars.example` (hash: 7b419bd770e3b3c47a00b364364af2ef)
 // Runtime types generated with workerd@1.20260128.0 2024-01-01 nodejs_compat
 declare namespace Cloudflare {
-	interface DevelopmentEnv {}
-	interface ProductionEnv {}
 	interface Env {
-		AI?: Ai;
-		ASSETS?: Fetcher;
-		REPO_URL?: "https://github.com/jmbish04/home_remodel_budget";
-		Sandbox?: DurableObjectNamespace /* Sandbox */;
+		ATTACHMENTS: R2Bucket;
+		DB: D1Database;
+		AI: Ai;
+		ASSETS: Fetcher;
+		REPO_URL: "https://github.com/jmbish04/home_remodel_budget";
+		AGENT_MAX_STEPS: "8";
+		AGENT_TURN_BUDGET_MS: "120000";
+		CONVERSATION_TOKEN_BUDGET: "6000";
+		GIT_PUSH_MODE: "direct";
+		GITHUB_API_URL: "https://api.github.com";
+		SANDBOX_MAX_INSTANCES: "5";
+		SANDBOX_IDLE_MINUTES: "15";
+		CORS_ALLOWED_ORIGINS: "";
+		CHAT_RATE_LIMIT_PER_USER: "10";
+		CHAT_RATE_LIMIT_PER_IP: "30";
+		CHAT_DAILY_TOKEN_BUDGET: "200000";
+		LLM_PROVIDER: "workers-ai";
+		LLM_FALLBACK_PROVIDER: "";
+		OPENAI_MODEL: "gpt-4o-mini";
+		OPENAI_API_URL: "https://api.openai.com/v1";
+		ANTHROPIC_MODEL: "claude-3-5-haiku-latest";
+		ANTHROPIC_API_URL: "https://api.anthropic.com/v1";
+		ATTACHMENT_MAX_BYTES: "10485760";
+		GITHUB_TOKEN: string;
+		OPENAI_API_KEY: string;
+		ANTHROPIC_API_KEY: string;
+		CLOUDFLARE_API_TOKEN: string;
+		APPS_SCRIPT_ID: string;
+		AUTH_SECRET: string;
+		ADMIN_API_KEY: string;
+		Sandbox: DurableObjectNamespace /* Sandbox */;
+		RATE_LIMITER: DurableObjectNamespace /* RateLimiter */;
 	}
 }
 interface Env extends Cloudflare.Env {}